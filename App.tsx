@@ -0,0 +1,1647 @@
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Channel, ChannelStrip, HarmonyMode, MasterDNA, MixSettings, SectionDNA, SectionKey, SectionSettings } from './types';
+import { RECOMPOSE_INTERVAL, INITIAL_BPM, INITIAL_DNA, MIN_TEMPO, MAX_TEMPO } from './constants';
+import { validateDNA, summarizeFixes } from './services/dnaValidator';
+import { Composer, ComposerId } from './services/composer';
+import { GeminiComposer } from './services/geminiComposer';
+import { LocalComposer } from './services/localComposer';
+import { randomSeed } from './services/random';
+import { AudioEngine, DnaChangeOptions, DEFAULT_DNA_CHANGE, NoteLayer, Quantize } from './services/audioEngine';
+import { renderDNAToWav, DEFAULT_RENDER_BARS } from './services/offlineRender';
+import { WavBitDepth } from './services/wavEncoder';
+import { downloadBlob, slugify } from './services/download';
+import { dnaToMidi, parseMidi, midiToSection } from './services/midiFile';
+import { bestFitScale, chordName, formatScale, midiToName, parseScale, sectionNotes } from './services/theory';
+import { DnaLibrary, LibraryEntry, RecallPolicy, recallPool, loadRecallPolicy, saveRecallPolicy, buildShareUrl, readShareToken, decodeShare } from './services/dnaLibrary';
+import { LibraryPanel } from './components/LibraryPanel';
+import { StepSequencer } from './components/StepSequencer';
+import { Lane, LaneLocks, EMPTY_LOCKS, UndoStack, editStep, editGrid, mergeLocked } from './services/dnaEdit';
+import { Layer, LayerLocks, EMPTY_LAYER_LOCKS, lockPredicate, buildLockedContext, overlayLocked } from './services/locks';
+import { LayerLockBar } from './components/LayerLockBar';
+import { ArrangementTimeline } from './components/ArrangementTimeline';
+import { arrangementBars, playableArrangement } from './services/arrangement';
+import { Steering, SteeringFeedback, EMPTY_STEERING, isSteered } from './services/steering';
+import { SteeringPanel } from './components/SteeringPanel';
+import { MixerPanel } from './components/MixerPanel';
+import { editChannel, mixOf } from './services/mixer';
+import { KitLibrary, isAudioFile } from './services/drumKits';
+import { KitPanel } from './components/KitPanel';
+import { PaletteName, PercType } from './services/palettes';
+import { MidiBridge } from './services/webMidi';
+import { MidiPanel } from './components/MidiPanel';
+import { InputPanel } from './components/InputPanel';
+import { MUTE_ACTIONS, PerformanceControls, PerformanceEvent, TapTempo, liveNote } from './services/performance';
+import { PerformancePanel } from './components/PerformancePanel';
+import { Visualizer } from './services/visualizer';
+import { AudioInput } from './services/audioInput';
+import { InputCues } from './services/composer';
+import { BUDGET_OPTIONS, RequestCancelledError, RequestManager, TIMEOUT_OPTIONS, describeError, summarizeRequest } from './services/requestManager';
+import { VisualizerCanvas } from './components/VisualizerCanvas';
+import { VisualMirror, WindowSync, toWallClock } from './services/windowSync';
+import { ANCHOR_MS, JamAnchor, JamRole, JamSession, JamSettings, VoteChoice, alignEngine, anchorFor } from './services/jamSession';
+import { JamPanel } from './components/JamPanel';
+import { SessionPlayer, SessionRecorder, parseSession, renderSessionToWav, serializeSession, sessionToMidi, stepRandom } from './services/sessionRecorder';
+import { SessionPanel } from './components/SessionPanel';
+
+export function App() {
+  const [isActive, setIsActive] = useState(false);
+  const [bpm, setBpm] = useState(INITIAL_BPM); // The "Live" BPM
+  const [pendingBpm, setPendingBpm] = useState(INITIAL_BPM); // The "UI" BPM pending confirmation
+  const [dna, setDna] = useState<MasterDNA>(INITIAL_DNA);
+  const [status, setStatus] = useState('STANDBY');
+  const [mutationTimer, setMutationTimer] = useState(RECOMPOSE_INTERVAL / 1000);
+  const [currentStep, setCurrentStep] = useState(0);
+  const [currentSection, setCurrentSection] = useState<SectionKey>('A');
+  const [currentChord, setCurrentChord] = useState(0);
+  const [currentSlot, setCurrentSlot] = useState(0);
+  const [slotProgress, setSlotProgress] = useState(0);
+  const [morphProgress, setMorphProgress] = useState<number | null>(null);
+  const [dnaChange, setDnaChange] = useState<Required<DnaChangeOptions>>(DEFAULT_DNA_CHANGE);
+  const [tempoRampBars, setTempoRampBars] = useState(0);
+  const [showRaw, setShowRaw] = useState(false);
+  const [composerId, setComposerId] = useState<ComposerId>(process.env.API_KEY ? 'gemini' : 'local');
+  const [localSeed, setLocalSeed] = useState(0);
+  const [exportBars, setExportBars] = useState(DEFAULT_RENDER_BARS);
+  const [exportBits, setExportBits] = useState<WavBitDepth>(16);
+  const [exportSeed, setExportSeed] = useState(1);
+  const [isExporting, setIsExporting] = useState(false);
+  const [importTarget, setImportTarget] = useState<SectionKey>('A');
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [showMixer, setShowMixer] = useState(false);
+  const [showMidi, setShowMidi] = useState(false);
+  const [showInput, setShowInput] = useState(false);
+  const [showPerform, setShowPerform] = useState(false);
+  const [showJam, setShowJam] = useState(false);
+  const [showSession, setShowSession] = useState(false);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [mutedLayers, setMutedLayers] = useState<NoteLayer[]>([]);
+  const [libraryEntries, setLibraryEntries] = useState<LibraryEntry[]>([]);
+  const [recallPolicy, setRecallPolicy] = useState<RecallPolicy>(() => loadRecallPolicy());
+  const [editSection, setEditSection] = useState<SectionKey>('A');
+  const [locks, setLocks] = useState<LaneLocks>(EMPTY_LOCKS);
+  const [layerLocks, setLayerLocks] = useState<LayerLocks>(EMPTY_LAYER_LOCKS);
+  const [isComposing, setIsComposing] = useState(false);
+  const [steering, setSteering] = useState<Steering>(EMPTY_STEERING);
+  const [, setUndoVersion] = useState(0);
+  const [, setKitVersion] = useState(0);
+  const [, setMidiVersion] = useState(0);
+  const [, setControlsVersion] = useState(0);
+  const [, setRequestVersion] = useState(0);
+  const [, setInputVersion] = useState(0);
+  const [, setSyncVersion] = useState(0);
+  const [, setJamVersion] = useState(0);
+  const [, setSessionVersion] = useState(0);
+
+  // Widget specific states
+  // `?view=orb` is the popup opened by "Orb_Window"; it mirrors the dashboard's engine.
+  const [isMiniMode, setIsMiniMode] = useState(() => new URLSearchParams(window.location.search).get('view') === 'orb');
+  const [isEditingBpm, setIsEditingBpm] = useState(false);
+  const [tempBpm, setTempBpm] = useState(INITIAL_BPM.toString()); // For text input
+
+  const isActiveRef = useRef(false);
+  const bpmRef = useRef(INITIAL_BPM);
+  const dnaRef = useRef(INITIAL_DNA);
+  const longPressTimerRef = useRef<number | null>(null);
+  // Library entries generated since the BPM last changed (the "session" recall pool).
+  const sessionHistoryRef = useRef<{ bpm: number; ids: Set<string> }>({ bpm: INITIAL_BPM, ids: new Set() });
+  const recallCursorRef = useRef(-1);
+  const recallPolicyRef = useRef(recallPolicy);
+  const locksRef = useRef<LaneLocks>(EMPTY_LOCKS);
+  const layerLocksRef = useRef<LayerLocks>(EMPTY_LAYER_LOCKS);
+  const undoRef = useRef(new UndoStack<MasterDNA>());
+  // The slider step being dragged, while its edits still join one undo step.
+  const gestureRef = useRef<string | null>(null);
+  const composerIdRef = useRef<ComposerId>(process.env.API_KEY ? 'gemini' : 'local');
+  const riffRef = useRef<SectionDNA | null>(null);
+  const steeringRef = useRef<Steering>(EMPTY_STEERING);
+  const dnaChangeRef = useRef(DEFAULT_DNA_CHANGE);
+  const tempoRampBarsRef = useRef(0);
+  const midiInputRef = useRef<HTMLInputElement | null>(null);
+  const pulseRef = useRef<HTMLDivElement | null>(null);
+  const levelRef = useRef<HTMLDivElement | null>(null);
+  const mutedLayersRef = useRef<NoteLayer[]>([]);
+  const tapRef = useRef(new TapTempo());
+  const wasLeaderRef = useRef(true);
+  const jamSeedRef = useRef<number | null>(null);
+  const playerRef = useRef<SessionPlayer | null>(null);
+
+  const localComposer = useMemo(() => new LocalComposer(), []);
+  const composers = useMemo<Record<ComposerId, Composer>>(() => ({
+    gemini: new GeminiComposer(process.env.API_KEY),
+    local: localComposer
+  }), [localComposer]);
+
+  useEffect(() => { setLocalSeed(localComposer.getSeed()); }, [localComposer]);
+
+  const selectComposer = (id: ComposerId) => {
+    setComposerId(id);
+    composerIdRef.current = id;
+  };
+
+  const reseedLocal = (seed: number) => {
+    localComposer.setSeed(seed);
+    setLocalSeed(localComposer.getSeed());
+  };
+
+  const library = useMemo(() => new DnaLibrary(), []);
+
+  useEffect(() => {
+    setLibraryEntries(library.list());
+    return library.subscribe(entries => setLibraryEntries([...entries]));
+  }, [library]);
+
+  const updateRecallPolicy = (policy: RecallPolicy) => {
+    setRecallPolicy(policy);
+    recallPolicyRef.current = policy;
+    saveRecallPolicy(policy);
+  };
+
+  // The engine outlives renders; it is created once and fed through setters.
+  const kits = useMemo(() => new KitLibrary(), []);
+  const engine = useMemo(() => new AudioEngine({ samples: kits }), [kits]);
+  const midi = useMemo(() => new MidiBridge(), []);
+  const controls = useMemo(() => new PerformanceControls(), []);
+  const visualizer = useMemo(() => new Visualizer(engine), [engine]);
+  const requests = useMemo(() => new RequestManager(), []);
+  const input = useMemo(() => new AudioInput(), []);
+  const sync = useMemo(() => new WindowSync(), []);
+  const mirror = useMemo(() => new VisualMirror(), []);
+  const jam = useMemo(() => new JamSession(), []);
+  const recorder = useMemo(() => new SessionRecorder(engine), [engine]);
+
+  useEffect(() => engine.onStep(({ stepIdx, section, chord, slot, slotProgress, morph }) => {
+    setCurrentStep(stepIdx);
+    setCurrentSection(section);
+    setCurrentChord(chord);
+    setCurrentSlot(slot);
+    setSlotProgress(slotProgress);
+    setMorphProgress(morph);
+  }), [engine]);
+
+  // Edits reach the engine at once; new material (`quantized`) waits for the next boundary / morphs in.
+  const applyDna = (next: MasterDNA, quantized = false) => {
+    // A jam guest's edits are proposals; what it hears comes from the host.
+    if (jam.isGuest()) {
+      jam.propose(next);
+      setStatus('JAM_PROPOSAL_SENT');
+      return;
+    }
+    setDna(next);
+    dnaRef.current = next;
+    // A mirroring window hands its edits to the window that owns the engine.
+    if (!sync.isLeader()) sync.send({ type: 'dna', dna: next });
+    else if (quantized) engine.queueDNA(next, dnaChangeRef.current);
+    else engine.setDNA(next);
+    jam.publishDna(next, quantized ? dnaChangeRef.current : null);
+  };
+
+  const updateDnaChange = (patch: Partial<DnaChangeOptions>) => {
+    const next = { ...dnaChangeRef.current, ...patch };
+    setDnaChange(next);
+    dnaChangeRef.current = next;
+  };
+
+  const updateTempoRamp = (bars: number) => {
+    setTempoRampBars(bars);
+    tempoRampBarsRef.current = bars;
+  };
+
+  // Steering applies from the next generation; it does not trigger one by itself.
+  const updateSteering = (patch: Partial<Steering>) => {
+    const next = { ...steeringRef.current, ...patch };
+    setSteering(next);
+    steeringRef.current = next;
+    recorder.action('steer', patch);
+  };
+
+  // Composer output replaces the DNA except for lanes the user locked; it is one more undo step.
+  const isLocked = () => lockPredicate(layerLocksRef.current, locksRef.current);
+
+  const applyComposedDna = (next: MasterDNA) => {
+    // The mix belongs to the session, not the composition: new material plays through the current mixer.
+    const merged = mergeLocked({ ...next, mix: dnaRef.current.mix }, dnaRef.current, isLocked());
+    undoRef.current.push(dnaRef.current);
+    gestureRef.current = null;
+    setUndoVersion(v => v + 1);
+    applyDna(merged, true);
+    return merged;
+  };
+
+  // Every tempo change goes through here: a reply composed for the old speed must not land after it.
+  const applyBpm = (next: number) => {
+    if (next !== bpmRef.current) requests.cancel('bpm changed');
+    bpmRef.current = next;
+    if (!sync.isLeader()) {
+      sync.send({ type: 'bpm', bpm: next });
+      return;
+    }
+    // A jam guest plays at the host's tempo; the next anchor sets it back.
+    if (jam.isGuest()) {
+      setStatus('JAM_TEMPO_FOLLOWS_HOST');
+      return;
+    }
+    engine.setTempo(next, tempoRampBarsRef.current);
+  };
+
+  // Tempo set from outside the BPM controls (external clock, nudges, tap tempo) goes live at once.
+  const setLiveBpm = (next: number) => {
+    const clamped = Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, next));
+    setBpm(clamped);
+    setPendingBpm(clamped);
+    applyBpm(clamped);
+  };
+
+  // `force` skips the active check and the recall policy (manual "remix" requests).
+  // `feedback` asks the composer to stay close to, or move away from, the playing DNA.
+  // One composition at a time: timer ticks skip while a request is in flight, forced ones replace it.
+  const fetchNewDNA = async (force = false, feedback?: SteeringFeedback) => {
+    // Only the leading window composes; a forced request from a mirror is passed on to it.
+    if (!sync.isLeader()) {
+      if (force) sync.send({ type: 'regenerate', feedback });
+      return;
+    }
+    // In a jam only the host composes; a guest's remix is a vote.
+    if (jam.isGuest()) {
+      if (force) {
+        jam.vote(feedback ?? 'fresh');
+        setStatus('JAM_VOTE_SENT');
+      }
+      return;
+    }
+    if (!isActiveRef.current && !force) return;
+    if (requests.busy && !force) return;
+    // The room's votes steer the regeneration they asked for, which skips the recall pool.
+    const voted = jam.isHost() ? jam.takeVote() : null;
+    if (voted) {
+      force = true;
+      feedback = feedback ?? (voted === 'fresh' ? undefined : voted);
+    }
+
+    const currentBpm = bpmRef.current;
+
+    // Reset session history if BPM changed
+    if (sessionHistoryRef.current.bpm !== currentBpm) {
+      sessionHistoryRef.current = { bpm: currentBpm, ids: new Set() };
+      recallCursorRef.current = -1;
+    }
+
+    // Recycle stored DNA once the recall policy's pool is full
+    const pool = recallPool(library.list(), recallPolicyRef.current, currentBpm, sessionHistoryRef.current.ids);
+    // A steered request needs a fresh generation, so the pool is skipped.
+    if (pool.length > 0 && !force && !isSteered(steeringRef.current)) {
+      setMutationTimer(RECOMPOSE_INTERVAL / 1000);
+
+      const nextIndex = (recallCursorRef.current + 1) % pool.length;
+      recallCursorRef.current = nextIndex;
+      const cachedDna = pool[nextIndex].dna;
+
+      applyComposedDna(cachedDna);
+      recorder.action('recall', { genre: cachedDna.genre });
+      setStatus(`${cachedDna.genre.toUpperCase()} (CACHED)`);
+      return;
+    }
+
+    setStatus('CALCULATING...');
+    setMutationTimer(RECOMPOSE_INTERVAL / 1000);
+    setIsComposing(true);
+    const locked = isLocked();
+    const lockedContext = buildLockedContext(dnaRef.current, locked);
+    const request = {
+      bpm: currentBpm,
+      riff: riffRef.current ?? undefined,
+      locked: lockedContext,
+      steering: steeringRef.current,
+      previous: dnaRef.current,
+      feedback,
+      input: inputCues()
+    };
+    try {
+      const composer = composers[composerIdRef.current];
+      let res: unknown;
+      let usedFallback = false;
+      let fallbackReason = '';
+      try {
+        res = await requests.run(signal => composer.compose({ ...request, signal }), { budgeted: composer.id !== 'local' });
+      } catch (e) {
+        if (composer.id === 'local' || e instanceof RequestCancelledError) throw e;
+        // Keep the music evolving offline; the local generator never needs the network.
+        console.error("AI Generation Failed, falling back to local composer:", e);
+        fallbackReason = describeError(e);
+        res = await requests.run(signal => composers.local.compose({ ...request, signal }), { budgeted: false });
+        usedFallback = true;
+      }
+      const { dna: mergedDna, fixes } = validateDNA(overlayLocked(res, dnaRef.current, locked, lockedContext), INITIAL_DNA);
+      console.log(`${usedFallback ? 'Local Fallback' : 'AI Generation'} Success:`, res);
+      if (fixes.length) console.warn("AI DNA repaired:", fixes);
+
+      // The riff has been handed over; later generations evolve freely.
+      riffRef.current = null;
+
+      // Persist to the library and count it towards this BPM's session pool
+      const entry = library.add(mergedDna, currentBpm, usedFallback ? 'local' : composer.id);
+      sessionHistoryRef.current.ids.add(entry.id);
+      recallCursorRef.current = sessionHistoryRef.current.ids.size - 1;
+
+      applyComposedDna(mergedDna);
+      recorder.action('compose', { composer: usedFallback ? 'local' : composer.id, genre: mergedDna.genre, aiThought: mergedDna.aiThought ?? null });
+      const label = `${mergedDna.genre.toUpperCase()}${usedFallback ? ` (LOCAL_FALLBACK // ${fallbackReason})` : ''}`;
+      setStatus(fixes.length ? `${label} // ${summarizeFixes(fixes)}` : label);
+    } catch (e) {
+      // A cancelled request was overtaken by newer state; its reply is dropped without a word.
+      if (e instanceof RequestCancelledError) return;
+      console.error("AI Generation Failed:", e);
+      setStatus('THINKING_FAILED');
+    } finally {
+      // A request that superseded this one is still composing.
+      setIsComposing(requests.busy);
+    }
+  };
+
+  useEffect(() => {
+    let int: number, tInt: number;
+    if (isActive) {
+      int = window.setInterval(() => fetchNewDNA(), RECOMPOSE_INTERVAL);
+      tInt = window.setInterval(() => setMutationTimer(t => Math.max(0, t - 1)), 1000);
+    }
+    return () => { clearInterval(int); clearInterval(tInt); };
+  }, [isActive]);
+
+  // The orb pulse and level bar follow the analyser by direct style writes, outside React renders.
+  useEffect(() => visualizer.onFrame(({ level }) => {
+    if (pulseRef.current) pulseRef.current.style.transform = `scale(${1 + level * 1.5})`;
+    if (levelRef.current) {
+      levelRef.current.style.height = `${Math.min(1, level) * 100}%`;
+      levelRef.current.style.opacity = `${0.1 + level}`;
+    }
+  }), [visualizer]);
+
+  useEffect(() => visualizer.setColor(dna.color), [visualizer, dna.color]);
+
+  const toggle = async () => {
+    if (!sync.isLeader()) {
+      sync.send({ type: 'transport', playing: !isActiveRef.current });
+      return;
+    }
+    await engine.init();
+    kits.attach(engine.context!);
+    // A jam guest starts and stops with the host; the click only unlocks audio here.
+    if (jam.isGuest()) {
+      setStatus('JAM_TRANSPORT_FOLLOWS_HOST');
+      return;
+    }
+    if (isActive) {
+      setIsActive(false); isActiveRef.current = false;
+      requests.cancel('stopped');
+      engine.stop();
+      midi.stop();
+    } else {
+      setIsActive(true); isActiveRef.current = true;
+      stopReplay();
+      midi.start();
+      engine.start();
+      fetchNewDNA();
+    }
+  };
+
+  const exportWav = async () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    setStatus('RENDERING_WAV...');
+    try {
+      const current = dnaRef.current;
+      const liveBpm = bpmRef.current;
+      // 0 bars = the whole arrangement once through.
+      const bars = exportBars || arrangementBars(playableArrangement(current));
+      const blob = await renderDNAToWav({ dna: current, bpm: liveBpm, bars, seed: exportSeed, bitDepth: exportBits, samples: kits });
+      downloadBlob(blob, `${slugify(current.genre)}-${liveBpm}bpm-seed${exportSeed}-${exportBits}bit.wav`);
+      setStatus('WAV_EXPORTED');
+    } catch (e) {
+      console.error("WAV Export Failed:", e);
+      setStatus('EXPORT_FAILED');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportMidi = () => {
+    const current = dnaRef.current;
+    const bytes = dnaToMidi(current, bpmRef.current);
+    downloadBlob(new Blob([bytes], { type: 'audio/midi' }), `${slugify(current.genre)}-${bpmRef.current}bpm.mid`);
+    setStatus('MIDI_EXPORTED');
+  };
+
+  const importMidi = async (file: File) => {
+    try {
+      const parsed = parseMidi(new Uint8Array(await file.arrayBuffer()));
+      const riff = midiToSection(parsed);
+      const current = dnaRef.current;
+      // Re-key the DNA to the riff so validation snaps the other section instead of the human notes.
+      const notes = sectionNotes(riff);
+      const scale = notes.length ? formatScale(bestFitScale(notes)) : current.scale;
+      const { dna: next, fixes } = validateDNA({ ...current, scale, sections: { ...current.sections, [riffTarget]: riff } }, current);
+      riffRef.current = next.sections[riffTarget];
+      applyDna(next);
+      if (fixes.length) console.warn("Imported MIDI repaired:", fixes);
+      setStatus(`MIDI_IMPORTED → ${riffTarget}${parsed.bpm ? ` (FILE ${parsed.bpm} BPM)` : ''}`);
+    } catch (e) {
+      console.error("MIDI Import Failed:", e);
+      setStatus('IMPORT_FAILED');
+    }
+  };
+
+  const loadEntry = (entry: LibraryEntry) => {
+    recorder.action('library-load', { id: entry.id, genre: entry.genre, bpm: entry.bpm });
+    applyDna(entry.dna, true);
+    setBpm(entry.bpm);
+    setPendingBpm(entry.bpm);
+    applyBpm(entry.bpm);
+    setStatus(`${entry.genre.toUpperCase()} (LIBRARY)`);
+  };
+
+  const shareEntry = async (entry: LibraryEntry) => {
+    try {
+      const url = await buildShareUrl({ dna: entry.dna, bpm: entry.bpm });
+      await navigator.clipboard.writeText(url);
+      setStatus('SHARE_LINK_COPIED');
+    } catch (e) {
+      console.error("Share Link Failed:", e);
+      setStatus('SHARE_FAILED');
+    }
+  };
+
+  // Reconstruct a DNA from a #dna= share link on first load
+  useEffect(() => {
+    const token = readShareToken();
+    if (!token) return;
+    // Imported once: a reload or a copied tab URL must not add the same entry again.
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    decodeShare(token)
+      .then(({ dna: shared, bpm: sharedBpm }) => {
+        loadEntry(library.add(shared, sharedBpm, 'share'));
+        setStatus('SHARED_DNA_LOADED');
+      })
+      .catch(e => {
+        console.error("Share Link Invalid:", e);
+        setStatus('SHARE_LINK_INVALID');
+      });
+  }, [library]);
+
+  // --- Sequencer Editing ---
+
+  const updateLocks = (next: LaneLocks) => {
+    setLocks(next);
+    locksRef.current = next;
+    recorder.action('lane-locks', next);
+  };
+
+  const updateLayerLocks = (next: LayerLocks) => {
+    setLayerLocks(next);
+    layerLocksRef.current = next;
+    recorder.action('layer-locks', next);
+    if (jam.isHost()) jam.publishLocks(next);
+  };
+
+  // A jam guest asks the host; the locks come back with the host's session.
+  const requestLayerLocks = (next: LayerLocks) => {
+    if (jam.isGuest()) {
+      jam.requestLocks(next);
+      setStatus('JAM_LOCK_REQUESTED');
+    } else {
+      updateLayerLocks(next);
+    }
+  };
+
+  const toggleLayerLock = (layer: Layer) => {
+    const current = layerLocksRef.current;
+    requestLayerLocks({ ...current, layers: { ...current.layers, [layer]: !current.layers[layer] } });
+  };
+
+  const toggleSectionLock = (key: SectionKey) => {
+    const current = layerLocksRef.current;
+    requestLayerLocks({ ...current, sections: { ...current.sections, [key]: !current.sections[key] } });
+  };
+
+  const toggleLock = (key: SectionKey, lane: Lane) => {
+    const current = locksRef.current;
+    updateLocks({ ...current, [key]: { ...current[key], [lane]: !current[key]?.[lane] } });
+  };
+
+  // The first move of a slider drag records the undo step; the rest of the drag joins it.
+  const recordUndo = (gesture: string | null) => {
+    if (!gesture || gestureRef.current !== gesture) {
+      undoRef.current.push(dnaRef.current);
+      setUndoVersion(v => v + 1);
+    }
+    gestureRef.current = gesture;
+  };
+
+  const editDna = (key: SectionKey, lane: Lane, idx: number, value: number | null, gesture = false) => {
+    const current = dnaRef.current;
+    recordUndo(gesture ? `${key}/${lane}/${idx}` : null);
+    // The engine reads dnaRef's copy per step, so the edit sounds from the next scheduled step.
+    applyDna(editStep(current, key, lane, idx, value));
+    // Touched lanes lock automatically so the next recompose keeps the user's work.
+    if (!locksRef.current[key]?.[lane]) toggleLock(key, lane);
+  };
+
+  const editSectionGrid = (key: SectionKey, patch: Partial<SectionSettings>, gesture = false) => {
+    const current = dnaRef.current;
+    recordUndo(gesture ? `${key}/grid` : null);
+    applyDna(editGrid(current, key, patch));
+  };
+
+  const editHarmony = (harmony: HarmonyMode) => {
+    const current = dnaRef.current;
+    recordUndo(null);
+    applyDna({ ...current, harmony });
+  };
+
+  // --- Mixer ---
+  // Mixer moves are heard at once and stay out of the undo history (sliders would flood it).
+
+  // A jam guest mixes the host's music for its own speakers; nothing is proposed.
+  const applyMix = (mix: MixSettings) => {
+    const next = { ...dnaRef.current, mix };
+    if (!jam.isGuest()) return applyDna(next);
+    setDna(next);
+    dnaRef.current = next;
+    engine.setDNA(next);
+  };
+
+  const editMix = (patch: Partial<MixSettings>) => {
+    applyMix({ ...mixOf(dnaRef.current.mix), ...patch });
+  };
+
+  const editMixChannel = (channel: Channel, patch: Partial<ChannelStrip>) => {
+    applyMix(editChannel(mixOf(dnaRef.current.mix), channel, patch));
+  };
+
+  useEffect(() => kits.subscribe(() => setKitVersion(v => v + 1)), [kits]);
+  useEffect(() => requests.subscribe(() => setRequestVersion(v => v + 1)), [requests]);
+
+  // --- MIDI ---
+  // The bridge listens to the engine's scheduler; a followed clock drives the tempo and transport.
+  useEffect(() => midi.bind(engine), [midi, engine]);
+  useEffect(() => midi.subscribe(() => setMidiVersion(v => v + 1)), [midi]);
+
+  useEffect(() => midi.onTempo(setLiveBpm), [midi]);
+
+  // --- Audio Input ---
+  // A live instrument (or an analysed file) can take over the tempo and key and push the energy.
+  useEffect(() => input.subscribe(() => setInputVersion(v => v + 1)), [input]);
+  useEffect(() => () => input.stop(), [input]);
+
+  // What the composers hear about the input, limited to what the user lets it follow.
+  const inputCues = (): InputCues | undefined => {
+    const reading = input.getReading();
+    if (!reading) return undefined;
+    const follow = input.getFollow();
+    return {
+      scale: follow.key ? reading.scale ?? undefined : undefined,
+      loudness: follow.energy ? reading.loudness : undefined
+    };
+  };
+
+  useEffect(() => input.onReading(reading => {
+    const follow = input.getFollow();
+    if (follow.tempo && reading.bpm !== null && reading.bpm !== bpmRef.current) setLiveBpm(reading.bpm);
+    if (follow.key && reading.scale && reading.scale !== dnaRef.current.scale) {
+      // The playing parts snap to the new key at once; a fresh composition brings chords that fit.
+      applyDna({ ...dnaRef.current, scale: reading.scale });
+      setStatus(`INPUT_KEY_→_${reading.scale.toUpperCase().replace(' ', '_')}`);
+      if (isActiveRef.current) fetchNewDNA(true);
+    }
+  }), [input]);
+
+  const listenToInput = async () => {
+    await engine.init();
+    input.listen(engine.context!);
+  };
+
+  const analyzeInputFile = async (file: File) => {
+    await engine.init();
+    try {
+      const reading = await input.analyzeFile(engine.context!, await file.arrayBuffer());
+      if (reading.bpm === null && reading.scale === null) setStatus('INPUT_FILE_NO_TEMPO_OR_KEY');
+    } catch (e) {
+      console.error('Input file analysis failed:', e);
+      setStatus('INPUT_FILE_UNREADABLE');
+    }
+  };
+
+  useEffect(() => midi.onTransport(playing => {
+    if (playing !== isActiveRef.current) toggle();
+  }));
+
+  // --- Window Sync ---
+  // The leading window runs the engine and publishes its state; the others mirror it and send
+  // transport, regenerate, tempo and DNA edits back through the commands above.
+  useEffect(() => {
+    sync.publishState({ dna, bpm, currentStep, currentSection, status, isActive });
+  }, [sync, dna, bpm, currentStep, currentSection, status, isActive]);
+
+  useEffect(() => sync.onState(state => {
+    setDna(state.dna);
+    dnaRef.current = state.dna;
+    // An unconfirmed slider move in this window survives until the tempo actually changes.
+    if (state.bpm !== bpmRef.current) setPendingBpm(state.bpm);
+    setBpm(state.bpm);
+    bpmRef.current = state.bpm;
+    setCurrentStep(state.currentStep);
+    setCurrentSection(state.currentSection);
+    setStatus(state.status);
+    setIsActive(state.isActive);
+    isActiveRef.current = state.isActive;
+  }), [sync]);
+
+  useEffect(() => sync.onCommand(command => {
+    switch (command.type) {
+      case 'transport': if (command.playing !== isActiveRef.current) toggle(); break;
+      case 'regenerate': fetchNewDNA(true, command.feedback); break;
+      case 'bpm': setLiveBpm(command.bpm); break;
+      case 'dna': applyDna(command.dna); break;
+    }
+  }));
+
+  useEffect(() => sync.onVisuals(visuals => mirror.push(visuals)), [sync, mirror]);
+  useEffect(() => engine.onNote(note => {
+    if (engine.context) sync.publishNotes([toWallClock(note, engine.context)]);
+  }), [engine, sync]);
+  useEffect(() => visualizer.onFrame(({ spectrum, waveform }) => sync.publishFrame(spectrum, waveform)), [visualizer, sync]);
+
+  // Taking over picks up from the last mirrored state; handing off silences this window's engine.
+  const followRole = async () => {
+    setSyncVersion(v => v + 1);
+    const leader = sync.isLeader();
+    if (leader === wasLeaderRef.current) return;
+    wasLeaderRef.current = leader;
+    visualizer.setSource(leader ? engine : mirror);
+    if (!leader) {
+      jam.leave();
+      requests.cancel('handed over');
+      if (engine.isRunning) { engine.stop(); midi.stop(); }
+      return;
+    }
+    engine.setDNA(dnaRef.current);
+    if (!isActiveRef.current) return;
+    await engine.init();
+    kits.attach(engine.context!);
+    applyBpm(bpmRef.current);
+    midi.start();
+    engine.start();
+    setStatus('ENGINE_TAKEN_OVER');
+  };
+
+  useEffect(() => {
+    followRole();
+    return sync.subscribe(followRole);
+  }, [sync]);
+
+  useEffect(() => {
+    const leave = () => sync.close();
+    window.addEventListener('pagehide', leave);
+    return () => {
+      window.removeEventListener('pagehide', leave);
+      leave();
+    };
+  }, [sync]);
+
+  // --- Jam Session ---
+  // The host publishes its DNA, locks and playhead to the room and each guest lines its own engine
+  // up with them. Both roll their dice from the session seed, so probabilistic hits land alike.
+  const jamHosting = jam.isHost();
+
+  useEffect(() => jam.subscribe(() => {
+    setJamVersion(v => v + 1);
+    const seed = jam.getStatus() === 'connected' ? jam.getSeed() : null;
+    if (seed === jamSeedRef.current) return;
+    jamSeedRef.current = seed;
+    // A take keeps seeded dice, so leaving the room mid-take only changes the seed.
+    if (recorder.isRecording) recorder.reseed(seed ?? randomSeed());
+    else engine.setRandom(seed === null ? Math.random : stepRandom(seed, engine));
+  }), [jam, engine, recorder]);
+
+  const publishTransport = () => jam.publishTransport(isActiveRef.current, anchorFor(engine, jam.sharedNow()));
+
+  useEffect(() => {
+    if (!jamHosting) return;
+    publishTransport();
+    if (!isActive) return;
+    const timer = window.setInterval(publishTransport, ANCHOR_MS);
+    return () => clearInterval(timer);
+  }, [jamHosting, isActive]);
+
+  // A majority regenerates at once; fewer votes wait for the next scheduled regeneration.
+  const settleVotes = () => {
+    if (jam.hasMajority() && isActiveRef.current) fetchNewDNA(true);
+  };
+
+  const voteJam = (choice: VoteChoice) => {
+    recorder.action('vote', choice);
+    jam.vote(choice);
+    if (jam.isHost()) settleVotes();
+    else setStatus('JAM_VOTE_SENT');
+  };
+
+  useEffect(() => jam.onJoin(peer => {
+    jam.publishDna(dnaRef.current, null);
+    jam.publishLocks(layerLocksRef.current);
+    publishTransport();
+    setStatus(`JAM_${(peer.name || peer.id).toUpperCase()}_JOINED`);
+  }));
+
+  useEffect(() => jam.onRequest((request, from) => {
+    const who = (from.name || from.id).toUpperCase();
+    switch (request.type) {
+      case 'propose': setStatus(`JAM_PROPOSAL_FROM_${who}`); break;
+      case 'vote': settleVotes(); break;
+      case 'lock': updateLayerLocks(request.locks); setStatus(`JAM_LOCKS_BY_${who}`); break;
+    }
+  }));
+
+  const followHost = (playing: boolean, anchor: JamAnchor | null) => {
+    if (!playing || !anchor) {
+      if (engine.isRunning) { engine.stop(); midi.stop(); }
+      setIsActive(false); isActiveRef.current = false;
+      return;
+    }
+    // Lining up needs the relay clock and an unlocked audio context (Connect or Play unlock it).
+    if (!engine.context || !jam.getClock()) return;
+    setBpm(anchor.bpm);
+    setPendingBpm(anchor.bpm);
+    bpmRef.current = anchor.bpm;
+    if (alignEngine(engine, anchor, jam.sharedNow()) === 'started') {
+      midi.start();
+      setIsActive(true); isActiveRef.current = true;
+      setStatus('JAM_IN_SYNC');
+    }
+  };
+
+  useEffect(() => jam.onBroadcast(message => {
+    switch (message.type) {
+      case 'dna': {
+        // The host's music through this window's own mixer.
+        const { dna: next } = validateDNA({ ...message.dna, mix: dnaRef.current.mix }, dnaRef.current);
+        setDna(next);
+        dnaRef.current = next;
+        if (message.change) {
+          engine.queueDNA(next, message.change);
+          setStatus(`${next.genre.toUpperCase()} (JAM_HOST)`);
+        } else {
+          engine.setDNA(next);
+        }
+        break;
+      }
+      case 'transport': followHost(message.playing, message.anchor); break;
+      case 'session': setLayerLocks(message.locks); layerLocksRef.current = message.locks; break;
+    }
+  }));
+
+  const connectJam = async (settings: JamSettings, role: JamRole) => {
+    // The click unlocks audio, so a guest can start on the host's first anchor.
+    await engine.init();
+    kits.attach(engine.context!);
+    jam.connect(settings, role);
+  };
+
+  const leaveJam = () => {
+    jam.leave();
+    setStatus('JAM_LEFT');
+  };
+
+  const acceptProposal = (id: number) => {
+    const proposed = jam.accept(id);
+    if (!proposed) return;
+    const { dna: next, fixes } = validateDNA(proposed, dnaRef.current);
+    if (fixes.length) console.warn('Jam proposal repaired:', fixes);
+    undoRef.current.push(dnaRef.current);
+    setUndoVersion(v => v + 1);
+    applyDna(next);
+    setStatus('JAM_PROPOSAL_ACCEPTED');
+  };
+
+  useEffect(() => () => jam.leave(), [jam]);
+
+  // --- Session Recording ---
+  // The recorder logs what the engine is told to play, plus the actions below; a replay plays the
+  // take through its own engine with the recorded seed, so live playback stops for it.
+
+  useEffect(() => recorder.subscribe(() => setSessionVersion(v => v + 1)), [recorder]);
+
+  const startRecording = async () => {
+    await engine.init();
+    kits.attach(engine.context!);
+    // In a jam the dice already follow the room's seed; the take keeps it.
+    recorder.start(jamSeedRef.current ?? undefined);
+    setStatus('RECORDING_SESSION');
+  };
+
+  const stopRecording = () => {
+    const session = recorder.stop();
+    setStatus(`SESSION_RECORDED // ${session?.events.length ?? 0}_EVENTS`);
+  };
+
+  const stopReplay = () => {
+    playerRef.current?.stop();
+    playerRef.current = null;
+    setIsReplaying(false);
+  };
+
+  const replaySession = async () => {
+    const session = recorder.getSession();
+    if (!session || playerRef.current) return;
+    if (isActiveRef.current) await toggle();
+    await engine.init();
+    const ctx = engine.context!;
+    kits.attach(ctx);
+    const player = new SessionPlayer(session, ctx, { samples: kits, offset: ctx.currentTime + 0.1 });
+    playerRef.current = player;
+    setIsReplaying(true);
+    setStatus('REPLAYING_SESSION');
+    await player.init();
+    player.play(() => {
+      if (playerRef.current !== player) return;
+      stopReplay();
+      setStatus('REPLAY_FINISHED');
+    });
+  };
+
+  const sessionName = () => {
+    const session = recorder.getSession()!;
+    return `${slugify(session.start.dna.genre)}-session-seed${session.seed}`;
+  };
+
+  const exportSessionJson = () => {
+    const session = recorder.getSession();
+    if (!session) return;
+    downloadBlob(new Blob([serializeSession(session)], { type: 'application/json' }), `${sessionName()}.json`);
+    setStatus('SESSION_EXPORTED');
+  };
+
+  const exportSessionWav = async () => {
+    const session = recorder.getSession();
+    if (!session || isExporting) return;
+    setIsExporting(true);
+    setStatus('RENDERING_SESSION...');
+    try {
+      const blob = await renderSessionToWav(session, { bitDepth: exportBits, samples: kits });
+      downloadBlob(blob, `${sessionName()}-${exportBits}bit.wav`);
+      setStatus('WAV_EXPORTED');
+    } catch (e) {
+      console.error("Session Render Failed:", e);
+      setStatus('EXPORT_FAILED');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const exportSessionMidi = async () => {
+    const session = recorder.getSession();
+    if (!session || isExporting) return;
+    setIsExporting(true);
+    try {
+      const bytes = await sessionToMidi(session);
+      downloadBlob(new Blob([bytes], { type: 'audio/midi' }), `${sessionName()}.mid`);
+      setStatus('MIDI_EXPORTED');
+    } catch (e) {
+      console.error("Session MIDI Export Failed:", e);
+      setStatus('EXPORT_FAILED');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const loadSession = async (file: File) => {
+    try {
+      recorder.load(parseSession(JSON.parse(await file.text())));
+      setStatus('SESSION_LOADED');
+    } catch (e) {
+      console.error("Session Load Failed:", e);
+      setStatus('SESSION_INVALID');
+    }
+  };
+
+  const openOrbWindow = () => {
+    const url = new URL(window.location.href);
+    url.search = '?view=orb';
+    url.hash = '';
+    window.open(url.toString(), 'neural-strudel-orb', 'popup,width=480,height=480');
+  };
+
+  // --- Performance ---
+  // Keys and MIDI controls run the same actions; whatever they don't claim plays the lead live.
+  useEffect(() => controls.subscribe(() => setControlsVersion(v => v + 1)), [controls]);
+
+  const toggleLayerMute = (layer: NoteLayer) => {
+    const current = mutedLayersRef.current;
+    const next = current.includes(layer) ? current.filter(l => l !== layer) : [...current, layer];
+    setMutedLayers(next);
+    mutedLayersRef.current = next;
+    engine.setMutedLayers(next);
+  };
+
+  const jumpTo = (index: number) => {
+    const key = Object.keys(dnaRef.current.sections)[index];
+    setStatus(key && engine.jumpToSection(key) ? `JUMP_→_${key}` : 'SECTION_NOT_IN_ARRANGEMENT');
+  };
+
+  const perform = (event: PerformanceEvent) => {
+    recorder.action('perform', event);
+    if (event.kind !== 'action') {
+      const current = dnaRef.current;
+      const scale = parseScale(current.scale) ?? bestFitScale(sectionNotes(current.sections[Object.keys(current.sections)[0]]));
+      engine.playLive(liveNote(event, scale), event.kind === 'note' ? event.velocity : 0.8);
+      return;
+    }
+    const layer = MUTE_ACTIONS[event.action];
+    if (layer) return toggleLayerMute(layer);
+    switch (event.action) {
+      case 'transport': toggle(); break;
+      case 'regenerate': fetchNewDNA(true); break;
+      case 'jumpA': jumpTo(0); break;
+      case 'jumpB': jumpTo(1); break;
+      case 'bpmDown': setLiveBpm(bpmRef.current - 1); break;
+      case 'bpmUp': setLiveBpm(bpmRef.current + 1); break;
+      case 'tap': {
+        const tapped = tapRef.current.tap(performance.now());
+        if (tapped) setLiveBpm(tapped);
+        break;
+      }
+    }
+  };
+
+  useEffect(() => midi.onMessage(data => {
+    const event = controls.handleMidi(data);
+    if (event) perform(event);
+  }));
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey || e.repeat) return;
+      const target = e.target;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return;
+      const learning = controls.getLearning() !== null;
+      const event = controls.handleKey(e.key);
+      if (!event && !learning) return;
+      e.preventDefault();
+      // Otherwise the focused button would also react (Space / Enter click it).
+      if (target instanceof HTMLButtonElement) target.blur();
+      if (event) perform(event);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const dropKitFiles = (files: File[], voice?: PercType) => {
+    const audio = files.filter(isAudioFile);
+    // A file dropped on a slot goes there; several files (or one on the kit) are mapped by name.
+    const placed = audio.map(file => kits.setUserSample(file, audio.length === 1 ? voice : undefined));
+    const skipped = placed.filter(p => p === null).length;
+    setStatus(skipped ? `KIT_LOADED_${placed.length - skipped} // ${skipped}_UNMATCHED` : `KIT_LOADED_${placed.length}`);
+  };
+
+  const undo = () => {
+    recorder.action('undo');
+    gestureRef.current = null;
+    const prev = undoRef.current.undo(dnaRef.current);
+    if (prev) { applyDna(prev); setUndoVersion(v => v + 1); }
+  };
+
+  const redo = () => {
+    recorder.action('redo');
+    gestureRef.current = null;
+    const next = undoRef.current.redo(dnaRef.current);
+    if (next) { applyDna(next); setUndoVersion(v => v + 1); }
+  };
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      e.preventDefault();
+      if (e.shiftKey) redo(); else undo();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  // BPM Control Logic for Widget
+  const handleLongPress = (direction: number) => {
+    if (longPressTimerRef.current) return;
+    longPressTimerRef.current = window.setInterval(() => {
+      const next = Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, bpmRef.current + direction));
+      setBpm(next);
+      applyBpm(next);
+    }, 60);
+  };
+
+  const stopLongPress = () => {
+    if (longPressTimerRef.current) {
+      clearInterval(longPressTimerRef.current);
+      longPressTimerRef.current = null;
+    }
+  };
+
+  const handleManualBpm = (e: React.FormEvent) => {
+    e.preventDefault();
+    const typed = parseInt(tempBpm);
+    if (!isNaN(typed)) {
+      const val = Math.max(MIN_TEMPO, Math.min(MAX_TEMPO, typed));
+      setPendingBpm(val); // Set pending instead of live
+      // Auto-confirm for direct text input? Maybe yes, maybe no. Let's make it consistent: user must confirm.
+      // Or for mini-mode, maybe auto-confirm is better UX? Let's auto-confirm for mini-mode direct input for now as there is no space for confirm button.
+      setBpm(val);
+      applyBpm(val);
+    }
+    setIsEditingBpm(false);
+  };
+
+  // Section names change with every composition; a vanished name falls back to the first section.
+  const sectionKeys = Object.keys(dna.sections);
+  const shownSection = dna.sections[editSection] ? editSection : sectionKeys[0];
+  const riffTarget = dna.sections[importTarget] ? importTarget : sectionKeys[0];
+  const playing = dna.sections[currentSection] ?? dna.sections[sectionKeys[0]];
+
+  // Render Mini Mode
+  if (isMiniMode) {
+    return (
+      <div className="fixed inset-0 flex items-center justify-center bg-[#0000] overflow-hidden font-sans">
+        <div
+          className="fixed inset-0 transition-colors duration-[3000ms] ease-in-out"
+          style={{
+            backgroundColor: isActive ? `${dna.color}15` : '#050505',
+            backdropFilter: 'blur(100px)'
+          }}
+        />
+
+        <div className="relative group select-none">
+          {/* BPM Side Controllers */}
+          <div
+            onMouseDown={() => handleLongPress(-1)} onMouseUp={stopLongPress} onMouseLeave={stopLongPress}
+            className="absolute -left-32 top-0 bottom-0 w-28 cursor-pointer z-50 flex items-center justify-end pr-4 opacity-0 group-hover:opacity-40 transition-opacity"
+          >
+            <div className="text-4xl font-thin text-blue-400">−</div>
+          </div>
+          <div
+            onMouseDown={() => handleLongPress(1)} onMouseUp={stopLongPress} onMouseLeave={stopLongPress}
+            className="absolute -right-32 top-0 bottom-0 w-28 cursor-pointer z-50 flex items-center justify-start pl-4 opacity-0 group-hover:opacity-40 transition-opacity"
+          >
+            <div className="text-4xl font-thin text-red-400">+</div>
+          </div>
+
+          {/* Main Orb */}
+          <div
+            onClick={(e) => { if (e.detail === 1) toggle(); }}
+            onDoubleClick={() => { setIsEditingBpm(true); setTempBpm(bpm.toString()); }}
+            className={`relative w-48 h-48 rounded-full flex items-center justify-center transition-all duration-700 cursor-pointer overflow-hidden
+              ${isActive ? 'scale-110' : 'scale-100'} 
+              bg-white/[0.03] border border-white/10 backdrop-blur-3xl`}
+            style={{
+              boxShadow: isActive ? `0 0 100px ${dna.color}33, inset 0 0 30px ${dna.color}11` : '0 20px 50px rgba(0,0,0,0.8)'
+            }}
+          >
+            {/* Audio Pulse */}
+            <div
+              ref={pulseRef}
+              className="absolute inset-0 rounded-full opacity-40 transition-transform duration-75 pointer-events-none"
+              style={{ background: `radial-gradient(circle, ${dna.color} 0%, transparent 75%)` }}
+            />
+
+            {/* Display */}
+            <div className="relative z-10 flex flex-col items-center">
+              {isEditingBpm ? (
+                <form onSubmit={handleManualBpm} className="flex flex-col items-center">
+                  <input
+                    autoFocus
+                    type="text"
+                    value={tempBpm}
+                    onChange={e => setTempBpm(e.target.value)}
+                    onBlur={() => setIsEditingBpm(false)}
+                    className="bg-transparent text-center text-4xl font-black w-24 outline-none border-b border-white/40"
+                  />
+                </form>
+              ) : (
+                <>
+                  <span className="text-5xl font-black italic tracking-tighter drop-shadow-2xl">{bpm}</span>
+                  <div className="text-[9px] font-black opacity-30 uppercase tracking-[0.4em] mt-1">{isActive ? 'Synthesizing' : 'Ready'}</div>
+                </>
+              )}
+            </div>
+
+            {/* Step Ring */}
+            <div className="absolute inset-2 border border-white/5 rounded-full pointer-events-none">
+              {[...Array(playing.steps)].map((_, i, ring) => (
+                <div
+                  key={i}
+                  className={`absolute w-1.5 h-1.5 rounded-full transition-all duration-300`}
+                  style={{
+                    top: '50%', left: '50%',
+                    transform: `rotate(${i * 360 / ring.length}deg) translate(0, -85px) scale(${currentStep === i ? 2.5 : 1})`,
+                    backgroundColor: currentStep === i ? dna.color : 'rgba(255,255,255,0.08)',
+                    boxShadow: currentStep === i ? `0 0 10px ${dna.color}` : 'none'
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* Expand Button */}
+          <button
+            onClick={() => setIsMiniMode(false)}
+            className="absolute -top-12 left-1/2 -translate-x-1/2 text-[9px] font-bold opacity-20 hover:opacity-100 transition-opacity uppercase tracking-widest bg-white/5 px-3 py-1 rounded-full border border-white/10"
+          >
+            Expand_UI
+          </button>
+
+          {/* Status Label */}
+          <div className="absolute -bottom-16 left-0 right-0 text-center">
+            <p className="text-[9px] font-black opacity-30 uppercase tracking-[0.5em] transition-opacity duration-700 group-hover:opacity-100 truncate max-w-[200px] mx-auto">
+              {status}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Render Full Dashboard
+  return (
+    <div className="min-h-screen bg-[#020202] text-white font-mono flex flex-col overflow-hidden selection:bg-purple-500 selection:text-white">
+      {/* Background Ambience */}
+      <div
+        className="fixed inset-0 opacity-20 transition-all duration-[3000ms]"
+        style={{ background: `radial-gradient(circle at 50% 50%, ${dna.color}aa 0%, transparent 70%)`, filter: 'blur(100px)' }}
+      />
+
+      <main className="relative z-10 flex flex-col h-screen max-w-7xl mx-auto w-full p-6">
+
+        {/* Header Section */}
+        <header className="flex justify-between items-end border-b border-white/5 pb-6 mb-8">
+          <div className="space-y-1">
+            <h1 className="text-4xl font-black tracking-tighter italic text-transparent bg-clip-text bg-gradient-to-r from-white to-white/30 uppercase">Neural_Strudel</h1>
+            <p className="text-[10px] font-bold opacity-30 tracking-[0.4em] uppercase">AI Orchestrator v5.2 // {status}</p>
+            <p className={`text-[8px] font-bold tracking-[0.3em] uppercase ${requests.getStatus().error ? 'text-red-400/60' : 'opacity-20'}`}>
+              Requests // {summarizeRequest(requests.getStatus(), requests.getPolicy())}
+            </p>
+            {sync.linked && (
+              <p className="text-[8px] font-bold tracking-[0.3em] uppercase opacity-20">
+                Sync // {sync.isLeader() ? 'ENGINE_HERE' : 'MIRRORING'} // {sync.peerCount()}_OTHER_WINDOWS
+              </p>
+            )}
+          </div>
+          <div className="text-right flex flex-col items-end gap-2">
+            <button
+              onClick={() => setShowLibrary(true)}
+              className="text-[9px] font-black bg-white/10 hover:bg-white/20 transition-colors px-3 py-1 rounded-full border border-white/10 uppercase tracking-widest"
+            >
+              Library_{libraryEntries.length}
+            </button>
+            <button
+              onClick={() => setShowMixer(true)}
+              className="text-[9px] font-black bg-white/10 hover:bg-white/20 transition-colors px-3 py-1 rounded-full border border-white/10 uppercase tracking-widest"
+            >
+              Mixer
+            </button>
+            <button
+              onClick={() => setShowMidi(true)}
+              className="text-[9px] font-black bg-white/10 hover:bg-white/20 transition-colors px-3 py-1 rounded-full border border-white/10 uppercase tracking-widest"
+            >
+              Midi_IO{midi.getFollowedTempo() !== null ? ' // EXT_CLOCK' : ''}
+            </button>
+            <button
+              onClick={() => setShowInput(true)}
+              className="text-[9px] font-black bg-white/10 hover:bg-white/20 transition-colors px-3 py-1 rounded-full border border-white/10 uppercase tracking-widest"
+            >
+              Input{input.getStatus() === 'listening' ? ' // LIVE' : ''}
+            </button>
+            <button
+              onClick={() => setShowJam(true)}
+              className="text-[9px] font-black bg-white/10 hover:bg-white/20 transition-colors px-3 py-1 rounded-full border border-white/10 uppercase tracking-widest"
+            >
+              Jam{jam.getStatus() === 'connected' ? ` // ${jam.getRole()}_${jam.getPeers().length}` : ''}
+            </button>
+            <button
+              onClick={() => setShowPerform(true)}
+              className="text-[9px] font-black bg-white/10 hover:bg-white/20 transition-colors px-3 py-1 rounded-full border border-white/10 uppercase tracking-widest"
+            >
+              Perform{mutedLayers.length ? ` // ${mutedLayers.length}_MUTED` : ''}
+            </button>
+            <button
+              onClick={() => setShowSession(true)}
+              className="text-[9px] font-black bg-white/10 hover:bg-white/20 transition-colors px-3 py-1 rounded-full border border-white/10 uppercase tracking-widest"
+            >
+              Session{recorder.isRecording ? ' // REC' : isReplaying ? ' // REPLAY' : ''}
+            </button>
+            <button
+              onClick={() => setIsMiniMode(true)}
+              className="text-[9px] font-black bg-white/10 hover:bg-white/20 transition-colors px-3 py-1 rounded-full border border-white/10 uppercase tracking-widest"
+            >
+              Shrink_to_Orb
+            </button>
+            <button
+              onClick={openOrbWindow}
+              className="text-[9px] font-black bg-white/10 hover:bg-white/20 transition-colors px-3 py-1 rounded-full border border-white/10 uppercase tracking-widest"
+            >
+              Orb_Window
+            </button>
+            <div className="flex flex-col items-end">
+              <span className="text-[9px] font-black opacity-20 uppercase">Scale: {dna.scale} // {dna.palette}</span>
+              <div className="text-4xl font-black tabular-nums">{mutationTimer}s</div>
+            </div>
+          </div>
+        </header>
+
+        <div className="flex-1 grid grid-cols-12 gap-6 overflow-hidden">
+
+          {/* Left Panel: Controls & Metrics */}
+          <div className="col-span-12 lg:col-span-3 flex flex-col gap-6">
+            <div className="bg-white/5 border border-white/10 rounded-3xl p-6 backdrop-blur-md relative">
+              <div className="flex justify-between items-end mb-4">
+                <span className="text-[9px] font-black opacity-30 uppercase tracking-widest">Target_Frequency</span>
+                <span className={`text-5xl font-black italic tabular-nums ${pendingBpm !== bpm ? 'text-yellow-400' : ''}`}>{pendingBpm}</span>
+              </div>
+              <input
+                type="range" min="40" max="180" value={pendingBpm}
+                onChange={(e) => setPendingBpm(parseInt(e.target.value))}
+                className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white mb-4"
+              />
+
+              {/* Confirm Button */}
+              {pendingBpm !== bpm && (
+                <button
+                  onClick={() => {
+                    setBpm(pendingBpm);
+                    applyBpm(pendingBpm);
+                    // If active, force immediate re-generation or cycle check
+                    if (isActive) fetchNewDNA();
+                  }}
+                  className="w-full py-2 bg-yellow-400/20 border border-yellow-400/50 text-yellow-400 text-[10px] font-black tracking-widest hover:bg-yellow-400/30 transition-colors uppercase rounded-lg"
+                >
+                  Confirm_New_Speed
+                </button>
+              )}
+            </div>
+
+            {/* Composer Backend */}
+            <div className="bg-white/5 border border-white/10 rounded-3xl p-6 backdrop-blur-md">
+              <span className="text-[9px] font-black opacity-30 uppercase tracking-widest">Composer_Engine</span>
+              <div className="flex gap-2 mt-3">
+                {(['gemini', 'local'] as ComposerId[]).map(id => (
+                  <button
+                    key={id}
+                    onClick={() => selectComposer(id)}
+                    className={`flex-1 py-2 text-[10px] font-black tracking-widest uppercase rounded-lg border transition-colors ${composerId === id ? 'bg-white text-black border-white' : 'bg-white/5 border-white/10 hover:bg-white/10'}`}
+                  >
+                    {composers[id].label}
+                  </button>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2 mt-3 text-[9px] font-black uppercase">
+                <label className="flex flex-col gap-1">
+                  <span className="opacity-30">Quantize</span>
+                  <select value={dnaChange.quantize} onChange={e => updateDnaChange({ quantize: e.target.value as Quantize })} className="bg-black/40 border border-white/10 rounded px-1 py-1 outline-none">
+                    <option value="bar">BAR</option>
+                    <option value="section">SECTION</option>
+                    <option value="now">NOW</option>
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="opacity-30">Morph</span>
+                  <select value={dnaChange.morphBars} onChange={e => updateDnaChange({ morphBars: parseInt(e.target.value) })} className="bg-black/40 border border-white/10 rounded px-1 py-1 outline-none">
+                    {[0, 2, 4, 8].map(n => <option key={n} value={n}>{n ? `${n}_BARS` : 'CUT'}</option>)}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="opacity-30">Tempo</span>
+                  <select value={tempoRampBars} onChange={e => updateTempoRamp(parseInt(e.target.value))} className="bg-black/40 border border-white/10 rounded px-1 py-1 outline-none">
+                    {[0, 1, 2, 4].map(n => <option key={n} value={n}>{n ? `RAMP_${n}` : 'SNAP'}</option>)}
+                  </select>
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-2 mt-2 text-[9px] font-black uppercase">
+                <label className="flex flex-col gap-1">
+                  <span className="opacity-30">Budget</span>
+                  <select value={requests.getPolicy().budgetPerMinute} onChange={e => requests.setPolicy({ budgetPerMinute: parseInt(e.target.value) })} className="bg-black/40 border border-white/10 rounded px-1 py-1 outline-none">
+                    {BUDGET_OPTIONS.map(n => <option key={n} value={n}>{n}_PER_MIN</option>)}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="opacity-30">Timeout</span>
+                  <select value={requests.getPolicy().timeoutMs} onChange={e => requests.setPolicy({ timeoutMs: parseInt(e.target.value) })} className="bg-black/40 border border-white/10 rounded px-1 py-1 outline-none">
+                    {TIMEOUT_OPTIONS.map(ms => <option key={ms} value={ms}>{ms / 1000}_S</option>)}
+                  </select>
+                </label>
+              </div>
+              {morphProgress !== null && (
+                <div className="mt-2 h-0.5 bg-white/10 rounded-full overflow-hidden">
+                  <div className="h-full transition-all duration-100" style={{ width: `${morphProgress * 100}%`, backgroundColor: dna.color }} />
+                </div>
+              )}
+              {composerId === 'local' && (
+                <div className="flex items-center gap-2 mt-3 text-[9px] font-black uppercase">
+                  <span className="opacity-30">Seed</span>
+                  <input
+                    type="number" value={localSeed}
+                    onChange={e => { const v = parseInt(e.target.value); if (!isNaN(v)) reseedLocal(v); }}
+                    className="flex-1 min-w-0 bg-transparent border-b border-white/20 outline-none tabular-nums"
+                  />
+                  <button onClick={() => reseedLocal(randomSeed())} className="bg-white/10 px-2 py-1 rounded hover:bg-white/20 transition-colors">Reroll</button>
+                </div>
+              )}
+            </div>
+
+            <SteeringPanel
+              steering={steering}
+              busy={isComposing}
+              onChange={updateSteering}
+              onFeedback={feedback => fetchNewDNA(true, feedback)}
+            />
+
+            <button
+              onClick={toggle}
+              className={`py-8 rounded-3xl text-2xl font-black italic transition-all active:scale-[0.97] border-2 ${isActive ? 'bg-transparent border-red-500/30 text-red-500' : 'bg-white text-black shadow-xl'}`}
+            >
+              {isActive ? 'HALT_SYNTH' : 'INIT_AI'}
+            </button>
+
+            {/* AI Thought Log: Extremely Shortened */}
+            <div className="flex-1 bg-white/5 border border-white/10 rounded-3xl p-6 overflow-hidden flex flex-col">
+              <span className="text-[9px] font-black opacity-30 uppercase mb-4 tracking-tighter">AI_Core_Intention</span>
+              <div className="flex-1 text-[11px] text-emerald-400 font-black leading-relaxed italic opacity-90 overflow-y-auto custom-scrollbar uppercase">
+                {dna.aiThought || "STANDBY..."}
+              </div>
+            </div>
+          </div>
+
+          {/* Right Panel: Sequencer & Manifest */}
+          <div className="col-span-12 lg:col-span-9 flex flex-col gap-6 overflow-hidden">
+
+            {/* Sequencer: Editable DNA Matrix */}
+            <div className="h-2/3 bg-white/5 border border-white/10 rounded-[2.5rem] p-8 relative overflow-hidden flex flex-col gap-3">
+              <ArrangementTimeline
+                dna={dna}
+                currentSlot={currentSlot}
+                slotProgress={slotProgress}
+                editSection={shownSection}
+                onSelectSection={setEditSection}
+              />
+              <LayerLockBar
+                locks={layerLocks}
+                sections={sectionKeys}
+                busy={isComposing}
+                onToggleLayer={toggleLayerLock}
+                onToggleSection={toggleSectionLock}
+                onRegenerate={() => fetchNewDNA(true)}
+              />
+              <StepSequencer
+                dna={dna}
+                section={shownSection}
+                playingSection={currentSection}
+                currentStep={currentStep}
+                locks={locks}
+                isLocked={lockPredicate(layerLocks, locks)}
+                canUndo={undoRef.current.canUndo}
+                canRedo={undoRef.current.canRedo}
+                onSectionChange={setEditSection}
+                onEdit={editDna}
+                onGestureEnd={() => { gestureRef.current = null; }}
+                onGridChange={editSectionGrid}
+                onHarmonyChange={editHarmony}
+                onToggleLock={toggleLock}
+                onUndo={undo}
+                onRedo={redo}
+              />
+              <VisualizerCanvas visualizer={visualizer} kind="roll" className="h-16 shrink-0 rounded-xl bg-black/30" />
+            </div>
+
+            {/* Raw Data Manifest: Confirm AI Involvement */}
+            <div className="h-1/3 flex gap-6">
+              <div className="flex-1 bg-black/40 border border-white/10 rounded-3xl p-6 relative overflow-hidden group">
+                <div className="flex justify-between items-center mb-4">
+                  <span className="text-[9px] font-black opacity-30 uppercase tracking-widest">Neural_Manifest</span>
+                  <button onClick={() => setShowRaw(!showRaw)} className="text-[8px] bg-white/10 px-2 py-1 rounded hover:bg-white/20 transition-colors uppercase font-bold">
+                    {showRaw ? 'HIDE_RAW' : 'VIEW_RAW'}
+                  </button>
+                </div>
+
+                <div className="h-full overflow-y-auto font-mono text-[9px] text-emerald-500/70 custom-scrollbar">
+                  {showRaw ? (
+                    <pre className="whitespace-pre-wrap">{JSON.stringify(dna, null, 2)}</pre>
+                  ) : (
+                    <div className="space-y-1">
+                      <div className="flex justify-between border-b border-white/5 py-1"><span className="opacity-40">GENRE</span> <span>{dna.genre}</span></div>
+                      <div className="flex justify-between border-b border-white/5 py-1"><span className="opacity-40">CHORDS</span> <span className="truncate ml-4">
+                        {playing.chordProgression.map((chord, i) => (
+                          <span key={i} className={i === currentChord ? 'text-white' : undefined}>{i > 0 && ' · '}{chordName(chord)}</span>
+                        ))}
+                      </span></div>
+                      <div className="flex justify-between border-b border-white/5 py-1"><span className="opacity-40">BASS_LINE</span> <span className="truncate ml-4">{playing.bassLine.map(n => (n > 0 ? midiToName(n) : '-')).join(" ")}</span></div>
+                      <div className="text-[8px] text-white/10 mt-2 uppercase tracking-tighter italic">[ OPTIMIZED FOR 2.5 FLASH SPEED ]</div>
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              {/* Offline Capture */}
+              <div className="w-56 bg-white/5 border border-white/10 rounded-3xl p-6 flex flex-col justify-between gap-2 text-[9px] font-black uppercase">
+                <span className="opacity-30 tracking-widest">Capture</span>
+                <label className="flex justify-between items-center gap-2">
+                  <span className="opacity-30">Bars</span>
+                  <select value={exportBars} onChange={e => setExportBars(parseInt(e.target.value))} className="bg-black/40 border border-white/10 rounded px-1 outline-none">
+                    {[4, 8, 16, 32].map(n => <option key={n} value={n}>{n}</option>)}
+                    <option value={0}>SONG_{arrangementBars(playableArrangement(dna))}</option>
+                  </select>
+                </label>
+                <label className="flex justify-between items-center gap-2">
+                  <span className="opacity-30">Depth</span>
+                  <select value={exportBits} onChange={e => setExportBits(parseInt(e.target.value) as WavBitDepth)} className="bg-black/40 border border-white/10 rounded px-1 outline-none">
+                    <option value={16}>16_BIT</option>
+                    <option value={24}>24_BIT</option>
+                  </select>
+                </label>
+                <label className="flex justify-between items-center gap-2">
+                  <span className="opacity-30">Seed</span>
+                  <input
+                    type="number" value={exportSeed}
+                    onChange={e => { const v = parseInt(e.target.value); if (!isNaN(v)) setExportSeed(v); }}
+                    className="w-20 bg-transparent border-b border-white/20 outline-none text-right tabular-nums"
+                  />
+                </label>
+                <button
+                  onClick={exportWav}
+                  disabled={isExporting}
+                  className="py-2 bg-white/10 border border-white/10 rounded-lg tracking-widest hover:bg-white/20 transition-colors disabled:opacity-30"
+                >
+                  {isExporting ? 'Rendering...' : 'Export_WAV'}
+                </button>
+                <button onClick={exportMidi} className="py-2 bg-white/10 border border-white/10 rounded-lg tracking-widest hover:bg-white/20 transition-colors">
+                  Export_MID
+                </button>
+                <div className="flex gap-2">
+                  <select value={riffTarget} onChange={e => setImportTarget(e.target.value)} className="bg-black/40 border border-white/10 rounded px-1 outline-none">
+                    {sectionKeys.map(key => <option key={key} value={key}>{key}</option>)}
+                  </select>
+                  <button onClick={() => midiInputRef.current?.click()} className="flex-1 py-2 bg-white/10 border border-white/10 rounded-lg tracking-widest hover:bg-white/20 transition-colors">
+                    Import_MID
+                  </button>
+                  <input
+                    ref={midiInputRef} type="file" accept=".mid,.midi,audio/midi" className="hidden"
+                    onChange={e => { const file = e.target.files?.[0]; if (file) importMidi(file); e.target.value = ''; }}
+                  />
+                </div>
+              </div>
+
+              <div className="w-72 bg-white/5 border border-white/10 rounded-3xl p-6 flex flex-col gap-2">
+                <span className="text-[9px] font-black opacity-30 uppercase">Osc_Level // Spectrum // Scope</span>
+                <div className="flex-1 min-h-0 flex gap-2">
+                  <div className="w-3 bg-white/5 rounded-full overflow-hidden relative">
+                    <div ref={levelRef} className="absolute inset-x-0 bottom-0 bg-white transition-all duration-75" style={{ height: 0, opacity: 0.1 }} />
+                  </div>
+                  <div className="flex-1 min-w-0 flex flex-col gap-2">
+                    <VisualizerCanvas visualizer={visualizer} kind="spectrum" className="flex-1 min-h-0" />
+                    <VisualizerCanvas visualizer={visualizer} kind="scope" className="flex-1 min-h-0" />
+                    <VisualizerCanvas visualizer={visualizer} kind="meters" className="h-10" />
+                  </div>
+                </div>
+              </div>
+            </div>
+
+          </div>
+        </div>
+
+        <footer className="mt-6 flex justify-between items-center text-[9px] font-black opacity-10 tracking-[1em] uppercase border-t border-white/5 pt-6">
+          <span>Speed_Optimized_v5.2</span>
+          <span>Low_Latency_Mode_On</span>
+        </footer>
+      </main>
+
+      {showLibrary && (
+        <LibraryPanel
+          entries={libraryEntries}
+          policy={recallPolicy}
+          currentBpm={bpm}
+          onPolicyChange={updateRecallPolicy}
+          onLoad={loadEntry}
+          onUpdate={(id, patch) => library.update(id, patch)}
+          onRemove={id => library.remove(id)}
+          onShare={shareEntry}
+          onSaveCurrent={() => { library.add(dnaRef.current, bpmRef.current, 'edit'); setStatus('SAVED_TO_LIBRARY'); }}
+          onClose={() => setShowLibrary(false)}
+        />
+      )}
+
+      {showMixer && (
+        <MixerPanel
+          mix={mixOf(dna.mix)}
+          bpm={bpm}
+          color={dna.color}
+          onChannelChange={editMixChannel}
+          onChange={editMix}
+          onClose={() => setShowMixer(false)}
+        >
+          <KitPanel
+            kits={kits.list()}
+            assignments={kits.getAssignments()}
+            palette={dna.palette}
+            status={(id, voice) => kits.status(id, voice)}
+            onAssign={(palette: PaletteName, id) => kits.assign(palette, id)}
+            onDropFiles={dropKitFiles}
+            onClearSample={voice => kits.clearUserSample(voice)}
+          />
+        </MixerPanel>
+      )}
+
+      {showMidi && (
+        <MidiPanel
+          status={midi.getStatus()}
+          outputs={midi.outputs()}
+          inputs={midi.inputs()}
+          settings={midi.getSettings()}
+          followedBpm={midi.getFollowedTempo()}
+          color={dna.color}
+          onEnable={() => midi.enable()}
+          onRouteChange={(layer, patch) => midi.setRoute(layer, patch)}
+          onChange={patch => midi.update(patch)}
+          onClose={() => setShowMidi(false)}
+        />
+      )}
+
+      {showInput && (
+        <InputPanel
+          status={input.getStatus()}
+          reading={input.getReading()}
+          follow={input.getFollow()}
+          color={dna.color}
+          onListen={listenToInput}
+          onStop={() => input.stop()}
+          onAnalyzeFile={analyzeInputFile}
+          onFollowChange={patch => input.setFollow(patch)}
+          onClose={() => setShowInput(false)}
+        />
+      )}
+
+      {showJam && (
+        <JamPanel
+          status={jam.getStatus()}
+          error={jam.getError()}
+          role={jam.getRole()}
+          selfId={jam.getId()}
+          settings={jam.getSettings()}
+          peers={jam.getPeers()}
+          clock={jam.getClock()}
+          proposals={jam.getProposals()}
+          votes={jam.getVoteCounts()}
+          canConnect={sync.isLeader()}
+          color={dna.color}
+          onConnect={connectJam}
+          onLeave={leaveJam}
+          onVote={voteJam}
+          onAccept={acceptProposal}
+          onReject={id => jam.reject(id)}
+          onClose={() => setShowJam(false)}
+        />
+      )}
+
+      {showPerform && (
+        <PerformancePanel
+          bindings={controls.getBindings()}
+          learning={controls.getLearning()}
+          mutedLayers={mutedLayers}
+          midiStatus={midi.getStatus()}
+          inputs={midi.inputs()}
+          controlIn={midi.getSettings().controlIn}
+          color={dna.color}
+          onLearn={action => controls.learn(action)}
+          onClear={action => controls.clear(action)}
+          onReset={() => controls.reset()}
+          onToggleMute={toggleLayerMute}
+          onEnableMidi={() => midi.enable()}
+          onControlInChange={id => midi.update({ controlIn: id })}
+          onClose={() => { controls.learn(null); setShowPerform(false); }}
+        />
+      )}
+
+      {showSession && (
+        <SessionPanel
+          recording={recorder.isRecording}
+          replaying={isReplaying}
+          exporting={isExporting}
+          session={recorder.getSession()}
+          events={recorder.getEvents()}
+          canRecord={sync.isLeader()}
+          color={dna.color}
+          onRecord={startRecording}
+          onStopRecording={stopRecording}
+          onReplay={replaySession}
+          onStopReplay={stopReplay}
+          onExportJson={exportSessionJson}
+          onExportWav={exportSessionWav}
+          onExportMidi={exportSessionMidi}
+          onLoad={loadSession}
+          onClose={() => setShowSession(false)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI in place; tsx resolves the app's extensionless imports.
+import { register } from 'tsx/esm/api';
+
+register();
+const { run } = await import('../cli/neural-strudel.ts');
+await run(process.argv.slice(2));
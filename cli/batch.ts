@@ -0,0 +1,141 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { MasterDNA } from '../types';
+import { INITIAL_DNA, MAX_TEMPO, MIN_TEMPO } from '../constants';
+import { Composer, ComposerId, ComposeRequest } from '../services/composer';
+import { GeminiComposer } from '../services/geminiComposer';
+import { LocalComposer, resolveGenre } from '../services/localComposer';
+import { validateDNA } from '../services/dnaValidator';
+import { dnaToMidi } from '../services/midiFile';
+import { DEFAULT_RENDER_BARS, renderDNA } from '../services/offlineRender';
+import { WavBitDepth, encodeWav } from '../services/wavEncoder';
+import { arrangementBars, playableArrangement } from '../services/arrangement';
+import { createMemoryStore } from '../services/dnaLibrary';
+import { RequestBudgetError, RequestManager, describeError } from '../services/requestManager';
+import { EMPTY_STEERING } from '../services/steering';
+import { randomSeed } from '../services/random';
+import { slugify } from '../services/download';
+
+// --- Batch Generation ---
+// The app's compose → validate → export path without a browser, for datasets and regression
+// corpora: each result is written as DNA JSON, a MIDI file and optionally a rendered WAV, and
+// listed in a manifest.json alongside what produced it.
+
+export interface BatchOptions {
+  out: string;
+  count: number;
+  bpm: number;
+  composer?: ComposerId;
+  apiKey?: string;
+  // Free text is fine ("lofi"); the local composer maps it onto one of its genres.
+  genre?: string;
+  direction?: string;
+  // Result i of the local composer uses seed + i, so any one result can be regenerated alone.
+  seed?: number;
+  // Each result evolves from the one before, as the live app does, instead of starting over.
+  evolve?: boolean;
+  midi?: boolean;
+  wav?: boolean;
+  bars?: number;            // WAV length; 0 = the whole arrangement once through
+  bitDepth?: WavBitDepth;
+  budgetPerMinute?: number; // Gemini attempts per minute; the batch waits rather than fails
+  onResult?: (result: BatchResult) => void;
+}
+
+export interface BatchResult {
+  index: number;
+  name: string;
+  genre: string;
+  scale: string;
+  bpm: number;
+  composer: ComposerId;
+  seed: number | null;      // null for Gemini, whose output is not reproducible
+  fixes: string[];
+  // Why Gemini's reply was replaced by the local composer's, if it was.
+  fallback: string | null;
+  files: string[];
+}
+
+export class BatchError extends Error {}
+
+// Offline rendering needs a Web Audio implementation; node-web-audio-api is optional so that
+// JSON / MIDI batches install and run without native binaries.
+const loadRenderContext = async () => {
+  try {
+    const { OfflineAudioContext } = await import('node-web-audio-api');
+    return (channels: number, length: number, sampleRate: number) =>
+      new OfflineAudioContext(channels, length, sampleRate) as unknown as globalThis.OfflineAudioContext;
+  } catch (e) {
+    throw new BatchError(`WAV rendering needs node-web-audio-api (and libasound2 on Linux): ${e instanceof Error ? e.message : e}`);
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const generateBatch = async (options: BatchOptions): Promise<BatchResult[]> => {
+  const {
+    out, count, bpm, composer: composerId = 'local', apiKey, genre, direction = '', seed = randomSeed(), evolve = false,
+    midi = true, wav = false, bars = DEFAULT_RENDER_BARS, bitDepth = 16, budgetPerMinute, onResult
+  } = options;
+  if (!(bpm >= MIN_TEMPO && bpm <= MAX_TEMPO)) throw new BatchError(`bpm must be from ${MIN_TEMPO} to ${MAX_TEMPO}, got ${bpm}`);
+  if (composerId === 'gemini' && !apiKey) throw new BatchError('The gemini composer needs an API key (GEMINI_API_KEY)');
+  const createContext = wav ? await loadRenderContext() : undefined;
+  const local = new LocalComposer(seed);
+  const composer: Composer = composerId === 'gemini' ? new GeminiComposer(apiKey) : local;
+  const requests = new RequestManager(createMemoryStore());
+  if (budgetPerMinute) requests.setPolicy({ budgetPerMinute });
+  const steering = { ...EMPTY_STEERING, direction, genre: genre ? resolveGenre(genre) ?? genre : null };
+  await mkdir(out, { recursive: true });
+
+  // Gemini goes through the request manager (timeout, retries, budget) and falls back to the
+  // local composer like the app does; the fallback is recorded so a corpus can filter it out.
+  const compose = async (request: ComposeRequest) => {
+    if (composer.id === 'local') return { raw: local.generate(request), composer: 'local' as const, fallback: null };
+    for (;;) {
+      try {
+        return { raw: await requests.run(signal => composer.compose({ ...request, signal })), composer: composer.id, fallback: null };
+      } catch (e) {
+        if (e instanceof RequestBudgetError) {
+          await sleep(e.retryInMs);
+          continue;
+        }
+        return { raw: local.generate(request), composer: 'local' as const, fallback: describeError(e) };
+      }
+    }
+  };
+
+  const results: BatchResult[] = [];
+  let previous: MasterDNA | undefined;
+  for (let index = 0; index < count; index++) {
+    const callSeed = (seed + index) >>> 0;
+    const { raw, composer: used, fallback } = await compose({ bpm, seed: callSeed, steering, previous: evolve ? previous : undefined });
+    const { dna, fixes } = validateDNA(raw, INITIAL_DNA);
+    previous = dna;
+
+    const name = `${String(index + 1).padStart(3, '0')}-${slugify(dna.genre)}-${bpm}bpm`;
+    const files = [`${name}.json`];
+    await writeFile(join(out, `${name}.json`), JSON.stringify(dna, null, 2) + '\n');
+    if (midi) {
+      files.push(`${name}.mid`);
+      await writeFile(join(out, `${name}.mid`), dnaToMidi(dna, bpm));
+    }
+    if (createContext) {
+      const buffer = await renderDNA({
+        dna, bpm, bars: bars || arrangementBars(playableArrangement(dna)), seed: callSeed, createContext
+      });
+      files.push(`${name}.wav`);
+      await writeFile(join(out, `${name}.wav`), new Uint8Array(encodeWav(buffer, bitDepth)));
+    }
+
+    const result: BatchResult = {
+      index, name, genre: dna.genre, scale: dna.scale, bpm, composer: used, seed: used === 'local' ? callSeed : null, fixes, fallback, files
+    };
+    results.push(result);
+    onResult?.(result);
+  }
+
+  await writeFile(join(out, 'manifest.json'), JSON.stringify({
+    bpm, composer: composerId, genre: genre ?? null, direction, seed, evolve, results
+  }, null, 2) + '\n');
+  return results;
+};
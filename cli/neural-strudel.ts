@@ -0,0 +1,111 @@
+import { parseArgs } from 'node:util';
+import { ComposerId } from '../services/composer';
+import { GENRE_NAMES } from '../services/localComposer';
+import { DEFAULT_RENDER_BARS } from '../services/offlineRender';
+import { INITIAL_BPM, MAX_TEMPO, MIN_TEMPO } from '../constants';
+import { BatchError, generateBatch } from './batch';
+
+// --- CLI ---
+//   neural-strudel generate --bpm 120 --count 20 --genre lofi --out ./dna/
+
+const USAGE = `Usage: neural-strudel generate [options]
+
+Composes MasterDNA without a browser and writes JSON, MIDI and optionally WAV per result,
+plus a manifest.json.
+
+Options:
+  --out <dir>          Output directory (default ./dna)
+  --count <n>          Number of results (default 1)
+  --bpm <n>            Tempo, ${MIN_TEMPO}–${MAX_TEMPO} (default ${INITIAL_BPM})
+  --composer <id>      local | gemini (default local; gemini reads GEMINI_API_KEY)
+  --genre <text>       e.g. lofi, "deep house"; local genres: ${GENRE_NAMES.join(', ')}
+  --direction <text>   Free-text steering, e.g. "darker, sparse drums"
+  --seed <n>           Base seed; result i uses seed + i (default random)
+  --evolve             Each result evolves from the previous one
+  --no-midi            Skip the .mid files
+  --wav                Render a .wav per result (needs node-web-audio-api)
+  --bars <n>           WAV length in bars; 0 = whole arrangement (default ${DEFAULT_RENDER_BARS})
+  --bits <16|24>       WAV bit depth (default 16)
+  --per-minute <n>     Gemini requests per minute (default 6)
+  -h, --help           Show this help
+`;
+
+const COMPOSERS: ComposerId[] = ['local', 'gemini'];
+
+const integer = (name: string, value: string | undefined, fallback: number, min = 0, max = Infinity) => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  const range = max === Infinity ? `≥ ${min}` : `from ${min} to ${max}`;
+  if (!Number.isInteger(n) || n < min || n > max) throw new BatchError(`--${name} must be an integer ${range}, got "${value}"`);
+  return n;
+};
+
+// Runs one command line and resolves to its exit code; usage mistakes reject with a BatchError.
+export const main = async (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string' },
+      count: { type: 'string' },
+      bpm: { type: 'string' },
+      composer: { type: 'string' },
+      genre: { type: 'string' },
+      direction: { type: 'string' },
+      seed: { type: 'string' },
+      evolve: { type: 'boolean' },
+      'no-midi': { type: 'boolean' },
+      wav: { type: 'boolean' },
+      bars: { type: 'string' },
+      bits: { type: 'string' },
+      'per-minute': { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  const [command] = positionals;
+  if (values.help || !command) {
+    process.stdout.write(USAGE);
+    return values.help ? 0 : 1;
+  }
+  if (command !== 'generate') throw new BatchError(`Unknown command "${command}"`);
+
+  const composer = (values.composer ?? 'local') as ComposerId;
+  if (!COMPOSERS.includes(composer)) throw new BatchError(`--composer must be one of ${COMPOSERS.join(', ')}`);
+  const bits = integer('bits', values.bits, 16);
+  if (bits !== 16 && bits !== 24) throw new BatchError('--bits must be 16 or 24');
+  const out = values.out ?? './dna';
+
+  const results = await generateBatch({
+    out,
+    count: integer('count', values.count, 1, 1),
+    bpm: integer('bpm', values.bpm, INITIAL_BPM, MIN_TEMPO, MAX_TEMPO),
+    composer,
+    apiKey: process.env.GEMINI_API_KEY ?? process.env.API_KEY,
+    genre: values.genre,
+    direction: values.direction,
+    seed: values.seed === undefined ? undefined : integer('seed', values.seed, 0),
+    evolve: values.evolve,
+    midi: !values['no-midi'],
+    wav: values.wav,
+    bars: integer('bars', values.bars, DEFAULT_RENDER_BARS),
+    bitDepth: bits,
+    budgetPerMinute: values['per-minute'] === undefined ? undefined : integer('per-minute', values['per-minute'], 6, 1),
+    onResult: ({ name, scale, composer: used, fixes, fallback }) => {
+      const notes = [fallback && `local fallback: ${fallback}`, fixes.length && `${fixes.length} fixes`].filter(Boolean).join(', ');
+      process.stdout.write(`${name}  ${scale}  ${used}${notes ? `  (${notes})` : ''}\n`);
+    }
+  });
+  process.stdout.write(`${results.length} result(s) written to ${out}\n`);
+  return 0;
+};
+
+// Entry point of bin/neural-strudel.mjs: reports failures on stderr and sets the exit code.
+export const run = (argv: string[]) => main(argv).then(
+  code => { process.exitCode = code; },
+  e => {
+    // Usage mistakes get a one-line message; anything else is a bug worth its stack.
+    const usage = e instanceof BatchError || String(e?.code).startsWith('ERR_PARSE_ARGS');
+    process.stderr.write(`neural-strudel: ${usage ? e.message : e?.stack ?? e}\n`);
+    process.exitCode = 1;
+  }
+);
@@ -0,0 +1,52 @@
+import React from 'react';
+import { MasterDNA, SectionKey } from '../types';
+import { arrangementBars, playableArrangement, slotBars, slotOffsets, transitionBetween } from '../services/arrangement';
+
+interface ArrangementTimelineProps {
+  dna: MasterDNA;
+  currentSlot: number;
+  slotProgress: number;
+  editSection: SectionKey;
+  onSelectSection: (key: SectionKey) => void;
+}
+
+const TRANSITION_ICONS = { sweep: '↗', dropout: '↘' } as const;
+
+export function ArrangementTimeline({ dna, currentSlot, slotProgress, editSection, onSelectSection }: ArrangementTimelineProps) {
+  const arrangement = playableArrangement(dna);
+  const total = arrangementBars(arrangement);
+  const offsets = slotOffsets(arrangement);
+  const slot = Math.min(currentSlot, arrangement.length - 1);
+  const playhead = (offsets[slot] + slotProgress * slotBars(arrangement[slot])) / total;
+
+  return (
+    <div className="flex flex-col gap-1.5 text-[8px] font-black uppercase tracking-widest">
+      <div className="flex justify-between opacity-20">
+        <span>Arrangement</span>
+        <span>{total}_BARS</span>
+      </div>
+      <div className="relative flex h-9 gap-0.5">
+        {arrangement.map((s, i) => {
+          const transition = transitionBetween(s, arrangement[(i + 1) % arrangement.length]);
+          return (
+            <button
+              key={i}
+              onClick={() => onSelectSection(s.section)}
+              className={`relative flex flex-col justify-center items-start px-2 rounded-md border overflow-hidden transition-colors ${s.section === editSection ? 'border-white/40' : 'border-white/5 hover:border-white/20'}`}
+              style={{ flexGrow: slotBars(s), flexBasis: 0, backgroundColor: `${dna.color}${Math.round(20 + s.energy * 80).toString(16).padStart(2, '0')}` }}
+              title={`${s.section} ×${s.repeats} // ENERGY ${Math.round(s.energy * 100)}%${s.fill ? ' // FILL' : ''}${transition ? ` // ${transition.toUpperCase()}` : ''}`}
+            >
+              <span className="truncate max-w-full">{s.section}</span>
+              <span className="opacity-50">×{s.repeats}{s.fill ? ' ▚' : ''}</span>
+              {transition && <span className="absolute right-1 top-1 opacity-70">{TRANSITION_ICONS[transition]}</span>}
+            </button>
+          );
+        })}
+        <div
+          className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none transition-[left] duration-100"
+          style={{ left: `${playhead * 100}%`, boxShadow: `0 0 8px ${dna.color}` }}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { InputFollow, InputReading, InputStatus } from '../services/audioInput';
+
+interface InputPanelProps {
+  status: InputStatus;
+  reading: InputReading | null;
+  follow: InputFollow;
+  color: string;
+  onListen: () => void;
+  onStop: () => void;
+  onAnalyzeFile: (file: File) => void;
+  onFollowChange: (patch: Partial<InputFollow>) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<InputStatus, string> = {
+  off: 'OFF',
+  pending: 'REQUESTING_ACCESS...',
+  listening: 'LISTENING',
+  analyzing: 'ANALYZING_FILE...',
+  unsupported: 'NOT_SUPPORTED_IN_THIS_BROWSER',
+  denied: 'ACCESS_DENIED'
+};
+
+const FOLLOW_LABELS: Record<keyof InputFollow, string> = {
+  tempo: 'Tempo // Lock_BPM',
+  key: 'Key // Set_Scale',
+  energy: 'Loudness // Bias_Energy'
+};
+
+export function InputPanel({ status, reading, follow, color, onListen, onStop, onAnalyzeFile, onFollowChange, onClose }: InputPanelProps) {
+  const [dragging, setDragging] = useState(false);
+  const listening = status === 'listening';
+  const readout: [string, string][] = [
+    ['BPM', reading?.bpm !== null && reading?.bpm !== undefined ? String(reading.bpm) : '--'],
+    ['KEY', reading?.scale ?? '--'],
+    ['LEVEL', reading ? `${Math.round(reading.loudness * 100)}%` : '--']
+  ];
+
+  const onDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) onAnalyzeFile(file);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-xl h-full overflow-y-auto custom-scrollbar bg-[#0a0a0a] border-l border-white/10 p-6 flex flex-col gap-4 font-mono text-white text-[9px] font-black uppercase"
+      >
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] opacity-40 tracking-[0.4em]">Audio_Input // {STATUS_LABELS[status]}</span>
+          <div className="flex gap-2">
+            {listening
+              ? <button onClick={onStop} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Stop</button>
+              : <button onClick={onListen} disabled={status === 'pending'} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Listen_Mic</button>}
+            <button onClick={onClose} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Close</button>
+          </div>
+        </div>
+
+        {/* Readout */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 grid grid-cols-3 gap-4">
+          {readout.map(([label, value]) => (
+            <div key={label} className="flex flex-col gap-1">
+              <span className="opacity-30">{label}{reading && label === 'BPM' ? ` // ${reading.source}` : ''}</span>
+              <span className="text-lg tracking-tight" style={{ color: listening ? color : undefined }}>{value}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Follow */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-2">
+          <span className="opacity-30 tracking-widest">Follow</span>
+          {(Object.keys(FOLLOW_LABELS) as (keyof InputFollow)[]).map(key => (
+            <label key={key} className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={follow[key]} onChange={e => onFollowChange({ [key]: e.target.checked })} className="accent-white" />
+              <span className={follow[key] ? '' : 'opacity-40'}>{FOLLOW_LABELS[key]}</span>
+            </label>
+          ))}
+        </div>
+
+        {/* File */}
+        <label
+          onDragOver={e => { e.preventDefault(); setDragging(true); }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={onDrop}
+          className={`border border-dashed rounded-2xl p-6 text-center cursor-pointer transition-colors ${dragging ? 'border-white/60 bg-white/10' : 'border-white/10 hover:border-white/30'}`}
+        >
+          <span className="opacity-40 tracking-widest">{status === 'analyzing' ? 'Analyzing...' : 'Drop_Audio_File // Or_Click_To_Analyze'}</span>
+          <input
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) onAnalyzeFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <span className="opacity-20 tracking-widest">The input is analysed only, never played back; a tempo or key is applied once it holds for a few seconds</span>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { JamPeer, JamProposal, JamRole, JamSettings, JamStatus, VOTE_CHOICES, VoteChoice } from '../services/jamSession';
+
+interface JamPanelProps {
+  status: JamStatus;
+  error: string | null;
+  role: JamRole;
+  selfId: string | null;
+  settings: JamSettings;
+  peers: JamPeer[];
+  clock: { rtt: number; offset: number } | null;
+  proposals: JamProposal[];
+  votes: Record<VoteChoice, number>;
+  // Only the window that owns the engine can join a jam.
+  canConnect: boolean;
+  color: string;
+  onConnect: (settings: JamSettings, role: JamRole) => void;
+  onLeave: () => void;
+  onVote: (choice: VoteChoice) => void;
+  onAccept: (id: number) => void;
+  onReject: (id: number) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<JamStatus, string> = {
+  off: 'OFF',
+  connecting: 'CONNECTING...',
+  connected: 'CONNECTED',
+  error: 'DISCONNECTED'
+};
+
+const VOTE_LABELS: Record<VoteChoice, string> = {
+  more: 'More_Like_This',
+  less: 'Less_Like_This',
+  fresh: 'Something_New'
+};
+
+export function JamPanel({
+  status, error, role, selfId, settings, peers, clock, proposals, votes, canConnect, color,
+  onConnect, onLeave, onVote, onAccept, onReject, onClose
+}: JamPanelProps) {
+  const [form, setForm] = useState(settings);
+  const [formRole, setFormRole] = useState<JamRole>(role);
+  const input = 'bg-black/40 border border-white/10 rounded px-2 py-1 outline-none normal-case';
+  const connected = status === 'connected';
+  const idle = status === 'off' || status === 'error';
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-xl h-full overflow-y-auto custom-scrollbar bg-[#0a0a0a] border-l border-white/10 p-6 flex flex-col gap-4 font-mono text-white text-[9px] font-black uppercase"
+      >
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] opacity-40 tracking-[0.4em]">
+            Jam_Session // {STATUS_LABELS[status]}{connected ? ` // ${role}` : ''}{error ? ` // ${error}` : ''}
+          </span>
+          <div className="flex gap-2">
+            {!idle && <button onClick={onLeave} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Leave</button>}
+            <button onClick={onClose} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Close</button>
+          </div>
+        </div>
+
+        {/* Connect */}
+        {idle && (
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-2">
+            <span className="opacity-30 tracking-widest">Join_A_Room</span>
+            <label className="grid grid-cols-[4rem_1fr] gap-2 items-center">
+              <span className="opacity-40">Relay</span>
+              <input value={form.url} onChange={e => setForm({ ...form, url: e.target.value })} className={input} />
+            </label>
+            <label className="grid grid-cols-[4rem_1fr] gap-2 items-center">
+              <span className="opacity-40">Room</span>
+              <input value={form.room} onChange={e => setForm({ ...form, room: e.target.value })} className={input} />
+            </label>
+            <label className="grid grid-cols-[4rem_1fr] gap-2 items-center">
+              <span className="opacity-40">Name</span>
+              <input value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} className={input} />
+            </label>
+            <div className="flex gap-1">
+              {(['host', 'guest'] as JamRole[]).map(r => (
+                <button
+                  key={r}
+                  onClick={() => setFormRole(r)}
+                  className={`px-2 py-1 rounded border transition-colors ${formRole === r ? 'border-white/60 bg-white/10' : 'border-white/10 opacity-40 hover:opacity-80'}`}
+                >
+                  {r}
+                </button>
+              ))}
+              <button
+                onClick={() => onConnect({ ...form, room: form.room.trim() || 'main' }, formRole)}
+                disabled={!canConnect}
+                className="ml-auto bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest disabled:opacity-30"
+              >
+                Connect
+              </button>
+            </div>
+            <span className="opacity-20 tracking-widest">
+              {canConnect ? 'Start the relay with `npm run jam-relay` on one machine of the network' : 'Open this panel in the window that plays the audio'}
+            </span>
+          </div>
+        )}
+
+        {/* Room */}
+        {connected && (
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-2">
+            <span className="opacity-30 tracking-widest">
+              Room // {settings.room}{clock ? ` // RTT_${Math.round(clock.rtt)}MS // OFFSET_${Math.round(clock.offset)}MS` : ' // SYNCING_CLOCK...'}
+            </span>
+            {peers.map(peer => (
+              <div key={peer.id} className="flex justify-between">
+                <span style={{ color: peer.id === selfId ? color : undefined }}>{peer.name || peer.id}{peer.id === selfId ? ' (YOU)' : ''}</span>
+                <span className="opacity-40">{peer.role}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Votes */}
+        {connected && (
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-2">
+            <span className="opacity-30 tracking-widest">Vote // Next_Regeneration</span>
+            <div className="grid grid-cols-3 gap-2">
+              {VOTE_CHOICES.map(choice => (
+                <button
+                  key={choice}
+                  onClick={() => onVote(choice)}
+                  className="flex flex-col gap-1 items-center px-2 py-2 rounded border border-white/10 hover:border-white/40 transition-colors"
+                >
+                  <span>{VOTE_LABELS[choice]}</span>
+                  <span className="text-lg tracking-tight" style={{ color: votes[choice] ? color : undefined }}>{votes[choice]}</span>
+                </button>
+              ))}
+            </div>
+            <span className="opacity-20 tracking-widest">A majority regenerates at once; otherwise the votes steer the next scheduled one</span>
+          </div>
+        )}
+
+        {/* Proposals */}
+        {connected && role === 'host' && (
+          <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-2">
+            <span className="opacity-30 tracking-widest">Proposals // {proposals.length}</span>
+            {proposals.map(proposal => (
+              <div key={proposal.id} className="flex items-center gap-2">
+                <span className="flex-1">{proposal.name || proposal.from} // {proposal.dna.genre}</span>
+                <button onClick={() => onAccept(proposal.id)} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Accept</button>
+                <button onClick={() => onReject(proposal.id)} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Reject</button>
+              </div>
+            ))}
+            {!proposals.length && <span className="opacity-20 tracking-widest">Guests' edits wait here for you</span>}
+          </div>
+        )}
+        {connected && role === 'guest' && (
+          <span className="opacity-20 tracking-widest">Edits, locks and tempo go to the host as requests; the host's music plays here in time</span>
+        )}
+      </aside>
+    </div>
+  );
+}
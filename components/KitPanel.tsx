@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { DrumKit, KitAssignments, SYNTH_KIT, USER_KIT } from '../services/drumKits';
+import { PALETTE_NAMES, PaletteName, PercType, PERC_TYPES } from '../services/palettes';
+
+type SampleStatus = 'none' | 'loading' | 'ready' | 'failed';
+
+interface KitPanelProps {
+  kits: DrumKit[];
+  assignments: KitAssignments;
+  palette: string;
+  status: (kitId: string, voice: PercType) => SampleStatus;
+  onAssign: (palette: PaletteName, kitId: string) => void;
+  onDropFiles: (files: File[], voice?: PercType) => void;
+  onClearSample: (voice: PercType) => void;
+}
+
+const STATUS_STYLES: Record<SampleStatus, string> = {
+  none: 'border-white/10 opacity-40',
+  loading: 'border-yellow-400/40 text-yellow-400',
+  ready: 'border-emerald-400/40 text-emerald-400',
+  failed: 'border-red-500/40 text-red-500'
+};
+
+const filesOf = (e: React.DragEvent) => Array.from<File>(e.dataTransfer.files);
+
+export function KitPanel({ kits, assignments, palette, status, onAssign, onDropFiles, onClearSample }: KitPanelProps) {
+  const [dragOver, setDragOver] = useState<PercType | 'all' | null>(null);
+
+  const dropProps = (target: PercType | 'all') => ({
+    onDragOver: (e: React.DragEvent) => { e.preventDefault(); e.stopPropagation(); setDragOver(target); },
+    onDragLeave: () => setDragOver(null),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      setDragOver(null);
+      onDropFiles(filesOf(e), target === 'all' ? undefined : target);
+    }
+  });
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-3">
+      <span className="opacity-30 tracking-widest">Drum_Kits</span>
+      <div className="grid grid-cols-4 gap-2">
+        {PALETTE_NAMES.map(p => (
+          <label key={p} className="flex flex-col gap-1">
+            <span className={p === palette ? 'text-white' : 'opacity-30'}>{p}</span>
+            <select value={assignments[p]} onChange={e => onAssign(p, e.target.value)} className="bg-black/40 border border-white/10 rounded px-1 py-1 outline-none">
+              <option value={SYNTH_KIT}>SYNTH</option>
+              {kits.map(k => <option key={k.id} value={k.id}>{k.name}</option>)}
+            </select>
+          </label>
+        ))}
+      </div>
+      <div
+        {...dropProps('all')}
+        className={`rounded-xl border border-dashed p-3 flex flex-col gap-2 transition-colors ${dragOver === 'all' ? 'border-white/60 bg-white/5' : 'border-white/10'}`}
+      >
+        <span className="opacity-30">User_Kit // Drop WAV/OGG one-shots (named kick, snare, hat, open, clap…) or onto a slot</span>
+        <div className="grid grid-cols-6 gap-1">
+          {PERC_TYPES.map(voice => {
+            const state = status(USER_KIT, voice);
+            return (
+              <div
+                key={voice}
+                {...dropProps(voice)}
+                className={`relative py-2 rounded border text-center transition-colors ${dragOver === voice ? 'border-white/60 bg-white/10' : STATUS_STYLES[state]}`}
+              >
+                {voice}
+                {state !== 'none' && (
+                  <button onClick={() => onClearSample(voice)} className="absolute right-1 top-0 opacity-50 hover:opacity-100">×</button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+
+import React from 'react';
+import { SectionKey } from '../types';
+import { Layer, LayerLocks, LAYERS } from '../services/locks';
+
+interface LayerLockBarProps {
+  locks: LayerLocks;
+  sections: SectionKey[];
+  busy: boolean;
+  onToggleLayer: (layer: Layer) => void;
+  onToggleSection: (key: SectionKey) => void;
+  onRegenerate: () => void;
+}
+
+const LAYER_LABELS: Record<Layer, string> = { drums: 'DRUMS', bass: 'BASS', lead: 'LEAD', chords: 'CHORDS', arp: 'ARP', probMap: 'PROB' };
+
+export function LayerLockBar({ locks, sections, busy, onToggleLayer, onToggleSection, onRegenerate }: LayerLockBarProps) {
+  const chip = (active: boolean) =>
+    `px-2 py-1 rounded border transition-colors ${active ? 'border-yellow-400/50 text-yellow-400 bg-yellow-400/10' : 'border-white/10 opacity-40 hover:opacity-80'}`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-[8px] font-black uppercase tracking-widest">
+      <span className="opacity-20 mr-1">Lock</span>
+      {LAYERS.map(layer => (
+        <button key={layer} onClick={() => onToggleLayer(layer)} className={chip(!!locks.layers[layer])}>
+          {LAYER_LABELS[layer]}
+        </button>
+      ))}
+      <span className="opacity-10 mx-1">|</span>
+      {sections.map(key => (
+        <button key={key} onClick={() => onToggleSection(key)} className={chip(!!locks.sections[key])}>
+          SEC_{key}
+        </button>
+      ))}
+      <button
+        onClick={onRegenerate}
+        disabled={busy}
+        className="ml-auto px-3 py-1 rounded bg-white/10 border border-white/10 hover:bg-white/20 disabled:opacity-30"
+      >
+        Remix_Unlocked
+      </button>
+    </div>
+  );
+}
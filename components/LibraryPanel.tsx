@@ -0,0 +1,135 @@
+
+import React, { useMemo, useState } from 'react';
+import { LibraryEntry, RecallPolicy, RecallMode } from '../services/dnaLibrary';
+
+interface LibraryPanelProps {
+  entries: LibraryEntry[];
+  policy: RecallPolicy;
+  currentBpm: number;
+  onPolicyChange: (policy: RecallPolicy) => void;
+  onLoad: (entry: LibraryEntry) => void;
+  onUpdate: (id: string, patch: Partial<Pick<LibraryEntry, 'name' | 'tags' | 'favourite'>>) => void;
+  onRemove: (id: string) => void;
+  onShare: (entry: LibraryEntry) => void;
+  onSaveCurrent: () => void;
+  onClose: () => void;
+}
+
+const RECALL_MODES: RecallMode[] = ['off', 'session', 'library'];
+
+const parseTags = (text: string) => [...new Set(text.split(',').map(t => t.trim().toUpperCase()).filter(Boolean))];
+
+export function LibraryPanel({ entries, policy, currentBpm, onPolicyChange, onLoad, onUpdate, onRemove, onShare, onSaveCurrent, onClose }: LibraryPanelProps) {
+  const [query, setQuery] = useState('');
+  const [onlyFavourites, setOnlyFavourites] = useState(false);
+  const [onlyThisBpm, setOnlyThisBpm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toUpperCase();
+    return entries.filter(e =>
+      (!onlyFavourites || e.favourite) &&
+      (!onlyThisBpm || e.bpm === currentBpm) &&
+      (!q || [e.name, e.genre, e.mood, ...e.tags].some(t => t.toUpperCase().includes(q)))
+    );
+  }, [entries, query, onlyFavourites, onlyThisBpm, currentBpm]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-md h-full bg-[#0a0a0a] border-l border-white/10 p-6 flex flex-col gap-4 font-mono text-white"
+      >
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] font-black opacity-40 uppercase tracking-[0.4em]">DNA_Library // {entries.length}</span>
+          <button onClick={onClose} className="text-[9px] font-black bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full uppercase tracking-widest">Close</button>
+        </div>
+
+        {/* Recall Policy */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-3 text-[9px] font-black uppercase">
+          <span className="opacity-30 tracking-widest">Recall_Policy</span>
+          <div className="flex gap-2">
+            {RECALL_MODES.map(mode => (
+              <button
+                key={mode}
+                onClick={() => onPolicyChange({ ...policy, mode })}
+                className={`flex-1 py-1 rounded-lg border tracking-widest ${policy.mode === mode ? 'bg-white text-black border-white' : 'border-white/10 hover:bg-white/10'}`}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between items-center gap-4">
+            <label className="flex items-center gap-2">
+              <span className="opacity-30">Pool</span>
+              <input
+                type="number" min={1} max={32} value={policy.poolSize}
+                onChange={e => { const v = parseInt(e.target.value); if (!isNaN(v)) onPolicyChange({ ...policy, poolSize: Math.max(1, Math.min(32, v)) }); }}
+                className="w-12 bg-transparent border-b border-white/20 outline-none text-center tabular-nums"
+              />
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={policy.favouritesOnly} onChange={e => onPolicyChange({ ...policy, favouritesOnly: e.target.checked })} className="accent-white" />
+              <span className="opacity-50">Favourites_Only</span>
+            </label>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-col gap-2 text-[9px] font-black uppercase">
+          <input
+            value={query} onChange={e => setQuery(e.target.value)} placeholder="SEARCH NAME / GENRE / TAG"
+            className="bg-white/5 border border-white/10 rounded-lg px-3 py-2 outline-none placeholder:opacity-30"
+          />
+          <div className="flex gap-4 items-center">
+            <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={onlyFavourites} onChange={e => setOnlyFavourites(e.target.checked)} className="accent-white" /><span className="opacity-50">★ Only</span></label>
+            <label className="flex items-center gap-2 cursor-pointer"><input type="checkbox" checked={onlyThisBpm} onChange={e => setOnlyThisBpm(e.target.checked)} className="accent-white" /><span className="opacity-50">{currentBpm}_BPM Only</span></label>
+            <button onClick={onSaveCurrent} className="ml-auto bg-white/10 hover:bg-white/20 px-2 py-1 rounded tracking-widest">Save_Current</button>
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar flex flex-col gap-2">
+          {visible.length === 0 && <div className="text-[9px] opacity-20 uppercase text-center mt-8">No_Entries</div>}
+          {visible.map(entry => (
+            <div key={entry.id} className="bg-white/5 border border-white/10 rounded-xl p-3 flex flex-col gap-2" style={{ borderLeft: `3px solid ${entry.dna.color}` }}>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => onUpdate(entry.id, { favourite: !entry.favourite })}
+                  className={`text-sm ${entry.favourite ? 'text-yellow-400' : 'opacity-20 hover:opacity-60'}`}
+                  title="Favourite"
+                >★</button>
+                {editingId === entry.id ? (
+                  <input
+                    autoFocus defaultValue={entry.name}
+                    onBlur={e => { onUpdate(entry.id, { name: e.target.value.trim() || entry.name }); setEditingId(null); }}
+                    onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+                    className="flex-1 bg-transparent border-b border-white/40 outline-none text-[11px] font-black"
+                  />
+                ) : (
+                  <span onDoubleClick={() => setEditingId(entry.id)} className="flex-1 truncate text-[11px] font-black uppercase cursor-text" title="Double-click to rename">{entry.name}</span>
+                )}
+                <span className="text-[9px] opacity-40 tabular-nums">{entry.bpm}_BPM</span>
+              </div>
+              <div className="flex justify-between text-[8px] opacity-40 uppercase">
+                <span>{entry.genre} / {entry.mood} / {entry.source}</span>
+                <span>{new Date(entry.createdAt).toLocaleString()}</span>
+              </div>
+              <input
+                defaultValue={entry.tags.join(', ')} placeholder="TAGS, COMMA, SEPARATED"
+                onBlur={e => onUpdate(entry.id, { tags: parseTags(e.target.value) })}
+                className="bg-transparent border-b border-white/10 outline-none text-[8px] uppercase placeholder:opacity-20"
+              />
+              <div className="flex gap-2 text-[8px] font-black uppercase">
+                <button onClick={() => onLoad(entry)} className="flex-1 py-1 bg-white text-black rounded">Load</button>
+                <button onClick={() => onShare(entry)} className="flex-1 py-1 bg-white/10 hover:bg-white/20 rounded">Share</button>
+                <button onClick={() => setEditingId(entry.id)} className="flex-1 py-1 bg-white/10 hover:bg-white/20 rounded">Rename</button>
+                <button onClick={() => onRemove(entry.id)} className="flex-1 py-1 bg-red-500/10 text-red-400 hover:bg-red-500/20 rounded">Delete</button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </aside>
+    </div>
+  );
+}
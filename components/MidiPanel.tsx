@@ -0,0 +1,105 @@
+import React from 'react';
+import { NoteLayer } from '../services/audioEngine';
+import { MidiPortInfo, MidiRoute, MidiSettings, MidiStatus, NOTE_LAYERS, ROUTE_MODES } from '../services/webMidi';
+
+interface MidiPanelProps {
+  status: MidiStatus;
+  outputs: MidiPortInfo[];
+  inputs: MidiPortInfo[];
+  settings: MidiSettings;
+  followedBpm: number | null;
+  color: string;
+  onEnable: () => void;
+  onRouteChange: (layer: NoteLayer, patch: Partial<MidiRoute>) => void;
+  onChange: (patch: Partial<MidiSettings>) => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<MidiStatus, string> = {
+  off: 'OFF',
+  pending: 'REQUESTING_ACCESS...',
+  ready: 'READY',
+  unsupported: 'NOT_SUPPORTED_IN_THIS_BROWSER',
+  denied: 'ACCESS_DENIED'
+};
+
+const CHANNELS = Array.from({ length: 16 }, (_, i) => i);
+
+export function MidiPanel({ status, outputs, inputs, settings, followedBpm, color, onEnable, onRouteChange, onChange, onClose }: MidiPanelProps) {
+  const select = 'bg-black/40 border border-white/10 rounded px-1 py-1 outline-none disabled:opacity-30';
+  const ready = status === 'ready';
+  const portOptions = (ports: MidiPortInfo[], selected: string | null) => (
+    <>
+      <option value="">NONE</option>
+      {ports.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      {/* A saved port that is unplugged right now stays selected so it reconnects when it returns. */}
+      {selected && !ports.some(p => p.id === selected) && <option value={selected}>OFFLINE</option>}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-xl h-full overflow-y-auto custom-scrollbar bg-[#0a0a0a] border-l border-white/10 p-6 flex flex-col gap-4 font-mono text-white text-[9px] font-black uppercase"
+      >
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] opacity-40 tracking-[0.4em]">Midi_IO // {STATUS_LABELS[status]}</span>
+          <div className="flex gap-2">
+            {status !== 'ready' && (
+              <button onClick={onEnable} disabled={status === 'pending'} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Enable</button>
+            )}
+            <button onClick={onClose} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Close</button>
+          </div>
+        </div>
+
+        {/* Layer Routing */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-2">
+          <span className="opacity-30 tracking-widest">Layer_Routing</span>
+          {NOTE_LAYERS.map(layer => {
+            const route = settings.routes[layer];
+            return (
+              <div key={layer} className="grid grid-cols-[4rem_1fr_4rem_auto] gap-2 items-center">
+                <span style={{ color: route.mode !== 'internal' ? color : undefined }}>{layer}</span>
+                <select value={route.output ?? ''} disabled={!ready} onChange={e => onRouteChange(layer, { output: e.target.value || null })} className={select}>
+                  {portOptions(outputs, route.output)}
+                </select>
+                <select value={route.channel} onChange={e => onRouteChange(layer, { channel: parseInt(e.target.value) })} className={select}>
+                  {CHANNELS.map(c => <option key={c} value={c}>CH_{c + 1}</option>)}
+                </select>
+                <div className="flex gap-1">
+                  {ROUTE_MODES.map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => onRouteChange(layer, { mode })}
+                      className={`px-2 py-1 rounded border transition-colors ${route.mode === mode ? 'border-white/60 bg-white/10' : 'border-white/10 opacity-40 hover:opacity-80'}`}
+                    >
+                      {mode}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Clock */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 grid grid-cols-2 gap-4">
+          <label className="flex flex-col gap-1">
+            <span className="opacity-30">Clock_Out // Start_Stop</span>
+            <select value={settings.clockOut ?? ''} disabled={!ready || settings.clockIn !== null} onChange={e => onChange({ clockOut: e.target.value || null })} className={select}>
+              {portOptions(outputs, settings.clockOut)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="opacity-30">Follow_Clock_In {followedBpm !== null && <span style={{ color }}>// {followedBpm}_BPM</span>}</span>
+            <select value={settings.clockIn ?? ''} disabled={!ready} onChange={e => onChange({ clockIn: e.target.value || null })} className={select}>
+              {portOptions(inputs, settings.clockIn)}
+            </select>
+          </label>
+        </div>
+        <span className="opacity-20 tracking-widest">Following an external clock pauses Clock_Out; the device's start/stop drives the transport</span>
+      </aside>
+    </div>
+  );
+}
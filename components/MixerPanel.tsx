@@ -0,0 +1,98 @@
+import React from 'react';
+import { Channel, ChannelStrip, MixSettings } from '../types';
+import { CHANNELS, DEFAULT_MIX, DELAY_DIVISIONS, MAX_FEEDBACK, MAX_VOLUME, REVERB_SIZES, isAudible } from '../services/mixer';
+
+interface MixerPanelProps {
+  mix: MixSettings;
+  bpm: number;
+  color: string;
+  onChannelChange: (channel: Channel, patch: Partial<ChannelStrip>) => void;
+  onChange: (patch: Partial<MixSettings>) => void;
+  onClose: () => void;
+  children?: React.ReactNode;
+}
+
+const pct = (v: number) => Math.round(v * 100);
+
+export function MixerPanel({ mix, bpm, color, onChannelChange, onChange, onClose, children }: MixerPanelProps) {
+  const slider = 'w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white';
+  const toggle = (active: boolean, tint: string) =>
+    `flex-1 py-1 rounded border transition-colors ${active ? tint : 'border-white/10 opacity-40 hover:opacity-80'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-3xl h-full overflow-y-auto custom-scrollbar bg-[#0a0a0a] border-l border-white/10 p-6 flex flex-col gap-4 font-mono text-white text-[9px] font-black uppercase"
+      >
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] opacity-40 tracking-[0.4em]">Mixer // {CHANNELS.filter(c => isAudible(mix, c)).length}_LIVE</span>
+          <div className="flex gap-2">
+            <button onClick={() => onChange(DEFAULT_MIX)} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Reset</button>
+            <button onClick={onClose} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Close</button>
+          </div>
+        </div>
+
+        {/* Channel Strips */}
+        <div className="grid grid-cols-5 gap-2">
+          {CHANNELS.map(channel => {
+            const strip = mix.channels[channel];
+            const audible = isAudible(mix, channel);
+            return (
+              <div key={channel} className={`bg-white/5 border border-white/10 rounded-2xl p-3 flex flex-col gap-2 transition-opacity ${audible ? '' : 'opacity-40'}`}>
+                <span className="text-center tracking-widest" style={{ color: audible ? color : undefined }}>{channel}</span>
+                <label className="flex flex-col gap-1">
+                  <span className="opacity-30 flex justify-between">Vol <span className="tabular-nums">{pct(strip.volume)}</span></span>
+                  <input type="range" min="0" max={pct(MAX_VOLUME)} value={pct(strip.volume)} onChange={e => onChannelChange(channel, { volume: parseInt(e.target.value) / 100 })} className={slider} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="opacity-30 flex justify-between">Pan <span className="tabular-nums">{strip.pan === 0 ? 'C' : `${strip.pan < 0 ? 'L' : 'R'}${pct(Math.abs(strip.pan))}`}</span></span>
+                  <input
+                    type="range" min="-100" max="100" value={pct(strip.pan)}
+                    onChange={e => onChannelChange(channel, { pan: parseInt(e.target.value) / 100 })}
+                    onDoubleClick={() => onChannelChange(channel, { pan: 0 })}
+                    className={slider}
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="opacity-30 flex justify-between">Dly <span className="tabular-nums">{pct(strip.delay)}</span></span>
+                  <input type="range" min="0" max="100" value={pct(strip.delay)} onChange={e => onChannelChange(channel, { delay: parseInt(e.target.value) / 100 })} className={slider} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="opacity-30 flex justify-between">Rev <span className="tabular-nums">{pct(strip.reverb)}</span></span>
+                  <input type="range" min="0" max="100" value={pct(strip.reverb)} onChange={e => onChannelChange(channel, { reverb: parseInt(e.target.value) / 100 })} className={slider} />
+                </label>
+                <div className="flex gap-1">
+                  <button onClick={() => onChannelChange(channel, { mute: !strip.mute })} className={toggle(strip.mute, 'border-red-500/50 text-red-500 bg-red-500/10')}>M</button>
+                  <button onClick={() => onChannelChange(channel, { solo: !strip.solo })} className={toggle(strip.solo, 'border-yellow-400/50 text-yellow-400 bg-yellow-400/10')}>S</button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Effects */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 grid grid-cols-3 gap-4">
+          <label className="flex flex-col gap-1">
+            <span className="opacity-30">Delay_Time // {Math.round(mix.delayBeats * 60000 / bpm)}ms</span>
+            <select value={mix.delayBeats} onChange={e => onChange({ delayBeats: parseFloat(e.target.value) })} className="bg-black/40 border border-white/10 rounded px-1 py-1 outline-none">
+              {DELAY_DIVISIONS.map(d => <option key={d.beats} value={d.beats}>{d.label}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="opacity-30 flex justify-between">Feedback <span className="tabular-nums">{pct(mix.feedback)}</span></span>
+            <input type="range" min="0" max={pct(MAX_FEEDBACK)} value={pct(mix.feedback)} onChange={e => onChange({ feedback: parseInt(e.target.value) / 100 })} className={`${slider} mt-2`} />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="opacity-30">Reverb_Size</span>
+            <select value={mix.reverbSize} onChange={e => onChange({ reverbSize: parseFloat(e.target.value) })} className="bg-black/40 border border-white/10 rounded px-1 py-1 outline-none">
+              {REVERB_SIZES.map(s => <option key={s} value={s}>{s}S</option>)}
+            </select>
+          </label>
+        </div>
+        {children}
+        <span className="opacity-20 tracking-widest">Master_Limiter // Always_On</span>
+      </aside>
+    </div>
+  );
+}
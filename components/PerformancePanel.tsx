@@ -0,0 +1,102 @@
+import React from 'react';
+import { NoteLayer } from '../services/audioEngine';
+import { MidiPortInfo, MidiStatus, NOTE_LAYERS } from '../services/webMidi';
+import { Bindings, LEAD_KEYS, PERFORMANCE_ACTIONS, PerformanceAction, formatKey, formatTrigger } from '../services/performance';
+
+interface PerformancePanelProps {
+  bindings: Bindings;
+  learning: PerformanceAction | null;
+  mutedLayers: NoteLayer[];
+  midiStatus: MidiStatus;
+  inputs: MidiPortInfo[];
+  controlIn: string | null;
+  color: string;
+  onLearn: (action: PerformanceAction | null) => void;
+  onClear: (action: PerformanceAction) => void;
+  onReset: () => void;
+  onToggleMute: (layer: NoteLayer) => void;
+  onEnableMidi: () => void;
+  onControlInChange: (id: string | null) => void;
+  onClose: () => void;
+}
+
+export function PerformancePanel({
+  bindings, learning, mutedLayers, midiStatus, inputs, controlIn, color,
+  onLearn, onClear, onReset, onToggleMute, onEnableMidi, onControlInChange, onClose
+}: PerformancePanelProps) {
+  const select = 'bg-black/40 border border-white/10 rounded px-1 py-1 outline-none disabled:opacity-30';
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-xl h-full overflow-y-auto custom-scrollbar bg-[#0a0a0a] border-l border-white/10 p-6 flex flex-col gap-4 font-mono text-white text-[9px] font-black uppercase"
+      >
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] opacity-40 tracking-[0.4em]">Perform {learning && <span style={{ color }}>// Press_A_Key_Or_Send_MIDI (ESC cancels)</span>}</span>
+          <div className="flex gap-2">
+            <button onClick={onReset} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Defaults</button>
+            <button onClick={onClose} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Close</button>
+          </div>
+        </div>
+
+        {/* Layer Mutes */}
+        <div className="grid grid-cols-5 gap-2">
+          {NOTE_LAYERS.map(layer => {
+            const muted = mutedLayers.includes(layer);
+            return (
+              <button
+                key={layer}
+                onClick={() => onToggleMute(layer)}
+                className={`py-2 rounded-xl border transition-colors ${muted ? 'border-red-500/50 text-red-500 bg-red-500/10' : 'border-white/10 hover:bg-white/5'}`}
+              >
+                {layer}{muted ? '_MUTED' : ''}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Bindings */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-1">
+          <span className="opacity-30 tracking-widest mb-1">Bindings</span>
+          {PERFORMANCE_ACTIONS.map(({ action, label }) => {
+            const { key, midi } = bindings[action];
+            const active = learning === action;
+            return (
+              <div key={action} className="grid grid-cols-[6rem_4rem_1fr_auto] gap-2 items-center">
+                <span style={{ color: active ? color : undefined }}>{label}</span>
+                <span className="opacity-60">{key ? formatKey(key) : '—'}</span>
+                <span className="opacity-60">{midi ? formatTrigger(midi) : '—'}</span>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => onLearn(active ? null : action)}
+                    className={`px-2 py-1 rounded border transition-colors ${active ? 'border-white/60 bg-white/10 animate-pulse' : 'border-white/10 opacity-40 hover:opacity-80'}`}
+                  >
+                    Learn
+                  </button>
+                  <button onClick={() => onClear(action)} className="px-2 py-1 rounded border border-white/10 opacity-40 hover:opacity-80">×</button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Control Input */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-2">
+          <div className="flex justify-between items-center">
+            <span className="opacity-30 tracking-widest">MIDI_Control_In</span>
+            {midiStatus !== 'ready' && <button onClick={onEnableMidi} className="bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest">Enable_MIDI</button>}
+          </div>
+          <select value={controlIn ?? ''} disabled={midiStatus !== 'ready'} onChange={e => onControlInChange(e.target.value || null)} className={select}>
+            <option value="">NONE</option>
+            {inputs.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        </div>
+
+        <span className="opacity-20 tracking-widest leading-relaxed">
+          Live_Lead // Keys {LEAD_KEYS.map(k => k.toUpperCase()).join(' ')} play the scale upwards; unbound MIDI notes are snapped to the scale
+        </span>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import React from 'react';
+import { Session, SessionEvent, describeEvent } from '../services/sessionRecorder';
+
+interface SessionPanelProps {
+  recording: boolean;
+  replaying: boolean;
+  exporting: boolean;
+  session: Session | null;
+  events: SessionEvent[];
+  // Only the window that owns the engine can record.
+  canRecord: boolean;
+  color: string;
+  onRecord: () => void;
+  onStopRecording: () => void;
+  onReplay: () => void;
+  onStopReplay: () => void;
+  onExportJson: () => void;
+  onExportWav: () => void;
+  onExportMidi: () => void;
+  onLoad: (file: File) => void;
+  onClose: () => void;
+}
+
+// The log lists the latest events; the file keeps all of them.
+const LOG_LENGTH = 200;
+
+const clock = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(2).padStart(5, '0')}`;
+
+export function SessionPanel({
+  recording, replaying, exporting, session, events, canRecord, color,
+  onRecord, onStopRecording, onReplay, onStopReplay, onExportJson, onExportWav, onExportMidi, onLoad, onClose
+}: SessionPanelProps) {
+  const button = 'bg-white/10 hover:bg-white/20 px-3 py-1 rounded-full tracking-widest disabled:opacity-30';
+  const ready = session !== null && !recording;
+  const state = recording ? 'RECORDING' : replaying ? 'REPLAYING' : session ? 'READY' : 'EMPTY';
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/60 backdrop-blur-sm" onClick={onClose}>
+      <aside
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-xl h-full overflow-y-auto custom-scrollbar bg-[#0a0a0a] border-l border-white/10 p-6 flex flex-col gap-4 font-mono text-white text-[9px] font-black uppercase"
+      >
+        <div className="flex justify-between items-center">
+          <span className="text-[10px] opacity-40 tracking-[0.4em]">Session // {state}</span>
+          <button onClick={onClose} className={button}>Close</button>
+        </div>
+
+        {/* Transport */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-2">
+          <span className="opacity-30 tracking-widest">Record_And_Replay</span>
+          <div className="flex gap-2">
+            {recording
+              ? <button onClick={onStopRecording} className={button} style={{ color }}>Stop_Recording</button>
+              : <button onClick={onRecord} disabled={!canRecord || replaying} className={button}>Record</button>}
+            {replaying
+              ? <button onClick={onStopReplay} className={button} style={{ color }}>Stop_Replay</button>
+              : <button onClick={onReplay} disabled={!ready || !canRecord} className={button}>Replay</button>}
+            <label className={`${button} cursor-pointer ${recording ? 'opacity-30 pointer-events-none' : ''}`}>
+              Load
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) onLoad(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          </div>
+          {session && !recording && (
+            <span className="opacity-40">
+              {clock(session.duration)} // {session.events.length}_EVENTS // SEED_{session.seed} // {session.start.dna.genre}
+            </span>
+          )}
+          <span className="opacity-20 tracking-widest">
+            {canRecord ? 'Replays play through the scheduler with the recorded seed; live playback stops first' : 'Open this panel in the window that plays the audio'}
+          </span>
+        </div>
+
+        {/* Export */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-2">
+          <span className="opacity-30 tracking-widest">Export</span>
+          <div className="flex gap-2">
+            <button onClick={onExportJson} disabled={!ready} className={button}>Session_Json</button>
+            <button onClick={onExportWav} disabled={!ready || exporting} className={button}>{exporting ? 'Rendering...' : 'Wav'}</button>
+            <button onClick={onExportMidi} disabled={!ready || exporting} className={button}>Midi</button>
+          </div>
+        </div>
+
+        {/* Log */}
+        <div className="bg-white/5 border border-white/10 rounded-2xl p-4 flex flex-col gap-1">
+          <span className="opacity-30 tracking-widest">
+            Log // {events.length}{events.length > LOG_LENGTH ? `_EVENTS // LATEST_${LOG_LENGTH}` : '_EVENTS'}
+          </span>
+          {events.slice(-LOG_LENGTH).reverse().map((event, i) => (
+            <div key={events.length - i} className="grid grid-cols-[4rem_3rem_1fr] gap-2">
+              <span className="opacity-40 tabular-nums">{clock(event.time)}</span>
+              <span className="opacity-20 tabular-nums">{event.step}</span>
+              <span className={event.type === 'action' ? 'opacity-60' : ''}>{describeEvent(event)}</span>
+            </div>
+          ))}
+          {!events.length && <span className="opacity-20 tracking-widest">Transport, DNA, tempo and your actions appear here while recording</span>}
+        </div>
+      </aside>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Steering, SteeringFeedback, EMPTY_STEERING, isSteered } from '../services/steering';
+import { GENRE_NAMES, MOOD_NAMES } from '../services/localComposer';
+
+interface SteeringPanelProps {
+  steering: Steering;
+  busy: boolean;
+  onChange: (patch: Partial<Steering>) => void;
+  onFeedback: (feedback: SteeringFeedback) => void;
+}
+
+const DEFAULT_ENERGY = 0.5;
+
+export function SteeringPanel({ steering, busy, onChange, onFeedback }: SteeringPanelProps) {
+  const select = 'bg-black/40 border border-white/10 rounded px-1 py-1 outline-none';
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-3xl p-6 backdrop-blur-md flex flex-col gap-3 text-[9px] font-black uppercase">
+      <div className="flex justify-between">
+        <span className="opacity-30 tracking-widest">Steering</span>
+        {isSteered(steering) && (
+          <button onClick={() => onChange(EMPTY_STEERING)} className="opacity-40 hover:opacity-100 transition-opacity">Clear</button>
+        )}
+      </div>
+      <input
+        type="text"
+        value={steering.direction}
+        onChange={e => onChange({ direction: e.target.value })}
+        placeholder="DARKER, SPARSE DRUMS, BUILD TENSION..."
+        className="bg-transparent border-b border-white/20 outline-none py-1 text-[10px] normal-case placeholder:uppercase placeholder:opacity-30"
+      />
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1">
+          <span className="opacity-30">Genre</span>
+          <select value={steering.genre ?? ''} onChange={e => onChange({ genre: e.target.value || null })} className={select}>
+            <option value="">AUTO</option>
+            {GENRE_NAMES.map(g => <option key={g} value={g}>{g}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="opacity-30">Mood</span>
+          <select value={steering.mood ?? ''} onChange={e => onChange({ mood: e.target.value || null })} className={select}>
+            <option value="">AUTO</option>
+            {MOOD_NAMES.map(m => <option key={m} value={m}>{m.toUpperCase()}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => onChange({ energy: steering.energy === null ? DEFAULT_ENERGY : null })}
+          className={`px-2 py-1 rounded border transition-colors ${steering.energy === null ? 'border-white/10 opacity-40 hover:opacity-80' : 'border-white/40'}`}
+        >
+          Energy
+        </button>
+        <input
+          type="range" min="0" max="100"
+          value={Math.round((steering.energy ?? DEFAULT_ENERGY) * 100)}
+          disabled={steering.energy === null}
+          onChange={e => onChange({ energy: parseInt(e.target.value) / 100 })}
+          className="flex-1 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white disabled:opacity-20"
+        />
+        <span className="w-8 text-right tabular-nums">{steering.energy === null ? 'AUTO' : Math.round(steering.energy * 100)}</span>
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onFeedback('more')}
+          disabled={busy}
+          className="flex-1 py-2 rounded-lg border border-emerald-400/30 text-emerald-400 hover:bg-emerald-400/10 transition-colors disabled:opacity-30"
+        >
+          More_Like_This
+        </button>
+        <button
+          onClick={() => onFeedback('less')}
+          disabled={busy}
+          className="flex-1 py-2 rounded-lg border border-red-500/30 text-red-500 hover:bg-red-500/10 transition-colors disabled:opacity-30"
+        >
+          Less_Like_This
+        </button>
+      </div>
+    </div>
+  );
+}
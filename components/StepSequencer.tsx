@@ -0,0 +1,193 @@
+
+import React, { useMemo } from 'react';
+import { ArpMode, HarmonyMode, MasterDNA, SectionKey, SectionSettings } from '../types';
+import { Lane, LaneLocks, LANES, LockPredicate, readLane } from '../services/dnaEdit';
+import { parseScale, isInScale, midiToName } from '../services/theory';
+import { ARP_MODES, DEFAULT_ARP_MODE, DEFAULT_HARMONY, HARMONY_MODES } from '../services/harmony';
+
+interface StepSequencerProps {
+  dna: MasterDNA;
+  section: SectionKey;
+  playingSection: SectionKey;
+  currentStep: number;
+  locks: LaneLocks;
+  // Effective lock including layer/section locks, shown but not toggled here.
+  isLocked: LockPredicate;
+  canUndo: boolean;
+  canRedo: boolean;
+  onSectionChange: (key: SectionKey) => void;
+  // `gesture` marks slider moves: one drag sends many edits but is undone as one, until onGestureEnd.
+  onEdit: (key: SectionKey, lane: Lane, idx: number, value: number | null, gesture?: boolean) => void;
+  onGestureEnd: () => void;
+  onGridChange: (key: SectionKey, patch: Partial<SectionSettings>, gesture?: boolean) => void;
+  onHarmonyChange: (harmony: HarmonyMode) => void;
+  onToggleLock: (key: SectionKey, lane: Lane) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const LANE_LABELS: Record<Lane, string> = {
+  kick: 'KICK', snare: 'SNARE', hihat: 'HIHAT', openhat: 'OPEN_HH', clap: 'CLAP', glitch: 'GLITCH', bass: 'BASS', lead: 'LEAD', arp: 'ARP', prob: 'PROB', velocity: 'VEL', micro: 'MICRO'
+};
+
+const NOTE_RANGES: Partial<Record<Lane, [number, number]>> = { bass: [24, 55], lead: [55, 96] };
+
+const SLIDER_RANGES: Partial<Record<Lane, [number, number]>> = { prob: [0, 1], velocity: [0, 1], micro: [-0.5, 0.5] };
+
+const STEP_OPTIONS = [6, 8, 12, 16, 24, 32];
+const METER_OPTIONS: [number, number][] = [[4, 4], [3, 4], [5, 4], [6, 8], [7, 8]];
+const SUBDIVISION_OPTIONS = [2, 3, 4, 6, 8];
+
+const ARP_LABELS: Record<ArpMode, string> = { up: 'UP', down: 'DOWN', updown: 'UP_DOWN', random: 'RANDOM', follow: 'FOLLOW_LEAD' };
+
+export function StepSequencer({ dna, section, playingSection, currentStep, locks, isLocked, canUndo, canRedo, onSectionChange, onEdit, onGestureEnd, onGridChange, onHarmonyChange, onToggleLock, onUndo, onRedo }: StepSequencerProps) {
+  const data = dna.sections[section];
+  const steps = data.steps;
+  const isPlaying = section === playingSection;
+
+  // Note pickers list scale tones only; an unparseable scale falls back to all semitones.
+  const noteOptions = useMemo(() => {
+    const scale = parseScale(dna.scale);
+    const options: Partial<Record<Lane, number[]>> = {};
+    (Object.keys(NOTE_RANGES) as Lane[]).forEach(lane => {
+      const [lo, hi] = NOTE_RANGES[lane]!;
+      options[lane] = Array.from({ length: hi - lo + 1 }, (_, i) => lo + i).filter(n => !scale || isInScale(n, scale));
+    });
+    return options;
+  }, [dna.scale]);
+
+  const renderCell = (lane: Lane, idx: number) => {
+    const value = readLane(data, lane)[idx];
+    const active = isPlaying && currentStep === idx;
+    const glow = active ? { boxShadow: `0 0 20px ${dna.color}66` } : undefined;
+
+    const range = SLIDER_RANGES[lane];
+    if (range) {
+      return (
+        <input
+          type="range" min={range[0]} max={range[1]} step={0.05} value={value ?? 0}
+          onChange={e => onEdit(section, lane, idx, parseFloat(e.target.value), true)}
+          onPointerUp={onGestureEnd} onKeyUp={onGestureEnd} onBlur={onGestureEnd}
+          className="w-full h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white"
+          title={lane === 'micro' ? `${Math.round((value ?? 0) * 100)}% of a step` : `${Math.round((value ?? 0) * 100)}%`}
+        />
+      );
+    }
+
+    if (lane === 'bass' || lane === 'lead') {
+      const note = lane === 'bass' ? (value || null) : value;
+      const options = noteOptions[lane] ?? [];
+      return (
+        <select
+          value={note ?? ''}
+          onChange={e => onEdit(section, lane, idx, e.target.value === '' ? (lane === 'bass' ? 0 : null) : parseInt(e.target.value))}
+          className={`w-full h-8 rounded-lg text-[8px] font-black text-center appearance-none outline-none border border-white/5 cursor-pointer transition-colors ${note ? 'bg-white/10' : 'bg-white/[0.02] opacity-40'}`}
+          style={{ ...glow, backgroundColor: note && active ? dna.color : undefined }}
+        >
+          <option value="">---</option>
+          {note !== null && !options.includes(note) && <option value={note}>{midiToName(note)}</option>}
+          {options.map(n => <option key={n} value={n}>{midiToName(n)}</option>)}
+        </select>
+      );
+    }
+
+    return (
+      <button
+        onClick={() => onEdit(section, lane, idx, value ? 0 : 1)}
+        className={`w-full h-8 rounded-lg border border-white/5 transition-all duration-200 ${value ? 'bg-white/20' : 'bg-white/[0.02] hover:bg-white/[0.06]'}`}
+        style={{ ...glow, backgroundColor: value && active ? dna.color : undefined }}
+      />
+    );
+  };
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0 gap-3">
+      <div className="flex justify-between items-center text-[9px] font-black tracking-widest uppercase">
+        <span className="opacity-20">Melodic_DNA_Matrix</span>
+        <div className="flex items-center gap-2">
+          <button onClick={onUndo} disabled={!canUndo} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-20">Undo</button>
+          <button onClick={onRedo} disabled={!canRedo} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20 disabled:opacity-20">Redo</button>
+          {Object.keys(dna.sections).map(key => (
+            <button
+              key={key}
+              onClick={() => onSectionChange(key)}
+              className={`px-3 py-1 rounded border ${section === key ? 'bg-white text-black border-white' : 'border-white/10 hover:bg-white/10'}`}
+            >
+              {key}{key === playingSection ? ' ●' : ''}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-[8px] font-black uppercase tracking-widest">
+        <label className="flex items-center gap-1.5">
+          <span className="opacity-30">Steps</span>
+          <select value={data.steps} onChange={e => onGridChange(section, { steps: parseInt(e.target.value) })} className="bg-white/5 border border-white/10 rounded px-1.5 py-1 outline-none">
+            {(STEP_OPTIONS.includes(data.steps) ? STEP_OPTIONS : [...STEP_OPTIONS, data.steps].sort((a, b) => a - b)).map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          <span className="opacity-30">Meter</span>
+          <select
+            value={data.timeSignature.join('/')}
+            onChange={e => onGridChange(section, { timeSignature: e.target.value.split('/').map(Number) as [number, number] })}
+            className="bg-white/5 border border-white/10 rounded px-1.5 py-1 outline-none"
+          >
+            {[...METER_OPTIONS, data.timeSignature]
+              .map(ts => ts.join('/'))
+              .filter((ts, i, all) => all.indexOf(ts) === i)
+              .map(ts => <option key={ts} value={ts}>{ts}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          <span className="opacity-30">Sub</span>
+          <select value={data.subdivision} onChange={e => onGridChange(section, { subdivision: parseInt(e.target.value) })} className="bg-white/5 border border-white/10 rounded px-1.5 py-1 outline-none">
+            {SUBDIVISION_OPTIONS.map(n => <option key={n} value={n}>{n}/Q</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5">
+          <span className="opacity-30">Arp</span>
+          <select value={data.arpMode ?? DEFAULT_ARP_MODE} onChange={e => onGridChange(section, { arpMode: e.target.value as ArpMode })} className="bg-white/5 border border-white/10 rounded px-1.5 py-1 outline-none">
+            {ARP_MODES.map(mode => <option key={mode} value={mode}>{ARP_LABELS[mode]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5" title="Song-wide: how bass, lead and arp are held to the key and the chord">
+          <span className="opacity-30">Harmony</span>
+          <select value={dna.harmony ?? DEFAULT_HARMONY} onChange={e => onHarmonyChange(e.target.value as HarmonyMode)} className="bg-white/5 border border-white/10 rounded px-1.5 py-1 outline-none">
+            {HARMONY_MODES.map(mode => <option key={mode} value={mode}>{mode}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-1.5 flex-1 min-w-[120px]">
+          <span className="opacity-30">Swing</span>
+          <input
+            type="range" min={0} max={1} step={0.05} value={data.swing}
+            onChange={e => onGridChange(section, { swing: parseFloat(e.target.value) }, true)}
+            onPointerUp={onGestureEnd} onKeyUp={onGestureEnd} onBlur={onGestureEnd}
+            className="flex-1 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white"
+          />
+          <span className="w-8 text-right">{Math.round(data.swing * 100)}%</span>
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar flex flex-col gap-1.5">
+        {LANES.map(lane => {
+          const locked = !!locks[section]?.[lane];
+          const inherited = !locked && isLocked(section, lane);
+          return (
+            <div key={lane} className="grid items-center gap-1.5" style={{ gridTemplateColumns: `88px repeat(${steps}, minmax(0, 1fr))` }}>
+              <button
+                onClick={() => onToggleLock(section, lane)}
+                className={`flex justify-between items-center text-[8px] font-black uppercase tracking-widest px-2 py-1 rounded border ${locked ? 'border-yellow-400/50 text-yellow-400' : inherited ? 'border-transparent text-yellow-400/60' : 'border-transparent opacity-40 hover:opacity-80'}`}
+                title={locked ? 'Locked: kept on recompose' : inherited ? 'Locked by layer/section lock' : 'Unlocked: replaced on recompose'}
+              >
+                <span>{LANE_LABELS[lane]}</span>
+                <span>{locked ? '■' : inherited ? '▣' : '□'}</span>
+              </button>
+              {Array.from({ length: steps }, (_, idx) => <div key={idx}>{renderCell(lane, idx)}</div>)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
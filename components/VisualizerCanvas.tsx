@@ -0,0 +1,17 @@
+import React, { useEffect, useRef } from 'react';
+import { VisualKind, Visualizer } from '../services/visualizer';
+
+interface VisualizerCanvasProps {
+  visualizer: Visualizer;
+  kind: VisualKind;
+  className?: string;
+}
+
+// A canvas the visualizer's animation loop draws into; React only mounts it.
+export function VisualizerCanvas({ visualizer, kind, className }: VisualizerCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => visualizer.attach(kind, canvasRef.current!), [visualizer, kind]);
+
+  return <canvas ref={canvasRef} className={`block w-full ${className ?? ''}`} />;
+}
@@ -0,0 +1,61 @@
+
+import { MasterDNA } from './types';
+
+// --- Config ---
+export const TARGET_MODEL = 'gemini-2.5-flash';
+export const RECOMPOSE_INTERVAL = 18000;
+export const INITIAL_BPM = 105;
+// Range of the BPM controls; tempos read from files and links are held to it as well.
+export const MIN_TEMPO = 40;
+export const MAX_TEMPO = 240;
+// Default pattern length; sections may declare their own `steps`.
+export const STEP_COUNT = 8;
+// How long each section plays before the arrangement moves on.
+export const SECTION_BARS = 2;
+
+export const INITIAL_DNA: MasterDNA = {
+  sections: {
+    A: {
+      drums: { kick: [1, 0, 0, 0, 1, 0, 0, 0], snare: [0, 0, 1, 0, 0, 0, 1, 0], hihat: [1, 1, 1, 1, 1, 1, 1, 1], glitch: [0, 0, 0, 0, 0, 0, 0, 1], clap: Array(8).fill(0), openhat: Array(8).fill(0) },
+      bassLine: [36, 36, 36, 36, 36, 36, 36, 36],
+      leadMelody: [60, null, 63, 65, null, 67, null, 60],
+      chordProgression: [[48, 52, 55, 58]],
+      arpPattern: [1, 0, 1, 0, 1, 0, 1, 0],
+      arpMode: 'up',
+      probMap: Array(8).fill(0.9),
+      steps: 8,
+      timeSignature: [4, 4],
+      subdivision: 4,
+      swing: 0,
+      velocity: Array(8).fill(1),
+      microTiming: Array(8).fill(0)
+    },
+    B: {
+      drums: { kick: [1, 1, 0, 0, 1, 1, 0, 0], snare: [0, 0, 1, 1, 0, 0, 1, 1], hihat: [1, 0, 1, 0, 1, 0, 1, 0], glitch: [1, 1, 1, 1, 0, 0, 0, 0], clap: Array(8).fill(0), openhat: Array(8).fill(0) },
+      bassLine: [34, 34, 34, 34, 34, 34, 34, 34],
+      leadMelody: [58, 60, null, 58, 60, null, 62, 63],
+      chordProgression: [[46, 50, 53, 57]],
+      arpPattern: [1, 1, 1, 1, 0, 0, 0, 0],
+      arpMode: 'updown',
+      probMap: Array(8).fill(0.7),
+      steps: 8,
+      timeSignature: [4, 4],
+      subdivision: 4,
+      swing: 0,
+      velocity: Array(8).fill(1),
+      microTiming: Array(8).fill(0)
+    }
+  },
+  arrangement: [
+    { section: 'A', repeats: 1, energy: 0.5, fill: false },
+    { section: 'B', repeats: 1, energy: 0.5, fill: false }
+  ],
+  genre: "DREAM_ELECTRONICA",
+  palette: 'ETHEREAL',
+  energy: 0.5,
+  color: "#a855f7",
+  mood: "MYSTICAL",
+  scale: "C Minor",
+  harmony: 'scale',
+  aiThought: "System initialized. Optimizing for high-speed neural synthesis..."
+};
@@ -0,0 +1,201 @@
+// --- Jam Relay ---
+// A tiny WebSocket relay for jam sessions (services/jamSession.ts), with no dependencies so it
+// runs anywhere Node does: `npm run jam-relay` on one machine of the LAN, then point every
+// browser at ws://<that machine>:8787. It keeps rooms, hands out peer ids, answers clock pings
+// and forwards jam broadcasts and requests to the rest of the room. It knows nothing about the music.
+//
+//   node server/jamRelay.mjs [--port 8787]
+
+import { createServer } from 'node:http';
+import { createHash, randomUUID } from 'node:crypto';
+import { networkInterfaces } from 'node:os';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 1 << 20;
+const portArg = process.argv.indexOf('--port');
+const PORT = Number(portArg > 0 ? process.argv[portArg + 1] : process.env.PORT) || 8787;
+
+const OP_TEXT = 0x1;
+const OP_CLOSE = 0x8;
+const OP_PING = 0x9;
+const OP_PONG = 0xa;
+
+// --- Framing ---
+
+const frame = (opcode, payload = Buffer.alloc(0)) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Pulls complete frames off the front of `buffer`; returns them with the unread rest.
+const parseFrames = buffer => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error('MESSAGE_TOO_LARGE');
+    const maskStart = cursor;
+    if (masked) cursor += 4;
+    if (buffer.length < cursor + length) break;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (masked) for (let i = 0; i < length; i++) payload[i] ^= buffer[maskStart + (i % 4)];
+    frames.push({ fin, opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// --- Rooms ---
+
+// What peers may send each other. Only the host broadcasts; anything else (the relay's own
+// welcome / peers / pong / error above all) is dropped, so no peer can rewrite another's roster.
+const BROADCASTS = new Set(['dna', 'transport', 'session']);
+const REQUESTS = new Set(['propose', 'vote', 'lock']);
+
+const rooms = new Map();   // room name → Map<id, peer>
+
+const roster = room => [...room.values()].map(({ id, name, role }) => ({ id, name, role }));
+
+const send = (peer, message) => {
+  if (!peer.socket.destroyed) peer.socket.write(frame(OP_TEXT, Buffer.from(JSON.stringify(message))));
+};
+
+const announce = room => {
+  const peers = roster(room);
+  room.forEach(peer => send(peer, { type: 'peers', peers }));
+};
+
+const leave = peer => {
+  const room = peer.room && rooms.get(peer.room);
+  if (!room || !room.delete(peer.id)) return;
+  console.log(`- ${peer.name || peer.id} left ${peer.room}`);
+  if (room.size) announce(room);
+  else rooms.delete(peer.room);
+};
+
+const receive = (peer, message) => {
+  switch (message.type) {
+    case 'join': {
+      if (peer.room) return;
+      // One key per room however the client typed it ("7" and 7 are the same room).
+      const name = String(message.room);
+      const room = rooms.get(name) ?? new Map();
+      if (message.role === 'host' && [...room.values()].some(p => p.role === 'host')) {
+        send(peer, { type: 'error', reason: 'HOST_TAKEN' });
+        return;
+      }
+      Object.assign(peer, { room: name, name: String(message.name ?? '').slice(0, 32), role: message.role === 'host' ? 'host' : 'guest' });
+      room.set(peer.id, peer);
+      rooms.set(peer.room, room);
+      console.log(`+ ${peer.name || peer.id} joined ${peer.room} as ${peer.role}`);
+      send(peer, { type: 'welcome', id: peer.id, peers: roster(room) });
+      room.forEach(other => { if (other !== peer) send(other, { type: 'peers', peers: roster(room) }); });
+      return;
+    }
+    case 'ping':
+      send(peer, { type: 'pong', t0: message.t0, server: Date.now() });
+      return;
+    default: {
+      const room = peer.room && rooms.get(peer.room);
+      if (!room) return;
+      if (!REQUESTS.has(message.type) && !(BROADCASTS.has(message.type) && peer.role === 'host')) return;
+      const relayed = { ...message, from: peer.id };
+      room.forEach(other => { if (other !== peer) send(other, relayed); });
+    }
+  }
+};
+
+// --- Server ---
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { 'content-type': 'text/plain' });
+  res.end('Neural_Strudel jam relay: connect over WebSocket.\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+  socket.setNoDelay(true);
+
+  const peer = { id: randomUUID().slice(0, 8), socket, room: null, name: '', role: 'guest' };
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentBytes = 0;
+  socket.on('data', chunk => {
+    let parsed;
+    try {
+      parsed = parseFrames(Buffer.concat([pending, chunk]));
+    } catch {
+      socket.destroy();
+      return;
+    }
+    pending = parsed.rest;
+    for (const { fin, opcode, payload } of parsed.frames) {
+      if (opcode === OP_CLOSE) {
+        socket.end(frame(OP_CLOSE));
+        return;
+      }
+      if (opcode === OP_PING) {
+        socket.write(frame(OP_PONG, payload));
+        continue;
+      }
+      if (opcode === OP_PONG) continue;
+      // Text frames, possibly split into continuation frames (opcode 0).
+      // The size limit holds for the whole message, not just each frame.
+      fragmentBytes += payload.length;
+      if (fragmentBytes > MAX_MESSAGE_BYTES) {
+        socket.destroy();
+        return;
+      }
+      fragments.push(payload);
+      if (!fin) continue;
+      const text = Buffer.concat(fragments).toString('utf8');
+      fragments = [];
+      fragmentBytes = 0;
+      try {
+        receive(peer, JSON.parse(text));
+      } catch {
+        // A malformed message is dropped; the connection stays.
+      }
+    }
+  });
+  socket.on('close', () => leave(peer));
+  socket.on('error', () => leave(peer));
+});
+
+server.listen(PORT, () => {
+  const addresses = Object.values(networkInterfaces()).flat()
+    .filter(address => address && address.family === 'IPv4' && !address.internal)
+    .map(address => `ws://${address.address}:${PORT}`);
+  console.log(`Jam relay listening on ws://localhost:${PORT}`);
+  addresses.forEach(address => console.log(`  on the LAN: ${address}`));
+});
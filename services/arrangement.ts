@@ -0,0 +1,45 @@
+import { ArrangementSlot, MasterDNA, SectionKey } from '../types';
+import { SECTION_BARS } from '../constants';
+
+// --- Arrangement ---
+// Song form on top of the section patterns: an ordered, looping list of slots, each playing
+// one named section for `repeats` passes of SECTION_BARS bars.
+
+export type Transition = 'sweep' | 'dropout';
+
+// Smallest energy jump between neighbouring slots that earns a transition on the last bar.
+export const TRANSITION_THRESHOLD = 0.2;
+export const MAX_REPEATS = 8;
+export const MAX_SLOTS = 16;
+
+// One pass through every section in declaration order, the classic A → B loop.
+export const defaultArrangement = (sections: SectionKey[], energy: number): ArrangementSlot[] =>
+  sections.map(section => ({ section, repeats: 1, energy, fill: false }));
+
+// Rising energy sweeps a filter open into the next slot; falling energy drops the drums out.
+export const transitionBetween = (from: ArrangementSlot, to: ArrangementSlot): Transition | null => {
+  const delta = to.energy - from.energy;
+  if (delta >= TRANSITION_THRESHOLD) return 'sweep';
+  if (delta <= -TRANSITION_THRESHOLD) return 'dropout';
+  return null;
+};
+
+export const slotBars = (slot: ArrangementSlot) => slot.repeats * SECTION_BARS;
+
+export const arrangementBars = (arrangement: ArrangementSlot[]) => arrangement.reduce((sum, slot) => sum + slotBars(slot), 0);
+
+// Bar at which each slot starts, for drawing the timeline.
+export const slotOffsets = (arrangement: ArrangementSlot[]) => {
+  let bar = 0;
+  return arrangement.map(slot => {
+    const start = bar;
+    bar += slotBars(slot);
+    return start;
+  });
+};
+
+// The arrangement the transport actually plays: never empty, never pointing at a missing section.
+export const playableArrangement = (dna: MasterDNA): ArrangementSlot[] => {
+  const slots = (dna.arrangement ?? []).filter(slot => Object.hasOwn(dna.sections, slot.section));
+  return slots.length ? slots : defaultArrangement(Object.keys(dna.sections), dna.energy);
+};
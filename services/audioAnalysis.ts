@@ -0,0 +1,211 @@
+import { NOTE_NAMES } from './theory';
+
+// --- Audio Analysis ---
+// Tempo, key and loudness of raw PCM. Pure functions over Float32Arrays so the same code runs on
+// a live input (audioInput.ts feeds it incrementally) and on decoded files or WAV fixtures in Node.
+
+export interface InputAnalysis {
+  bpm: number | null;       // null when no steady pulse was found
+  scale: string | null;     // e.g. "A Minor"; null when the pitch content is too weak or flat
+  loudness: number;         // 0–1
+}
+
+export const MIN_BPM = 60;
+export const MAX_BPM = 200;
+// Octave errors (half / double time) are settled in favour of tempos near this one.
+const PREFERRED_BPM = 120;
+const TEMPO_SPREAD = 1;   // octaves; width of the preference around PREFERRED_BPM
+// A tempo peak must carry this share of the envelope's energy to count as a pulse.
+const MIN_PULSE = 0.3;
+
+// Krumhansl–Kessler key profiles, tonic first.
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+const KEY_PROFILES: [string, number[]][] = [['Major', MAJOR_PROFILE], ['Minor', MINOR_PROFILE]];
+const MIN_KEY_CORRELATION = 0.5;
+// Spectrum range folded into the chroma: low enough for bass roots, above most cymbal hiss.
+const CHROMA_LOW_HZ = 55;
+const CHROMA_HIGH_HZ = 2000;
+
+// Loudness maps this dBFS window onto 0–1.
+const SILENT_DB = -50;
+const LOUD_DB = -10;
+
+export const ENVELOPE_HOP = 128;
+const MAX_ONSET = 1;   // +20 dB
+const KEY_FFT_SIZE = 4096;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const rms = (samples: ArrayLike<number>, from = 0, to = samples.length) => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return to > from ? Math.sqrt(sum / (to - from)) : 0;
+};
+
+export const loudnessOf = (level: number) => {
+  const db = 20 * Math.log10(Math.max(level, 1e-6));
+  return clamp01((db - SILENT_DB) / (LOUD_DB - SILENT_DB));
+};
+
+// How much louder a frame is than the one before, on a log scale; rises mark onsets. Capped, so
+// playing in after silence doesn't outweigh every beat that follows.
+export const onsetStrength = (previousLevel: number, level: number) =>
+  Math.min(MAX_ONSET, Math.max(0, Math.log10(level + 1e-4) - Math.log10(previousLevel + 1e-4)));
+
+// Onset envelope at sampleRate / hop frames per second.
+export const onsetEnvelope = (samples: Float32Array, sampleRate: number, hop = ENVELOPE_HOP) => {
+  const frames = Math.floor(samples.length / hop);
+  const envelope = new Float32Array(Math.max(0, frames - 1));
+  let previous = rms(samples, 0, hop);
+  for (let f = 1; f < frames; f++) {
+    const level = rms(samples, f * hop, (f + 1) * hop);
+    envelope[f - 1] = onsetStrength(previous, level);
+    previous = level;
+  }
+  return { envelope, rate: sampleRate / hop };
+};
+
+// Autocorrelation of the onset envelope over the 60–200 BPM lags, weighted towards
+// PREFERRED_BPM so the beat wins over its half- and double-time shadows.
+export const tempoFromEnvelope = (envelope: ArrayLike<number>, rate: number): number | null => {
+  const n = envelope.length;
+  let mean = 0;
+  for (let i = 0; i < n; i++) mean += envelope[i];
+  mean /= n || 1;
+  // Onsets are a frame wide; smoothing lets beats whose period falls between two lags still line up.
+  const centered = Float64Array.from({ length: n }, (_, i) =>
+    0.25 * (envelope[Math.max(0, i - 1)] + 2 * envelope[i] + envelope[Math.min(n - 1, i + 1)]) - mean);
+  const correlate = (lag: number) => {
+    let sum = 0;
+    for (let i = 0; i + lag < n; i++) sum += centered[i] * centered[i + lag];
+    return sum / (n - lag);
+  };
+  const zero = correlate(0);
+  const minLag = Math.max(1, Math.floor((rate * 60) / MAX_BPM));
+  const maxLag = Math.min(n - 2, Math.ceil((rate * 60) / MIN_BPM));
+  if (zero <= 0 || maxLag <= minLag) return null;
+
+  const scores: number[] = [];
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) scores[lag] = correlate(lag);
+  let best = -1;
+  let bestWeighted = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const isPeak = scores[lag] >= scores[lag - 1] && scores[lag] >= scores[lag + 1];
+    if (!isPeak) continue;
+    const octaves = Math.log2((rate * 60) / lag / PREFERRED_BPM) / TEMPO_SPREAD;
+    const weighted = scores[lag] * Math.exp(-0.5 * octaves * octaves);
+    if (weighted > bestWeighted) { bestWeighted = weighted; best = lag; }
+  }
+  if (best < 0 || scores[best] < zero * MIN_PULSE) return null;
+  // Parabolic interpolation between neighbouring lags: the envelope's frame rate alone is too coarse.
+  const [a, b, c] = [scores[best - 1], scores[best], scores[best + 1]];
+  const denominator = a - 2 * b + c;
+  const shift = denominator === 0 ? 0 : (0.5 * (a - c)) / denominator;
+  const bpm = (rate * 60) / (best + shift);
+  return Math.round(Math.min(MAX_BPM, Math.max(MIN_BPM, bpm)));
+};
+
+// In-place radix-2 FFT; `re.length` must be a power of two.
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const i = start + k;
+        const j = i + size / 2;
+        const tr = re[j] * cos - im[j] * sin;
+        const ti = re[j] * sin + im[j] * cos;
+        re[j] = re[i] - tr;
+        im[j] = im[i] - ti;
+        re[i] += tr;
+        im[i] += ti;
+      }
+    }
+  }
+};
+
+// Adds a magnitude spectrum (bins 0..fftSize/2) into a 12-bin pitch-class profile.
+export const addChroma = (chroma: Float64Array, magnitudes: ArrayLike<number>, sampleRate: number, fftSize: number) => {
+  for (let bin = 1; bin < magnitudes.length; bin++) {
+    const hz = (bin * sampleRate) / fftSize;
+    if (hz < CHROMA_LOW_HZ || hz > CHROMA_HIGH_HZ) continue;
+    const midi = Math.round(69 + 12 * Math.log2(hz / 440));
+    chroma[((midi % 12) + 12) % 12] += magnitudes[bin];
+  }
+};
+
+// Chroma of a whole signal from non-overlapping Hann-windowed frames.
+export const chromaOf = (samples: Float32Array, sampleRate: number, fftSize = KEY_FFT_SIZE) => {
+  const chroma = new Float64Array(12);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const magnitudes = new Float64Array(fftSize / 2);
+  for (let start = 0; start + fftSize <= samples.length; start += fftSize) {
+    for (let i = 0; i < fftSize; i++) {
+      re[i] = samples[start + i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (fftSize - 1)));
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let bin = 0; bin < fftSize / 2; bin++) magnitudes[bin] = Math.hypot(re[bin], im[bin]);
+    addChroma(chroma, magnitudes, sampleRate, fftSize);
+  }
+  return chroma;
+};
+
+const correlation = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  const n = a.length;
+  let ma = 0, mb = 0;
+  for (let i = 0; i < n; i++) { ma += a[i]; mb += b[i]; }
+  ma /= n; mb /= n;
+  let num = 0, da = 0, db = 0;
+  for (let i = 0; i < n; i++) {
+    num += (a[i] - ma) * (b[i] - mb);
+    da += (a[i] - ma) ** 2;
+    db += (b[i] - mb) ** 2;
+  }
+  return da && db ? num / Math.sqrt(da * db) : 0;
+};
+
+// Best-matching major or minor key, as a scale name parseScale understands.
+export const keyFromChroma = (chroma: ArrayLike<number>): string | null => {
+  let best: string | null = null;
+  let bestScore = MIN_KEY_CORRELATION;
+  for (let root = 0; root < 12; root++) {
+    const rotated = Array.from({ length: 12 }, (_, i) => chroma[(root + i) % 12]);
+    for (const [mode, profile] of KEY_PROFILES) {
+      const score = correlation(rotated, profile);
+      if (score > bestScore) { bestScore = score; best = `${NOTE_NAMES[root]} ${mode}`; }
+    }
+  }
+  return best;
+};
+
+// Mixes channels down before analysis; the pulse and key don't depend on the stereo image.
+export const mixDown = (channels: Float32Array[]) => {
+  if (channels.length === 1) return channels[0];
+  const mono = new Float32Array(channels[0].length);
+  channels.forEach(ch => ch.forEach((v, i) => { mono[i] += v / channels.length; }));
+  return mono;
+};
+
+export const analyzeSamples = (samples: Float32Array, sampleRate: number): InputAnalysis => {
+  const { envelope, rate } = onsetEnvelope(samples, sampleRate);
+  return {
+    bpm: tempoFromEnvelope(envelope, rate),
+    scale: keyFromChroma(chromaOf(samples, sampleRate)),
+    loudness: loudnessOf(rms(samples))
+  };
+};
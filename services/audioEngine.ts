@@ -0,0 +1,819 @@
+
+import { Channel, MasterDNA, MixSettings, SectionDNA, SectionKey } from '../types';
+import { INITIAL_BPM, INITIAL_DNA } from '../constants';
+import { midiToFreq } from './theory';
+import { Rng } from './random';
+import { TimelineWalker, TimelineStep, WalkerPosition, stepOffsetBeats, stepDrums, stepsPerBar, quartersPerBar } from './timeline';
+import { EnergyShape, Palette, PaletteName, PercType, Voice, resolvePalette, shapeForEnergy } from './palettes';
+import { SampleSource } from './drumKits';
+import { GM_DRUMS } from './midiFile';
+import { CHANNELS, isAudible, mixOf } from './mixer';
+import { playableArrangement } from './arrangement';
+import { HarmonyContext, arpNote, chordIndexAt, harmonize, harmonyAt } from './harmony';
+
+// --- Audio Engine ---
+// Owns the AudioContext, effect chain, lookahead scheduler and transport. React only
+// subscribes to step events; it never touches audio nodes directly.
+
+
+export interface StepEvent {
+  step: number;      // absolute step counter since the engine was created
+  stepIdx: number;   // position inside the section pattern
+  steps: number;     // pattern length of that section
+  section: SectionKey;
+  slot: number;      // arrangement slot the step belongs to
+  slotProgress: number;
+  time: number;      // audio-clock time of the grid position
+  offset: number;    // seconds of swing + micro-timing applied on top of `time`
+  morph: number | null;  // 0–1 progress of a running DNA morph
+  chord: number;     // index into the section's chordProgression
+  beat: number;      // beat clock (quarter notes since the last cue to step 0) at the grid position
+  beats: number;     // grid length of the step in quarter notes
+  duration: number;  // grid length in seconds at the tempo it was scheduled with
+}
+
+export type StepListener = (event: StepEvent) => void;
+
+// Everything the engine plays, as notes: external outputs (Web MIDI) mirror the internal voices
+// from these, on the same lookahead audio-clock times.
+export type NoteLayer = 'drums' | 'bass' | 'lead' | 'pad' | 'arp';
+
+export interface NoteEvent {
+  layer: NoteLayer;
+  note: number;       // MIDI note; drums use General MIDI percussion numbers
+  velocity: number;   // 0–1
+  time: number;       // audio-clock start
+  duration: number;   // seconds
+}
+
+export type NoteListener = (event: NoteEvent) => void;
+
+// The next step to be scheduled: where in the arrangement, on which beat, at what audio time and
+// tempo. Two engines given the same DNA and position play the same thing from there on.
+export interface TransportPosition extends WalkerPosition {
+  beat: number;
+  time: number;
+  bpm: number;
+}
+
+// Boundary a queued DNA waits for before it becomes audible.
+export type Quantize = 'now' | 'bar' | 'section';
+
+export interface DnaChangeOptions {
+  quantize?: Quantize;
+  // Bars to morph from the old DNA into the new one; 0 cuts over at the boundary.
+  morphBars?: number;
+}
+
+export const DEFAULT_DNA_CHANGE: Required<DnaChangeOptions> = { quantize: 'bar', morphBars: 0 };
+
+// Every call that changes what the engine will play, as it was made. Replaying them in order, each
+// before the step that was next at the time, plays the same music again (see sessionRecorder).
+export type ControlChange =
+  | { type: 'start'; at: number }
+  | { type: 'stop' }
+  | { type: 'seek'; at: number; position: Omit<TransportPosition, 'time' | 'bpm'> }
+  | { type: 'tempo'; bpm: number; rampBars: number }
+  // `change` is null for an immediate swap (setDNA), else the options it was queued with.
+  | { type: 'dna'; dna: MasterDNA; change: Required<DnaChangeOptions> | null }
+  | { type: 'jump'; section: SectionKey }
+  | { type: 'mute'; layers: NoteLayer[] }
+  | { type: 'live'; note: number; velocity: number; at: number };
+
+export type ControlListener = (change: ControlChange) => void;
+
+// Morph order: each layer crossfades in its own slice of the morph, so parts enter one at a time.
+// The pad is not in the list; it glides between chords for the whole morph instead.
+type MorphLayer = 'drums' | 'bass' | 'lead' | 'arp';
+const MORPH_ORDER: MorphLayer[] = ['drums', 'bass', 'lead', 'arp'];
+
+// The palette a note is played with, already shaped by the energy of its slot.
+interface Sound {
+  palette: Palette;
+  shape: EnergyShape;
+}
+
+interface Strip {
+  input: GainNode;     // volume, or 0 when muted / not soloed
+  panner: StereoPannerNode;
+  delay: GainNode;     // post-pan sends
+  reverb: GainNode;
+}
+
+interface Morph {
+  from: MasterDNA;
+  fromSection: SectionKey;
+  start: number;   // beat clock at the cut-over
+  beats: number;
+}
+
+export interface AudioEngineOptions {
+  // Injected context (OfflineAudioContext, mock…). Omit to create a realtime AudioContext on init().
+  context?: BaseAudioContext;
+  bpm?: number;
+  dna?: MasterDNA;
+  // Source for probMap rolls, arp picks and noise. Pass a seeded Rng for reproducible renders.
+  random?: Rng;
+  // Drum kit samples; without one every drum is synthesized.
+  samples?: SampleSource;
+  // start() only marks the transport running; the caller drives scheduleUntil (session replays).
+  manual?: boolean;
+}
+
+const LOOKAHEAD = 0.2;
+const TICK_MS = 40;
+const START_OFFSET = 0.1;
+// Master lowpass range for energy sweeps (closed at the start of the transition bar, open at its end).
+const SWEEP_FLOOR = 300;
+const SWEEP_CEILING = 20000;
+const MAX_CUTOFF = 18000;
+const MIN_DRIVE = 0.02;
+const SEND_GLIDE = 0.2;
+const MIX_GLIDE = 0.02;
+const MAX_DELAY = 4;
+const CURVE_SIZE = 1024;
+const NOISE_SECONDS = 2;
+const CLAP_BURSTS = [0, 0.01, 0.02];
+const DRUM_NOTE_SECONDS = 0.05;
+const LIVE_NOTE_BEATS = 0.5;
+// Drum lane → percussion voice and its level in the internal mix.
+const DRUM_VOICES: [keyof SectionDNA['drums'], PercType, number][] = [
+  ['kick', 'kick', 1], ['snare', 'snare', 0.7], ['hihat', 'hat', 0.4], ['openhat', 'openhat', 0.4], ['clap', 'clap', 0.6], ['glitch', 'glitch', 0.3]
+];
+
+// tanh soft-clip curves, shared across voices and quantised to twentieths of drive.
+const curves = new Map<number, Float32Array>();
+const driveCurve = (amount: number) => {
+  const key = Math.round(amount * 20);
+  let curve = curves.get(key);
+  if (!curve) {
+    const k = 1 + key / 2;
+    curve = new Float32Array(CURVE_SIZE);
+    for (let i = 0; i < CURVE_SIZE; i++) curve[i] = Math.tanh(k * (i / (CURVE_SIZE - 1) * 2 - 1)) / Math.tanh(k);
+    curves.set(key, curve);
+  }
+  return curve;
+};
+
+export class AudioEngine {
+  private ctx: BaseAudioContext | null;
+  private master: GainNode | null = null;
+  private sweep: BiquadFilterNode | null = null;
+  private delaySend: GainNode | null = null;
+  private reverbSend: GainNode | null = null;
+  private sendsFor: PaletteName | null = null;
+  private delay: DelayNode | null = null;
+  private delayFeedback: GainNode | null = null;
+  private delayTime = 0;
+  private reverb: ConvolverNode | null = null;
+  private reverbSize = 0;
+  private strips: Record<Channel, Strip> | null = null;
+  private mixFor: MixSettings | null = null;
+  private analyserNode: AnalyserNode | null = null;
+  private bpm: number;
+  private dna: MasterDNA;
+  private random: Rng;
+  private samples: SampleSource | null;
+  private noise: AudioBuffer | null = null;
+  private step = 0;
+  private walker = new TimelineWalker();
+  // Beats scheduled since the last cue to step 0; the clock for morphs and tempo ramps.
+  private beatClock = 0;
+  private pending: { dna: MasterDNA; options: Required<DnaChangeOptions> } | null = null;
+  private morph: Morph | null = null;
+  private tempoRamp: { from: number; to: number; start: number; beats: number } | null = null;
+  private nextStepTime = 0;
+  private running = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private stepListeners = new Set<StepListener>();
+  private scheduleListeners = new Set<StepListener>();
+  private noteListeners = new Set<NoteListener>();
+  private controlListeners = new Set<ControlListener>();
+  private manual: boolean;
+  // Layers that only play through note listeners (e.g. routed to hardware only).
+  private externalOnly = new Set<NoteLayer>();
+  // Performance mutes: the layer's sequenced notes are skipped (internally and on MIDI out).
+  private muted = new Set<NoteLayer>();
+  private jumpTarget: SectionKey | null = null;
+  private energy = 0.5;
+
+  constructor(options: AudioEngineOptions = {}) {
+    this.ctx = options.context ?? null;
+    this.bpm = options.bpm ?? INITIAL_BPM;
+    this.dna = options.dna ?? INITIAL_DNA;
+    this.random = options.random ?? Math.random;
+    this.samples = options.samples ?? null;
+    this.manual = options.manual ?? false;
+  }
+
+  get context() {
+    return this.ctx;
+  }
+
+  get analyser() {
+    return this.analyserNode;
+  }
+
+  get isRunning() {
+    return this.running;
+  }
+
+  get currentStep() {
+    return this.step;
+  }
+
+  // Quarter notes since the last cue to step 0; while a step is being scheduled, that step's beat.
+  get beat() {
+    return this.beatClock;
+  }
+
+  get position(): TransportPosition {
+    return { ...this.walker.position, beat: this.beatClock, time: this.nextStepTime, bpm: this.tempoAt(this.beatClock) };
+  }
+
+  async init() {
+    if (!this.ctx) this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const ctx = this.ctx!;
+    if (!this.master) this.buildGraph(ctx);
+    // Only realtime contexts can be resumed safely; resume() on an OfflineAudioContext starts rendering.
+    if ('close' in ctx && ctx.state === 'suspended') await (ctx as AudioContext).resume();
+  }
+
+  // voices → channel strips → master → sweep → limiter → analyser → out. Strips also send to the
+  // delay / reverb buses (levelled by the palette), whose returns come back into the master.
+  private buildGraph(ctx: BaseAudioContext) {
+    const master = ctx.createGain();
+    master.gain.setValueAtTime(0.4, ctx.currentTime);
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 2048;
+
+    const sweep = ctx.createBiquadFilter();
+    sweep.type = 'lowpass';
+    sweep.frequency.setValueAtTime(SWEEP_CEILING, ctx.currentTime);
+
+    const limiter = ctx.createDynamicsCompressor();
+    limiter.threshold.setValueAtTime(-3, ctx.currentTime);
+    limiter.knee.setValueAtTime(0, ctx.currentTime);
+    limiter.ratio.setValueAtTime(20, ctx.currentTime);
+    limiter.attack.setValueAtTime(0.003, ctx.currentTime);
+    limiter.release.setValueAtTime(0.25, ctx.currentTime);
+
+    master.connect(sweep);
+    sweep.connect(limiter);
+    limiter.connect(analyser);
+    analyser.connect(ctx.destination);
+
+    const delaySend = ctx.createGain();
+    const delay = ctx.createDelay(MAX_DELAY);
+    const delayFeedback = ctx.createGain();
+    delaySend.connect(delay);
+    delay.connect(delayFeedback);
+    delayFeedback.connect(delay);
+    delay.connect(master);
+
+    const reverbSend = ctx.createGain();
+
+    const strips = Object.fromEntries(CHANNELS.map(channel => {
+      const input = ctx.createGain();
+      const panner = ctx.createStereoPanner();
+      const delayLevel = ctx.createGain();
+      const reverbLevel = ctx.createGain();
+      input.connect(panner);
+      panner.connect(master);
+      panner.connect(delayLevel);
+      delayLevel.connect(delaySend);
+      panner.connect(reverbLevel);
+      reverbLevel.connect(reverbSend);
+      return [channel, { input, panner, delay: delayLevel, reverb: reverbLevel }];
+    })) as Record<Channel, Strip>;
+
+    this.master = master;
+    this.sweep = sweep;
+    this.delaySend = delaySend;
+    this.reverbSend = reverbSend;
+    this.delay = delay;
+    this.delayFeedback = delayFeedback;
+    this.strips = strips;
+    this.analyserNode = analyser;
+    this.applySends(resolvePalette(this.dna.palette), ctx.currentTime);
+    this.applyMix(mixOf(this.dna.mix), ctx.currentTime);
+  }
+
+  // Swaps in a fresh convolver; buffers are generated from `random`, so seeded renders stay reproducible.
+  private buildReverb(size: number) {
+    const ctx = this.ctx;
+    if (!ctx || !this.reverbSend || !this.master) return;
+    const reverb = ctx.createConvolver();
+    const length = Math.ceil(ctx.sampleRate * size);
+    const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+    for (let i = 0; i < 2; i++) {
+      const channel = impulse.getChannelData(i);
+      for (let j = 0; j < length; j++) channel[j] = (this.random() * 2 - 1) * Math.pow(1 - j / length, 2.5);
+    }
+    reverb.buffer = impulse;
+    this.reverbSend.connect(reverb);
+    reverb.connect(this.master);
+    if (this.reverb) {
+      this.reverbSend.disconnect(this.reverb);
+      this.reverb.disconnect();
+    }
+    this.reverb = reverb;
+    this.reverbSize = size;
+  }
+
+  // --- Transport ---
+
+  start(at?: number) {
+    if (!this.ctx || !this.master) throw new Error('AudioEngine.start() called before init()');
+    if (this.running) return;
+    this.running = true;
+    this.nextStepTime = at ?? this.ctx.currentTime + START_OFFSET;
+    this.control({ type: 'start', at: this.nextStepTime });
+    if (!this.manual) this.tick();
+  }
+
+  stop() {
+    if (this.running) this.control({ type: 'stop' });
+    this.running = false;
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  // Positions the next step without starting the realtime loop (offline renders, tests).
+  // Cueing step 0 also rewinds the arrangement to the top of section A.
+  cue(time: number, step = this.step) {
+    this.nextStepTime = time;
+    this.step = step;
+    if (step === 0) {
+      this.walker.reset();
+      this.beatClock = 0;
+    }
+  }
+
+  // Lines the playhead up with another engine's position: its next step plays at `time`.
+  seek(time: number, position: Omit<TransportPosition, 'time' | 'bpm'>) {
+    this.nextStepTime = time;
+    this.walker.seek(position);
+    this.beatClock = position.beat;
+    // Both are measured on the old beat clock.
+    this.morph = null;
+    this.tempoRamp = null;
+    this.control({ type: 'seek', at: time, position: { slot: position.slot, pass: position.pass, sectionStep: position.sectionStep, beat: position.beat } });
+  }
+
+  // Target tempo; with `rampBars` the audible tempo glides there instead of snapping.
+  // A tempo that is not positive is ignored: the step clock would never move forward.
+  setTempo(bpm: number, rampBars = 0) {
+    if (!Number.isFinite(bpm) || bpm <= 0) return;
+    const beats = rampBars * quartersPerBar(this.upcomingSection().timeSignature);
+    this.tempoRamp = beats > 0 && this.running ? { from: this.tempoAt(this.beatClock), to: bpm, start: this.beatClock, beats } : null;
+    this.bpm = bpm;
+    this.control({ type: 'tempo', bpm, rampBars });
+  }
+
+  getTempo() {
+    return this.bpm;
+  }
+
+  // Immediate swap (live edits). A queued change is retargeted instead, and a running morph keeps
+  // fading from its source into the edited DNA.
+  setDNA(dna: MasterDNA) {
+    this.control({ type: 'dna', dna, change: null });
+    if (!this.pending) {
+      this.dna = dna;
+      return;
+    }
+    this.pending = { ...this.pending, dna };
+    // The mixer is not part of the music; its moves are heard at once rather than at the boundary.
+    if (dna.mix !== this.dna.mix) this.dna = { ...this.dna, mix: dna.mix };
+  }
+
+  // Swaps in `dna` on the next bar / section boundary, optionally morphing over several bars.
+  // A stopped engine has no boundary to wait for and swaps immediately.
+  queueDNA(dna: MasterDNA, options: DnaChangeOptions = {}) {
+    const resolved = { ...DEFAULT_DNA_CHANGE, ...options };
+    this.control({ type: 'dna', dna, change: resolved });
+    if (!this.running) {
+      this.pending = null;
+      this.morph = null;
+      this.dna = dna;
+      return;
+    }
+    this.pending = { dna, options: resolved };
+  }
+
+  getDNA() {
+    return this.dna;
+  }
+
+  setRandom(random: Rng) {
+    this.random = random;
+  }
+
+  setSamples(samples: SampleSource | null) {
+    this.samples = samples;
+  }
+
+  // Fires when a step becomes audible (deferred to its audio time).
+  onStep(listener: StepListener) {
+    this.stepListeners.add(listener);
+    return () => { this.stepListeners.delete(listener); };
+  }
+
+  // Fires synchronously as a step is scheduled, ahead of time. Useful for tests and external sync.
+  onSchedule(listener: StepListener) {
+    this.scheduleListeners.add(listener);
+    return () => { this.scheduleListeners.delete(listener); };
+  }
+
+  // Fires synchronously for every note as it is scheduled, with its audio-clock time.
+  onNote(listener: NoteListener) {
+    this.noteListeners.add(listener);
+    return () => { this.noteListeners.delete(listener); };
+  }
+
+  // Fires synchronously for every control change, before it takes effect.
+  onControl(listener: ControlListener) {
+    this.controlListeners.add(listener);
+    return () => { this.controlListeners.delete(listener); };
+  }
+
+  private control(change: ControlChange) {
+    this.controlListeners.forEach(l => l(change));
+  }
+
+  // Layers listed here are still reported to note listeners but no longer sound internally.
+  setExternalOnly(layers: NoteLayer[]) {
+    this.externalOnly = new Set(layers);
+  }
+
+  setMutedLayers(layers: NoteLayer[]) {
+    this.muted = new Set(layers);
+    this.control({ type: 'mute', layers });
+  }
+
+  getMutedLayers(): NoteLayer[] {
+    return [...this.muted];
+  }
+
+  // Moves the playhead to the first arrangement slot playing `section` at the next bar line.
+  // Returns false when the arrangement never plays that section.
+  jumpToSection(section: SectionKey) {
+    if (!playableArrangement(this.dna).some(slot => slot.section === section)) return false;
+    this.jumpTarget = section;
+    this.control({ type: 'jump', section });
+    return true;
+  }
+
+  // A lead note played by hand: sounds at once (or at `time`) on the lead voice, outside the lookahead.
+  playLive(note: number, velocity = 1, time?: number) {
+    const ctx = this.ctx;
+    if (!ctx || !this.master) return;
+    time = time ?? ctx.currentTime;
+    this.control({ type: 'live', note, velocity, at: time });
+    const dur = LIVE_NOTE_BEATS * 60 / this.bpm;
+    this.emitNote('lead', note, velocity, time, dur);
+    if (!this.externalOnly.has('lead')) this.playInstrument(midiToFreq(note), time, dur, 0.2 * velocity, 'lead', this.soundFor(this.dna, this.energy));
+  }
+
+  private tick = () => {
+    if (!this.ctx || !this.running) return;
+    this.scheduleUntil(this.ctx.currentTime + LOOKAHEAD);
+    this.timer = setTimeout(this.tick, TICK_MS);
+  };
+
+  /**
+   * Schedules every step that starts before `endTime`. The realtime loop calls this with the
+   * lookahead window; offline renders call it once with the full render length.
+   */
+  scheduleUntil(endTime: number) {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    while (this.nextStepTime < endTime) {
+      const time = this.nextStepTime;
+      if (this.pending && this.atBoundary(this.walker.peek(this.dna), this.pending.options.quantize)) this.beginChange();
+      if (this.jumpTarget && this.walker.peek(this.dna).barStart) this.jump(this.jumpTarget);
+      const beat = 60 / this.tempoAt(this.beatClock);
+      const pos = this.walker.next(this.dna);
+      const event = this.scheduleStep(time, pos, pos.beats * beat);
+      this.scheduleListeners.forEach(l => l(event));
+      if (this.stepListeners.size) {
+        setTimeout(() => this.stepListeners.forEach(l => l(event)), Math.max(0, (time + event.offset - ctx.currentTime) * 1000));
+      }
+      this.nextStepTime += pos.beats * beat;
+      this.beatClock += pos.beats;
+      this.step++;
+    }
+  }
+
+  private jump(section: SectionKey) {
+    this.jumpTarget = null;
+    const slot = playableArrangement(this.dna).findIndex(s => s.section === section);
+    if (slot >= 0) this.walker.jump(slot);
+  }
+
+  private upcomingSection(): SectionDNA {
+    return this.dna.sections[this.walker.peek(this.dna).section];
+  }
+
+  private atBoundary(pos: TimelineStep, quantize: Quantize) {
+    return quantize === 'now' || (quantize === 'bar' ? pos.barStart : pos.sectionStart);
+  }
+
+  private beginChange() {
+    if (!this.pending) return;
+    const { dna, options } = this.pending;
+    const from = this.dna;
+    const fromSection = this.walker.peek(from).section;
+    this.pending = null;
+    this.dna = dna;
+    const beats = options.morphBars * quartersPerBar(this.upcomingSection().timeSignature);
+    this.morph = beats > 0 ? { from, fromSection, start: this.beatClock, beats } : null;
+  }
+
+  private tempoAt(beat: number) {
+    const ramp = this.tempoRamp;
+    if (!ramp) return this.bpm;
+    const t = (beat - ramp.start) / ramp.beats;
+    if (t >= 1) {
+      this.tempoRamp = null;
+      return this.bpm;
+    }
+    return ramp.from + (ramp.to - ramp.from) * Math.max(0, t);
+  }
+
+  private morphProgress() {
+    const morph = this.morph;
+    if (!morph) return null;
+    const progress = (this.beatClock - morph.start) / morph.beats;
+    if (progress >= 1) this.morph = null;
+    return progress >= 1 ? null : progress;
+  }
+
+  private scheduleStep(gridTime: number, pos: TimelineStep, stepDur: number): StepEvent {
+    const { section, idx: stepIdx } = pos;
+    const curSection = this.dna.sections[section];
+    // Swing and micro-timing are in beats at this step's tempo; mid-ramp that is not this.bpm yet.
+    const offset = stepOffsetBeats(curSection, stepIdx) * (stepDur / pos.beats);
+    // Early micro-timing can't reach into the past once the lookahead window has moved on.
+    const time = Math.max(gridTime + offset, this.ctx?.currentTime ?? 0);
+    const morph = this.morph;
+    const progress = this.morphProgress();
+
+    if (pos.transition === 'sweep' && pos.barProgress === 0) this.scheduleSweep(gridTime, stepDur * stepsPerBar(curSection));
+
+    this.energy = pos.energy;
+    const sound = this.soundFor(this.dna, pos.energy);
+    this.applySends(sound.palette, gridTime);
+    this.applyMix(mixOf(this.dna.mix), gridTime);
+    this.syncDelay(gridTime, stepDur / pos.beats);
+    // Energy scales the probMap: quiet slots drop hits, loud ones play nearly every one.
+    const prob = (data: SectionDNA, idx: number, { shape }: Sound) => Math.min(1, (data.probMap?.[idx] ?? 0.9) * shape.density);
+    const harmony = harmonyAt(this.dna, curSection, pos);
+    let fromChord: number[] | null = null;
+    if (progress === null || !morph) {
+      const hit = this.random() < prob(curSection, stepIdx, sound);
+      this.playVoices(curSection, pos, time, stepDur, sound, harmony, () => hit);
+    } else {
+      // Each layer's probMap fades from the old section to the new one inside its slice of the morph.
+      const weight = (layer: MorphLayer) => Math.min(1, Math.max(0, progress * MORPH_ORDER.length - MORPH_ORDER.indexOf(layer)));
+      const from = morph.from.sections[section] ?? morph.from.sections[morph.fromSection];
+      const fromIdx = pos.sectionStep % from.steps;
+      const fromSound = this.soundFor(morph.from, pos.energy);
+      const rollNew = this.random();
+      const rollOld = this.random();
+      const fromPos = { ...pos, idx: fromIdx };
+      const fromHarmony = harmonyAt(morph.from, from, fromPos);
+      this.playVoices(curSection, pos, time, stepDur, sound, harmony, layer => rollNew < prob(curSection, stepIdx, sound) * weight(layer));
+      this.playVoices(from, fromPos, time, stepDur, fromSound, fromHarmony, layer => rollOld < prob(from, fromIdx, fromSound) * (1 - weight(layer)));
+      fromChord = fromHarmony.chord;
+    }
+    // Pad plays the bar's chord and rings for the whole bar; mid-morph it glides from the old
+    // section's chord into the new one.
+    if (pos.barStart && !this.muted.has('pad')) {
+      harmony.chord.forEach((n, i) => {
+        const start = fromChord ? fromChord[i % fromChord.length] : n;
+        const dur = stepDur * stepsPerBar(curSection);
+        this.emitNote('pad', n, 0.6, gridTime, dur);
+        if (!this.externalOnly.has('pad')) this.playInstrument(midiToFreq(start), gridTime, dur, 0.08, 'pad', sound, fromChord ? midiToFreq(n) : undefined);
+      });
+    }
+    return {
+      step: this.step, stepIdx, steps: curSection.steps, section, slot: pos.slot, slotProgress: pos.slotProgress,
+      time: gridTime, offset: time - gridTime, morph: progress, chord: chordIndexAt(curSection, pos), beat: this.beatClock, beats: pos.beats, duration: stepDur
+    };
+  }
+
+  private playVoices(data: SectionDNA, pos: TimelineStep, time: number, stepDur: number, sound: Sound, harmony: HarmonyContext, roll: (layer: MorphLayer) => boolean) {
+    const { idx } = pos;
+    const vel = data.velocity?.[idx] ?? 1;
+    const gate = (layer: MorphLayer) => !this.muted.has(layer) && roll(layer);
+    if (gate('drums')) {
+      const drums = stepDrums(data, pos);
+      DRUM_VOICES.forEach(([lane, perc, gain]) => {
+        if (!drums[lane]) return;
+        this.emitNote('drums', GM_DRUMS[lane], vel * drums[lane], time, DRUM_NOTE_SECONDS);
+        if (!this.externalOnly.has('drums')) this.playPerc(perc, time, gain * vel * drums[lane], sound);
+      });
+    }
+    const note = (layer: Voice & NoteLayer, midi: number, dur: number, vol: number) => {
+      this.emitNote(layer, midi, vel, time, dur);
+      if (!this.externalOnly.has(layer)) this.playInstrument(midiToFreq(midi), time, dur, vol * vel, layer, sound);
+    };
+    if (data.bassLine?.[idx] && gate('bass')) note('bass', harmonize(data.bassLine[idx], 'bass', harmony), stepDur * 0.8, 0.4);
+    const leadNote = data.leadMelody?.[idx];
+    if (leadNote !== null && leadNote !== undefined && gate('lead')) note('lead', harmonize(leadNote, 'lead', harmony), stepDur * 1.5, 0.2);
+    if (data.arpPattern?.[idx] && gate('arp')) note('arp', arpNote(data, pos, harmony.chord, this.random), 0.15, 0.1);
+  }
+
+  private emitNote(layer: NoteLayer, note: number, velocity: number, time: number, duration: number) {
+    if (!this.noteListeners.size) return;
+    const event: NoteEvent = { layer, note, velocity, time, duration };
+    this.noteListeners.forEach(l => l(event));
+  }
+
+  private soundFor(dna: MasterDNA, energy: number): Sound {
+    const palette = resolvePalette(dna.palette);
+    return { palette, shape: shapeForEnergy(palette, energy) };
+  }
+
+  // Glides the effect sends to a new palette's levels when the DNA changes palette.
+  private applySends(palette: Palette, time: number) {
+    if (!this.delaySend || !this.reverbSend || this.sendsFor === palette.name) return;
+    this.sendsFor = palette.name;
+    this.delaySend.gain.setTargetAtTime(palette.sends.delay, time, SEND_GLIDE);
+    this.reverbSend.gain.setTargetAtTime(palette.sends.reverb, time, SEND_GLIDE);
+  }
+
+  private applyMix(mix: MixSettings, time: number) {
+    if (!this.strips || !this.delayFeedback || mix === this.mixFor) return;
+    this.mixFor = mix;
+    CHANNELS.forEach(channel => {
+      const strip = this.strips![channel];
+      const settings = mix.channels[channel];
+      strip.input.gain.setTargetAtTime(isAudible(mix, channel) ? settings.volume : 0, time, MIX_GLIDE);
+      strip.panner.pan.setTargetAtTime(settings.pan, time, MIX_GLIDE);
+      strip.delay.gain.setTargetAtTime(settings.delay, time, MIX_GLIDE);
+      strip.reverb.gain.setTargetAtTime(settings.reverb, time, MIX_GLIDE);
+    });
+    this.delayFeedback.gain.setTargetAtTime(mix.feedback, time, MIX_GLIDE);
+    if (mix.reverbSize !== this.reverbSize) this.buildReverb(mix.reverbSize);
+    this.syncDelay(time, 60 / this.bpm);
+  }
+
+  // Keeps the delay on its note value as the tempo moves (including ramps).
+  private syncDelay(time: number, beat: number) {
+    if (!this.delay || !this.mixFor) return;
+    const delayTime = Math.min(MAX_DELAY, this.mixFor.delayBeats * beat);
+    if (Math.abs(delayTime - this.delayTime) < 0.001) return;
+    this.delayTime = delayTime;
+    this.delay.delayTime.setTargetAtTime(delayTime, time, MIX_GLIDE);
+  }
+
+  // The strip a voice plays into, or null when the mixer has it silenced (saves building the nodes).
+  private channelInput(channel: Channel): AudioNode | null {
+    if (!this.strips || !this.mixFor) return null;
+    return isAudible(this.mixFor, channel) ? this.strips[channel].input : null;
+  }
+
+  // Closes the master lowpass and opens it across `dur` seconds, leading into a louder slot.
+  private scheduleSweep(time: number, dur: number) {
+    const freq = this.sweep?.frequency;
+    if (!freq) return;
+    freq.cancelScheduledValues(time);
+    freq.setValueAtTime(SWEEP_FLOOR, time);
+    freq.exponentialRampToValueAtTime(SWEEP_CEILING, time + dur);
+  }
+
+  // --- Voices ---
+
+  // One note of a palette voice: detuned unison oscillators through an enveloped lowpass, optional
+  // drive, then an ADSR amp. `dur` is the gate; the release rings on after it.
+  playInstrument(freq: number, time: number, dur: number, vol: number, voice: Voice, sound: Sound, glideTo?: number) {
+    const ctx = this.ctx;
+    const out = this.channelInput(voice);
+    if (!ctx || !out) return;
+    const spec = sound.palette.voices[voice];
+    const attack = Math.min(spec.attack, dur * 0.9);
+    const decayEnd = Math.min(attack + spec.decay, dur);
+    const end = time + dur + spec.release;
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'lowpass';
+    filter.Q.setValueAtTime(spec.resonance, time);
+    const cutoff = Math.min(MAX_CUTOFF, spec.cutoff * sound.shape.cutoff);
+    filter.frequency.setValueAtTime(cutoff, time);
+    if (spec.filterEnv !== 1) {
+      filter.frequency.linearRampToValueAtTime(Math.min(MAX_CUTOFF, cutoff * spec.filterEnv), time + attack);
+      filter.frequency.exponentialRampToValueAtTime(cutoff, time + decayEnd);
+    }
+
+    const g = ctx.createGain();
+    const peak = vol / Math.sqrt(spec.unison);
+    const level = Math.max(0.001, peak * spec.sustain);
+    g.gain.setValueAtTime(0, time);
+    g.gain.linearRampToValueAtTime(peak, time + attack);
+    g.gain.exponentialRampToValueAtTime(level, time + decayEnd);
+    g.gain.setValueAtTime(level, time + dur);
+    g.gain.exponentialRampToValueAtTime(0.001, end);
+
+    for (let i = 0; i < spec.unison; i++) {
+      const osc = ctx.createOscillator();
+      osc.type = spec.wave;
+      osc.frequency.setValueAtTime(freq, time);
+      if (glideTo) osc.frequency.exponentialRampToValueAtTime(glideTo, time + dur * 0.5);
+      if (spec.unison > 1) osc.detune.setValueAtTime((i / (spec.unison - 1) - 0.5) * spec.detune, time);
+      osc.connect(filter);
+      osc.start(time);
+      osc.stop(end);
+    }
+    this.drive(filter, sound.shape.drive).connect(g);
+    g.connect(out);
+  }
+
+  // A kit sample when the palette's kit has one ready, otherwise the palette's synth drum.
+  playPerc(type: PercType, time: number, vol: number, sound: Sound) {
+    const ctx = this.ctx;
+    const out = this.channelInput(type);
+    if (!ctx || !out) return;
+    const g = ctx.createGain();
+    g.connect(out);
+    const sample = this.samples?.sample(sound.palette.name, type);
+    if (sample) {
+      const source = ctx.createBufferSource();
+      source.buffer = sample;
+      g.gain.setValueAtTime(vol, time);
+      source.connect(g);
+      source.start(time);
+      return;
+    }
+
+    const { drums } = sound.palette;
+    if (type === 'snare' || type === 'clap') {
+      const { tone, decay } = drums[type];
+      const filter = ctx.createBiquadFilter();
+      filter.type = 'bandpass';
+      filter.frequency.setValueAtTime(Math.min(MAX_CUTOFF, tone * sound.shape.cutoff), time);
+      filter.Q.setValueAtTime(type === 'clap' ? 1.5 : 0.7, time);
+      this.drive(filter, sound.shape.drive).connect(g);
+      const level = vol * 0.4;
+      if (type === 'clap') {
+        // Three quick re-triggers before the tail: the "hands not quite together" of a clap.
+        CLAP_BURSTS.forEach(offset => {
+          g.gain.setValueAtTime(level, time + offset);
+          g.gain.exponentialRampToValueAtTime(level * 0.2, time + offset + 0.009);
+        });
+        g.gain.setValueAtTime(level, time + CLAP_BURSTS[CLAP_BURSTS.length - 1] + 0.01);
+      } else {
+        g.gain.setValueAtTime(level, time);
+      }
+      g.gain.exponentialRampToValueAtTime(0.001, time + decay);
+      this.playNoise(filter, time, decay);
+      return;
+    }
+    const osc = ctx.createOscillator();
+    let decay: number;
+    if (type === 'kick') {
+      const { pitch, drop } = drums.kick;
+      decay = drums.kick.decay;
+      osc.frequency.setValueAtTime(pitch, time);
+      osc.frequency.exponentialRampToValueAtTime(drop, time + decay / 3);
+      g.gain.setValueAtTime(vol, time);
+    } else {
+      const spec = type === 'glitch' ? drums.glitch : { ...drums.hat, wave: 'triangle' as OscillatorType };
+      decay = type === 'openhat' ? drums.openhat.decay : spec.decay;
+      osc.type = spec.wave;
+      osc.frequency.setValueAtTime(spec.freq, time);
+      g.gain.setValueAtTime(vol * 0.08, time);
+    }
+    g.gain.exponentialRampToValueAtTime(0.001, time + decay);
+    this.drive(osc, type === 'kick' ? sound.shape.drive : 0).connect(g);
+    osc.start(time);
+    osc.stop(time + decay);
+  }
+
+  // Plays `dur` seconds of the shared noise buffer from a random point, so hits don't repeat.
+  private playNoise(dest: AudioNode, time: number, dur: number) {
+    const ctx = this.ctx;
+    if (!ctx) return;
+    if (!this.noise) {
+      this.noise = ctx.createBuffer(1, Math.ceil(ctx.sampleRate * NOISE_SECONDS), ctx.sampleRate);
+      const data = this.noise.getChannelData(0);
+      for (let i = 0; i < data.length; i++) data[i] = this.random() * 2 - 1;
+    }
+    const source = ctx.createBufferSource();
+    source.buffer = this.noise;
+    source.connect(dest);
+    source.start(time, this.random() * Math.max(0, NOISE_SECONDS - dur), dur);
+  }
+
+  // Routes `input` through a waveshaper when there is drive to apply; returns the node to continue from.
+  private drive(input: AudioNode, amount: number): AudioNode {
+    if (!this.ctx || amount < MIN_DRIVE) return input;
+    const shaper = this.ctx.createWaveShaper();
+    shaper.curve = driveCurve(amount);
+    shaper.oversample = '2x';
+    input.connect(shaper);
+    return shaper;
+  }
+}
@@ -0,0 +1,257 @@
+import { KeyValueStore } from './dnaLibrary';
+import { isObject } from './dnaValidator';
+import {
+  ENVELOPE_HOP, InputAnalysis, addChroma, analyzeSamples, keyFromChroma, loudnessOf, mixDown, onsetStrength, rms, tempoFromEnvelope
+} from './audioAnalysis';
+
+// --- Audio Input ---
+// Listens to a microphone / line-in (or analyses a dropped file) so the orchestrator can play
+// along with a live instrument. Readings settle before they are reported: a tempo has to repeat
+// across analyses and a key has to win twice in a row, so one odd bar does not retune the set.
+
+export type InputStatus = 'off' | 'pending' | 'listening' | 'analyzing' | 'unsupported' | 'denied';
+
+export interface InputReading extends InputAnalysis {
+  source: 'mic' | 'file';
+}
+
+// What the app takes over from the input.
+export interface InputFollow {
+  tempo: boolean;
+  key: boolean;
+  energy: boolean;
+}
+
+export const DEFAULT_INPUT_FOLLOW: InputFollow = { tempo: true, key: true, energy: true };
+
+const FOLLOW_KEY = 'neural-strudel.input.v1';
+
+const POLL_MS = 10;
+const CHROMA_MS = 100;
+const ANALYZE_MS = 1000;
+const ENVELOPE_SECONDS = 8;
+const MIN_ENVELOPE_SECONDS = 4;
+// A tempo is reported once this many analyses in a row agree within TEMPO_TOLERANCE BPM.
+const STABLE_TEMPO_READS = 3;
+const TEMPO_TOLERANCE = 2;
+// Pitch evidence fades with a ~5 s half-life so a key change is picked up within a few bars.
+const CHROMA_DECAY = 0.986;
+const CHROMA_FFT_SIZE = 8192;
+// Below this the input counts as silent: readings hold instead of drifting on noise.
+const SILENCE = 0.05;
+// Loudness follows the level with this time constant: steady through single hits, quick at a drop.
+const LOUDNESS_SECONDS = 0.5;
+
+const readFollow = (raw: unknown): InputFollow => {
+  const src = isObject(raw) ? raw : {};
+  const flag = (key: keyof InputFollow) => {
+    const value = src[key];
+    return typeof value === 'boolean' ? value : DEFAULT_INPUT_FOLLOW[key];
+  };
+  return { tempo: flag('tempo'), key: flag('key'), energy: flag('energy') };
+};
+
+const median = (values: number[]) => [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)];
+
+interface Capture {
+  stream: MediaStream;
+  source: MediaStreamAudioSourceNode;
+  levels: AnalyserNode;
+  spectrum: AnalyserNode;
+  timers: ReturnType<typeof setInterval>[];
+}
+
+export class AudioInput {
+  private status: InputStatus = 'off';
+  private follow: InputFollow;
+  private reading: InputReading | null = null;
+  private capture: Capture | null = null;
+  private envelope: number[] = [];
+  private envelopeRate = 0;
+  private frame = new Float32Array(ENVELOPE_HOP);
+  private framed = 0;
+  private previousLevel: number | null = null;
+  private loudness = 0;
+  private chroma = new Float64Array(12);
+  private tempoReads: number[] = [];
+  private keyCandidate: string | null = null;
+  private listeners = new Set<() => void>();
+  private readingListeners = new Set<(reading: InputReading) => void>();
+
+  constructor(
+    private store: KeyValueStore = window.localStorage,
+    private requestStream: (() => Promise<MediaStream>) | null = navigator.mediaDevices?.getUserMedia
+      // Voice processing would gate and flatten an instrument; the analysis wants the raw signal.
+      ? () => navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: false, noiseSuppression: false, autoGainControl: false } })
+      : null
+  ) {
+    try {
+      this.follow = readFollow(JSON.parse(this.store.getItem(FOLLOW_KEY) ?? '{}'));
+    } catch {
+      this.follow = DEFAULT_INPUT_FOLLOW;
+    }
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l());
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Settled readings, from the live input about once a second or once per analysed file.
+  onReading(listener: (reading: InputReading) => void) {
+    this.readingListeners.add(listener);
+    return () => { this.readingListeners.delete(listener); };
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  getReading() {
+    return this.reading;
+  }
+
+  getFollow() {
+    return this.follow;
+  }
+
+  setFollow(patch: Partial<InputFollow>) {
+    this.follow = { ...this.follow, ...patch };
+    this.store.setItem(FOLLOW_KEY, JSON.stringify(this.follow));
+    this.emit();
+  }
+
+  // Starts listening on the default input device; asking shows a browser prompt.
+  async listen(ctx: AudioContext) {
+    if (this.capture) return;
+    if (!this.requestStream) {
+      this.setStatus('unsupported');
+      return;
+    }
+    this.setStatus('pending');
+    let stream: MediaStream;
+    try {
+      stream = await this.requestStream();
+    } catch (e) {
+      console.warn('Audio input refused:', e);
+      this.setStatus('denied');
+      return;
+    }
+    // Analysers only: the input is never routed to the speakers, so there is no feedback loop.
+    const source = ctx.createMediaStreamSource(stream);
+    const levels = ctx.createAnalyser();
+    levels.fftSize = 2048;
+    const spectrum = ctx.createAnalyser();
+    spectrum.fftSize = CHROMA_FFT_SIZE;
+    source.connect(levels);
+    source.connect(spectrum);
+    this.reset();
+    const samples = new Float32Array(levels.fftSize);
+    this.envelopeRate = ctx.sampleRate / ENVELOPE_HOP;
+    let consumed = Math.round(ctx.currentTime * ctx.sampleRate);
+    const decibels = new Float32Array(spectrum.frequencyBinCount);
+    const magnitudes = new Float32Array(spectrum.frequencyBinCount);
+    const timers = [
+      // Polls fire late and unevenly, so each one takes exactly the samples the context clock says
+      // arrived since the last: the envelope stays gap-free and evenly spaced, like a file's.
+      setInterval(() => {
+        levels.getFloatTimeDomainData(samples);
+        const end = Math.round(ctx.currentTime * ctx.sampleRate);
+        const fresh = Math.min(samples.length, end - consumed);
+        consumed = end;
+        for (let i = samples.length - fresh; i < samples.length; i++) this.addSample(samples[i]);
+      }, POLL_MS),
+      setInterval(() => {
+        spectrum.getFloatFrequencyData(decibels);
+        decibels.forEach((db, i) => { magnitudes[i] = Math.pow(10, db / 20); });
+        this.chroma = this.chroma.map(v => v * CHROMA_DECAY);
+        addChroma(this.chroma, magnitudes, ctx.sampleRate, spectrum.fftSize);
+      }, CHROMA_MS),
+      setInterval(() => this.analyze(), ANALYZE_MS)
+    ];
+    this.capture = { stream, source, levels, spectrum, timers };
+    this.setStatus('listening');
+  }
+
+  stop() {
+    const capture = this.capture;
+    if (!capture) return;
+    capture.timers.forEach(clearInterval);
+    capture.source.disconnect();
+    capture.stream.getTracks().forEach(track => track.stop());
+    this.capture = null;
+    // A live reading stops applying once nobody is playing into it.
+    if (this.reading?.source === 'mic') this.reading = null;
+    this.setStatus('off');
+  }
+
+  // One-shot analysis of a whole recording; the file is only inspected, never played.
+  async analyzeFile(ctx: BaseAudioContext, data: ArrayBuffer) {
+    const previous = this.status;
+    this.setStatus('analyzing');
+    try {
+      const buffer = await ctx.decodeAudioData(data);
+      const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+      const reading: InputReading = { ...analyzeSamples(mixDown(channels), buffer.sampleRate), source: 'file' };
+      this.publish(reading);
+      return reading;
+    } finally {
+      this.setStatus(previous === 'analyzing' ? 'off' : previous);
+    }
+  }
+
+  private setStatus(status: InputStatus) {
+    this.status = status;
+    this.emit();
+  }
+
+  private reset() {
+    this.reading = null;
+    this.envelope = [];
+    this.framed = 0;
+    this.previousLevel = null;
+    this.loudness = 0;
+    this.chroma = new Float64Array(12);
+    this.tempoReads = [];
+    this.keyCandidate = null;
+  }
+
+  private addSample(sample: number) {
+    this.frame[this.framed++] = sample;
+    if (this.framed < ENVELOPE_HOP) return;
+    this.framed = 0;
+    const level = rms(this.frame);
+    // The first frame has nothing to rise from.
+    if (this.previousLevel !== null) this.envelope.push(onsetStrength(this.previousLevel, level));
+    this.previousLevel = level;
+    this.loudness += (loudnessOf(level) - this.loudness) / (LOUDNESS_SECONDS * this.envelopeRate);
+    if (this.envelope.length > ENVELOPE_SECONDS * this.envelopeRate) this.envelope.shift();
+  }
+
+  private analyze() {
+    const previous = this.reading;
+    let bpm = previous?.bpm ?? null;
+    let scale = previous?.scale ?? null;
+    if (this.loudness >= SILENCE && this.envelope.length >= MIN_ENVELOPE_SECONDS * this.envelopeRate) {
+      const detected = tempoFromEnvelope(this.envelope, this.envelopeRate);
+      this.tempoReads = detected === null ? [] : [...this.tempoReads, detected].slice(-STABLE_TEMPO_READS);
+      if (this.tempoReads.length === STABLE_TEMPO_READS && Math.max(...this.tempoReads) - Math.min(...this.tempoReads) <= TEMPO_TOLERANCE) {
+        bpm = median(this.tempoReads);
+      }
+      const key = keyFromChroma(this.chroma);
+      if (key && key === this.keyCandidate) scale = key;
+      this.keyCandidate = key;
+    }
+    this.publish({ bpm, scale, loudness: Math.round(this.loudness * 100) / 100, source: 'mic' });
+  }
+
+  private publish(reading: InputReading) {
+    this.reading = reading;
+    this.readingListeners.forEach(l => l(reading));
+    this.emit();
+  }
+}
@@ -0,0 +1,46 @@
+
+import { MasterDNA, SectionDNA } from '../types';
+import { LockedContext } from './locks';
+import { Steering, SteeringFeedback } from './steering';
+
+// --- Composer Backends ---
+// fetchNewDNA talks to a Composer, never to a concrete model. Replies are untrusted and
+// must go through validateDNA before use.
+
+export type ComposerId = 'gemini' | 'local';
+
+// What a live instrument on the audio input is doing (see audioInput.ts); composers play along.
+export interface InputCues {
+  scale?: string;     // detected key, e.g. "A Minor"
+  loudness?: number;  // 0–1; louder playing pushes the energy up
+}
+
+export interface ComposeRequest {
+  bpm: number;
+  seed?: number;
+  // Imported human riff (e.g. from a .mid file) to build section A around.
+  riff?: SectionDNA;
+  // Parts the user locked. Backends only need to write `locked.unlocked`; the caller merges.
+  locked?: LockedContext;
+  steering?: Steering;
+  // The DNA playing now; backends evolve from it instead of starting over.
+  previous?: MasterDNA;
+  feedback?: SteeringFeedback;
+  input?: InputCues;
+  // Aborted when the request goes stale (new BPM, transport stop, timeout); backends that can
+  // should stop work and reject.
+  signal?: AbortSignal;
+}
+
+export interface Composer {
+  id: ComposerId;
+  label: string;
+  compose(request: ComposeRequest): Promise<unknown>;
+}
+
+// A backend failure that knows whether trying again could help.
+export class ComposerError extends Error {
+  constructor(message: string, readonly transient = false) {
+    super(message);
+  }
+}
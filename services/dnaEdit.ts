@@ -0,0 +1,163 @@
+
+import { MasterDNA, SectionDNA, SectionGrid, SectionKey, SectionSettings } from '../types';
+
+// --- DNA Editing ---
+// Immutable single-step edits for the sequencer, an undo/redo stack and the lock merge
+// that lets user-edited lanes survive a recompose.
+
+export type DrumLane = keyof SectionDNA['drums'];
+export type Lane = DrumLane | 'bass' | 'lead' | 'arp' | 'prob' | 'velocity' | 'micro';
+
+export const DRUM_LANES: DrumLane[] = ['kick', 'snare', 'hihat', 'openhat', 'clap', 'glitch'];
+export const LANES: Lane[] = [...DRUM_LANES, 'bass', 'lead', 'arp', 'prob', 'velocity', 'micro'];
+
+// Lockable parts of a section: every sequencer lane plus the chord progression.
+export type LockField = Lane | 'chords';
+export const LOCK_FIELDS: LockField[] = [...LANES, 'chords'];
+
+export type LaneLocks = Record<SectionKey, Partial<Record<LockField, boolean>>>;
+
+export const EMPTY_LOCKS: LaneLocks = { A: {}, B: {} };
+
+export type LockPredicate = (key: SectionKey, field: LockField) => boolean;
+
+export const gridOf = (section: SectionDNA): SectionGrid => ({
+  steps: section.steps,
+  timeSignature: [...section.timeSignature] as [number, number],
+  subdivision: section.subdivision,
+  swing: section.swing
+});
+
+const cloneSection = (section: SectionDNA): SectionDNA => ({
+  ...section,
+  timeSignature: [...section.timeSignature] as [number, number],
+  velocity: [...section.velocity],
+  microTiming: [...section.microTiming],
+  drums: { ...section.drums },
+  bassLine: [...section.bassLine],
+  leadMelody: [...section.leadMelody],
+  arpPattern: [...section.arpPattern],
+  probMap: [...section.probMap],
+  chordProgression: section.chordProgression.map(c => [...c])
+});
+
+export const readLane = (section: SectionDNA, lane: Lane): (number | null)[] => {
+  switch (lane) {
+    case 'bass': return section.bassLine;
+    case 'lead': return section.leadMelody;
+    case 'arp': return section.arpPattern;
+    case 'prob': return section.probMap;
+    case 'velocity': return section.velocity;
+    case 'micro': return section.microTiming;
+    default: return section.drums[lane];
+  }
+};
+
+const writeLane = (section: SectionDNA, lane: Lane, values: (number | null)[]) => {
+  switch (lane) {
+    case 'bass': section.bassLine = values.map(v => v ?? 0); break;
+    case 'lead': section.leadMelody = values; break;
+    case 'arp': section.arpPattern = values.map(v => v ?? 0); break;
+    case 'prob': section.probMap = values.map(v => v ?? 0); break;
+    case 'velocity': section.velocity = values.map(v => v ?? 1); break;
+    case 'micro': section.microTiming = values.map(v => v ?? 0); break;
+    default: section.drums[lane] = values.map(v => v ?? 0);
+  }
+};
+
+// Rest value each lane is padded with when a pattern grows.
+const LANE_FILL: Record<Lane, number | null> = {
+  kick: 0, snare: 0, hihat: 0, openhat: 0, clap: 0, glitch: 0, bass: 0, lead: null, arp: 0, prob: 0.9, velocity: 1, micro: 0
+};
+
+// Pads (with rests) or truncates every per-step lane to `steps`.
+export const resizeSection = (section: SectionDNA, steps: number): SectionDNA => {
+  const resized = { ...cloneSection(section), steps };
+  LANES.forEach(lane => {
+    const values = readLane(section, lane).slice(0, steps);
+    while (values.length < steps) values.push(LANE_FILL[lane]);
+    writeLane(resized, lane, values);
+  });
+  return resized;
+};
+
+// Changes a section's grid (length, meter, subdivision, swing) or arp mode; lanes are resized to match.
+export const editGrid = (dna: MasterDNA, key: SectionKey, patch: Partial<SectionSettings>): MasterDNA => {
+  const current = dna.sections[key];
+  const section = { ...resizeSection(current, patch.steps ?? current.steps), ...patch };
+  return { ...dna, sections: { ...dna.sections, [key]: section } };
+};
+
+// Returns a new DNA with one step of one lane replaced. Gates: 0/1, bass: MIDI or 0, lead: MIDI or null,
+// prob/velocity: 0–1, micro: -0.5–0.5.
+export const editStep = (dna: MasterDNA, key: SectionKey, lane: Lane, idx: number, value: number | null): MasterDNA => {
+  const section = cloneSection(dna.sections[key]);
+  const values = [...readLane(section, lane)];
+  values[idx] = value;
+  writeLane(section, lane, values);
+  return { ...dna, sections: { ...dna.sections, [key]: section } };
+};
+
+// Copies every locked field of `current` over the freshly composed `next`. A section with any
+// lock also keeps its grid, otherwise locked arrays would no longer match `steps`. While anything
+// is locked, `current`'s sections and arrangement survive; `next` only supplies matching sections.
+export const mergeLocked = (next: MasterDNA, current: MasterDNA, isLocked: LockPredicate): MasterDNA => {
+  const keys = Object.keys(current.sections);
+  if (!keys.some(key => LOCK_FIELDS.some(field => isLocked(key, field)))) return next;
+  const sections: MasterDNA['sections'] = {};
+  keys.forEach(key => { sections[key] = next.sections[key] ?? cloneSection(current.sections[key]); });
+  let merged: MasterDNA = { ...next, sections, arrangement: current.arrangement.map(slot => ({ ...slot })) };
+  keys.forEach(key => {
+    const locked = LOCK_FIELDS.filter(field => isLocked(key, field));
+    if (locked.length === 0) return;
+    const grid = gridOf(current.sections[key]);
+    const section = { ...resizeSection(merged.sections[key], grid.steps), ...grid };
+    locked.forEach(field => {
+      if (field === 'chords') section.chordProgression = current.sections[key].chordProgression.map(c => [...c]);
+      else writeLane(section, field, [...readLane(current.sections[key], field)]);
+      // The arp's mode travels with its pattern.
+      if (field === 'arp') section.arpMode = current.sections[key].arpMode;
+    });
+    merged = { ...merged, sections: { ...merged.sections, [key]: section } };
+  });
+  return merged;
+};
+
+export class UndoStack<T> {
+  private past: T[] = [];
+  private future: T[] = [];
+
+  constructor(private limit = 100) {}
+
+  // Records `previous` as the state to return to on undo; any redo branch is discarded.
+  push(previous: T) {
+    this.past.push(previous);
+    if (this.past.length > this.limit) this.past.shift();
+    this.future = [];
+  }
+
+  undo(current: T): T | undefined {
+    const prev = this.past.pop();
+    if (prev !== undefined) this.future.push(current);
+    return prev;
+  }
+
+  redo(current: T): T | undefined {
+    const next = this.future.pop();
+    if (next !== undefined) this.past.push(current);
+    return next;
+  }
+
+  clear() {
+    this.past = [];
+    this.future = [];
+  }
+
+  get canUndo() {
+    return this.past.length > 0;
+  }
+
+  get canRedo() {
+    return this.future.length > 0;
+  }
+}
@@ -0,0 +1,252 @@
+
+import { MasterDNA } from '../types';
+import { MAX_TEMPO, MIN_TEMPO } from '../constants';
+import { isObject, validateDNA } from './dnaValidator';
+
+// --- DNA Library ---
+// Every generated MasterDNA is persisted (localStorage) with its BPM and user metadata.
+// Recall ("reuse cached samples") is a policy evaluated on top of the library.
+
+export type LibrarySource = 'gemini' | 'local' | 'import' | 'share' | 'edit';
+
+const LIBRARY_SOURCES: LibrarySource[] = ['gemini', 'local', 'import', 'share', 'edit'];
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  dna: MasterDNA;
+  bpm: number;
+  createdAt: number;
+  genre: string;
+  mood: string;
+  tags: string[];
+  favourite: boolean;
+  source: LibrarySource;
+}
+
+export type RecallMode = 'off' | 'session' | 'library';
+
+const RECALL_MODES: RecallMode[] = ['off', 'session', 'library'];
+
+export interface RecallPolicy {
+  // off: always compose. session: recycle what this session generated at the current BPM
+  // (the original behaviour). library: recycle any saved entry at the current BPM.
+  mode: RecallMode;
+  // Number of candidates that must exist before recall kicks in.
+  poolSize: number;
+  favouritesOnly: boolean;
+}
+
+export const DEFAULT_RECALL_POLICY: RecallPolicy = { mode: 'session', poolSize: 3, favouritesOnly: false };
+
+// Minimal Storage surface so tests and Node can pass an in-memory map.
+export interface KeyValueStore {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export const createMemoryStore = (): KeyValueStore => {
+  const data = new Map<string, string>();
+  return { getItem: k => data.get(k) ?? null, setItem: (k, v) => { data.set(k, v); } };
+};
+
+const ENTRIES_KEY = 'neural-strudel.library.v1';
+const POLICY_KEY = 'neural-strudel.recall-policy.v1';
+// Oldest non-favourites are evicted past this size to stay inside the storage quota.
+const MAX_ENTRIES = 400;
+
+const contentKey = (dna: MasterDNA, bpm: number) => JSON.stringify([bpm, dna]);
+
+const isTempo = (value: unknown): value is number =>
+  typeof value === 'number' && value >= MIN_TEMPO && value <= MAX_TEMPO;
+
+// Stored entries are narrowed field by field; one without an id, DNA or usable BPM is dropped.
+// Entries saved before a DNA field existed gain its defaults; stored notes stay verbatim.
+const readEntry = (raw: unknown): LibraryEntry | null => {
+  const src = isObject(raw) ? raw : {};
+  if (typeof src.id !== 'string' || !src.dna || !isTempo(src.bpm)) return null;
+  const dna = validateDNA(src.dna, undefined, { snapToScale: false }).dna;
+  return {
+    id: src.id,
+    name: typeof src.name === 'string' ? src.name : `${dna.genre} @ ${src.bpm}`,
+    dna,
+    bpm: src.bpm,
+    createdAt: typeof src.createdAt === 'number' && Number.isFinite(src.createdAt) ? src.createdAt : 0,
+    genre: typeof src.genre === 'string' ? src.genre : dna.genre,
+    mood: typeof src.mood === 'string' ? src.mood : dna.mood,
+    tags: Array.isArray(src.tags) ? src.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    favourite: src.favourite === true,
+    source: LIBRARY_SOURCES.includes(src.source as LibrarySource) ? src.source as LibrarySource : 'local'
+  };
+};
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export class DnaLibrary {
+  private entries: LibraryEntry[];
+  private listeners = new Set<(entries: LibraryEntry[]) => void>();
+
+  constructor(private store: KeyValueStore = window.localStorage) {
+    this.entries = this.load();
+  }
+
+  private load(): LibraryEntry[] {
+    try {
+      const raw: unknown = JSON.parse(this.store.getItem(ENTRIES_KEY) ?? '[]');
+      if (!Array.isArray(raw)) return [];
+      return raw.map(readEntry).filter((e): e is LibraryEntry => e !== null);
+    } catch {
+      return [];
+    }
+  }
+
+  private persist() {
+    try {
+      this.store.setItem(ENTRIES_KEY, JSON.stringify(this.entries));
+    } catch (e) {
+      console.error("Library persist failed:", e);
+    }
+    this.listeners.forEach(l => l(this.entries));
+  }
+
+  subscribe(listener: (entries: LibraryEntry[]) => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  list() {
+    return this.entries;
+  }
+
+  get(id: string) {
+    return this.entries.find(e => e.id === id);
+  }
+
+  // The same DNA at the same BPM is stored once; adding it again returns the existing entry.
+  add(raw: MasterDNA, bpm: number, source: LibrarySource, name?: string): LibraryEntry {
+    // Stored in the shape load() gives it, so a copy added before a reload still matches after.
+    const dna = validateDNA(raw, undefined, { snapToScale: false }).dna;
+    const key = contentKey(dna, bpm);
+    const existing = this.entries.find(e => contentKey(e.dna, e.bpm) === key);
+    if (existing) return existing;
+    const entry: LibraryEntry = {
+      id: newId(),
+      name: name ?? `${dna.genre} @ ${bpm}`,
+      dna,
+      bpm,
+      createdAt: Date.now(),
+      genre: dna.genre,
+      mood: dna.mood,
+      tags: [],
+      favourite: false,
+      source
+    };
+    this.entries = [entry, ...this.entries];
+    if (this.entries.length > MAX_ENTRIES) {
+      const evict = [...this.entries].reverse().find(e => !e.favourite);
+      if (evict) this.entries = this.entries.filter(e => e !== evict);
+    }
+    this.persist();
+    return entry;
+  }
+
+  update(id: string, patch: Partial<Pick<LibraryEntry, 'name' | 'tags' | 'favourite'>>) {
+    this.entries = this.entries.map(e => (e.id === id ? { ...e, ...patch } : e));
+    this.persist();
+  }
+
+  remove(id: string) {
+    this.entries = this.entries.filter(e => e.id !== id);
+    this.persist();
+  }
+}
+
+// --- Recall Policy ---
+
+export const loadRecallPolicy = (store: KeyValueStore = window.localStorage): RecallPolicy => {
+  try {
+    const saved: unknown = JSON.parse(store.getItem(POLICY_KEY) ?? '{}');
+    const src = isObject(saved) ? saved : {};
+    return {
+      mode: RECALL_MODES.includes(src.mode as RecallMode) ? src.mode as RecallMode : DEFAULT_RECALL_POLICY.mode,
+      poolSize: typeof src.poolSize === 'number' && Number.isInteger(src.poolSize) && src.poolSize >= 1 ? src.poolSize : DEFAULT_RECALL_POLICY.poolSize,
+      favouritesOnly: typeof src.favouritesOnly === 'boolean' ? src.favouritesOnly : DEFAULT_RECALL_POLICY.favouritesOnly
+    };
+  } catch {
+    return DEFAULT_RECALL_POLICY;
+  }
+};
+
+export const saveRecallPolicy = (policy: RecallPolicy, store: KeyValueStore = window.localStorage) => {
+  store.setItem(POLICY_KEY, JSON.stringify(policy));
+};
+
+/**
+ * Candidates the policy allows recycling at `bpm`, oldest first so cycling replays them in
+ * generation order. `sessionIds` are the entries generated since the BPM last changed.
+ * Returns [] while the pool is still smaller than `poolSize` (keep composing).
+ */
+export const recallPool = (entries: LibraryEntry[], policy: RecallPolicy, bpm: number, sessionIds: ReadonlySet<string>) => {
+  if (policy.mode === 'off') return [];
+  const pool = entries
+    .filter(e => e.bpm === bpm)
+    .filter(e => policy.mode === 'library' || sessionIds.has(e.id))
+    .filter(e => !policy.favouritesOnly || e.favourite)
+    .slice(0, Math.max(1, policy.poolSize))
+    .reverse();
+  return pool.length >= policy.poolSize ? pool : [];
+};
+
+// --- Share Links ---
+// URL-safe base64 of the DNA JSON, deflated when CompressionStream exists. The leading
+// character marks the encoding: "z" deflate-raw, "j" plain JSON.
+
+const SHARE_PARAM = 'dna';
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let bin = '';
+  bytes.forEach(b => { bin += String.fromCharCode(b); });
+  return btoa(bin).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const bin = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(bin, c => c.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+export interface SharePayload {
+  dna: MasterDNA;
+  bpm: number;
+}
+
+export const encodeShare = async ({ dna, bpm }: SharePayload) => {
+  const json = new TextEncoder().encode(JSON.stringify({ v: 1, bpm, dna }));
+  if (typeof CompressionStream === 'undefined') return `j${toBase64Url(json)}`;
+  return `z${toBase64Url(await pipe(json, new CompressionStream('deflate-raw')))}`;
+};
+
+export const decodeShare = async (token: string): Promise<SharePayload> => {
+  const body = fromBase64Url(token.slice(1));
+  const json = token[0] === 'z' ? await pipe(body, new DecompressionStream('deflate-raw')) : body;
+  const parsed: unknown = JSON.parse(new TextDecoder().decode(json));
+  const src = isObject(parsed) ? parsed : {};
+  const bpm = Number(src.bpm);
+  if (!isTempo(bpm)) throw new Error(`Share link has no BPM between ${MIN_TEMPO} and ${MAX_TEMPO}`);
+  // Shared DNA was already valid when encoded; validation only guards against hand-edited links
+  // and must not re-snap notes, or the link would not reproduce the original exactly.
+  return { dna: validateDNA(src.dna, undefined, { snapToScale: false }).dna, bpm };
+};
+
+export const buildShareUrl = async (payload: SharePayload, base = window.location.href) => {
+  const url = new URL(base);
+  url.hash = `${SHARE_PARAM}=${await encodeShare(payload)}`;
+  return url.toString();
+};
+
+export const readShareToken = (hash = window.location.hash) => {
+  const match = hash.match(new RegExp(`[#&]${SHARE_PARAM}=([^&]+)`));
+  return match ? match[1] : null;
+};
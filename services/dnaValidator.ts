@@ -0,0 +1,352 @@
+
+import { ArrangementSlot, Channel, ChannelStrip, MasterDNA, MixSettings, SectionDNA, SectionKey } from '../types';
+import { INITIAL_DNA, STEP_COUNT } from '../constants';
+import { parseScale, snapToScale, ParsedScale, nameToMidi } from './theory';
+import { defaultArrangement, MAX_REPEATS, MAX_SLOTS } from './arrangement';
+import { isPalette } from './palettes';
+import { CHANNELS, DEFAULT_MIX, DELAY_DIVISIONS, MAX_FEEDBACK, MAX_VOLUME } from './mixer';
+import { DEFAULT_ARP_MODE, DEFAULT_HARMONY, FALLBACK_CHORD, isArpMode, isHarmonyMode } from './harmony';
+
+// --- DNA Validation & Repair ---
+// Every composer reply passes through here before it can reach dnaRef / the scheduler.
+
+export interface ValidationResult {
+  dna: MasterDNA;
+  fixes: string[];
+}
+
+export interface ValidateOptions {
+  // Off for trusted round-trips (share links) where the stored notes must survive verbatim.
+  snapToScale?: boolean;
+}
+
+const SECTION_NAME = /^[A-Za-z][A-Za-z0-9_-]{0,23}$/;
+// Sections live in plain objects: a name like "constructor" would resolve to an inherited member.
+const isSectionName = (name: string) => SECTION_NAME.test(name) && !(name in Object.prototype);
+const MAX_SECTIONS = 8;
+const DRUM_KEYS = ['kick', 'snare', 'hihat', 'glitch'] as const;
+// Lanes added after the first four: DNA from before them (and terse replies) simply leaves them silent.
+const EXTRA_DRUM_KEYS = ['clap', 'openhat'] as const;
+const DEFAULT_PROB = 0.9;
+const MIN_STEPS = 2;
+const MAX_STEPS = 64;
+// Lengths we trust enough to infer `steps` from the arrays when a reply omits it.
+const COMMON_STEPS = [8, 12, 16, 24, 32];
+const SUBDIVISIONS = [2, 3, 4, 6, 8];
+const DENOMINATORS = [2, 4, 8, 16];
+
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+// Composers write pitches as note names ("F#3"); "-" or "" marks a rest. Numbers pass through.
+const REST = /^(-|rest)?$/i;
+const pitch = (v: unknown): unknown => (typeof v === 'string' && !REST.test(v.trim()) ? nameToMidi(v) ?? v : v);
+const isRest = (v: unknown) => v === 0 || v === null || (typeof v === 'string' && REST.test(v.trim()));
+
+class Repairer {
+  fixes: string[] = [];
+  // Pattern length of the section currently being repaired.
+  private steps = STEP_COUNT;
+  constructor(private scale: ParsedScale | null) {}
+
+  note(path: string, value: number): number {
+    let note = clamp(Math.round(value), 0, 127);
+    if (this.scale) note = snapToScale(note, this.scale);
+    // Snapping can step just past either end of the MIDI range; an octave brings it back in key.
+    if (note < 0) note += 12;
+    if (note > 127) note -= 12;
+    if (note !== value) this.fixes.push(`${path}: ${value}→${note}`);
+    return note;
+  }
+
+  // Pads with `fill` or truncates so the pattern lines up with the scheduler's step grid.
+  fit<T>(path: string, arr: T[], fill: T, length = this.steps): T[] {
+    if (arr.length === length) return arr;
+    this.fixes.push(`${path}: length ${arr.length}→${length}`);
+    return arr.length > length ? arr.slice(0, length) : [...arr, ...Array(length - arr.length).fill(fill)];
+  }
+
+  // `quiet` fields are optional extras; omitting them is not worth reporting.
+  array(path: string, raw: unknown, quiet = false): unknown[] | null {
+    if (Array.isArray(raw) && raw.length > 0) return raw;
+    if (!quiet) this.fixes.push(`${path}: ${Array.isArray(raw) ? 'empty' : 'missing'}, using fallback`);
+    return null;
+  }
+
+  // Per-step continuous values (probMap, velocity, microTiming), clamped and fitted.
+  levels(path: string, raw: unknown, fallback: number[] | undefined, fill: number, min: number, max: number, quiet = false): number[] {
+    const src = this.array(path, raw, quiet) ?? fallback ?? [];
+    if (src.length === 0) return Array(this.steps).fill(fill);
+    return this.fit(path, src.map((v, i) => {
+      const level = isNum(v) ? clamp(v, min, max) : fill;
+      if (level !== v) this.fixes.push(`${path}[${i}]: ${JSON.stringify(v)}→${level}`);
+      return level;
+    }), fill, this.steps);
+  }
+
+  grid(key: SectionKey, src: Record<string, unknown>, fallback: SectionDNA) {
+    const fb = {
+      timeSignature: fallback.timeSignature ?? [4, 4],
+      subdivision: fallback.subdivision ?? 4,
+      steps: fallback.steps ?? STEP_COUNT,
+      swing: fallback.swing ?? 0
+    };
+
+    let timeSignature = fb.timeSignature as [number, number];
+    const ts = src.timeSignature;
+    if (ts !== undefined) {
+      const valid = Array.isArray(ts) && ts.length === 2 && Number.isInteger(ts[0]) && ts[0] >= 1 && ts[0] <= 16 && DENOMINATORS.includes(ts[1]);
+      if (valid) timeSignature = [ts[0], ts[1]];
+      else this.fixes.push(`${key}.timeSignature: ${JSON.stringify(ts)}→${timeSignature.join('/')}`);
+    }
+
+    let subdivision = fb.subdivision;
+    if (src.subdivision !== undefined) {
+      if (isNum(src.subdivision) && SUBDIVISIONS.includes(src.subdivision)) subdivision = src.subdivision;
+      else this.fixes.push(`${key}.subdivision: ${JSON.stringify(src.subdivision)}→${subdivision}`);
+    }
+
+    let steps = fb.steps;
+    if (src.steps !== undefined) {
+      if (isNum(src.steps) && Number.isInteger(src.steps) && src.steps >= MIN_STEPS && src.steps <= MAX_STEPS) steps = src.steps;
+      else this.fixes.push(`${key}.steps: ${JSON.stringify(src.steps)}→${steps}`);
+    } else {
+      const drums = isObject(src.drums) ? Object.values(src.drums) : [];
+      const longest = Math.max(0, ...[...drums, src.bassLine, src.leadMelody, src.arpPattern, src.probMap].map(a => (Array.isArray(a) ? a.length : 0)));
+      if (COMMON_STEPS.includes(longest)) steps = longest;
+    }
+
+    let swing = fb.swing;
+    if (src.swing !== undefined) {
+      swing = isNum(src.swing) ? clamp(src.swing, 0, 1) : fb.swing;
+      if (swing !== src.swing) this.fixes.push(`${key}.swing: ${JSON.stringify(src.swing)}→${swing}`);
+    }
+
+    this.steps = steps;
+    return { steps, timeSignature, subdivision, swing };
+  }
+
+  gates(path: string, raw: unknown, fallback: number[]): number[] {
+    const arr = this.array(path, raw);
+    if (!arr) return this.fit(path, [...fallback], 0);
+    const gates = arr.map(v => {
+      const gate = (isNum(v) && v >= 0.5) || v === true ? 1 : 0;
+      if (gate !== v) this.fixes.push(`${path}: ${JSON.stringify(v)}→${gate}`);
+      return gate;
+    });
+    return this.fit(path, gates, 0);
+  }
+
+  section(key: SectionKey, raw: unknown, fallback: SectionDNA): SectionDNA {
+    if (!isObject(raw)) this.fixes.push(`${key}: missing section, using fallback`);
+    const src = isObject(raw) ? raw : {};
+    const grid = this.grid(key, src, fallback);
+    const drumsSrc = isObject(src.drums) ? src.drums : {};
+    if (!isObject(src.drums)) this.fixes.push(`${key}.drums: missing`);
+    const drums = Object.fromEntries(
+      DRUM_KEYS.map(d => [d, this.gates(`${key}.drums.${d}`, drumsSrc[d], fallback.drums[d])])
+    ) as SectionDNA['drums'];
+    EXTRA_DRUM_KEYS.forEach(d => {
+      drums[d] = drumsSrc[d] === undefined ? Array(this.steps).fill(0) : this.gates(`${key}.drums.${d}`, drumsSrc[d], fallback.drums[d] ?? []);
+    });
+
+    const bassSrc = this.array(`${key}.bassLine`, src.bassLine) ?? fallback.bassLine;
+    const bassLine = this.fit(`${key}.bassLine`, bassSrc.map((raw, i) => {
+      const v = pitch(raw);
+      if (!isNum(v) || v <= 0) {
+        if (!isRest(v)) this.fixes.push(`${key}.bassLine[${i}]: ${JSON.stringify(v)}→rest`);
+        return 0;
+      }
+      return this.note(`${key}.bassLine[${i}]`, v);
+    }), 0);
+
+    const leadSrc = this.array(`${key}.leadMelody`, src.leadMelody) ?? fallback.leadMelody;
+    const leadMelody = this.fit<number | null>(`${key}.leadMelody`, leadSrc.map((raw, i) => {
+      const v = pitch(raw);
+      if (isRest(v) && v !== 0) return null;
+      if (!isNum(v) || v <= 0) {
+        this.fixes.push(`${key}.leadMelody[${i}]: ${JSON.stringify(v)}→rest`);
+        return null;
+      }
+      return this.note(`${key}.leadMelody[${i}]`, v);
+    }), null);
+
+    const chordSrc = this.array(`${key}.chordProgression`, src.chordProgression) ?? fallback.chordProgression;
+    let chordProgression = chordSrc.map((chord, c) => {
+      if (!Array.isArray(chord)) return [];
+      const notes = chord.map(pitch).filter(isNum).map((n, i) => this.note(`${key}.chordProgression[${c}][${i}]`, n));
+      return [...new Set(notes)];
+    }).filter(chord => chord.length > 0);
+    if (chordProgression.length !== chordSrc.length) this.fixes.push(`${key}.chordProgression: dropped ${chordSrc.length - chordProgression.length} empty chord(s)`);
+    if (chordProgression.length === 0) {
+      chordProgression = fallback.chordProgression.length ? fallback.chordProgression.map(c => [...c]) : [FALLBACK_CHORD];
+    }
+
+    const arpPattern = this.gates(`${key}.arpPattern`, src.arpPattern, fallback.arpPattern);
+    // Older DNA has no arp mode; it keeps the random chord tones it always played.
+    const mode = src.arpMode === undefined ? DEFAULT_ARP_MODE : src.arpMode;
+    const arpMode = isArpMode(mode) ? mode : DEFAULT_ARP_MODE;
+    if (arpMode !== mode) this.fixes.push(`${key}.arpMode: ${JSON.stringify(mode)}→${arpMode}`);
+
+    const probMap = this.levels(`${key}.probMap`, src.probMap, fallback.probMap, DEFAULT_PROB, 0, 1);
+    // Velocity / micro-timing are optional: a missing lane means "flat" rather than "copy the fallback".
+    const velocity = this.levels(`${key}.velocity`, src.velocity, undefined, 1, 0, 1, true);
+    const microTiming = this.levels(`${key}.microTiming`, src.microTiming, undefined, 0, -0.5, 0.5, true);
+
+    return { drums, bassLine, leadMelody, chordProgression, arpPattern, arpMode, probMap, ...grid, velocity, microTiming };
+  }
+
+  // Clamps a number into range, reporting anything that moved; missing values take the default quietly.
+  private level(path: string, raw: unknown, fallback: number, min: number, max: number): number {
+    if (raw === undefined) return fallback;
+    const value = isNum(raw) ? clamp(raw, min, max) : fallback;
+    if (value !== raw) this.fixes.push(`${path}: ${JSON.stringify(raw)}→${value}`);
+    return value;
+  }
+
+  mix(raw: unknown): MixSettings {
+    if (!isObject(raw)) {
+      this.fixes.push('mix: invalid, using defaults');
+      return DEFAULT_MIX;
+    }
+    const channelsSrc = isObject(raw.channels) ? raw.channels : {};
+    const channels = Object.fromEntries(CHANNELS.map((c): [Channel, ChannelStrip] => {
+      const src = isObject(channelsSrc[c]) ? channelsSrc[c] : {};
+      const fb = DEFAULT_MIX.channels[c];
+      return [c, {
+        volume: this.level(`mix.${c}.volume`, src.volume, fb.volume, 0, MAX_VOLUME),
+        pan: this.level(`mix.${c}.pan`, src.pan, fb.pan, -1, 1),
+        mute: src.mute === true,
+        solo: src.solo === true,
+        delay: this.level(`mix.${c}.delay`, src.delay, fb.delay, 0, 1),
+        reverb: this.level(`mix.${c}.reverb`, src.reverb, fb.reverb, 0, 1)
+      }];
+    })) as Record<Channel, ChannelStrip>;
+
+    let delayBeats = DEFAULT_MIX.delayBeats;
+    if (raw.delayBeats !== undefined) {
+      if (isNum(raw.delayBeats) && DELAY_DIVISIONS.some(d => d.beats === raw.delayBeats)) delayBeats = raw.delayBeats;
+      else this.fixes.push(`mix.delayBeats: ${JSON.stringify(raw.delayBeats)}→${delayBeats}`);
+    }
+    return {
+      channels,
+      delayBeats,
+      feedback: this.level('mix.feedback', raw.feedback, DEFAULT_MIX.feedback, 0, MAX_FEEDBACK),
+      reverbSize: this.level('mix.reverbSize', raw.reverbSize, DEFAULT_MIX.reverbSize, 0.1, 10)
+    };
+  }
+}
+
+const text = (raw: unknown, fallback: string) => (typeof raw === 'string' && raw.trim() ? raw.trim() : fallback);
+
+/**
+ * Turns an untrusted composer reply into a playable MasterDNA: clamps ranges, fits every
+ * pattern to its section's `steps`, fills missing fields from `fallback` and snaps notes
+ * to `scale` (unless `snapToScale` is false).
+ */
+export const validateDNA = (raw: unknown, fallback: MasterDNA = INITIAL_DNA, { snapToScale = true }: ValidateOptions = {}): ValidationResult => {
+  const src = isObject(raw) ? raw : {};
+  const rootFixes: string[] = isObject(raw) ? [] : ['root: not an object, using fallback'];
+
+  let scale = text(src.scale, fallback.scale);
+  let parsed = parseScale(scale);
+  if (!parsed) {
+    rootFixes.push(`scale: "${scale}" unrecognized, using "${fallback.scale}"`);
+    scale = fallback.scale;
+    parsed = parseScale(scale);
+  }
+
+  const repairer = new Repairer(snapToScale ? parsed : null);
+  repairer.fixes.push(...rootFixes);
+
+  const rawSections = isObject(src.sections) ? src.sections : {};
+  if (!isObject(src.sections)) repairer.fixes.push('sections: missing');
+  const rawSlots: unknown[] = Array.isArray(src.arrangement) ? src.arrangement : [];
+  let keys = Object.keys(rawSections).filter(key => isSectionName(key) && isObject(rawSections[key]));
+  const dropped = Object.keys(rawSections).filter(key => !keys.includes(key));
+  if (dropped.length) repairer.fixes.push(`sections: dropped ${dropped.join(', ')}`);
+  if (keys.length > MAX_SECTIONS) {
+    repairer.fixes.push(`sections: ${keys.length}→${MAX_SECTIONS}`);
+    keys = keys.slice(0, MAX_SECTIONS);
+  }
+  const present = [...keys];
+  // Sections the arrangement names but the reply forgot are cloned from the first one it did send.
+  rawSlots.forEach(slot => {
+    const name = isObject(slot) ? slot.section : undefined;
+    if (typeof name === 'string' && isSectionName(name) && !keys.includes(name) && present.length && keys.length < MAX_SECTIONS) {
+      repairer.fixes.push(`${name}: missing, cloned from ${present[0]}`);
+      keys.push(name);
+    }
+  });
+  const fallbackKeys = Object.keys(fallback.sections);
+  if (keys.length === 0) keys = fallbackKeys;
+  const sections: MasterDNA['sections'] = {};
+  for (const key of keys) {
+    const raw = Object.hasOwn(rawSections, key) ? rawSections[key] : present.length ? rawSections[present[0]] : undefined;
+    sections[key] = repairer.section(key, raw, fallback.sections[Object.hasOwn(fallback.sections, key) ? key : fallbackKeys[0]]);
+  }
+
+  let energy = fallback.energy;
+  if (isNum(src.energy)) {
+    energy = clamp(src.energy, 0, 1);
+    if (energy !== src.energy) repairer.fixes.push(`energy: ${src.energy}→${energy}`);
+  }
+
+  let arrangement = rawSlots.flatMap((slot, i): ArrangementSlot[] => {
+    const path = `arrangement[${i}]`;
+    if (!isObject(slot) || typeof slot.section !== 'string' || !Object.hasOwn(sections, slot.section)) {
+      repairer.fixes.push(`${path}: unknown section, dropped`);
+      return [];
+    }
+    const repeats = isNum(slot.repeats) ? clamp(Math.round(slot.repeats), 1, MAX_REPEATS) : 1;
+    if (slot.repeats !== undefined && repeats !== slot.repeats) repairer.fixes.push(`${path}.repeats: ${JSON.stringify(slot.repeats)}→${repeats}`);
+    const slotEnergy = isNum(slot.energy) ? clamp(slot.energy, 0, 1) : energy;
+    if (slot.energy !== undefined && slotEnergy !== slot.energy) repairer.fixes.push(`${path}.energy: ${JSON.stringify(slot.energy)}→${slotEnergy}`);
+    return [{ section: slot.section, repeats, energy: slotEnergy, fill: slot.fill === true }];
+  });
+  if (arrangement.length > MAX_SLOTS) {
+    repairer.fixes.push(`arrangement: ${arrangement.length}→${MAX_SLOTS} slots`);
+    arrangement = arrangement.slice(0, MAX_SLOTS);
+  }
+  // Replies without a usable form (and DNA saved before arrangements) play each section once.
+  if (arrangement.length === 0) arrangement = defaultArrangement(keys, energy);
+
+  let color = text(src.color, fallback.color);
+  if (!/^#[0-9a-f]{6}$/i.test(color)) {
+    const short = color.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/i);
+    const fixed = short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}` : fallback.color;
+    repairer.fixes.push(`color: "${color}"→"${fixed}"`);
+    color = fixed;
+  }
+
+  // The engine only knows its own palettes; anything else would silently play the default.
+  let palette = text(src.palette, fallback.palette).toUpperCase();
+  if (!isPalette(palette)) {
+    const fixed = isPalette(fallback.palette) ? fallback.palette : INITIAL_DNA.palette;
+    repairer.fixes.push(`palette: "${palette}"→"${fixed}"`);
+    palette = fixed;
+  }
+
+  const mode = src.harmony === undefined ? fallback.harmony ?? DEFAULT_HARMONY : src.harmony;
+  const harmony = isHarmonyMode(mode) ? mode : DEFAULT_HARMONY;
+  if (harmony !== mode) repairer.fixes.push(`harmony: ${JSON.stringify(mode)}→${harmony}`);
+
+  const dna: MasterDNA = {
+    sections,
+    arrangement,
+    genre: text(src.genre, fallback.genre),
+    palette,
+    energy,
+    color,
+    mood: text(src.mood, fallback.mood),
+    scale,
+    harmony,
+    aiThought: text(src.aiThought, fallback.aiThought ?? ''),
+    ...(src.mix !== undefined ? { mix: repairer.mix(src.mix) } : {})
+  };
+  return { dna, fixes: repairer.fixes };
+};
+
+// Compact status-line summary, e.g. "REPAIRED_3 (A.drums.kick: length 6→8, …)".
+export const summarizeFixes = (fixes: string[]) =>
+  fixes.length === 0 ? '' : `REPAIRED_${fixes.length} (${fixes[0]}${fixes.length > 1 ? ', …' : ''})`;
@@ -0,0 +1,190 @@
+import { PALETTE_NAMES, PaletteName, PercType, PERC_TYPES } from './palettes';
+import { KeyValueStore } from './dnaLibrary';
+import { isObject } from './dnaValidator';
+
+// --- Drum Kits ---
+// One-shot samples for the percussion voices. Each palette is assigned a kit (or the synth);
+// voices a kit has no sample for, and samples still decoding, fall back to the synth drums.
+// Decoded buffers are cached by source, so switching kits back and forth never re-decodes.
+
+export type SampleRef = string | Blob;   // URL for bundled kits, a dropped file for the user kit
+
+export interface DrumKit {
+  id: string;
+  name: string;
+  samples: Partial<Record<PercType, SampleRef>>;
+  bundled: boolean;
+}
+
+// What the engine needs at schedule time: a ready buffer or nothing.
+export interface SampleSource {
+  sample(palette: PaletteName, voice: PercType): AudioBuffer | null;
+}
+
+export const SYNTH_KIT = 'synth';
+export const USER_KIT = 'user';
+
+const bundled = (id: string, name: string): DrumKit => ({
+  id,
+  name,
+  samples: Object.fromEntries(PERC_TYPES.map(voice => [voice, `/kits/${id}/${voice}.wav`])),
+  bundled: true
+});
+
+export const BUNDLED_KITS: DrumKit[] = [bundled('tape', 'TAPE'), bundled('steel', 'STEEL')];
+
+export type KitAssignments = Record<PaletteName, string>;
+
+export const DEFAULT_KIT_ASSIGNMENTS: KitAssignments = { ETHEREAL: SYNTH_KIT, ANALOG: SYNTH_KIT, LOFI: 'tape', INDUSTRIAL: 'steel' };
+
+const ASSIGNMENTS_KEY = 'neural-strudel.kits.v1';
+
+// Filename hints for dropped files, checked in order ("openhat" before "hat", "clap" before "snare").
+const FILE_HINTS: [RegExp, PercType][] = [
+  [/open|\boh\b|ohh/i, 'openhat'],
+  [/clap|\bcp\b/i, 'clap'],
+  [/kick|\bbd\b|bass ?drum/i, 'kick'],
+  [/snare|\bsd\b|rim/i, 'snare'],
+  [/hat|\bhh\b|\bch\b/i, 'hat'],
+  [/glitch|perc|fx|noise|blip/i, 'glitch']
+];
+
+export const voiceForFile = (name: string): PercType | null =>
+  FILE_HINTS.find(([hint]) => hint.test(name.replace(/[_.-]/g, ' ')))?.[1] ?? null;
+
+export const isAudioFile = (file: File) => file.type.startsWith('audio/') || /\.(wav|ogg|mp3|flac|aiff?)$/i.test(file.name);
+
+const defaultFetch = async (url: string) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${res.status} ${url}`);
+  return res.arrayBuffer();
+};
+
+export class KitLibrary implements SampleSource {
+  private kits: DrumKit[] = [...BUNDLED_KITS, { id: USER_KIT, name: 'USER', samples: {}, bundled: false }];
+  private assignments: KitAssignments;
+  private buffers = new Map<SampleRef, AudioBuffer>();
+  private loading = new Map<SampleRef, Promise<AudioBuffer | null>>();
+  private failed = new Set<SampleRef>();
+  private ctx: BaseAudioContext | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(private store: KeyValueStore = window.localStorage, private fetchSample: (url: string) => Promise<ArrayBuffer> = defaultFetch) {
+    this.assignments = this.loadAssignments();
+  }
+
+  private loadAssignments(): KitAssignments {
+    try {
+      const saved: unknown = JSON.parse(this.store.getItem(ASSIGNMENTS_KEY) ?? '{}');
+      const src = isObject(saved) ? saved : {};
+      const assignments = { ...DEFAULT_KIT_ASSIGNMENTS };
+      PALETTE_NAMES.forEach(p => {
+        const kit = src[p];
+        if (typeof kit === 'string' && (kit === SYNTH_KIT || this.get(kit))) assignments[p] = kit;
+      });
+      return assignments;
+    } catch {
+      return { ...DEFAULT_KIT_ASSIGNMENTS };
+    }
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l());
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  list() {
+    return this.kits;
+  }
+
+  get(id: string) {
+    return this.kits.find(k => k.id === id);
+  }
+
+  getAssignments() {
+    return this.assignments;
+  }
+
+  // Decoding needs a context; assigned kits start loading as soon as one is attached.
+  attach(ctx: BaseAudioContext) {
+    this.ctx = ctx;
+    Object.values(this.assignments).forEach(id => this.preload(id));
+  }
+
+  assign(palette: PaletteName, kitId: string) {
+    this.assignments = { ...this.assignments, [palette]: kitId };
+    this.store.setItem(ASSIGNMENTS_KEY, JSON.stringify(this.assignments));
+    this.preload(kitId);
+    this.emit();
+  }
+
+  // Adds a dropped file to the user kit; without `voice` the filename decides (null when it can't).
+  setUserSample(file: Blob & { name?: string }, voice?: PercType): PercType | null {
+    const target = voice ?? voiceForFile(file.name ?? '');
+    if (!target) return null;
+    this.kits = this.kits.map(k => (k.id === USER_KIT ? { ...k, samples: { ...k.samples, [target]: file } } : k));
+    this.preload(USER_KIT);
+    this.emit();
+    return target;
+  }
+
+  clearUserSample(voice: PercType) {
+    this.kits = this.kits.map(k => {
+      if (k.id !== USER_KIT) return k;
+      const { [voice]: _removed, ...samples } = k.samples;
+      return { ...k, samples };
+    });
+    this.emit();
+  }
+
+  // Per-voice state for the UI.
+  status(kitId: string, voice: PercType): 'none' | 'loading' | 'ready' | 'failed' {
+    const ref = this.get(kitId)?.samples[voice];
+    if (!ref) return 'none';
+    if (this.buffers.has(ref)) return 'ready';
+    return this.failed.has(ref) ? 'failed' : 'loading';
+  }
+
+  sample(palette: PaletteName, voice: PercType): AudioBuffer | null {
+    const ref = this.get(this.assignments[palette])?.samples[voice];
+    return ref ? this.buffers.get(ref) ?? null : null;
+  }
+
+  preload(kitId: string) {
+    const kit = this.get(kitId);
+    if (!kit) return Promise.resolve();
+    return Promise.all(Object.values(kit.samples).map(ref => this.decode(ref!))).then(() => undefined);
+  }
+
+  private decode(ref: SampleRef): Promise<AudioBuffer | null> {
+    const ctx = this.ctx;
+    const cached = this.buffers.get(ref);
+    if (cached) return Promise.resolve(cached);
+    if (!ctx || this.failed.has(ref)) return Promise.resolve(null);
+    let pending = this.loading.get(ref);
+    if (!pending) {
+      pending = (typeof ref === 'string' ? this.fetchSample(ref) : ref.arrayBuffer())
+        .then(data => ctx.decodeAudioData(data))
+        .then(buffer => {
+          this.buffers.set(ref, buffer);
+          return buffer;
+        })
+        .catch(e => {
+          // Missing or undecodable files keep the synth voice; no point retrying every hit.
+          console.warn('Drum sample failed to load:', typeof ref === 'string' ? ref : 'dropped file', e);
+          this.failed.add(ref);
+          return null;
+        })
+        .finally(() => {
+          this.loading.delete(ref);
+          this.emit();
+        });
+      this.loading.set(ref, pending);
+    }
+    return pending;
+  }
+}
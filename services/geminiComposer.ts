@@ -0,0 +1,186 @@
+
+import { GoogleGenAI, Type } from "@google/genai";
+import { TARGET_MODEL } from '../constants';
+import { MasterDNA, SectionDNA } from '../types';
+import { Composer, ComposeRequest, ComposerError, InputCues } from './composer';
+import { DRUM_LANES, LockField, LOCK_FIELDS } from './dnaEdit';
+import { isObject } from './dnaValidator';
+import { LockedContext } from './locks';
+import { Steering, SteeringFeedback, describeDNA } from './steering';
+import { PALETTE_NAMES } from './palettes';
+import { ARP_MODES, HARMONY_MODES } from './harmony';
+import { midiToName } from './theory';
+
+const NUMBER_ARRAY = { type: Type.ARRAY, items: { type: Type.NUMBER } };
+// Pitches travel as note names ("C3", "Eb4"); models place them far more reliably than MIDI numbers.
+const NOTE = { type: Type.STRING, description: 'Scientific pitch name, e.g. "C3", "F#4", "Bb2"; "-" is a rest.' };
+
+const FIELD_SCHEMAS = {
+  bassLine: { type: Type.ARRAY, items: NOTE },
+  leadMelody: { type: Type.ARRAY, items: { ...NOTE, nullable: true } },
+  chordProgression: { type: Type.ARRAY, items: { type: Type.ARRAY, items: NOTE }, description: 'One chord per bar, played in order.' },
+  arpPattern: NUMBER_ARRAY,
+  probMap: NUMBER_ARRAY,
+  velocity: NUMBER_ARRAY,
+  microTiming: NUMBER_ARRAY
+};
+
+const FIELD_PROPS: Record<string, keyof typeof FIELD_SCHEMAS> = {
+  bass: 'bassLine', lead: 'leadMelody', chords: 'chordProgression', arp: 'arpPattern', prob: 'probMap',
+  velocity: 'velocity', micro: 'microTiming'
+};
+
+const GRID_SCHEMA = {
+  steps: { type: Type.INTEGER, description: "Pattern length; every per-step array has exactly this many entries." },
+  timeSignature: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "[numerator, denominator], e.g. [4,4], [3,4], [6,8]." },
+  subdivision: { type: Type.INTEGER, description: "Steps per quarter note: 4 = sixteenths, 3 or 6 = triplets." },
+  swing: { type: Type.NUMBER }
+};
+
+// Section schema restricted to `fields`; the full field list yields the classic schema.
+// A section with locked parts keeps its grid, so only fully open sections may choose one.
+const sectionSchema = (fields: readonly LockField[]) => {
+  const properties: Record<string, unknown> = fields.length === LOCK_FIELDS.length ? { ...GRID_SCHEMA } : {};
+  const drums = DRUM_LANES.filter(d => fields.includes(d));
+  if (drums.length) properties.drums = { type: Type.OBJECT, properties: Object.fromEntries(drums.map(d => [d, NUMBER_ARRAY])) };
+  fields.forEach(f => {
+    const prop = FIELD_PROPS[f];
+    if (prop) properties[prop] = FIELD_SCHEMAS[prop];
+  });
+  if (fields.includes('arp')) properties.arpMode = { type: Type.STRING, enum: ARP_MODES, description: 'How the arp walks the bar\'s chord; follow tracks the lead.' };
+  return { type: Type.OBJECT, properties };
+};
+
+const ARRANGEMENT_SCHEMA = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      section: { type: Type.STRING },
+      repeats: { type: Type.INTEGER },
+      energy: { type: Type.NUMBER },
+      fill: { type: Type.BOOLEAN }
+    }
+  }
+};
+
+// A free composition names its own sections (an array, since the schema cannot express open
+// keys); with locks the structure is fixed, so sections are keyed and no arrangement is asked for.
+const buildResponseSchema = (locked?: LockedContext) => {
+  let sections: unknown;
+  if (locked) {
+    const properties: Record<string, unknown> = {};
+    Object.entries(locked.unlocked).forEach(([key, fields]) => {
+      if (fields.length) properties[key] = sectionSchema(fields);
+    });
+    sections = { type: Type.OBJECT, properties };
+  } else {
+    const named = sectionSchema(LOCK_FIELDS);
+    sections = { type: Type.ARRAY, items: { ...named, properties: { name: { type: Type.STRING }, ...named.properties } } };
+  }
+  return {
+    type: Type.OBJECT,
+    properties: {
+      genre: { type: Type.STRING },
+      aiThought: { type: Type.STRING, description: "EXTREMELY SHORT (MAX 15 WORDS) intention." },
+      ...(locked?.scale ? {} : { scale: { type: Type.STRING, description: 'Key as "<Root> <Mode>", e.g. "F# Dorian".' } }),
+      harmony: { type: Type.STRING, enum: HARMONY_MODES, description: 'free: notes as written; scale: held to the key; chord: bass and on-beat lead on the bar\'s chord.' },
+      mood: { type: Type.STRING },
+      palette: { type: Type.STRING, enum: PALETTE_NAMES },
+      energy: { type: Type.NUMBER },
+      color: { type: Type.STRING },
+      sections,
+      ...(locked ? {} : { arrangement: ARRANGEMENT_SCHEMA })
+    }
+  };
+};
+
+// Section material as the model should read it: pitches named the way it is asked to write them.
+const namePitches = (section: Partial<SectionDNA>) => ({
+  ...section,
+  ...(section.bassLine ? { bassLine: section.bassLine.map(n => (n > 0 ? midiToName(n) : '-')) } : {}),
+  ...(section.leadMelody ? { leadMelody: section.leadMelody.map(n => (n === null ? null : midiToName(n))) } : {}),
+  ...(section.chordProgression ? { chordProgression: section.chordProgression.map(c => c.map(midiToName)) } : {})
+});
+
+// Folds the array form back into MasterDNA's keyed sections.
+const keySections = (reply: unknown) => {
+  const src = isObject(reply) ? reply : {};
+  if (!Array.isArray(src.sections)) return reply;
+  const sections: Record<string, unknown> = {};
+  src.sections.forEach((section: unknown) => {
+    const { name, ...rest } = isObject(section) ? section : {};
+    if (typeof name === 'string') sections[name] = rest;
+  });
+  return { ...src, sections };
+};
+
+const lockedRules = (locked: LockedContext) => {
+  const asked = Object.entries(locked.unlocked)
+    .map(([key, fields]) => `${key}: ${fields.length ? fields.join(', ') : 'nothing'}`)
+    .join('; ');
+  return `
+        LOCKED PARTS (already final, do NOT output them, write new parts that fit them): ${JSON.stringify(Object.fromEntries(Object.entries(locked.sections).map(([key, section]) => [key, namePitches(section!)])))}
+        ${locked.scale ? `KEEP SCALE: ${locked.scale}.` : ''}
+        ONLY COMPOSE: ${asked}. Locked sections keep their steps/timeSignature/subdivision/swing.`;
+};
+
+const FEEDBACK_RULES: Record<SteeringFeedback, string> = {
+  more: 'MORE LIKE THIS: keep its genre, key and groove, vary details only.',
+  less: 'LESS LIKE THIS: move clearly away from it (different genre, key and groove).'
+};
+
+const steeringRules = (steering?: Steering, previous?: MasterDNA, feedback?: SteeringFeedback) => {
+  const lines: string[] = [];
+  if (steering?.direction.trim()) lines.push(`USER DIRECTION (highest priority): "${steering.direction.trim()}"`);
+  if (steering?.genre) lines.push(`GENRE: ${steering.genre}`);
+  if (steering?.mood) lines.push(`MOOD: ${steering.mood}`);
+  if (steering?.energy !== null && steering?.energy !== undefined) lines.push(`TARGET ENERGY: ${steering.energy} (0 calm - 1 intense)`);
+  if (previous) lines.push(`PREVIOUS DNA: ${describeDNA(previous)}`, feedback ? FEEDBACK_RULES[feedback] : 'EVOLVE it: keep its identity, change one or two things.');
+  return lines.length ? `
+        STEERING:
+        ${lines.join('\n        ')}` : '';
+};
+
+const inputRules = ({ scale, loudness }: InputCues) => {
+  const lines = [
+    scale ? `a live musician is playing in ${scale}: KEEP SCALE ${scale}` : '',
+    loudness !== undefined ? `their loudness is ${loudness} (0 quiet - 1 loud): match the energy to it` : ''
+  ].filter(Boolean);
+  return lines.length ? `
+        LIVE INPUT: ${lines.join('; ')}.` : '';
+};
+
+export class GeminiComposer implements Composer {
+  id = 'gemini' as const;
+  label = 'GEMINI';
+  private ai: GoogleGenAI | null;
+
+  constructor(apiKey: string | undefined, private model = TARGET_MODEL) {
+    this.ai = apiKey ? new GoogleGenAI({ apiKey }) : null;
+  }
+
+  async compose({ bpm, riff, locked, steering, previous, feedback, input, signal }: ComposeRequest): Promise<unknown> {
+    if (!this.ai) throw new ComposerError('GEMINI_API_KEY not configured');
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: `BPM: ${bpm}. Compose Music DNA. 
+        RULES:
+        1. Pitches are note names (C4 = middle C). LeadMelody: at least 5 notes between C4 and C6. Bass between C1 and G3.
+        2. Chords: lush 4-note diatonic chords in the scale, one per bar, 2-8 chords per section.
+        3. aiThought: MAX 15 WORDS summarize.
+        4. Grid: steps 8-32 (12 or 24 for triplet feels), swing 0-1, velocity 0-1 and microTiming -0.5..0.5 per step.
+        Sound: palette is one of ${PALETTE_NAMES.join(', ')}; energy 0-1 opens filters, adds drive and density.${locked ? '' : `
+        5. Song form: 3-5 named sections (intro, verse, chorus, breakdown, outro), then an arrangement of 4-8 slots (repeats 1-4, energy 0-1, fill before a lift). Energy jumps of 0.2+ between slots become filter sweeps (up) or drum drop-outs (down).`}${riff ? `
+        6. SEED RIFF: build the first verse/main section around this human riff, keep its rhythm and notes: ${JSON.stringify(namePitches(riff))}` : ''}${locked ? lockedRules(locked) : ''}${steeringRules(steering, previous, feedback)}${input ? inputRules(input) : ''}
+        FASTEST RESPONSE REQUIRED.`,
+      config: {
+        systemInstruction: "You are a fast MIDI orchestrator. Output strict JSON. aiThought must be ultra-short (under 15 words).",
+        responseMimeType: "application/json",
+        responseSchema: buildResponseSchema(locked),
+        abortSignal: signal
+      }
+    });
+    return keySections(JSON.parse(response.text || "{}"));
+  }
+}
@@ -0,0 +1,106 @@
+import { ArpMode, HarmonyMode, MasterDNA, SectionDNA } from '../types';
+import { SECTION_BARS } from '../constants';
+import { ParsedScale, parseScale, snapToScale } from './theory';
+import { TimelineStep, stepsPerBar } from './timeline';
+
+// --- Harmony ---
+// Where the chord progression is at any step and how the pitched voices sit over it. The engine,
+// the MIDI export and the UI all ask here, so the chord on screen is the chord that plays.
+
+export const ARP_MODES: ArpMode[] = ['up', 'down', 'updown', 'random', 'follow'];
+export const HARMONY_MODES: HarmonyMode[] = ['free', 'scale', 'chord'];
+// What the arp did before it had modes; DNA saved without one keeps sounding the same.
+export const DEFAULT_ARP_MODE: ArpMode = 'random';
+export const DEFAULT_HARMONY: HarmonyMode = 'scale';
+export const FALLBACK_CHORD = [60, 64, 67];
+
+export const isArpMode = (value: unknown): value is ArpMode => ARP_MODES.includes(value as ArpMode);
+export const isHarmonyMode = (value: unknown): value is HarmonyMode => HARMONY_MODES.includes(value as HarmonyMode);
+
+type Position = Pick<TimelineStep, 'idx' | 'sectionStep' | 'pass'>;
+
+// One chord per bar. Bars count on through the slot's repeats, so a progression longer than one
+// pass of the section still plays out in full.
+export const chordIndexAt = (section: SectionDNA, pos: Position) => {
+  const bar = pos.pass * SECTION_BARS + Math.floor(pos.sectionStep / stepsPerBar(section));
+  return bar % Math.max(1, section.chordProgression.length);
+};
+
+export const activeChord = (section: SectionDNA, pos: Position) =>
+  section.chordProgression[chordIndexAt(section, pos)] ?? FALLBACK_CHORD;
+
+const pitchClass = (note: number) => ((note % 12) + 12) % 12;
+
+// The chord tone (in any octave) closest to `note`, preferring the lower one on ties.
+export const nearestChordTone = (note: number, chord: number[]) => {
+  let best = note;
+  let distance = Infinity;
+  chord.forEach(tone => {
+    const up = (pitchClass(tone) - pitchClass(note) + 12) % 12;
+    [note + up, note + up - 12].forEach(candidate => {
+      const d = Math.abs(candidate - note);
+      if (d < distance || (d === distance && candidate < best)) { best = candidate; distance = d; }
+    });
+  });
+  return best;
+};
+
+export interface HarmonyContext {
+  mode: HarmonyMode;
+  scale: ParsedScale | null;
+  chord: number[];
+  onBeat: boolean;   // step falls on a beat: where 'chord' mode holds the lead to chord tones
+}
+
+export const harmonyAt = (dna: MasterDNA, section: SectionDNA, pos: Position): HarmonyContext => ({
+  mode: dna.harmony ?? DEFAULT_HARMONY,
+  scale: parseScale(dna.scale),
+  chord: activeChord(section, pos),
+  onBeat: pos.sectionStep % section.subdivision === 0
+});
+
+// 'scale' keeps bass and lead in key; 'chord' puts the bass and on-beat lead notes on the active
+// chord and leaves off-beat lead notes as passing tones in the key.
+export const harmonize = (note: number, voice: 'bass' | 'lead', { mode, scale, chord, onBeat }: HarmonyContext) => {
+  if (mode === 'free') return note;
+  if (mode === 'chord' && (voice === 'bass' || onBeat)) return nearestChordTone(note, chord);
+  return scale ? snapToScale(note, scale) : note;
+};
+
+// Arp hits since the bar began: patterns restart with every chord change.
+const arpHitsInBar = (section: SectionDNA, pos: Position) => {
+  let hits = 0;
+  for (let s = pos.sectionStep - (pos.sectionStep % stepsPerBar(section)); s < pos.sectionStep; s++) {
+    if (section.arpPattern[s % section.steps]) hits++;
+  }
+  return hits;
+};
+
+// The lead note sounding at `idx`: the latest one at or before it, wrapping around the pattern.
+const leadAt = (section: SectionDNA, idx: number) => {
+  for (let back = 0; back < section.steps; back++) {
+    const note = section.leadMelody[(idx - back + section.steps) % section.steps];
+    if (note !== null && note !== undefined) return note;
+  }
+  return null;
+};
+
+// Arp note for a step: the active chord an octave up, walked according to the section's mode.
+export const arpNote = (section: SectionDNA, pos: Position, chord: number[], random: () => number) => {
+  const tones = [...new Set(chord)].sort((a, b) => a - b).map(n => n + 12);
+  const n = arpHitsInBar(section, pos);
+  switch (section.arpMode) {
+    case 'up': return tones[n % tones.length];
+    case 'down': return tones[tones.length - 1 - (n % tones.length)];
+    case 'updown': {
+      const cycle = Math.max(1, tones.length * 2 - 2);
+      const i = n % cycle;
+      return tones[i < tones.length ? i : cycle - i];
+    }
+    case 'follow': {
+      const lead = leadAt(section, pos.idx);
+      return lead === null ? tones[0] : nearestChordTone(lead, chord);
+    }
+    default: return tones[Math.floor(random() * tones.length)];
+  }
+};
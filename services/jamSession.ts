@@ -0,0 +1,591 @@
+import { MasterDNA } from '../types';
+import { INITIAL_DNA, MAX_TEMPO, MIN_TEMPO } from '../constants';
+import { AudioEngine, DnaChangeOptions, Quantize, TransportPosition } from './audioEngine';
+import { KeyValueStore } from './dnaLibrary';
+import { isObject, validateDNA } from './dnaValidator';
+import { EMPTY_LAYER_LOCKS, LAYERS, Layer, LayerLocks } from './locks';
+import { randomSeed } from './random';
+import { SteeringFeedback } from './steering';
+
+// --- Jam Sessions ---
+// Several laptops co-drive one groove through a small WebSocket relay (server/jamRelay.mjs).
+// The host composes and owns the transport: it broadcasts its DNA, tempo and playhead on a clock
+// shared through the relay, and each guest's own engine lines up with it. Guests propose edits,
+// vote on the next regeneration and ask for layer locks; the host's session decides.
+
+export type JamRole = 'host' | 'guest';
+export type JamStatus = 'off' | 'connecting' | 'connected' | 'error';
+// A steering nudge for the next regeneration, or 'fresh' for one without.
+export type VoteChoice = SteeringFeedback | 'fresh';
+
+export const VOTE_CHOICES: VoteChoice[] = ['more', 'less', 'fresh'];
+export const JAM_PORT = 8787;
+// How often the host re-sends its playhead while playing (ms).
+export const ANCHOR_MS = 1000;
+
+export interface JamPeer {
+  id: string;
+  name: string;
+  role: JamRole;
+}
+
+export interface JamSettings {
+  url: string;
+  room: string;
+  name: string;
+}
+
+// The host's next step, its time on the shared clock (relay time, ms).
+export interface JamAnchor extends Omit<TransportPosition, 'time'> {
+  time: number;
+}
+
+export interface JamProposal {
+  id: number;
+  from: string;
+  name: string;
+  dna: MasterDNA;
+}
+
+// Host → guests. A DNA without `change` is an edit and is heard at once; with one it waits for
+// the same boundary the host's engine waits for.
+export type JamBroadcast =
+  | { type: 'dna'; dna: MasterDNA; change: Required<DnaChangeOptions> | null }
+  | { type: 'transport'; playing: boolean; anchor: JamAnchor | null }
+  | { type: 'session'; locks: LayerLocks; votes: Record<string, VoteChoice>; seed: number };
+
+// Guests → host.
+export type JamRequest =
+  | { type: 'propose'; dna: MasterDNA }
+  | { type: 'vote'; choice: VoteChoice }
+  | { type: 'lock'; locks: LayerLocks };
+
+// What the relay understands; broadcasts (from the host only) and requests it passes on to the rest of the room.
+export type RelayRequest =
+  | { type: 'join'; room: string; name: string; role: JamRole }
+  | { type: 'ping'; t0: number }
+  | JamBroadcast
+  | JamRequest;
+
+export type RelayReply =
+  | { type: 'welcome'; id: string; peers: JamPeer[] }
+  | { type: 'peers'; peers: JamPeer[] }
+  | { type: 'pong'; t0: number; server: number }
+  | { type: 'error'; reason: string }
+  | ((JamBroadcast | JamRequest) & { from: string });
+
+// The part of WebSocket the session uses.
+export interface JamSocket {
+  onopen: (() => void) | null;
+  onmessage: ((event: { data: unknown }) => void) | null;
+  onclose: (() => void) | null;
+  onerror: (() => void) | null;
+  send(data: string): void;
+  close(): void;
+}
+
+const SETTINGS_KEY = 'neural-strudel.jam.v1';
+const PING_MS = 2000;
+// The offset comes from the fastest of the recent round trips: the slow ones carry queueing delay.
+const CLOCK_SAMPLES = 8;
+const MAX_PROPOSALS = 8;
+// A guest more than this far off the host's grid (seconds) jumps back onto it.
+const DRIFT_TOLERANCE = 0.02;
+// An anchor has to leave this much time (seconds) to line up before it plays.
+const MIN_LEAD = 0.02;
+
+const defaultSettings = (): JamSettings => ({
+  url: `ws://${typeof location !== 'undefined' && location.hostname ? location.hostname : 'localhost'}:${JAM_PORT}`,
+  room: 'main',
+  name: ''
+});
+
+export const loadJamSettings = (store: KeyValueStore): JamSettings => {
+  try {
+    const saved: unknown = JSON.parse(store.getItem(SETTINGS_KEY) ?? '{}');
+    const src = isObject(saved) ? saved : {};
+    const fallback = defaultSettings();
+    const text = (key: keyof JamSettings) => {
+      const value = src[key];
+      return typeof value === 'string' ? value : fallback[key];
+    };
+    return { url: text('url'), room: text('room'), name: text('name') };
+  } catch {
+    return defaultSettings();
+  }
+};
+
+// --- Relay messages ---
+// Everything off the socket is untrusted: any peer can send any JSON. Each message is narrowed
+// field by field, and one that does not fit is dropped before the session or the app acts on it.
+
+const ROLES: JamRole[] = ['host', 'guest'];
+const QUANTIZE: Quantize[] = ['now', 'bar', 'section'];
+const MAX_MORPH_BARS = 64;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isIndex = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const readPeers = (raw: unknown): JamPeer[] | null => {
+  if (!Array.isArray(raw)) return null;
+  const peers = raw.filter((peer): peer is JamPeer =>
+    isObject(peer) && typeof peer.id === 'string' && typeof peer.name === 'string' && ROLES.includes(peer.role as JamRole));
+  return peers.length === raw.length ? peers.map(({ id, name, role }) => ({ id, name, role })) : null;
+};
+
+// Only an object is taken for DNA; validation repairs the rest of it.
+const readDna = (raw: unknown): MasterDNA | null =>
+  isObject(raw) ? validateDNA(raw, INITIAL_DNA, { snapToScale: false }).dna : null;
+
+const readChange = (raw: unknown): Required<DnaChangeOptions> | null | undefined => {
+  if (raw === null) return null;
+  if (!isObject(raw) || !QUANTIZE.includes(raw.quantize as Quantize)) return undefined;
+  const { morphBars } = raw;
+  return isNumber(morphBars) && morphBars >= 0 && morphBars <= MAX_MORPH_BARS ? { quantize: raw.quantize as Quantize, morphBars } : undefined;
+};
+
+const readAnchor = (raw: unknown): JamAnchor | null | undefined => {
+  if (raw === null) return null;
+  if (!isObject(raw)) return undefined;
+  const { slot, pass, sectionStep, beat, bpm, time } = raw;
+  if (!isIndex(slot) || !isIndex(pass) || !isIndex(sectionStep) || !isNumber(beat) || !isNumber(time)) return undefined;
+  return isNumber(bpm) && bpm >= MIN_TEMPO && bpm <= MAX_TEMPO ? { slot, pass, sectionStep, beat, bpm, time } : undefined;
+};
+
+const readFlags = <K extends string>(raw: unknown, keys?: readonly K[]): Partial<Record<K, boolean>> | null => {
+  if (!isObject(raw)) return null;
+  const entries = Object.entries(raw);
+  const valid = entries.every(([key, value]) => typeof value === 'boolean' && (!keys || keys.includes(key as K)));
+  return valid ? Object.fromEntries(entries) as Partial<Record<K, boolean>> : null;
+};
+
+const readLocks = (raw: unknown): LayerLocks | null => {
+  if (!isObject(raw)) return null;
+  const layers = readFlags<Layer>(raw.layers, LAYERS);
+  const sections = readFlags(raw.sections);
+  return layers && sections ? { layers, sections } : null;
+};
+
+const readVotes = (raw: unknown): Record<string, VoteChoice> | null => {
+  if (!isObject(raw)) return null;
+  const entries = Object.entries(raw);
+  return entries.every(([, choice]) => VOTE_CHOICES.includes(choice as VoteChoice))
+    ? Object.fromEntries(entries) as Record<string, VoteChoice>
+    : null;
+};
+
+const readRelayReply = (raw: unknown): RelayReply | null => {
+  if (!isObject(raw)) return null;
+  // The relay's own replies never carry `from`; a peer's messages always do.
+  if ('from' in raw) {
+    if (typeof raw.from !== 'string') return null;
+    const from = raw.from;
+    switch (raw.type) {
+      case 'dna': {
+        const dna = readDna(raw.dna);
+        const change = readChange(raw.change);
+        return dna && change !== undefined ? { type: 'dna', dna, change, from } : null;
+      }
+      case 'transport': {
+        const anchor = readAnchor(raw.anchor);
+        return typeof raw.playing === 'boolean' && anchor !== undefined ? { type: 'transport', playing: raw.playing, anchor, from } : null;
+      }
+      case 'session': {
+        const locks = readLocks(raw.locks);
+        const votes = readVotes(raw.votes);
+        return locks && votes && isNumber(raw.seed) ? { type: 'session', locks, votes, seed: raw.seed, from } : null;
+      }
+      case 'propose': {
+        const dna = readDna(raw.dna);
+        return dna ? { type: 'propose', dna, from } : null;
+      }
+      case 'vote':
+        return VOTE_CHOICES.includes(raw.choice as VoteChoice) ? { type: 'vote', choice: raw.choice as VoteChoice, from } : null;
+      case 'lock': {
+        const locks = readLocks(raw.locks);
+        return locks ? { type: 'lock', locks, from } : null;
+      }
+      default:
+        return null;
+    }
+  }
+  switch (raw.type) {
+    case 'welcome': {
+      const peers = readPeers(raw.peers);
+      return typeof raw.id === 'string' && peers ? { type: 'welcome', id: raw.id, peers } : null;
+    }
+    case 'peers': {
+      const peers = readPeers(raw.peers);
+      return peers ? { type: 'peers', peers } : null;
+    }
+    case 'pong':
+      return isNumber(raw.t0) && isNumber(raw.server) ? { type: 'pong', t0: raw.t0, server: raw.server } : null;
+    case 'error':
+      return typeof raw.reason === 'string' ? { type: 'error', reason: raw.reason } : null;
+    default:
+      return null;
+  }
+};
+
+export class JamSession {
+  private socket: JamSocket | null = null;
+  private status: JamStatus = 'off';
+  private error: string | null = null;
+  private role: JamRole = 'guest';
+  private id: string | null = null;
+  private peers: JamPeer[] = [];
+  private clock: { rtt: number; offset: number }[] = [];
+  private pinger: ReturnType<typeof setInterval> | undefined;
+  private settings: JamSettings;
+  private seed = 0;
+  private locks: LayerLocks = EMPTY_LAYER_LOCKS;
+  // Voter id → choice. The host keeps the tally; guests mirror it from session broadcasts.
+  private votes: Record<string, VoteChoice> = {};
+  private proposals: JamProposal[] = [];
+  private nextProposal = 1;
+  private listeners = new Set<() => void>();
+  private broadcastListeners = new Set<(message: JamBroadcast) => void>();
+  private requestListeners = new Set<(request: JamRequest, from: JamPeer) => void>();
+  private joinListeners = new Set<(peer: JamPeer) => void>();
+
+  constructor(
+    private store: KeyValueStore = window.localStorage,
+    private openSocket: (url: string) => JamSocket = url => new WebSocket(url) as unknown as JamSocket,
+    private now: () => number = Date.now
+  ) {
+    this.settings = loadJamSettings(store);
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Guests: what the host broadcasts.
+  onBroadcast(listener: (message: JamBroadcast) => void) {
+    this.broadcastListeners.add(listener);
+    return () => { this.broadcastListeners.delete(listener); };
+  }
+
+  // Host: proposals, votes and lock requests, after the session has recorded them.
+  onRequest(listener: (request: JamRequest, from: JamPeer) => void) {
+    this.requestListeners.add(listener);
+    return () => { this.requestListeners.delete(listener); };
+  }
+
+  // Host: someone joined and needs the full picture.
+  onJoin(listener: (peer: JamPeer) => void) {
+    this.joinListeners.add(listener);
+    return () => { this.joinListeners.delete(listener); };
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  getError() {
+    return this.error;
+  }
+
+  getRole() {
+    return this.role;
+  }
+
+  getId() {
+    return this.id;
+  }
+
+  getSettings() {
+    return this.settings;
+  }
+
+  getPeers() {
+    return this.peers;
+  }
+
+  getProposals() {
+    return this.proposals;
+  }
+
+  getLocks() {
+    return this.locks;
+  }
+
+  getSeed() {
+    return this.seed;
+  }
+
+  isHost() {
+    return this.status === 'connected' && this.role === 'host';
+  }
+
+  isGuest() {
+    return this.status === 'connected' && this.role === 'guest';
+  }
+
+  // Relay clock estimate; null until the first round trip.
+  getClock() {
+    if (!this.clock.length) return null;
+    return this.clock.reduce((best, sample) => (sample.rtt < best.rtt ? sample : best));
+  }
+
+  // Now on the relay's clock, which every member of the room shares.
+  sharedNow() {
+    return this.now() + (this.getClock()?.offset ?? 0);
+  }
+
+  getVoteCounts() {
+    const counts = Object.fromEntries(VOTE_CHOICES.map(choice => [choice, 0])) as Record<VoteChoice, number>;
+    Object.values(this.votes).forEach(choice => { counts[choice]++; });
+    return counts;
+  }
+
+  // More than half the room has voted, so the host need not wait for its timer.
+  hasMajority() {
+    return Object.keys(this.votes).length * 2 > this.peers.length;
+  }
+
+  connect(settings: JamSettings, role: JamRole) {
+    this.leave();
+    this.settings = settings;
+    this.store.setItem(SETTINGS_KEY, JSON.stringify(settings));
+    this.role = role;
+    this.error = null;
+    this.setStatus('connecting');
+    let socket: JamSocket;
+    try {
+      socket = this.openSocket(settings.url);
+    } catch (e) {
+      console.warn('Jam relay unreachable:', e);
+      this.fail('BAD_RELAY_URL');
+      return;
+    }
+    this.socket = socket;
+    socket.onopen = () => this.send({ type: 'join', room: settings.room, name: settings.name, role });
+    socket.onmessage = event => {
+      try {
+        const message = readRelayReply(JSON.parse(String(event.data)));
+        if (message) this.receive(message);
+        else console.warn('Jam message dropped: malformed', event.data);
+      } catch (e) {
+        console.warn('Jam message dropped:', e);
+      }
+    };
+    socket.onerror = () => this.fail('RELAY_UNREACHABLE');
+    socket.onclose = () => this.fail('RELAY_CLOSED');
+  }
+
+  leave() {
+    const socket = this.socket;
+    this.reset();
+    if (socket) {
+      socket.onclose = null;
+      socket.onerror = null;
+      socket.onmessage = null;
+      socket.close();
+      this.setStatus('off');
+    }
+  }
+
+  // --- Host ---
+
+  publishDna(dna: MasterDNA, change: Required<DnaChangeOptions> | null) {
+    if (this.isHost()) this.send({ type: 'dna', dna, change });
+  }
+
+  publishTransport(playing: boolean, anchor: JamAnchor | null) {
+    if (this.isHost()) this.send({ type: 'transport', playing, anchor });
+  }
+
+  publishLocks(locks: LayerLocks) {
+    this.locks = locks;
+    this.publishSession();
+  }
+
+  // Takes a proposal off the list; the caller applies the returned DNA.
+  accept(id: number) {
+    const proposal = this.proposals.find(p => p.id === id) ?? null;
+    this.reject(id);
+    return proposal?.dna ?? null;
+  }
+
+  reject(id: number) {
+    this.proposals = this.proposals.filter(p => p.id !== id);
+    this.emit();
+  }
+
+  // The winning vote for the regeneration about to happen; the tally starts over. Ties go to the
+  // earlier choice in VOTE_CHOICES.
+  takeVote(): VoteChoice | null {
+    const counts = this.getVoteCounts();
+    const winner = VOTE_CHOICES.reduce<VoteChoice | null>((best, choice) =>
+      counts[choice] > (best ? counts[best] : 0) ? choice : best, null);
+    if (Object.keys(this.votes).length) {
+      this.votes = {};
+      this.publishSession();
+    }
+    return winner;
+  }
+
+  // --- Guest (the host votes through here too) ---
+
+  propose(dna: MasterDNA) {
+    if (this.isGuest()) this.send({ type: 'propose', dna });
+  }
+
+  vote(choice: VoteChoice) {
+    if (this.isHost() && this.id) {
+      this.votes = { ...this.votes, [this.id]: choice };
+      this.publishSession();
+    } else if (this.isGuest()) {
+      this.send({ type: 'vote', choice });
+    }
+  }
+
+  requestLocks(locks: LayerLocks) {
+    if (this.isGuest()) this.send({ type: 'lock', locks });
+  }
+
+  private publishSession() {
+    this.emit();
+    if (this.isHost()) this.send({ type: 'session', locks: this.locks, votes: this.votes, seed: this.seed });
+  }
+
+  private send(message: RelayRequest) {
+    this.socket?.send(JSON.stringify(message));
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l());
+  }
+
+  private setStatus(status: JamStatus) {
+    this.status = status;
+    this.emit();
+  }
+
+  private reset() {
+    clearInterval(this.pinger);
+    this.socket = null;
+    this.id = null;
+    this.peers = [];
+    this.clock = [];
+    this.votes = {};
+    this.proposals = [];
+    this.locks = EMPTY_LAYER_LOCKS;
+  }
+
+  private fail(reason: string) {
+    if (!this.socket) return;
+    const socket = this.socket;
+    this.reset();
+    socket.onclose = null;
+    socket.onerror = null;
+    socket.close();
+    this.error = reason;
+    this.setStatus('error');
+  }
+
+  private ping() {
+    this.send({ type: 'ping', t0: this.now() });
+  }
+
+  private receive(message: RelayReply) {
+    switch (message.type) {
+      case 'welcome':
+        this.id = message.id;
+        this.peers = message.peers;
+        if (this.role === 'host') this.seed = randomSeed();
+        this.ping();
+        this.pinger = setInterval(() => this.ping(), PING_MS);
+        this.setStatus('connected');
+        if (this.role === 'host') this.publishSession();
+        return;
+      case 'peers': {
+        const joined = message.peers.filter(peer => peer.id !== this.id && !this.peers.some(p => p.id === peer.id));
+        this.peers = message.peers;
+        // A vote leaves with its voter.
+        const present = new Set(this.peers.map(p => p.id));
+        const votes = Object.entries(this.votes).filter(([id]) => present.has(id));
+        if (votes.length !== Object.keys(this.votes).length) {
+          this.votes = Object.fromEntries(votes);
+          this.publishSession();
+        }
+        this.emit();
+        if (this.isHost()) joined.forEach(peer => this.joinListeners.forEach(l => l(peer)));
+        return;
+      }
+      case 'pong': {
+        const now = this.now();
+        const rtt = now - message.t0;
+        this.clock = [...this.clock, { rtt, offset: message.server - (message.t0 + now) / 2 }].slice(-CLOCK_SAMPLES);
+        this.emit();
+        return;
+      }
+      case 'error':
+        this.fail(message.reason);
+        return;
+      case 'dna':
+      case 'transport':
+      case 'session':
+        // The relay stamps `from`, so only the host's own broadcasts get through; another guest's are dropped.
+        if (this.role !== 'guest' || this.peers.find(p => p.id === message.from)?.role !== 'host') return;
+        if (message.type === 'session') {
+          this.locks = message.locks;
+          this.votes = message.votes;
+          this.seed = message.seed;
+          this.emit();
+        }
+        this.broadcastListeners.forEach(l => l(message));
+        return;
+      case 'propose':
+      case 'vote':
+      case 'lock': {
+        const from = this.peers.find(p => p.id === message.from);
+        if (this.role !== 'host' || !from) return;
+        if (message.type === 'propose') {
+          this.proposals = [...this.proposals, { id: this.nextProposal++, from: from.id, name: from.name, dna: message.dna }].slice(-MAX_PROPOSALS);
+          this.emit();
+        } else if (message.type === 'vote') {
+          this.votes = { ...this.votes, [from.id]: message.choice };
+          this.publishSession();
+        }
+        this.requestListeners.forEach(l => l(message, from));
+        return;
+      }
+    }
+  }
+}
+
+// The host's playhead as an anchor: its next step, moved from the audio clock onto the shared one.
+export const anchorFor = (engine: AudioEngine, sharedNow: number): JamAnchor | null => {
+  const ctx = engine.context;
+  if (!ctx || !engine.isRunning) return null;
+  const { time, ...position } = engine.position;
+  return { ...position, time: sharedNow + (time - ctx.currentTime) * 1000 };
+};
+
+export type AlignResult = 'started' | 'in-time' | 'seeked' | 'late';
+
+// Puts a guest's engine on the host's grid: starts it on the anchor, or jumps to it when the
+// engine has drifted. An anchor that is already due is skipped; the next one will do.
+export const alignEngine = (engine: AudioEngine, anchor: JamAnchor, sharedNow: number): AlignResult => {
+  const ctx = engine.context;
+  if (!ctx) return 'late';
+  const at = ctx.currentTime + (anchor.time - sharedNow) / 1000;
+  const due = at - ctx.currentTime < MIN_LEAD;
+  if (engine.getTempo() !== anchor.bpm) engine.setTempo(anchor.bpm);
+  if (!engine.isRunning) {
+    if (due) return 'late';
+    engine.seek(at, anchor);
+    engine.start(at);
+    return 'started';
+  }
+  // Where the host will be when this engine plays its next step, at the anchor's tempo.
+  const own = engine.position;
+  const expected = anchor.beat + ((own.time - at) * anchor.bpm) / 60;
+  if (Math.abs(((own.beat - expected) * 60) / anchor.bpm) <= DRIFT_TOLERANCE) return 'in-time';
+  if (due) return 'late';
+  engine.seek(at, anchor);
+  return 'seeked';
+};
@@ -0,0 +1,341 @@
+
+import { ArrangementSlot, HarmonyMode, MasterDNA, SectionDNA, SectionKey } from '../types';
+import { STEP_COUNT } from '../constants';
+import { Composer, ComposeRequest } from './composer';
+import { NOTE_NAMES, parseScale, degreeToMidi, diatonicChord, bestFitScale, formatScale, sectionNotes, ParsedScale } from './theory';
+import { createRng, randomSeed, pick, chance, Rng } from './random';
+import { gridOf } from './dnaEdit';
+import { Steering, SteeringFeedback } from './steering';
+import { PaletteName } from './palettes';
+import { ARP_MODES } from './harmony';
+
+// --- Offline Algorithmic Composer ---
+// Rule-based / Markov generator that needs no network. Same seed + BPM → same MasterDNA.
+
+type Grid = Pick<SectionDNA, 'steps' | 'timeSignature' | 'subdivision' | 'swing'>;
+
+interface GenreProfile {
+  genre: string;
+  modes: string[];
+  moods: string[];
+  palettes: PaletteName[];
+  colors: string[];
+  // Preferred BPM window; used to bias the genre choice.
+  bpm: [number, number];
+  grids: Grid[];
+  // Max random micro-timing per step (fraction of a step).
+  humanize: number;
+  harmony: HarmonyMode;
+}
+
+const STRAIGHT_8: Grid = { steps: STEP_COUNT, timeSignature: [4, 4], subdivision: 4, swing: 0 };
+const STRAIGHT_16: Grid = { steps: 16, timeSignature: [4, 4], subdivision: 4, swing: 0 };
+const swung = (grid: Grid, swing: number): Grid => ({ ...grid, swing });
+
+const GENRES: GenreProfile[] = [
+  { genre: 'DREAM_ELECTRONICA', modes: ['Minor', 'Dorian', 'Lydian'], moods: ['MYSTICAL', 'FLOATING', 'NOCTURNAL'], palettes: ['ETHEREAL'], colors: ['#a855f7', '#6366f1', '#ec4899'], bpm: [80, 125], grids: [STRAIGHT_8, swung(STRAIGHT_16, 0.1)], humanize: 0, harmony: 'scale' },
+  { genre: 'LOFI_HOP', modes: ['Dorian', 'Minor', 'Major'], moods: ['DUSTY', 'MELANCHOLIC', 'WARM'], palettes: ['LOFI'], colors: ['#f59e0b', '#d97706', '#fb7185'], bpm: [60, 100], grids: [swung(STRAIGHT_16, 0.55), swung(STRAIGHT_8, 0.4)], humanize: 0.08, harmony: 'scale' },
+  { genre: 'DEEP_HOUSE', modes: ['Minor', 'Dorian'], moods: ['HYPNOTIC', 'SMOOTH', 'AFTERHOURS'], palettes: ['ANALOG'], colors: ['#06b6d4', '#0ea5e9', '#14b8a6'], bpm: [115, 130], grids: [swung(STRAIGHT_16, 0.2)], humanize: 0.03, harmony: 'chord' },
+  { genre: 'AFRO_HOUSE', modes: ['Minor', 'Dorian', 'Mixolydian'], moods: ['TRIBAL', 'SUNLIT', 'ROLLING'], palettes: ['ANALOG', 'LOFI'], colors: ['#f97316', '#eab308', '#84cc16'], bpm: [110, 128], grids: [{ steps: 12, timeSignature: [12, 8], subdivision: 2, swing: 0 }, { steps: 12, timeSignature: [4, 4], subdivision: 3, swing: 0 }], humanize: 0.04, harmony: 'scale' },
+  { genre: 'SYNTHWAVE', modes: ['Minor', 'Major', 'Mixolydian'], moods: ['NOSTALGIC', 'NEON', 'DRIVING'], palettes: ['ANALOG'], colors: ['#f43f5e', '#e879f9', '#fb923c'], bpm: [90, 125], grids: [STRAIGHT_8, STRAIGHT_16], humanize: 0, harmony: 'chord' },
+  { genre: 'AMBIENT_WALTZ', modes: ['Lydian', 'Major', 'Dorian'], moods: ['DRIFTING', 'TENDER', 'GLASSY'], palettes: ['ETHEREAL'], colors: ['#93c5fd', '#c4b5fd', '#f0abfc'], bpm: [60, 100], grids: [{ steps: 12, timeSignature: [3, 4], subdivision: 4, swing: 0 }, { steps: 6, timeSignature: [6, 8], subdivision: 2, swing: 0 }], humanize: 0.05, harmony: 'chord' },
+  { genre: 'INDUSTRIAL_TECHNO', modes: ['Phrygian', 'Minor', 'Locrian'], moods: ['DARK', 'MECHANICAL', 'RELENTLESS'], palettes: ['INDUSTRIAL'], colors: ['#ef4444', '#64748b', '#a3e635'], bpm: [125, 150], grids: [STRAIGHT_16, STRAIGHT_8], humanize: 0, harmony: 'free' },
+  { genre: 'LIQUID_DNB', modes: ['Minor', 'Dorian', 'Major'], moods: ['EUPHORIC', 'ROLLING', 'BRIGHT'], palettes: ['ETHEREAL', 'ANALOG'], colors: ['#22c55e', '#38bdf8', '#facc15'], bpm: [150, 180], grids: [swung(STRAIGHT_16, 0.1), { ...STRAIGHT_16, steps: 32 }], humanize: 0.02, harmony: 'chord' }
+];
+
+// --- Song Form ---
+
+type DrumDensity = 'full' | 'light' | 'hats';
+
+interface SectionRole {
+  energy: number;   // offset from the DNA's base energy
+  rotate: number;   // progression rotation, so sections open on different chords
+  drums: DrumDensity;
+}
+
+const ROLES: Record<string, SectionRole> = {
+  intro: { energy: -0.25, rotate: 0, drums: 'light' },
+  verse: { energy: 0, rotate: 0, drums: 'full' },
+  chorus: { energy: 0.25, rotate: 1, drums: 'full' },
+  breakdown: { energy: -0.35, rotate: 2, drums: 'hats' },
+  outro: { energy: -0.2, rotate: 0, drums: 'light' }
+};
+
+// [section, repeats] per slot.
+const FORMS: [SectionKey, number][][] = [
+  [['intro', 1], ['verse', 2], ['chorus', 2], ['breakdown', 1], ['chorus', 2], ['outro', 1]],
+  [['intro', 1], ['verse', 1], ['chorus', 1], ['verse', 1], ['chorus', 2], ['outro', 1]],
+  [['verse', 2], ['chorus', 1], ['breakdown', 1], ['chorus', 2]]
+];
+
+// Names outside ROLES (e.g. the classic A/B) are full sections, each starting one chord later.
+const roleFor = (key: SectionKey, index: number): SectionRole => ROLES[key] ?? { energy: 0, rotate: index, drums: 'full' };
+
+const rotate = <T>(items: T[], by: number) => items.map((_, i) => items[(i + by) % items.length]);
+
+const clamp01 = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 100) / 100;
+
+const MINOR_PROGRESSIONS = [[0, 5, 2, 6], [0, 3, 4, 0], [0, 6, 5, 6], [0, 3, 6, 2]];
+const MAJOR_PROGRESSIONS = [[0, 4, 5, 3], [0, 5, 3, 4], [0, 3, 0, 4], [5, 3, 0, 4]];
+
+// Metric weight per hierarchy level: pattern start, half, quarter… down to single steps.
+const LEVEL_WEIGHT = [1, 0.85, 0.55, 0.35, 0.2, 0.15];
+// How far the live input's loudness (0–1, 0.5 neutral) moves the energy either way.
+const INPUT_ENERGY_BIAS = 0.5;
+
+const primeFactors = (n: number) => {
+  const factors: number[] = [];
+  for (let f = 2; n > 1; f++) while (n % f === 0) { factors.push(f); n /= f; }
+  return factors;
+};
+
+// Metric weight of every step: split the pattern by its prime factors (2s first), so 8 steps
+// give 1/.85/.55/.2 and 12 steps group into threes for triplet feels.
+const metricWeights = (steps: number) => {
+  const chain = [steps];
+  primeFactors(steps).forEach(f => chain.push(chain[chain.length - 1] / f));
+  return Array.from({ length: steps }, (_, i) => {
+    const level = chain.findIndex(d => i % d === 0);
+    return i === 0 ? 1 : LEVEL_WEIGHT[Math.min(level, LEVEL_WEIGHT.length - 1)];
+  });
+};
+
+export const GENRE_NAMES = GENRES.map(g => g.genre);
+export const MOOD_NAMES = [...new Set(GENRES.flatMap(g => g.moods))];
+
+// --- Steering ---
+
+interface DirectionCue {
+  words: RegExp;
+  energy?: number;
+  modes?: string[];
+  genre?: string;
+}
+
+// The handful of words in a free-text direction the offline composer understands.
+const DIRECTION_CUES: DirectionCue[] = [
+  { words: /\b(dark|sinister|gloomy|moody|tense)\b/, modes: ['Phrygian', 'Minor', 'Locrian'] },
+  { words: /\b(bright|happy|uplifting|sunny|hopeful)\b/, modes: ['Major', 'Lydian', 'Mixolydian'] },
+  { words: /\b(calm|chill|soft|sparse|minimal|quiet)\b/, energy: -0.25 },
+  { words: /\b(intense|hard|driving|dense|heavy|energetic|build)\b/, energy: 0.25 },
+  { words: /\blo-?fi\b/, genre: 'LOFI_HOP' },
+  { words: /\b(techno|industrial)\b/, genre: 'INDUSTRIAL_TECHNO' },
+  { words: /\bafro/, genre: 'AFRO_HOUSE' },
+  { words: /\bhouse\b/, genre: 'DEEP_HOUSE' },
+  { words: /\b(synth ?wave|retro|80s)\b/, genre: 'SYNTHWAVE' },
+  { words: /\b(dnb|jungle|drum (and|&|n) bass)\b/, genre: 'LIQUID_DNB' },
+  { words: /\b(waltz|ambient)\b/, genre: 'AMBIENT_WALTZ' },
+  { words: /\bdream/, genre: 'DREAM_ELECTRONICA' }
+];
+
+const readDirection = (text: string) => {
+  const lower = text.toLowerCase();
+  const cues = DIRECTION_CUES.filter(cue => cue.words.test(lower));
+  return {
+    energy: cues.reduce((sum, cue) => sum + (cue.energy ?? 0), 0),
+    modes: cues.find(cue => cue.modes)?.modes ?? null,
+    genre: cues.find(cue => cue.genre)?.genre ?? null
+  };
+};
+
+// A genre as someone would type it ("lofi", "deep house") → one of GENRE_NAMES, or null.
+export const resolveGenre = (text: string): string | null => {
+  const key = text.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return GENRE_NAMES.find(name => name.replace(/_/g, '') === key) ?? readDirection(text).genre;
+};
+
+// An explicit genre wins; otherwise "more like this" keeps the previous genre, plain evolution
+// keeps it half the time, and "less like this" rules it out.
+const pickGenre = (rng: Rng, bpm: number, genre: string | null, previous?: MasterDNA, feedback?: SteeringFeedback) => {
+  const named = genre ? GENRES.find(g => g.genre === genre) : undefined;
+  if (named) return named;
+  const same = previous ? GENRES.find(g => g.genre === previous.genre) : undefined;
+  if (same && (feedback === 'more' || (!feedback && chance(rng, 0.5)))) return same;
+  const pool = feedback === 'less' && same ? GENRES.filter(g => g !== same) : GENRES;
+  const fitting = pool.filter(g => bpm >= g.bpm[0] && bpm <= g.bpm[1]);
+  return pick(rng, fitting.length ? fitting : pool);
+};
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+// Two-state Markov chain: the chance of a hit depends on whether the previous step hit.
+const markovGates = (rng: Rng, weights: number[], pOnAfterOn: number, pOnAfterOff: number, accent = 0) => {
+  const gates: number[] = [];
+  let prev = 0;
+  weights.forEach(w => {
+    const p = (prev ? pOnAfterOn : pOnAfterOff) + accent * (w - 0.5);
+    prev = chance(rng, p) ? 1 : 0;
+    gates.push(prev);
+  });
+  return gates;
+};
+
+const composeDrums = (rng: Rng, weights: number[], energy: number): SectionDNA['drums'] => {
+  const steps = weights.length;
+  const kick = weights.map((w, i) => (i === 0 || chance(rng, w * (0.35 + energy * 0.5)) ? 1 : 0));
+  // Backbeat on the third hierarchy level (steps 2 and 6 of an 8-step pattern).
+  const snare = weights.map(w => ((w === LEVEL_WEIGHT[2] && chance(rng, 0.9)) || chance(rng, 0.06 + energy * 0.1) ? 1 : 0));
+  const hihat = markovGates(rng, weights, 0.55 + energy * 0.35, 0.7, 0.3);
+  const glitch = weights.map((_, i) => (chance(rng, (0.05 + energy * 0.2) * (i >= steps - 2 ? 2 : 1)) ? 1 : 0));
+  // Claps double the backbeat once things get busy; open hats sit on off-beats the closed hat leaves free.
+  const clap = snare.map((hit, i) => (hit && weights[i] === LEVEL_WEIGHT[2] && chance(rng, energy - 0.3) ? 1 : 0));
+  const openhat = weights.map((w, i) => (!hihat[i] && w <= LEVEL_WEIGHT[3] && chance(rng, 0.1 + energy * 0.25) ? 1 : 0));
+  return { kick, snare, hihat, glitch, clap, openhat };
+};
+
+// Intros/outros keep only downbeat kicks; breakdowns keep just the hats.
+const thinDrums = (drums: SectionDNA['drums'], weights: number[], density: DrumDensity): SectionDNA['drums'] => {
+  if (density === 'full') return drums;
+  const silent = weights.map(() => 0);
+  const kick = density === 'light' ? drums.kick.map((hit, i) => (hit && weights[i] >= LEVEL_WEIGHT[1] ? 1 : 0)) : silent;
+  return { kick, snare: [...silent], hihat: drums.hihat, glitch: [...silent], clap: [...silent], openhat: drums.openhat };
+};
+
+const composeBass = (rng: Rng, weights: number[], scale: ParsedScale, degree: number, energy: number) =>
+  weights.map((w, i) => {
+    if (i > 0 && !chance(rng, 0.35 + w * 0.3 + energy * 0.25)) return 0;
+    if (i === 0 || w >= 0.8) return degreeToMidi(scale, degree, 36);
+    return degreeToMidi(scale, degree + pick(rng, [0, 0, 4, 7, 2]), 36);
+  });
+
+// Random walk over scale degrees, kept inside the 60–84 lead register with at least 5 notes
+// (or every step, for patterns shorter than that).
+const composeLead = (rng: Rng, weights: number[], scale: ParsedScale) => {
+  let degree = Math.floor(rng() * 5);
+  const notes: (number | null)[] = [];
+  weights.forEach(w => {
+    degree += pick(rng, [-2, -1, -1, 0, 1, 1, 2, 3]);
+    while (degreeToMidi(scale, degree, 60) < 60) degree += scale.intervals.length;
+    while (degreeToMidi(scale, degree, 60) > 84) degree -= scale.intervals.length;
+    notes.push(chance(rng, 0.3 + w * 0.5) ? degreeToMidi(scale, degree, 60) : null);
+  });
+  const minNotes = Math.min(5, notes.length);
+  for (let i = 0; notes.filter(n => n !== null).length < minNotes; i++) {
+    if (notes[i] === null) notes[i] = degreeToMidi(scale, (i % 3) * 2, 60);
+  }
+  return notes;
+};
+
+const composeSection = (rng: Rng, scale: ParsedScale, progression: number[], energy: number, grid: Grid, humanize: number, density: DrumDensity = 'full'): SectionDNA => {
+  const weights = metricWeights(grid.steps);
+  return {
+    drums: thinDrums(composeDrums(rng, weights, energy), weights, density),
+    bassLine: composeBass(rng, weights, scale, progression[0], energy),
+    leadMelody: composeLead(rng, weights, scale),
+    chordProgression: progression.map(d => diatonicChord(scale, d, 4, 48)),
+    arpPattern: markovGates(rng, weights, 0.5 + energy * 0.3, 0.5, 0.2),
+    probMap: weights.map(w => round2(Math.min(1, 0.65 + w * 0.3 + rng() * 0.1))),
+    ...grid,
+    timeSignature: [...grid.timeSignature] as [number, number],
+    // Accents follow the metric hierarchy; humanized genres drift slightly off the grid.
+    velocity: weights.map(w => round2(Math.min(1, 0.6 + w * 0.4 - rng() * 0.1))),
+    microTiming: weights.map((_, i) => (i === 0 || humanize === 0 ? 0 : round2((rng() * 2 - 1) * humanize))),
+    arpMode: pick(rng, ARP_MODES)
+  };
+};
+
+export class LocalComposer implements Composer {
+  id = 'local' as const;
+  label = 'LOCAL';
+  private calls = 0;
+
+  constructor(private seed = randomSeed()) {}
+
+  getSeed() {
+    return this.seed;
+  }
+
+  setSeed(seed: number) {
+    this.seed = seed >>> 0;
+    this.calls = 0;
+  }
+
+  async compose(request: ComposeRequest): Promise<unknown> {
+    return this.generate(request);
+  }
+
+  // Synchronous core, exposed so callers that don't need the Composer contract can skip the Promise.
+  generate({ bpm, seed, riff, locked, steering, previous, feedback, input }: ComposeRequest): MasterDNA {
+    const callSeed = seed ?? (this.seed + Math.imul(this.calls++, 0x9e3779b9)) >>> 0;
+    const rng = createRng(callSeed);
+    const cues = readDirection(steering?.direction ?? '');
+    const profile = pickGenre(rng, bpm, steering?.genre ?? cues.genre, previous, feedback);
+    const evolving = previous?.genre === profile.genre && feedback !== 'less';
+    // Locked pitched parts, the live input's key or a seed riff fix the key; an evolving genre keeps
+    // its key; otherwise roll one that suits the genre (and the direction's colour words).
+    const rolled = parseScale(`${pick(rng, NOTE_NAMES)} ${pick(rng, cues.modes ?? profile.modes)}`)!;
+    const previousScale = previous ? parseScale(previous.scale) : null;
+    // "Less like this" never lands on the previous root.
+    if (feedback === 'less' && previousScale && rolled.root === previousScale.root) rolled.root = (rolled.root + 5) % 12;
+    const lockedScale = locked?.scale ? parseScale(locked.scale) : null;
+    const scale = lockedScale
+      ?? (input?.scale ? parseScale(input.scale) : null)
+      ?? (riff && sectionNotes(riff).length ? bestFitScale(sectionNotes(riff), profile.modes) : null)
+      ?? (evolving && previousScale ? previousScale : rolled);
+    const scaleName = formatScale(scale);
+    const isMajor = scale.intervals[2] === 4;
+    const progression = pick(rng, isMajor ? MAJOR_PROGRESSIONS : MINOR_PROGRESSIONS);
+    const rolledEnergy = clamp01((bpm - 60) / 120 + (rng() - 0.5) * 0.4);
+    // Evolution drifts from the previous energy rather than re-rolling it.
+    const baseEnergy = steering?.energy ?? (evolving && previous ? clamp01(previous.energy + (rng() - 0.5) * 0.2) : rolledEnergy);
+    const inputEnergy = input?.loudness !== undefined ? (input.loudness - 0.5) * INPUT_ENERGY_BIAS : 0;
+    const energy = clamp01(baseEnergy + cues.energy + inputEnergy);
+    const rolledMood = pick(rng, profile.moods);
+    const mood = steering?.mood ?? rolledMood;
+
+    // With locks the song structure is fixed and only its sections are rewritten; otherwise roll a form.
+    const form = pick(rng, FORMS);
+    const keys = locked ? Object.keys(locked.unlocked) : [...new Set(form.map(([key]) => key))];
+    const sectionEnergy = (key: SectionKey, i: number) =>
+      locked?.arrangement?.find(slot => slot.section === key)?.energy ?? clamp01(energy + roleFor(key, i).energy);
+
+    // A riff or a locked section dictates its grid; every other section shares the genre's pick.
+    const rolledGrid = pick(rng, profile.grids);
+    const riffTarget = keys.find((key, i) => roleFor(key, i).drums === 'full') ?? keys[0];
+    const sections: MasterDNA['sections'] = {};
+    keys.forEach((key, i) => {
+      const role = roleFor(key, i);
+      const lockedSection = locked?.sections[key];
+      const grid = (riff && key === riffTarget ? gridOf(riff) : null) ?? (lockedSection?.steps ? gridOf(lockedSection as SectionDNA) : rolledGrid);
+      sections[key] = composeSection(rng, scale, rotate(progression, role.rotate), sectionEnergy(key, i), grid, profile.humanize, role.drums);
+    });
+
+    if (riff) {
+      // Human material wins wherever it has content; generated parts fill the gaps.
+      const target = sections[riffTarget];
+      (Object.keys(target.drums) as (keyof SectionDNA['drums'])[]).forEach(d => {
+        if (riff.drums[d]?.some(Boolean)) target.drums[d] = [...riff.drums[d]];
+      });
+      if (riff.bassLine.some(Boolean)) target.bassLine = [...riff.bassLine];
+      if (riff.leadMelody.some(n => n !== null)) target.leadMelody = [...riff.leadMelody];
+      if (riff.chordProgression.length) target.chordProgression = riff.chordProgression.map(c => [...c]);
+      if (riff.arpPattern.some(Boolean)) {
+        target.arpPattern = [...riff.arpPattern];
+        if (riff.arpMode) target.arpMode = riff.arpMode;
+      }
+      target.probMap = [...riff.probMap];
+      target.velocity = [...riff.velocity];
+      target.microTiming = [...riff.microTiming];
+    }
+
+    // Slots fill into a louder neighbour; the transport derives sweeps / drop-outs from the energies.
+    const slots = locked?.arrangement ?? form.map(([section, repeats]) => ({ section, repeats, energy: sectionEnergy(section, keys.indexOf(section)), fill: false }));
+    const arrangement: ArrangementSlot[] = slots.map((slot, i) => ({
+      ...slot,
+      fill: locked?.arrangement ? slot.fill : slots[(i + 1) % slots.length].energy > slot.energy
+    }));
+
+    return {
+      sections,
+      arrangement,
+      genre: profile.genre,
+      palette: pick(rng, profile.palettes),
+      energy,
+      color: pick(rng, profile.colors),
+      mood,
+      scale: scaleName,
+      harmony: profile.harmony,
+      aiThought: `${mood} ${profile.genre.replace(/_/g, ' ')} in ${scaleName}. Seed ${callSeed}.`
+    };
+  }
+}
@@ -0,0 +1,119 @@
+
+import { ArrangementSlot, MasterDNA, SectionDNA, SectionKey } from '../types';
+import { DrumLane, DRUM_LANES, LaneLocks, LockField, LockPredicate, LOCK_FIELDS, gridOf } from './dnaEdit';
+import { isObject } from './dnaValidator';
+
+// --- Layer Locks & Partial Regeneration ---
+// Coarse locks (whole layers across every section, or whole sections) layered on top of the
+// sequencer's per-lane locks. Locked material is sent to the composer as context and the
+// composer is only asked for what remains unlocked. While anything is locked the song
+// structure (section names + arrangement) is kept as well.
+
+export type Layer = 'drums' | 'bass' | 'lead' | 'chords' | 'arp' | 'probMap';
+
+export const LAYERS: Layer[] = ['drums', 'bass', 'lead', 'chords', 'arp', 'probMap'];
+
+export const LAYER_FIELDS: Record<Layer, LockField[]> = {
+  drums: DRUM_LANES,
+  bass: ['bass'],
+  lead: ['lead'],
+  chords: ['chords'],
+  arp: ['arp'],
+  probMap: ['prob', 'velocity', 'micro']
+};
+
+export interface LayerLocks {
+  layers: Partial<Record<Layer, boolean>>;
+  sections: Partial<Record<SectionKey, boolean>>;
+}
+
+export const EMPTY_LAYER_LOCKS: LayerLocks = { layers: {}, sections: {} };
+
+// Fields whose pitches tie the DNA to its key; locking any of them freezes `scale`.
+const PITCHED_FIELDS: LockField[] = ['bass', 'lead', 'chords', 'arp'];
+
+export const lockPredicate = (layerLocks: LayerLocks, laneLocks: LaneLocks): LockPredicate => (key, field) =>
+  !!layerLocks.sections[key] ||
+  LAYERS.some(layer => layerLocks.layers[layer] && LAYER_FIELDS[layer].includes(field)) ||
+  !!laneLocks[key]?.[field];
+
+export interface LockedContext {
+  // Key the composer must keep so unlocked parts fit the locked ones.
+  scale?: string;
+  // Locked material, already in SectionDNA shape. A section with locks also carries its grid
+  // (steps, meter, subdivision, swing), which the composer must reuse.
+  sections: Partial<Record<SectionKey, Partial<SectionDNA> & { drums?: Partial<SectionDNA['drums']> }>>;
+  // What the composer should actually write, per section. Its keys are the sections to return.
+  unlocked: Record<SectionKey, LockField[]>;
+  arrangement: ArrangementSlot[];
+}
+
+const fieldValue = (section: SectionDNA, field: LockField) => {
+  switch (field) {
+    case 'bass': return section.bassLine;
+    case 'lead': return section.leadMelody;
+    case 'chords': return section.chordProgression;
+    case 'arp': return section.arpPattern;
+    case 'prob': return section.probMap;
+    case 'velocity': return section.velocity;
+    case 'micro': return section.microTiming;
+    default: return section.drums[field];
+  }
+};
+
+const FIELD_KEYS: Record<Exclude<LockField, DrumLane>, keyof SectionDNA> = {
+  bass: 'bassLine', lead: 'leadMelody', chords: 'chordProgression', arp: 'arpPattern', prob: 'probMap', velocity: 'velocity', micro: 'microTiming'
+};
+
+const isDrumField = (field: LockField): field is keyof SectionDNA['drums'] => LAYER_FIELDS.drums.includes(field);
+
+// Writes `value` for `field` into a loose (possibly partial) section object.
+const assignField = (target: Record<string, unknown>, field: LockField, value: unknown) => {
+  if (isDrumField(field)) target.drums = { ...(isObject(target.drums) ? target.drums : {}), [field]: value };
+  else target[FIELD_KEYS[field]] = value;
+};
+
+// Undefined when nothing is locked: the composer then runs its normal full generation.
+export const buildLockedContext = (dna: MasterDNA, isLocked: LockPredicate): LockedContext | undefined => {
+  const context: LockedContext = { sections: {}, unlocked: {}, arrangement: dna.arrangement.map(slot => ({ ...slot })) };
+  let anyLocked = false;
+  let pitchedLocked = false;
+  Object.keys(dna.sections).forEach(key => {
+    const locked: Record<string, unknown> = {};
+    context.unlocked[key] = [];
+    LOCK_FIELDS.forEach(field => {
+      if (!isLocked(key, field)) { context.unlocked[key].push(field); return; }
+      anyLocked = true;
+      if (PITCHED_FIELDS.includes(field)) pitchedLocked = true;
+      assignField(locked, field, JSON.parse(JSON.stringify(fieldValue(dna.sections[key], field))));
+      if (field === 'arp') locked.arpMode = dna.sections[key].arpMode;
+    });
+    if (Object.keys(locked).length) context.sections[key] = { ...locked, ...gridOf(dna.sections[key]) };
+  });
+  if (!anyLocked) return undefined;
+  if (pitchedLocked) context.scale = dna.scale;
+  return context;
+};
+
+/**
+ * Fills the locked parts of `current` into an untrusted partial reply so validation sees a
+ * complete DNA instead of reporting (and back-filling) the fields we never asked for.
+ */
+export const overlayLocked = (raw: unknown, current: MasterDNA, isLocked: LockPredicate, context?: LockedContext): unknown => {
+  if (!context) return raw;
+  const src = isObject(raw) ? raw : {};
+  const replied = isObject(src.sections) ? src.sections : {};
+  const sections: Record<string, unknown> = {};
+  Object.keys(current.sections).forEach(key => {
+    const section = { ...(isObject(replied[key]) ? replied[key] : {}) };
+    if (section.drums) section.drums = { ...(isObject(section.drums) ? section.drums : {}) };
+    LOCK_FIELDS.forEach(field => {
+      if (!isLocked(key, field)) return;
+      assignField(section, field, fieldValue(current.sections[key], field));
+      if (field === 'arp') section.arpMode = current.sections[key].arpMode;
+    });
+    if (context.sections[key]) Object.assign(section, gridOf(current.sections[key]));
+    sections[key] = section;
+  });
+  return { ...src, ...(context.scale ? { scale: context.scale } : {}), sections, arrangement: context.arrangement };
+};
@@ -0,0 +1,352 @@
+
+import { MasterDNA, SectionDNA } from '../types';
+import { STEP_COUNT } from '../constants';
+import { TimelineWalker, stepOffsetBeats, stepDrums, stepsPerBar } from './timeline';
+import { arpNote, harmonize, harmonyAt } from './harmony';
+import { createRng } from './random';
+import { NoteEvent as PlayedNote, NoteLayer } from './audioEngine';
+
+// --- Standard MIDI File I/O ---
+// Export walks the same TimelineWalker AudioEngine plays from, so the arrangement (with fills and
+// drop-outs), meters, swing and micro-timing land where they are heard; slots become markers. Import quantizes a riff back onto a sixteenth grid.
+
+export const PPQ = 480;
+// Random arps are seeded so the same DNA always exports the same file.
+const ARP_SEED = 1;
+// Riff lengths import can produce; the shortest one that holds the riff wins.
+const IMPORT_STEPS = [STEP_COUNT, 16, 32];
+
+export const GM_DRUMS = { kick: 36, snare: 38, hihat: 42, openhat: 46, clap: 39, glitch: 37 } as const;
+export const DRUM_CHANNEL = 9;
+
+export const MIDI_CHANNELS = { bass: 0, lead: 1, pad: 2, arp: 3 } as const;
+
+interface NoteEvent {
+  tick: number;
+  duration: number;
+  note: number;
+  velocity: number;
+  channel: number;
+}
+
+// --- Writer ---
+
+const vlq = (value: number) => {
+  const bytes = [value & 0x7f];
+  while ((value >>= 7) > 0) bytes.unshift((value & 0x7f) | 0x80);
+  return bytes;
+};
+
+// One byte per character: anything outside ASCII (accents, emoji) is written as '?'.
+const ascii = (text: string) => Array.from(text, c => {
+  const code = c.codePointAt(0)!;
+  return code < 0x80 ? code : 0x3f;
+});
+
+const u32 = (v: number) => [(v >>> 24) & 0xff, (v >>> 16) & 0xff, (v >>> 8) & 0xff, v & 0xff];
+
+const chunk = (type: string, data: number[]) => [...ascii(type), ...u32(data.length), ...data];
+
+const metaText = (type: number, text: string) => {
+  const bytes = ascii(text);
+  return [0xff, type, ...vlq(bytes.length), ...bytes];
+};
+
+const buildConductor = (name: string, metas: { tick: number; bytes: number[] }[]) => {
+  const data: number[] = [0, ...metaText(0x03, name)];
+  let last = 0;
+  [...metas].sort((a, b) => a.tick - b.tick).forEach(m => {
+    data.push(...vlq(m.tick - last), ...m.bytes);
+    last = m.tick;
+  });
+  data.push(0, 0xff, 0x2f, 0x00);
+  return chunk('MTrk', data);
+};
+
+const buildTrack = (name: string, notes: NoteEvent[]) => {
+  const events: { tick: number; order: number; bytes: number[] }[] = [];
+  notes.forEach(n => {
+    events.push({ tick: n.tick, order: 1, bytes: [0x90 | n.channel, n.note, n.velocity] });
+    events.push({ tick: n.tick + n.duration, order: 0, bytes: [0x80 | n.channel, n.note, 0] });
+  });
+  // Note-offs before note-ons on the same tick so repeated notes retrigger cleanly.
+  events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+  const data: number[] = [0, ...metaText(0x03, name)];
+  let last = 0;
+  events.forEach(e => {
+    data.push(...vlq(e.tick - last), ...e.bytes);
+    last = e.tick;
+  });
+  data.push(0, 0xff, 0x2f, 0x00);
+  return chunk('MTrk', data);
+};
+
+// Velocity carries probMap × step velocity so an exported file re-imports with the same odds.
+const velocityFor = (section: SectionDNA, idx: number) =>
+  Math.max(1, Math.min(127, Math.round(127 * (section.probMap?.[idx] ?? 0.9) * (section.velocity?.[idx] ?? 1))));
+
+const timeSignatureEvent = ([num, den]: [number, number]) => [0xff, 0x58, 0x04, num, Math.log2(den), 24, 8];
+
+export interface MidiExportOptions {
+  bars?: number;
+}
+
+export const dnaToMidi = (dna: MasterDNA, bpm: number, { bars = 4 }: MidiExportOptions = {}): Uint8Array => {
+  const drums: NoteEvent[] = [], bass: NoteEvent[] = [], lead: NoteEvent[] = [], pad: NoteEvent[] = [], arp: NoteEvent[] = [];
+  const metas: { tick: number; bytes: number[] }[] = [];
+  let meter = '';
+  const walker = new TimelineWalker();
+  let beats = 0;
+  let seenBars = 0;
+  const arpRandom = createRng(ARP_SEED);
+
+  for (;;) {
+    const step = walker.next(dna);
+    if (step.barStart && ++seenBars > bars) break;
+    const section = dna.sections[step.section];
+    const { idx } = step;
+    const gridTick = Math.round(beats * PPQ);
+    const tick = Math.max(0, Math.round((beats + stepOffsetBeats(section, idx)) * PPQ));
+    const stepTicks = Math.round(step.beats * PPQ);
+    beats += step.beats;
+
+    if (step.sectionStart && section.timeSignature.join('/') !== meter) {
+      meter = section.timeSignature.join('/');
+      metas.push({ tick: gridTick, bytes: timeSignatureEvent(section.timeSignature) });
+    }
+    if (step.sectionStart && step.pass === 0) metas.push({ tick: gridTick, bytes: metaText(0x06, step.section) });
+
+    const levels = stepDrums(section, step);
+    (Object.keys(GM_DRUMS) as (keyof typeof GM_DRUMS)[]).forEach(d => {
+      if (levels[d]) drums.push({ tick, duration: Math.round(stepTicks / 2), note: GM_DRUMS[d], velocity: Math.max(1, Math.round(velocityFor(section, idx) * levels[d])), channel: DRUM_CHANNEL });
+    });
+    const harmony = harmonyAt(dna, section, step);
+    const bassNote = section.bassLine?.[idx];
+    if (bassNote) bass.push({ tick, duration: Math.round(stepTicks * 0.8), note: harmonize(bassNote, 'bass', harmony), velocity: velocityFor(section, idx), channel: MIDI_CHANNELS.bass });
+    const leadNote = section.leadMelody?.[idx];
+    if (leadNote !== null && leadNote !== undefined) lead.push({ tick, duration: Math.round(stepTicks * 1.5), note: harmonize(leadNote, 'lead', harmony), velocity: velocityFor(section, idx), channel: MIDI_CHANNELS.lead });
+    if (section.arpPattern?.[idx]) {
+      arp.push({ tick, duration: Math.round(stepTicks / 2), note: arpNote(section, step, harmony.chord, arpRandom), velocity: velocityFor(section, idx), channel: MIDI_CHANNELS.arp });
+    }
+    if (step.barStart) {
+      const padTicks = Math.round(stepTicks * stepsPerBar(section));
+      harmony.chord.forEach(n => pad.push({ tick: gridTick, duration: padTicks, note: n, velocity: 64, channel: MIDI_CHANNELS.pad }));
+    }
+  }
+
+  const tempo = Math.round(60000000 / bpm);
+  // Meter changes and slot markers after tick 0 ride on the conductor track.
+  const conductor = buildConductor(`${dna.genre} // ${dna.scale}`, [
+    { tick: 0, bytes: [0xff, 0x51, 0x03, (tempo >> 16) & 0xff, (tempo >> 8) & 0xff, tempo & 0xff] },
+    ...metas
+  ]);
+  const tracks = [
+    conductor,
+    buildTrack('Drums', drums),
+    buildTrack('Bass', bass),
+    buildTrack('Lead', lead),
+    buildTrack('Chord Pad', pad),
+    buildTrack('Arp', arp)
+  ];
+  const header = chunk('MThd', [0, 1, 0, tracks.length, (PPQ >> 8) & 0xff, PPQ & 0xff]);
+  return new Uint8Array([...header, ...tracks.flat()]);
+};
+
+const LAYER_TRACKS: [NoteLayer, string, number][] = [
+  ['drums', 'Drums', DRUM_CHANNEL],
+  ['bass', 'Bass', MIDI_CHANNELS.bass],
+  ['lead', 'Lead', MIDI_CHANNELS.lead],
+  ['pad', 'Chord Pad', MIDI_CHANNELS.pad],
+  ['arp', 'Arp', MIDI_CHANNELS.arp]
+];
+
+/**
+ * Writes notes as the engine played them (audio-clock seconds from 0, e.g. a replayed session) at
+ * one fixed tempo: ticks are seconds at `bpm`, so tempo changes in the performance keep their timing.
+ */
+export const notesToMidi = (name: string, played: PlayedNote[], bpm: number): Uint8Array => {
+  const ticks = (seconds: number) => Math.max(0, Math.round(seconds * bpm / 60 * PPQ));
+  const tempo = Math.round(60000000 / bpm);
+  const tracks = [
+    buildConductor(name, [{ tick: 0, bytes: [0xff, 0x51, 0x03, (tempo >> 16) & 0xff, (tempo >> 8) & 0xff, tempo & 0xff] }]),
+    ...LAYER_TRACKS.map(([layer, label, channel]) => buildTrack(label, played.filter(n => n.layer === layer).map(n => ({
+      tick: ticks(n.time),
+      duration: Math.max(1, ticks(n.duration)),
+      note: Math.max(0, Math.min(127, Math.round(n.note))),
+      velocity: Math.max(1, Math.min(127, Math.round(n.velocity * 127))),
+      channel
+    }))))
+  ];
+  const header = chunk('MThd', [0, 1, 0, tracks.length, (PPQ >> 8) & 0xff, PPQ & 0xff]);
+  return new Uint8Array([...header, ...tracks.flat()]);
+};
+
+// --- Reader ---
+
+export interface ParsedMidi {
+  division: number;
+  bpm: number | null;
+  notes: NoteEvent[];
+}
+
+export class MidiParseError extends Error {}
+
+export const parseMidi = (bytes: Uint8Array): ParsedMidi => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readType = (at: number) => String.fromCharCode(...bytes.subarray(at, at + 4));
+  if (bytes.length < 14 || readType(0) !== 'MThd') throw new MidiParseError('Not a Standard MIDI File');
+  const headerLen = view.getUint32(4);
+  const trackCount = view.getUint16(10);
+  const division = view.getUint16(12);
+  if (division === 0) throw new MidiParseError('Time division of 0 ticks per quarter note');
+  if (division & 0x8000) throw new MidiParseError('SMPTE time division is not supported');
+
+  let bpm: number | null = null;
+  const notes: NoteEvent[] = [];
+  let pos = 8 + headerLen;
+
+  for (let t = 0; t < trackCount && pos + 8 <= bytes.length; t++) {
+    const len = view.getUint32(pos + 4);
+    if (readType(pos) !== 'MTrk') { pos += 8 + len; continue; }
+    let p = pos + 8;
+    const end = Math.min(bytes.length, p + len);
+    let tick = 0;
+    let running = 0;
+    const open = new Map<string, { tick: number; velocity: number }>();
+
+    const readVlq = () => {
+      let value = 0, b: number;
+      do { b = bytes[p++]; value = (value << 7) | (b & 0x7f); } while (b & 0x80 && p < end);
+      return value;
+    };
+
+    while (p < end) {
+      tick += readVlq();
+      let status = bytes[p];
+      if (status & 0x80) p++; else status = running;
+      if (status === 0xff) {
+        const type = bytes[p++];
+        const l = readVlq();
+        if (type === 0x51 && l === 3 && bpm === null) bpm = Math.round(60000000 / ((bytes[p] << 16) | (bytes[p + 1] << 8) | bytes[p + 2]));
+        p += l;
+        continue;
+      }
+      if (status === 0xf0 || status === 0xf7) { p += readVlq(); continue; }
+      running = status;
+      const kind = status & 0xf0, channel = status & 0x0f;
+      const d1 = bytes[p++];
+      const d2 = kind === 0xc0 || kind === 0xd0 ? 0 : bytes[p++];
+      const key = `${channel}:${d1}`;
+      if (kind === 0x90 && d2 > 0) {
+        open.set(key, { tick, velocity: d2 });
+      } else if (kind === 0x80 || kind === 0x90) {
+        const start = open.get(key);
+        if (start) {
+          notes.push({ tick: start.tick, duration: tick - start.tick, note: d1, velocity: start.velocity, channel });
+          open.delete(key);
+        }
+      }
+    }
+    pos += 8 + len;
+  }
+  notes.sort((a, b) => a.tick - b.tick || a.note - b.note);
+  return { division, bpm, notes };
+};
+
+const DRUM_LANES: Record<number, keyof SectionDNA['drums']> = {
+  35: 'kick', 36: 'kick',
+  37: 'glitch', 38: 'snare', 40: 'snare',
+  39: 'clap',
+  42: 'hihat', 44: 'hihat', 46: 'openhat'
+};
+
+// Lowest pitch that counts as lead rather than bass when a channel has no known role.
+const LEAD_SPLIT = 55;
+
+type MelodicRole = 'bass' | 'lead' | 'pad' | 'arp';
+
+const CHANNEL_ROLES = Object.fromEntries(Object.entries(MIDI_CHANNELS).map(([role, ch]) => [ch, role])) as Record<number, MelodicRole>;
+
+/**
+ * Quantizes a parsed riff onto a 4/4 sixteenth-note SectionDNA grid. Channel 10 becomes drums.
+ * Multi-channel files use dnaToMidi's channel layout; a single-channel riff is split by pitch:
+ * stacked notes (3+) become chords, the rest bass/lead around LEAD_SPLIT. Without an explicit
+ * `steps` the grid grows to the shortest of IMPORT_STEPS that holds the riff; steps past it
+ * fold back onto the grid only where the slot is still empty.
+ */
+export const midiToSection = ({ division, notes }: ParsedMidi, stepsOverride?: number): SectionDNA => {
+  const ticksPerStep = division / 4;
+  const firstTick = notes.length ? notes[0].tick : 0;
+  const span = notes.length ? Math.round((notes[notes.length - 1].tick - firstTick) / ticksPerStep) + 1 : 0;
+  const steps = stepsOverride ?? IMPORT_STEPS.find(s => s >= span) ?? IMPORT_STEPS[IMPORT_STEPS.length - 1];
+  const section: SectionDNA = {
+    drums: { kick: Array(steps).fill(0), snare: Array(steps).fill(0), hihat: Array(steps).fill(0), glitch: Array(steps).fill(0), clap: Array(steps).fill(0), openhat: Array(steps).fill(0) },
+    bassLine: Array(steps).fill(0),
+    leadMelody: Array(steps).fill(null),
+    chordProgression: [],
+    arpPattern: Array(steps).fill(0),
+    arpMode: 'up',
+    probMap: Array(steps).fill(0.9),
+    steps,
+    timeSignature: [4, 4],
+    subdivision: 4,
+    swing: 0,
+    velocity: Array(steps).fill(1),
+    microTiming: Array(steps).fill(0)
+  };
+  if (notes.length === 0) return section;
+  const origin = Math.floor(firstTick / (ticksPerStep * steps)) * ticksPerStep * steps;
+  const byStep = new Map<number, NoteEvent[]>();
+  notes.forEach(n => {
+    const step = Math.round((n.tick - origin) / ticksPerStep);
+    byStep.set(step, [...(byStep.get(step) ?? []), n]);
+  });
+
+  const melodicChannels = new Set(notes.filter(n => n.channel !== DRUM_CHANNEL).map(n => n.channel));
+  const useChannelRoles = melodicChannels.size > 1;
+  const filled = new Set<string>();
+  const claim = (lane: string, idx: number, first: boolean) => {
+    const key = `${lane}:${idx}`;
+    if (!first && filled.has(key)) return false;
+    filled.add(key);
+    return true;
+  };
+
+  [...byStep.keys()].sort((a, b) => a - b).forEach(step => {
+    const idx = ((step % steps) + steps) % steps;
+    const first = step < steps;
+    const hits = byStep.get(step)!;
+    const drums = hits.filter(n => n.channel === DRUM_CHANNEL);
+    const melodic = hits.filter(n => n.channel !== DRUM_CHANNEL).sort((a, b) => a.note - b.note);
+
+    drums.forEach(n => {
+      const lane = DRUM_LANES[n.note] ?? 'glitch';
+      if (claim(lane, idx, first)) section.drums[lane][idx] = 1;
+    });
+
+    const groups = new Map<MelodicRole | 'auto', NoteEvent[]>();
+    melodic.forEach(n => {
+      const role = useChannelRoles ? CHANNEL_ROLES[n.channel] ?? 'auto' : 'auto';
+      groups.set(role, [...(groups.get(role) ?? []), n]);
+    });
+    groups.forEach((group, role) => {
+      if (role === 'pad' || (role === 'auto' && group.length >= 3)) {
+        const chord = [...new Set(group.map(n => n.note))].slice(0, 4);
+        if (chord.length < 3) return;
+        if (!section.chordProgression.some(c => c.join() === chord.join())) section.chordProgression.push(chord);
+      } else if (role === 'arp') {
+        if (claim('arp', idx, first)) section.arpPattern[idx] = 1;
+      } else {
+        const low = role === 'lead' ? undefined : group.find(n => n.note < LEAD_SPLIT || role === 'bass');
+        const high = role === 'bass' ? undefined : [...group].reverse().find(n => n.note >= LEAD_SPLIT || role === 'lead');
+        if (low && claim('bass', idx, first)) section.bassLine[idx] = low.note;
+        if (high && claim('lead', idx, first)) section.leadMelody[idx] = high.note;
+      }
+    });
+
+    const loudest = Math.max(...hits.map(n => n.velocity));
+    if (first) section.probMap[idx] = Math.round(Math.max(0.3, loudest / 127) * 100) / 100;
+  });
+  return section;
+};
@@ -0,0 +1,58 @@
+import { Channel, ChannelStrip, MixSettings } from '../types';
+
+// --- Mixer ---
+// Channel strips for every voice plus the shared delay / reverb settings. The engine reads the
+// DNA's mix per step; the UI edits it like any other part of the DNA.
+
+export const CHANNELS: Channel[] = ['kick', 'snare', 'hat', 'openhat', 'clap', 'glitch', 'bass', 'lead', 'pad', 'arp'];
+
+export const MAX_VOLUME = 1.5;
+export const MAX_FEEDBACK = 0.9;
+export const REVERB_SIZES = [0.8, 1.5, 2.5, 4, 6];
+// Tempo-synced delay times in quarter notes.
+export const DELAY_DIVISIONS: { label: string; beats: number }[] = [
+  { label: '1/16', beats: 0.25 },
+  { label: '1/8', beats: 0.5 },
+  { label: '1/8D', beats: 0.75 },
+  { label: '1/4', beats: 1 },
+  { label: '1/4D', beats: 1.5 },
+  { label: '1/2', beats: 2 }
+];
+
+const strip = (patch: Partial<ChannelStrip> = {}): ChannelStrip => ({
+  volume: 1, pan: 0, mute: false, solo: false, delay: 1, reverb: 1, ...patch
+});
+
+// Close to the pre-mixer sound: unity gain and full sends (the palette sets the bus level), with a
+// little stereo spread on the percussion.
+export const DEFAULT_MIX: MixSettings = {
+  channels: {
+    kick: strip({ delay: 0, reverb: 0.3 }),
+    snare: strip(),
+    hat: strip({ pan: 0.2 }),
+    openhat: strip({ pan: 0.25 }),
+    clap: strip({ pan: 0.1 }),
+    glitch: strip({ pan: -0.3 }),
+    bass: strip({ delay: 0.2, reverb: 0.3 }),
+    lead: strip(),
+    pad: strip(),
+    arp: strip({ pan: -0.2 })
+  },
+  delayBeats: 0.75,
+  feedback: 0.4,
+  reverbSize: 2.5
+};
+
+export const mixOf = (mix?: MixSettings) => mix ?? DEFAULT_MIX;
+
+// Solo wins over mute: with any channel soloed, only soloed channels play.
+export const isAudible = (mix: MixSettings, channel: Channel) => {
+  const anySolo = CHANNELS.some(c => mix.channels[c].solo);
+  const { mute, solo } = mix.channels[channel];
+  return anySolo ? solo : !mute;
+};
+
+export const editChannel = (mix: MixSettings, channel: Channel, patch: Partial<ChannelStrip>): MixSettings => ({
+  ...mix,
+  channels: { ...mix.channels, [channel]: { ...mix.channels[channel], ...patch } }
+});
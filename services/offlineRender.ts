@@ -0,0 +1,47 @@
+
+import { MasterDNA } from '../types';
+import { AudioEngine } from './audioEngine';
+import { SampleSource } from './drumKits';
+import { createRng } from './random';
+import { encodeWav, WavBitDepth } from './wavEncoder';
+import { arrangementBeats } from './timeline';
+
+// --- Offline Render ---
+// Plays a MasterDNA through the same AudioEngine graph (voices + delay/reverb) into an
+// OfflineAudioContext. A fixed seed makes probMap rolls, arp picks and noise reproducible.
+
+export interface RenderOptions {
+  dna: MasterDNA;
+  bpm: number;
+  bars?: number;
+  seed?: number;
+  sampleRate?: number;
+  // Seconds appended after the last bar so delay/reverb tails ring out.
+  tail?: number;
+  // Decoded drum kits; AudioBuffers play in any context, so the live kit cache can be reused.
+  samples?: SampleSource;
+  createContext?: (channels: number, length: number, sampleRate: number) => OfflineAudioContext;
+}
+
+export const DEFAULT_RENDER_BARS = 8;
+
+// Bars follow each section's meter, walked exactly as AudioEngine's step clock plays them.
+export const barsToSeconds = (dna: MasterDNA, bars: number, bpm: number) => arrangementBeats(dna, bars) * 60 / bpm;
+
+export const renderDNA = async ({
+  dna, bpm, bars = DEFAULT_RENDER_BARS, seed = 1, sampleRate = 44100, tail = 2.5, samples,
+  createContext = (channels, length, rate) => new OfflineAudioContext(channels, length, rate)
+}: RenderOptions): Promise<AudioBuffer> => {
+  const duration = barsToSeconds(dna, bars, bpm);
+  const ctx = createContext(2, Math.ceil((duration + tail) * sampleRate), sampleRate);
+  const engine = new AudioEngine({ context: ctx, bpm, dna, random: createRng(seed), samples });
+  await engine.init();
+  engine.cue(0, 0);
+  engine.scheduleUntil(duration - 1e-6);
+  return ctx.startRendering();
+};
+
+export const renderDNAToWav = async (options: RenderOptions & { bitDepth?: WavBitDepth }) => {
+  const buffer = await renderDNA(options);
+  return new Blob([encodeWav(buffer, options.bitDepth)], { type: 'audio/wav' });
+};
@@ -0,0 +1,146 @@
+// --- Sound Palettes ---
+// Named sound-design presets the engine voices read per note. `MasterDNA.palette` picks one;
+// energy then pushes it brighter, dirtier and busier (or darker, cleaner and sparser).
+
+export type PaletteName = 'ETHEREAL' | 'ANALOG' | 'LOFI' | 'INDUSTRIAL';
+export type Voice = 'bass' | 'lead' | 'pad' | 'arp';
+export type PercType = 'kick' | 'snare' | 'hat' | 'openhat' | 'clap' | 'glitch';
+
+export const PERC_TYPES: PercType[] = ['kick', 'snare', 'hat', 'openhat', 'clap', 'glitch'];
+
+export interface VoiceSpec {
+  wave: OscillatorType;
+  unison: number;       // oscillators per note
+  detune: number;       // total spread of the unison in cents
+  attack: number;       // seconds
+  decay: number;        // seconds from peak to sustain
+  sustain: number;      // 0–1 of peak
+  release: number;      // seconds after the gate closes
+  cutoff: number;       // lowpass Hz at energy 0.5
+  filterEnv: number;    // the filter opens to cutoff × filterEnv on the attack and closes with the decay
+  resonance: number;
+}
+
+export interface DrumSpec {
+  kick: { pitch: number; drop: number; decay: number };   // Hz at the hit, Hz at the end of the drop
+  snare: { tone: number; decay: number };                  // bandpass centre of the noise burst
+  hat: { freq: number; decay: number };
+  openhat: { decay: number };                              // rings at the hat's frequency
+  clap: { tone: number; decay: number };                   // three quick noise bursts, then the tail
+  glitch: { freq: number; decay: number; wave: OscillatorType };
+}
+
+export interface Palette {
+  name: PaletteName;
+  voices: Record<Voice, VoiceSpec>;
+  drums: DrumSpec;
+  drive: number;                              // 0–1 saturation at energy 0.5
+  sends: { delay: number; reverb: number };   // 0–1 effect sends
+}
+
+const voice = (spec: Partial<VoiceSpec> & Pick<VoiceSpec, 'wave'>): VoiceSpec => ({
+  unison: 1, detune: 0, attack: 0.005, decay: 0.2, sustain: 0, release: 0.05, cutoff: 2200, filterEnv: 1, resonance: 1, ...spec
+});
+
+export const PALETTES: Record<PaletteName, Palette> = {
+  ETHEREAL: {
+    name: 'ETHEREAL',
+    voices: {
+      bass: voice({ wave: 'triangle', decay: 0.3, cutoff: 1200 }),
+      lead: voice({ wave: 'sawtooth', unison: 2, detune: 12, attack: 0.05, decay: 0.4, sustain: 0.5, release: 0.3, cutoff: 1800 }),
+      pad: voice({ wave: 'sine', unison: 2, detune: 8, attack: 1.2, decay: 1, sustain: 0.8, release: 1.5, cutoff: 800 }),
+      arp: voice({ wave: 'sine', decay: 0.15, release: 0.2, cutoff: 4000 })
+    },
+    drums: {
+      kick: { pitch: 120, drop: 45, decay: 0.3 },
+      snare: { tone: 3000, decay: 0.1 },
+      hat: { freq: 8000, decay: 0.05 },
+      openhat: { decay: 0.35 },
+      clap: { tone: 1500, decay: 0.2 },
+      glitch: { freq: 1500, decay: 0.05, wave: 'triangle' }
+    },
+    drive: 0,
+    sends: { delay: 0.8, reverb: 0.5 }
+  },
+  ANALOG: {
+    name: 'ANALOG',
+    voices: {
+      bass: voice({ wave: 'sawtooth', decay: 0.25, sustain: 0.3, cutoff: 600, filterEnv: 4, resonance: 6 }),
+      lead: voice({ wave: 'square', unison: 3, detune: 18, attack: 0.01, decay: 0.3, sustain: 0.6, release: 0.15, cutoff: 1600, filterEnv: 3, resonance: 4 }),
+      pad: voice({ wave: 'sawtooth', unison: 3, detune: 20, attack: 0.6, decay: 0.8, sustain: 0.7, release: 0.8, cutoff: 900, filterEnv: 1.5 }),
+      arp: voice({ wave: 'square', decay: 0.12, cutoff: 2500, filterEnv: 2, resonance: 3 })
+    },
+    drums: {
+      kick: { pitch: 150, drop: 50, decay: 0.35 },
+      snare: { tone: 1800, decay: 0.15 },
+      hat: { freq: 9000, decay: 0.04 },
+      openhat: { decay: 0.25 },
+      clap: { tone: 1200, decay: 0.15 },
+      glitch: { freq: 800, decay: 0.08, wave: 'square' }
+    },
+    drive: 0.25,
+    sends: { delay: 0.4, reverb: 0.25 }
+  },
+  LOFI: {
+    name: 'LOFI',
+    voices: {
+      bass: voice({ wave: 'sine', decay: 0.35, sustain: 0.2, cutoff: 500 }),
+      lead: voice({ wave: 'triangle', unison: 2, detune: 25, attack: 0.02, decay: 0.3, sustain: 0.4, release: 0.2, cutoff: 1200 }),
+      pad: voice({ wave: 'triangle', unison: 2, detune: 30, attack: 0.4, decay: 0.6, sustain: 0.6, release: 0.6, cutoff: 700 }),
+      arp: voice({ wave: 'triangle', decay: 0.2, cutoff: 1500 })
+    },
+    drums: {
+      kick: { pitch: 90, drop: 40, decay: 0.25 },
+      snare: { tone: 1200, decay: 0.18 },
+      hat: { freq: 5000, decay: 0.06 },
+      openhat: { decay: 0.3 },
+      clap: { tone: 1000, decay: 0.18 },
+      glitch: { freq: 600, decay: 0.06, wave: 'sine' }
+    },
+    drive: 0.35,
+    sends: { delay: 0.3, reverb: 0.35 }
+  },
+  INDUSTRIAL: {
+    name: 'INDUSTRIAL',
+    voices: {
+      bass: voice({ wave: 'sawtooth', unison: 2, detune: 10, decay: 0.15, sustain: 0.5, cutoff: 400, filterEnv: 6, resonance: 10 }),
+      lead: voice({ wave: 'square', unison: 2, detune: 6, decay: 0.2, sustain: 0.3, release: 0.05, cutoff: 2000, filterEnv: 2.5, resonance: 8 }),
+      pad: voice({ wave: 'sawtooth', unison: 2, detune: 35, attack: 0.3, decay: 0.5, sustain: 0.5, release: 0.4, cutoff: 600, resonance: 4 }),
+      arp: voice({ wave: 'sawtooth', decay: 0.08, cutoff: 3000, filterEnv: 2, resonance: 6 })
+    },
+    drums: {
+      kick: { pitch: 200, drop: 40, decay: 0.4 },
+      snare: { tone: 2500, decay: 0.12 },
+      hat: { freq: 11000, decay: 0.03 },
+      openhat: { decay: 0.2 },
+      clap: { tone: 1800, decay: 0.12 },
+      glitch: { freq: 3000, decay: 0.03, wave: 'sawtooth' }
+    },
+    drive: 0.6,
+    sends: { delay: 0.2, reverb: 0.15 }
+  }
+};
+
+export const PALETTE_NAMES = Object.keys(PALETTES) as PaletteName[];
+export const DEFAULT_PALETTE: PaletteName = 'ETHEREAL';
+
+export const isPalette = (name: string): name is PaletteName => name in PALETTES;
+
+// Unknown names (older library entries, free-form AI replies) play the default palette.
+export const resolvePalette = (name: string): Palette => {
+  const upper = name.trim().toUpperCase();
+  return PALETTES[isPalette(upper) ? upper : DEFAULT_PALETTE];
+};
+
+export interface EnergyShape {
+  cutoff: number;   // multiplier on every voice's filter
+  drive: number;    // 0–1 saturation amount
+  density: number;  // multiplier on probMap, so low energy thins the hits out
+}
+
+// Energy 0.5 leaves the palette as designed; each end moves cutoff an octave and density ±40%.
+export const shapeForEnergy = (palette: Palette, energy: number): EnergyShape => ({
+  cutoff: Math.pow(2, (energy - 0.5) * 2),
+  drive: Math.min(1, Math.max(0, palette.drive + (energy - 0.5) * 0.6)),
+  density: 0.6 + energy * 0.8
+});
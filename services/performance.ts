@@ -0,0 +1,234 @@
+import { NoteLayer } from './audioEngine';
+import { KeyValueStore } from './dnaLibrary';
+import { isObject } from './dnaValidator';
+import { ParsedScale, degreeToMidi, snapToScale } from './theory';
+
+// --- Performance Input ---
+// Computer keys and MIDI notes/controllers mapped to live actions, with MIDI learn. Anything a
+// binding doesn't claim plays the lead: the home row walks the current scale, MIDI notes are
+// snapped onto it.
+
+export type PerformanceAction =
+  | 'transport' | 'regenerate' | 'jumpA' | 'jumpB'
+  | 'muteDrums' | 'muteBass' | 'muteLead' | 'mutePad' | 'muteArp'
+  | 'bpmDown' | 'bpmUp' | 'tap';
+
+export interface MidiTrigger {
+  type: 'note' | 'cc';
+  channel: number;
+  number: number;
+}
+
+export interface Binding {
+  key: string | null;   // KeyboardEvent.key, lower-cased
+  midi: MidiTrigger | null;
+}
+
+export type Bindings = Record<PerformanceAction, Binding>;
+
+export type PerformanceEvent =
+  | { kind: 'action'; action: PerformanceAction }
+  | { kind: 'degree'; degree: number }
+  | { kind: 'note'; note: number; velocity: number };
+
+export const PERFORMANCE_ACTIONS: { action: PerformanceAction; label: string }[] = [
+  { action: 'transport', label: 'Start_Stop' },
+  { action: 'regenerate', label: 'Regenerate' },
+  { action: 'jumpA', label: 'Jump_A' },
+  { action: 'jumpB', label: 'Jump_B' },
+  { action: 'muteDrums', label: 'Mute_Drums' },
+  { action: 'muteBass', label: 'Mute_Bass' },
+  { action: 'muteLead', label: 'Mute_Lead' },
+  { action: 'mutePad', label: 'Mute_Pad' },
+  { action: 'muteArp', label: 'Mute_Arp' },
+  { action: 'bpmDown', label: 'BPM_-1' },
+  { action: 'bpmUp', label: 'BPM_+1' },
+  { action: 'tap', label: 'Tap_Tempo' }
+];
+
+export const MUTE_ACTIONS: Partial<Record<PerformanceAction, NoteLayer>> = {
+  muteDrums: 'drums', muteBass: 'bass', muteLead: 'lead', mutePad: 'pad', muteArp: 'arp'
+};
+
+// Home row, left to right: scale degrees from the lead's base note upwards.
+export const LEAD_KEYS = ['a', 's', 'd', 'f', 'g', 'h', 'j', 'k', 'l', ';'];
+const LEAD_OCTAVE = 60;   // C4: degree 0 is the scale root above it
+
+const key = (k: string): Binding => ({ key: k, midi: null });
+
+export const DEFAULT_BINDINGS: Bindings = {
+  transport: key(' '),
+  regenerate: key('enter'),
+  jumpA: key('1'),
+  jumpB: key('2'),
+  muteDrums: key('3'),
+  muteBass: key('4'),
+  muteLead: key('5'),
+  mutePad: key('6'),
+  muteArp: key('7'),
+  bpmDown: key('-'),
+  bpmUp: key('='),
+  tap: key('t')
+};
+
+const BINDINGS_KEY = 'neural-strudel.controls.v1';
+
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+// Controllers fire when they cross the middle, so a held button or a swept knob triggers once.
+const CC_THRESHOLD = 64;
+
+export const formatKey = (k: string) => (k === ' ' ? 'SPACE' : k.toUpperCase());
+export const formatTrigger = (t: MidiTrigger) => `${t.type === 'note' ? 'NOTE' : 'CC'}_${t.number} CH${t.channel + 1}`;
+
+const sameTrigger = (a: MidiTrigger | null, b: MidiTrigger) =>
+  !!a && a.type === b.type && a.channel === b.channel && a.number === b.number;
+
+const readTrigger = (raw: unknown): MidiTrigger | null => {
+  if (!isObject(raw)) return null;
+  const { type, channel, number } = raw;
+  return (type === 'note' || type === 'cc') && Number.isInteger(channel) && Number.isInteger(number)
+    ? { type, channel: channel as number, number: number as number }
+    : null;
+};
+
+// Lead notes played by hand land on the playing scale: the home row by degree, MIDI by snapping.
+export const liveNote = (event: Exclude<PerformanceEvent, { kind: 'action' }>, scale: ParsedScale) =>
+  event.kind === 'degree' ? degreeToMidi(scale, event.degree, LEAD_OCTAVE) : snapToScale(event.note, scale);
+
+export class PerformanceControls {
+  private bindings: Bindings;
+  private learning: PerformanceAction | null = null;
+  private ccValues = new Map<string, number>();
+  private listeners = new Set<() => void>();
+
+  constructor(private store: KeyValueStore = window.localStorage) {
+    this.bindings = this.loadBindings();
+  }
+
+  private loadBindings(): Bindings {
+    try {
+      const saved: unknown = JSON.parse(this.store.getItem(BINDINGS_KEY) ?? '{}');
+      const src = isObject(saved) ? saved : {};
+      const bindings = { ...DEFAULT_BINDINGS };
+      PERFORMANCE_ACTIONS.forEach(({ action }) => {
+        const raw = src[action];
+        if (!isObject(raw)) return;
+        bindings[action] = { key: typeof raw.key === 'string' ? raw.key : null, midi: readTrigger(raw.midi) };
+      });
+      return bindings;
+    } catch {
+      return { ...DEFAULT_BINDINGS };
+    }
+  }
+
+  private save() {
+    this.store.setItem(BINDINGS_KEY, JSON.stringify(this.bindings));
+    this.emit();
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l());
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  getBindings() {
+    return this.bindings;
+  }
+
+  getLearning() {
+    return this.learning;
+  }
+
+  // The next key press or MIDI note/controller is bound to `action` (null cancels).
+  learn(action: PerformanceAction | null) {
+    this.learning = action;
+    this.emit();
+  }
+
+  clear(action: PerformanceAction) {
+    this.bindings = { ...this.bindings, [action]: { key: null, midi: null } };
+    this.save();
+  }
+
+  reset() {
+    this.bindings = { ...DEFAULT_BINDINGS };
+    this.learning = null;
+    this.save();
+  }
+
+  // A trigger belongs to one action at a time; learning it elsewhere moves it.
+  private bind(patch: Partial<Binding>) {
+    const action = this.learning!;
+    const bindings = { ...this.bindings };
+    PERFORMANCE_ACTIONS.forEach(({ action: other }) => {
+      const b = bindings[other];
+      if (patch.key && b.key === patch.key) bindings[other] = { ...b, key: null };
+      if (patch.midi && sameTrigger(b.midi, patch.midi)) bindings[other] = { ...bindings[other], midi: null };
+    });
+    bindings[action] = { ...bindings[action], ...patch };
+    this.bindings = bindings;
+    this.learning = null;
+    this.save();
+  }
+
+  handleKey(raw: string): PerformanceEvent | null {
+    const k = raw.toLowerCase();
+    if (this.learning) {
+      if (k === 'escape') this.learn(null);
+      else this.bind({ key: k });
+      return null;
+    }
+    const bound = PERFORMANCE_ACTIONS.find(({ action }) => this.bindings[action].key === k);
+    if (bound) return { kind: 'action', action: bound.action };
+    const degree = LEAD_KEYS.indexOf(k);
+    return degree >= 0 ? { kind: 'degree', degree } : null;
+  }
+
+  handleMidi(data: ArrayLike<number>): PerformanceEvent | null {
+    const type = data[0] & 0xf0;
+    const channel = data[0] & 0x0f;
+    const [, number, value = 0] = Array.from(data);
+    let trigger: MidiTrigger;
+    if (type === NOTE_ON && value > 0) {
+      trigger = { type: 'note', channel, number };
+    } else if (type === CONTROL_CHANGE) {
+      const id = `${channel}:${number}`;
+      const previous = this.ccValues.get(id) ?? 0;
+      this.ccValues.set(id, value);
+      if (value < CC_THRESHOLD || previous >= CC_THRESHOLD) return null;
+      trigger = { type: 'cc', channel, number };
+    } else {
+      return null;
+    }
+    if (this.learning) {
+      this.bind({ midi: trigger });
+      return null;
+    }
+    const bound = PERFORMANCE_ACTIONS.find(({ action }) => sameTrigger(this.bindings[action].midi, trigger));
+    if (bound) return { kind: 'action', action: bound.action };
+    return trigger.type === 'note' ? { kind: 'note', note: number, velocity: value / 127 } : null;
+  }
+}
+
+// Taps further apart than this start a new count.
+const TAP_TIMEOUT_MS = 2000;
+const TAP_WINDOW = 4;
+
+export class TapTempo {
+  private taps: number[] = [];
+
+  // Returns the tapped BPM once there are two taps in a row, averaging the last few intervals.
+  tap(now: number): number | null {
+    const last = this.taps[this.taps.length - 1];
+    if (last !== undefined && now - last > TAP_TIMEOUT_MS) this.taps = [];
+    this.taps = [...this.taps, now].slice(-(TAP_WINDOW + 1));
+    if (this.taps.length < 2) return null;
+    const interval = (this.taps[this.taps.length - 1] - this.taps[0]) / (this.taps.length - 1);
+    return Math.round(60000 / interval);
+  }
+}
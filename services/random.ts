@@ -0,0 +1,21 @@
+
+// --- Seeded Randomness ---
+// mulberry32: tiny, fast and good enough for musical dice rolls. Same seed → same sequence.
+export type Rng = () => number;
+
+export const createRng = (seed: number): Rng => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const randomSeed = () => Math.floor(Math.random() * 0xffffffff);
+
+export const pick = <T>(rng: Rng, items: readonly T[]): T => items[Math.floor(rng() * items.length)];
+
+export const chance = (rng: Rng, p: number) => rng() < p;
@@ -0,0 +1,220 @@
+import { KeyValueStore } from './dnaLibrary';
+import { ComposerError } from './composer';
+import { isObject } from './dnaValidator';
+
+// --- Composer Request Lifecycle ---
+// Every composition goes through one RequestManager: a single call in flight, a timeout per
+// attempt, retries with backoff on transient failures, and a per-minute budget for network
+// composers. Cancelling (new BPM, transport stop, a forced request) rejects the pending call
+// with RequestCancelledError, so its reply can never land on top of newer state.
+
+export interface RequestPolicy {
+  budgetPerMinute: number;   // attempts (retries included) a budgeted composer may start per minute
+  timeoutMs: number;         // per attempt
+  retries: number;
+  backoffMs: number;         // first retry delay; doubles per retry
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = { budgetPerMinute: 6, timeoutMs: 20000, retries: 2, backoffMs: 1500 };
+export const BUDGET_OPTIONS = [2, 4, 6, 10, 20, 60];
+export const TIMEOUT_OPTIONS = [5000, 10000, 20000, 40000];
+
+export type RequestState = 'idle' | 'pending' | 'retrying' | 'throttled';
+
+export interface RequestStatus {
+  state: RequestState;
+  attempt: number;               // 1-based attempt of the current / last request
+  latencyMs: number | null;      // duration of the last finished attempt
+  error: string | null;          // short label of the last failure, cleared on success
+  used: number;                  // budgeted attempts in the last minute
+}
+
+const POLICY_KEY = 'neural-strudel.requests.v1';
+const WINDOW_MS = 60000;
+
+export class RequestCancelledError extends Error {
+  constructor(reason = 'cancelled') {
+    super(`Request ${reason}`);
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Request timed out after ${ms} ms`);
+  }
+}
+
+export class RequestBudgetError extends Error {
+  constructor(readonly retryInMs: number) {
+    super(`Request budget exhausted; next slot in ${Math.ceil(retryInMs / 1000)} s`);
+  }
+}
+
+const statusCode = (e: unknown) => {
+  const status = (e as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : null;
+};
+
+// Worth another attempt: timeouts, rate limits, server errors and network failures (fetch throws
+// a TypeError). Bad requests, auth problems and unparseable replies are not.
+export const isTransient = (e: unknown) => {
+  if (e instanceof RequestTimeoutError) return true;
+  if (e instanceof ComposerError) return e.transient;
+  const status = statusCode(e);
+  if (status !== null) return status === 408 || status === 429 || status >= 500;
+  return e instanceof TypeError;
+};
+
+export const describeError = (e: unknown) => {
+  if (e instanceof RequestTimeoutError) return 'TIMEOUT';
+  if (e instanceof RequestBudgetError) return 'BUDGET';
+  const status = statusCode(e);
+  if (status !== null) return `HTTP_${status}`;
+  return e instanceof TypeError ? 'NETWORK' : 'ERROR';
+};
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+// One line for the status area, e.g. "RETRY_2/3 // 812MS // HTTP_503 // 4/6_PER_MIN".
+export const summarizeRequest = ({ state, attempt, latencyMs, error, used }: RequestStatus, policy: RequestPolicy) => [
+  state === 'retrying' ? `RETRY_${attempt}/${policy.retries + 1}` : state.toUpperCase(),
+  latencyMs !== null ? `${latencyMs}MS` : null,
+  error,
+  `${used}/${policy.budgetPerMinute}_PER_MIN`
+].filter(Boolean).join(' // ');
+
+export const loadRequestPolicy = (store: KeyValueStore): RequestPolicy => {
+  try {
+    const saved: unknown = JSON.parse(store.getItem(POLICY_KEY) ?? '{}');
+    const src = isObject(saved) ? saved : {};
+    const atLeast = (key: keyof RequestPolicy, min: number) => {
+      const value = src[key];
+      return typeof value === 'number' && Number.isInteger(value) && value >= min ? value : DEFAULT_REQUEST_POLICY[key];
+    };
+    return { budgetPerMinute: atLeast('budgetPerMinute', 1), timeoutMs: atLeast('timeoutMs', 1), retries: atLeast('retries', 0), backoffMs: atLeast('backoffMs', 0) };
+  } catch {
+    return DEFAULT_REQUEST_POLICY;
+  }
+};
+
+export class RequestManager {
+  private policy: RequestPolicy;
+  private starts: number[] = [];
+  private controller: AbortController | null = null;
+  private status: RequestStatus = { state: 'idle', attempt: 0, latencyMs: null, error: null, used: 0 };
+  private listeners = new Set<() => void>();
+
+  constructor(private store: KeyValueStore = window.localStorage) {
+    this.policy = loadRequestPolicy(store);
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  get busy() {
+    return this.controller !== null;
+  }
+
+  getPolicy() {
+    return this.policy;
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  setPolicy(patch: Partial<RequestPolicy>) {
+    this.policy = { ...this.policy, ...patch };
+    this.store.setItem(POLICY_KEY, JSON.stringify(this.policy));
+    this.update({});
+  }
+
+  // Rejects the call in flight (if any) with RequestCancelledError; the manager is free at once.
+  cancel(reason?: string) {
+    const controller = this.controller;
+    if (!controller) return;
+    this.controller = null;
+    controller.abort(new RequestCancelledError(reason));
+    this.update({ state: 'idle' });
+  }
+
+  // Runs `task`, superseding any call still in flight. `budgeted: false` is for composers that
+  // cost nothing (the local one): they skip the per-minute budget but are still cancellable.
+  async run<T>(task: (signal: AbortSignal) => Promise<T>, { budgeted = true } = {}): Promise<T> {
+    this.cancel('superseded');
+    const controller = new AbortController();
+    this.controller = controller;
+    try {
+      for (let attempt = 1; ; attempt++) {
+        if (budgeted) this.reserve();
+        this.update({ state: attempt > 1 ? 'retrying' : 'pending', attempt });
+        const started = Date.now();
+        try {
+          const result = await this.attempt(task, controller.signal);
+          this.update({ state: 'idle', latencyMs: Date.now() - started, error: null });
+          return result;
+        } catch (e) {
+          if (controller.signal.aborted) throw controller.signal.reason;
+          this.update({ latencyMs: Date.now() - started, error: describeError(e) });
+          if (!isTransient(e) || attempt > this.policy.retries) throw e;
+          await sleep(this.policy.backoffMs * 2 ** (attempt - 1), controller.signal);
+        }
+      }
+    } catch (e) {
+      if (e instanceof RequestBudgetError) this.update({ state: 'throttled', error: describeError(e) });
+      else if (!(e instanceof RequestCancelledError)) this.update({ state: 'idle' });
+      throw e;
+    } finally {
+      if (this.controller === controller) {
+        this.controller = null;
+        if (this.status.state === 'pending' || this.status.state === 'retrying') this.update({ state: 'idle' });
+      }
+    }
+  }
+
+  // Sliding one-minute window over attempt start times.
+  private reserve() {
+    const now = Date.now();
+    this.starts = this.starts.filter(t => now - t < WINDOW_MS);
+    if (this.starts.length >= this.policy.budgetPerMinute) {
+      throw new RequestBudgetError(this.starts[0] + WINDOW_MS - now);
+    }
+    this.starts.push(now);
+  }
+
+  // One attempt under the timeout. The race means a task that ignores its signal still cannot
+  // hold the manager past a cancel or timeout.
+  private attempt<T>(task: (signal: AbortSignal) => Promise<T>, outer: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    const forward = () => controller.abort(outer.reason);
+    outer.addEventListener('abort', forward, { once: true });
+    const timer = setTimeout(() => controller.abort(new RequestTimeoutError(this.policy.timeoutMs)), this.policy.timeoutMs);
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+    });
+    return Promise.race([task(controller.signal), aborted]).finally(() => {
+      clearTimeout(timer);
+      outer.removeEventListener('abort', forward);
+    });
+  }
+
+  private update(patch: Partial<RequestStatus>) {
+    const now = Date.now();
+    const used = this.starts.filter(t => now - t < WINDOW_MS).length;
+    this.status = { ...this.status, ...patch, used };
+    this.listeners.forEach(l => l());
+  }
+}
@@ -0,0 +1,462 @@
+import { MasterDNA, MixSettings } from '../types';
+import { INITIAL_DNA, MAX_TEMPO, MIN_TEMPO } from '../constants';
+import { AudioEngine, ControlChange, DnaChangeOptions, NoteEvent, NoteLayer, Quantize, TransportPosition } from './audioEngine';
+import { SampleSource } from './drumKits';
+import { notesToMidi } from './midiFile';
+import { Rng, createRng, randomSeed } from './random';
+import { isObject, validateDNA } from './dnaValidator';
+import { NOTE_LAYERS } from './webMidi';
+import { encodeWav, WavBitDepth } from './wavEncoder';
+
+// --- Session Recording ---
+// Logs what the engine is told to play (transport, DNA swaps with their aiThought, tempo, jumps,
+// mutes, live notes) plus the user's actions, each stamped with the audio clock and with the step
+// that was next to be scheduled. The engine rolls its dice from a per-step seeded Rng while
+// recording, so a replay that applies each change before the same step plays the same notes.
+
+export const SESSION_VERSION = 1;
+
+type Transport = Omit<TransportPosition, 'time' | 'bpm'>;
+
+export type SessionChange =
+  | ControlChange
+  // A mixer move: the DNA is the one last logged with this mix.
+  | { type: 'mix'; mix: MixSettings | undefined }
+  | { type: 'seed'; seed: number }
+  | { type: 'action'; name: string; detail?: unknown };
+
+export type SessionEvent = SessionChange & {
+  step: number;   // steps scheduled since the recording began; the change lands before the next one
+  time: number;   // audio-clock seconds since the recording began
+};
+
+// The engine as the recording found it.
+export interface SessionStart {
+  dna: MasterDNA;
+  bpm: number;
+  playing: boolean;
+  position: Transport;
+  next: number;   // when the next step plays, in session seconds
+  muted: NoteLayer[];
+}
+
+export interface Session {
+  version: number;
+  createdAt: string;
+  seed: number;
+  duration: number;
+  start: SessionStart;
+  events: SessionEvent[];
+}
+
+export class SessionParseError extends Error {}
+
+// Dice rolls (probMap hits, arp picks) seeded from a seed and the beat being scheduled, so a replay
+// rolls the same numbers on the same step as its recording, and so does every engine in a jam room.
+export const stepRandom = (seed: number, engine: AudioEngine): Rng => {
+  let beat = NaN;
+  let rng: Rng = Math.random;
+  return () => {
+    if (engine.beat !== beat) {
+      beat = engine.beat;
+      rng = createRng(seed ^ Math.imul(Math.round(beat * 960), 0x9e3779b9));
+    }
+    return rng();
+  };
+};
+
+interface Take {
+  origin: number;
+  firstStep: number;
+  seed: number;
+  createdAt: string;
+  start: SessionStart;
+  events: SessionEvent[];
+  dna: MasterDNA;
+  unsubscribe: () => void;
+}
+
+export class SessionRecorder {
+  private take: Take | null = null;
+  private session: Session | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(private engine: AudioEngine) {}
+
+  get isRecording() {
+    return this.take !== null;
+  }
+
+  // The last finished or loaded session.
+  getSession() {
+    return this.session;
+  }
+
+  // The running take's events so far, else the last session's.
+  getEvents(): SessionEvent[] {
+    return this.take?.events ?? this.session?.events ?? [];
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l());
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Needs an initialized engine: timestamps come from its audio clock.
+  start(seed = randomSeed()) {
+    const ctx = this.engine.context;
+    if (!ctx) throw new Error('SessionRecorder.start() called before the engine was initialized');
+    if (this.take) return;
+    const origin = ctx.currentTime;
+    const playing = this.engine.isRunning;
+    const { slot, pass, sectionStep, beat, time } = this.engine.position;
+    const dna = this.engine.getDNA();
+    this.engine.setRandom(stepRandom(seed, this.engine));
+    this.take = {
+      origin,
+      firstStep: this.engine.currentStep,
+      seed,
+      createdAt: new Date().toISOString(),
+      start: {
+        dna,
+        bpm: this.engine.getTempo(),
+        playing,
+        position: { slot, pass, sectionStep, beat },
+        next: playing ? time - origin : 0,
+        muted: this.engine.getMutedLayers()
+      },
+      events: [],
+      dna,
+      unsubscribe: this.engine.onControl(change => this.log(change))
+    };
+    this.emit();
+  }
+
+  stop() {
+    const take = this.take;
+    if (!take) return this.session;
+    take.unsubscribe();
+    this.take = null;
+    this.session = {
+      version: SESSION_VERSION,
+      createdAt: take.createdAt,
+      seed: take.seed,
+      duration: (this.engine.context?.currentTime ?? take.origin) - take.origin,
+      start: take.start,
+      events: take.events
+    };
+    this.emit();
+    return this.session;
+  }
+
+  load(session: Session) {
+    this.session = session;
+    this.emit();
+  }
+
+  // Something the user did, kept for the record; replays skip it.
+  action(name: string, detail?: unknown) {
+    if (this.take) this.log({ type: 'action', name, ...(detail === undefined ? {} : { detail }) });
+  }
+
+  // A new dice seed mid-take; the replay switches to it on the same step.
+  reseed(seed: number) {
+    if (!this.take) return;
+    this.engine.setRandom(stepRandom(seed, this.engine));
+    this.log({ type: 'seed', seed });
+  }
+
+  private log(change: SessionChange) {
+    const take = this.take!;
+    const stamp = { step: this.engine.currentStep - take.firstStep, time: (this.engine.context?.currentTime ?? take.origin) - take.origin };
+    if (change.type === 'dna') {
+      const mixOnly = change.change === null && sameButMix(change.dna, take.dna);
+      take.dna = change.dna;
+      if (mixOnly) {
+        take.events.push({ type: 'mix', mix: change.dna.mix, ...stamp });
+        return;
+      }
+    }
+    // Audio times in a change are kept relative to the recording too.
+    take.events.push('at' in change ? { ...change, at: change.at - take.origin, ...stamp } : { ...change, ...stamp });
+  }
+}
+
+// Mixer moves re-send the whole DNA with only `mix` replaced; logging them that way keeps files small.
+const sameButMix = (a: MasterDNA, b: MasterDNA) =>
+  a !== b && (Object.keys({ ...a, ...b }) as (keyof MasterDNA)[]).every(key => key === 'mix' || a[key] === b[key]);
+
+// One line of the performance log, as the session panel lists it.
+export const describeEvent = (event: SessionEvent): string => {
+  switch (event.type) {
+    case 'start': return 'PLAY';
+    case 'stop': return 'STOP';
+    case 'seek': return `SEEK // SLOT_${event.position.slot + 1}`;
+    case 'tempo': return `BPM_${event.bpm}${event.rampBars ? ` // RAMP_${event.rampBars}_BARS` : ''}`;
+    case 'dna': return `${event.change ? `NEXT_${event.change.quantize}` : 'EDIT'} // ${event.dna.genre}${event.dna.aiThought ? ` // ${event.dna.aiThought}` : ''}`;
+    case 'mix': return 'MIX';
+    case 'jump': return `JUMP_→_${event.section}`;
+    case 'mute': return `MUTE // ${event.layers.join('_') || 'NONE'}`;
+    case 'live': return `LIVE_NOTE_${event.note}`;
+    case 'seed': return `SEED_${event.seed}`;
+    case 'action': return `${event.name}${event.detail === undefined ? '' : ` // ${JSON.stringify(event.detail)}`}`;
+  }
+};
+
+// --- Replay ---
+// Plays a session through a fresh AudioEngine on a manual clock: each event is applied once the
+// engine reaches the step it was logged before, so tempo ramps, queued swaps and morphs fall on
+// the same beats, and the seeded dice roll the same hits.
+
+const LOOKAHEAD = 0.2;
+const TICK_MS = 40;
+
+export interface ReplayOptions {
+  samples?: SampleSource;
+  // Audio time at which the session's time 0 plays.
+  offset?: number;
+}
+
+export class SessionPlayer {
+  readonly engine: AudioEngine;
+  private offset: number;
+  private next = 0;
+  private dna: MasterDNA;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private session: Session, context: BaseAudioContext, { samples, offset = 0 }: ReplayOptions = {}) {
+    const { dna, bpm } = session.start;
+    this.engine = new AudioEngine({ context, bpm, dna, samples, manual: true });
+    this.offset = offset;
+    this.dna = dna;
+  }
+
+  async init() {
+    const { engine, session: { seed, start } } = this;
+    await engine.init();
+    engine.setRandom(stepRandom(seed, engine));
+    engine.setMutedLayers(start.muted);
+    engine.seek(this.offset + start.next, start.position);
+    if (start.playing) engine.start(this.offset + start.next);
+  }
+
+  get end() {
+    return this.offset + this.session.duration;
+  }
+
+  get finished() {
+    return this.next >= this.session.events.length && (!this.engine.isRunning || this.engine.position.time >= this.end);
+  }
+
+  // Applies the events and schedules the steps that fall before `until` (capped at the session's end).
+  advance(until: number) {
+    const { engine, session: { events } } = this;
+    const limit = Math.min(until, this.end);
+    for (;;) {
+      const event = events[this.next];
+      if (engine.isRunning && (!event || engine.currentStep < event.step)) {
+        const { time } = engine.position;
+        if (time >= limit) return;
+        // Just past the next step's start: exactly one step is scheduled.
+        engine.scheduleUntil(time + 1e-9);
+      } else if (event && this.offset + event.time < limit) {
+        this.apply(event);
+        this.next++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private apply(event: SessionEvent) {
+    const { engine, offset } = this;
+    switch (event.type) {
+      case 'start': engine.start(offset + event.at); break;
+      case 'stop': engine.stop(); break;
+      case 'seek': engine.seek(offset + event.at, event.position); break;
+      case 'tempo': engine.setTempo(event.bpm, event.rampBars); break;
+      case 'dna':
+        this.dna = event.dna;
+        if (event.change) engine.queueDNA(event.dna, event.change); else engine.setDNA(event.dna);
+        break;
+      case 'mix':
+        this.dna = { ...this.dna, mix: event.mix };
+        engine.setDNA(this.dna);
+        break;
+      case 'jump': engine.jumpToSection(event.section); break;
+      case 'mute': engine.setMutedLayers(event.layers); break;
+      case 'live': engine.playLive(event.note, event.velocity, offset + event.at); break;
+      case 'seed': engine.setRandom(stepRandom(event.seed, engine)); break;
+      case 'action': break;
+    }
+  }
+
+  // Realtime playback: advances one lookahead window at a time until the session ends.
+  play(onEnd?: () => void) {
+    const ctx = this.engine.context;
+    if (!ctx || this.timer !== null) return;
+    const tick = () => {
+      this.advance(ctx.currentTime + LOOKAHEAD);
+      if (this.finished) {
+        this.timer = null;
+        onEnd?.();
+        return;
+      }
+      this.timer = setTimeout(tick, TICK_MS);
+    };
+    tick();
+  }
+
+  stop() {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.engine.stop();
+  }
+}
+
+// --- Export ---
+
+export interface SessionRenderOptions {
+  sampleRate?: number;
+  // Seconds appended after the session so delay/reverb tails ring out.
+  tail?: number;
+  samples?: SampleSource;
+  createContext?: (channels: number, length: number, sampleRate: number) => OfflineAudioContext;
+}
+
+const offlineContext = (channels: number, length: number, rate: number) => new OfflineAudioContext(channels, length, rate);
+
+export const renderSession = async (session: Session, {
+  sampleRate = 44100, tail = 2.5, samples, createContext = offlineContext
+}: SessionRenderOptions = {}): Promise<AudioBuffer> => {
+  const ctx = createContext(2, Math.ceil((session.duration + tail) * sampleRate), sampleRate);
+  const player = new SessionPlayer(session, ctx, { samples });
+  await player.init();
+  player.advance(Infinity);
+  return ctx.startRendering();
+};
+
+export const renderSessionToWav = async (session: Session, options: SessionRenderOptions & { bitDepth?: WavBitDepth } = {}) => {
+  const buffer = await renderSession(session, options);
+  return new Blob([encodeWav(buffer, options.bitDepth)], { type: 'audio/wav' });
+};
+
+// Every note the session plays, from a replay that is never rendered.
+export const sessionNotes = async (session: Session, createContext = offlineContext) => {
+  const player = new SessionPlayer(session, createContext(2, 1, 44100));
+  const notes: NoteEvent[] = [];
+  player.engine.onNote(note => notes.push(note));
+  await player.init();
+  player.advance(Infinity);
+  return notes;
+};
+
+export const sessionToMidi = async (session: Session, createContext = offlineContext) =>
+  notesToMidi(`${session.start.dna.genre} // SESSION`, await sessionNotes(session, createContext), session.start.bpm);
+
+// --- Session Files ---
+
+export const serializeSession = (session: Session) => JSON.stringify(session, null, 2);
+
+const QUANTIZE: Quantize[] = ['now', 'bar', 'section'];
+const MAX_RAMP_BARS = 64;
+const MAX_SECONDS = 6 * 60 * 60;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const fail = (what: string): never => { throw new SessionParseError(`Invalid session file: ${what}`); };
+
+const num = (src: Record<string, unknown>, key: string, what: string) => (isNumber(src[key]) ? src[key] as number : fail(`${what}.${key}`));
+
+// A tempo outside the controls' range, a negative ramp or morph, or a time far outside the take
+// would stall or run away the replay's step clock.
+const bpmOf = (src: Record<string, unknown>, what: string) => {
+  const bpm = num(src, 'bpm', what);
+  return bpm >= MIN_TEMPO && bpm <= MAX_TEMPO ? bpm : fail(`${what}.bpm`);
+};
+
+const rampOf = (src: Record<string, unknown>, what: string) => {
+  const bars = num(src, 'rampBars', what);
+  return bars >= 0 && bars <= MAX_RAMP_BARS ? bars : fail(`${what}.rampBars`);
+};
+
+const secondsOf = (src: Record<string, unknown>, key: string, what: string) => {
+  const seconds = num(src, key, what);
+  return seconds >= 0 && seconds <= MAX_SECONDS ? seconds : fail(`${what}.${key}`);
+};
+
+// Without a fallback thought, a DNA that had none does not pick up INITIAL_DNA's.
+const readDna = (raw: unknown) => validateDNA(raw, { ...INITIAL_DNA, aiThought: undefined }, { snapToScale: false }).dna;
+
+const readLayers = (raw: unknown, what: string) =>
+  Array.isArray(raw) && raw.every(layer => NOTE_LAYERS.includes(layer)) ? raw as NoteLayer[] : fail(what);
+
+// Walker counts index the arrangement and its sections: a negative or fractional one has no step to play.
+const indexOf = (src: Record<string, unknown>, key: string, what: string) => {
+  const index = num(src, key, what);
+  return Number.isInteger(index) && index >= 0 ? index : fail(`${what}.${key}`);
+};
+
+const readPosition = (raw: unknown, what: string): Transport => {
+  const src = isObject(raw) ? raw : fail(what);
+  return { slot: indexOf(src, 'slot', what), pass: indexOf(src, 'pass', what), sectionStep: indexOf(src, 'sectionStep', what), beat: num(src, 'beat', what) };
+};
+
+const readChange = (raw: unknown, what: string): Required<DnaChangeOptions> | null => {
+  if (raw === null) return null;
+  const src = isObject(raw) ? raw : fail(what);
+  if (!QUANTIZE.includes(src.quantize as Quantize)) fail(`${what}.quantize`);
+  const morphBars = num(src, 'morphBars', what);
+  return { quantize: src.quantize as Quantize, morphBars: morphBars >= 0 && morphBars <= MAX_RAMP_BARS ? morphBars : fail(`${what}.morphBars`) };
+};
+
+const readEvent = (raw: unknown, index: number): SessionEvent => {
+  const what = `events[${index}]`;
+  const src = isObject(raw) ? raw : fail(what);
+  const stamp = { step: num(src, 'step', what), time: secondsOf(src, 'time', what) };
+  switch (src.type) {
+    case 'start': return { type: 'start', at: secondsOf(src, 'at', what), ...stamp };
+    case 'stop': return { type: 'stop', ...stamp };
+    case 'seek': return { type: 'seek', at: secondsOf(src, 'at', what), position: readPosition(src.position, `${what}.position`), ...stamp };
+    case 'tempo': return { type: 'tempo', bpm: bpmOf(src, what), rampBars: rampOf(src, what), ...stamp };
+    case 'dna': return { type: 'dna', dna: readDna(src.dna), change: readChange(src.change ?? null, `${what}.change`), ...stamp };
+    case 'mix': return { type: 'mix', mix: src.mix === undefined ? undefined : readDna({ ...INITIAL_DNA, mix: src.mix }).mix, ...stamp };
+    case 'jump': return { type: 'jump', section: typeof src.section === 'string' ? src.section : fail(`${what}.section`), ...stamp };
+    case 'mute': return { type: 'mute', layers: readLayers(src.layers, `${what}.layers`), ...stamp };
+    case 'live': return { type: 'live', note: num(src, 'note', what), velocity: num(src, 'velocity', what), at: secondsOf(src, 'at', what), ...stamp };
+    case 'seed': return { type: 'seed', seed: num(src, 'seed', what), ...stamp };
+    case 'action': {
+      const name = typeof src.name === 'string' ? src.name : fail(`${what}.name`);
+      return { type: 'action', name, ...(src.detail === undefined ? {} : { detail: src.detail }), ...stamp };
+    }
+    default: return fail(`${what}.type`);
+  }
+};
+
+// Session files are untrusted: every DNA is validated and a malformed event rejects the whole
+// file, since a replay missing one would drift from the recording.
+export const parseSession = (raw: unknown): Session => {
+  const src = isObject(raw) ? raw : fail('not an object');
+  if (src.version !== SESSION_VERSION) fail(`unsupported version ${String(src.version)}`);
+  const start = isObject(src.start) ? src.start : fail('start');
+  if (!Array.isArray(src.events)) fail('events');
+  return {
+    version: SESSION_VERSION,
+    createdAt: typeof src.createdAt === 'string' ? src.createdAt : '',
+    seed: num(src, 'seed', 'session') >>> 0,
+    duration: secondsOf(src, 'duration', 'session'),
+    start: {
+      dna: readDna(start.dna),
+      bpm: bpmOf(start, 'start'),
+      playing: start.playing === true,
+      position: readPosition(start.position, 'start.position'),
+      next: secondsOf(start, 'next', 'start'),
+      muted: readLayers(start.muted ?? [], 'start.muted')
+    },
+    events: (src.events as unknown[]).map(readEvent)
+  };
+};
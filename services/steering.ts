@@ -0,0 +1,31 @@
+import { MasterDNA } from '../types';
+import { playableArrangement } from './arrangement';
+import { chordName } from './theory';
+
+// --- Steering ---
+// What the user asks of the next generation. Every field is optional: an empty steering
+// leaves the composer to its own devices.
+
+// Reaction to the DNA that is playing: keep evolving it, or move away from it.
+export type SteeringFeedback = 'more' | 'less';
+
+export interface Steering {
+  direction: string;       // free text, e.g. "darker, sparse drums, build tension"
+  genre: string | null;
+  mood: string | null;
+  energy: number | null;   // 0–1 target
+}
+
+export const EMPTY_STEERING: Steering = { direction: '', genre: null, mood: null, energy: null };
+
+export const isSteered = (steering: Steering) =>
+  steering.direction.trim() !== '' || steering.genre !== null || steering.mood !== null || steering.energy !== null;
+
+// One-line digest of a DNA for prompts and logs; keeps requests small while carrying the musical identity.
+export const describeDNA = (dna: MasterDNA) => {
+  const form = playableArrangement(dna).map(slot => `${slot.section}x${slot.repeats}@${slot.energy}`).join(' ');
+  const sections = Object.entries(dna.sections)
+    .map(([key, s]) => `${key}: ${s.steps} steps ${s.timeSignature.join('/')}, chords ${s.chordProgression.map(chordName).join(' | ')}`)
+    .join('; ');
+  return `${dna.genre} / ${dna.mood} / ${dna.palette} in ${dna.scale} (${dna.harmony} harmony), energy ${dna.energy}. Form: ${form}. ${sections}`;
+};
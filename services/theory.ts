@@ -0,0 +1,139 @@
+
+// --- Pitch & Scale Helpers ---
+const NOTE_INDEX: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+export const SCALE_INTERVALS: Record<string, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  ionian: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  aeolian: [0, 2, 3, 5, 7, 8, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+  'harmonic minor': [0, 2, 3, 5, 7, 8, 11],
+  'melodic minor': [0, 2, 3, 5, 7, 9, 11],
+  'major pentatonic': [0, 2, 4, 7, 9],
+  'minor pentatonic': [0, 3, 5, 7, 10],
+  pentatonic: [0, 3, 5, 7, 10],
+  blues: [0, 3, 5, 6, 7, 10],
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+};
+
+export interface ParsedScale {
+  root: number;
+  mode: string;
+  intervals: number[];
+}
+
+// Accepts strings like "C Minor", "F# dorian", "Bb_MAJOR" or "Am". Returns null when unrecognized.
+export const parseScale = (scale: string): ParsedScale | null => {
+  const match = scale.trim().match(/^([A-Ga-g])\s*(#|♯|b|♭)?[\s_-]*(.*)$/);
+  if (!match) return null;
+  let root = NOTE_INDEX[match[1].toUpperCase()];
+  if (match[2] === '#' || match[2] === '♯') root += 1;
+  if (match[2] === 'b' || match[2] === '♭') root -= 1;
+  let mode = match[3].toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+  if (mode === '') mode = 'major';
+  if (mode === 'm' || mode === 'min') mode = 'minor';
+  if (mode === 'maj') mode = 'major';
+  const intervals = SCALE_INTERVALS[mode];
+  if (!intervals) return null;
+  return { root: (root + 12) % 12, mode, intervals };
+};
+
+export const isInScale = (note: number, scale: ParsedScale) =>
+  scale.intervals.includes((((note - scale.root) % 12) + 12) % 12);
+
+// Moves a MIDI note to the nearest pitch of the scale, preferring the lower neighbour on ties.
+export const snapToScale = (note: number, scale: ParsedScale) => {
+  for (let offset = 0; offset < 12; offset++) {
+    if (isInScale(note - offset, scale)) return note - offset;
+    if (isInScale(note + offset, scale)) return note + offset;
+  }
+  return note;
+};
+
+export const midiToFreq = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// Scale degree → MIDI note. `degree` may run past the scale length or below zero; `base` is the C of the reference octave.
+export const degreeToMidi = (scale: ParsedScale, degree: number, base = 60) => {
+  const len = scale.intervals.length;
+  const octave = Math.floor(degree / len);
+  const idx = ((degree % len) + len) % len;
+  return base + scale.root + octave * 12 + scale.intervals[idx];
+};
+
+// Stacks diatonic thirds on a scale degree, e.g. size 4 → seventh chord.
+export const diatonicChord = (scale: ParsedScale, degree: number, size = 4, base = 48) =>
+  Array.from({ length: size }, (_, i) => degreeToMidi(scale, degree + i * 2, base));
+
+export const NOTE_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+const titleCase = (text: string) => text.replace(/\b\w/g, c => c.toUpperCase());
+
+export const formatScale = (scale: ParsedScale) => `${NOTE_NAMES[scale.root]} ${titleCase(scale.mode)}`;
+
+// Key detection by pitch-class coverage: the root/mode that contains the most of `notes` wins,
+// earlier `modes` breaking ties.
+export const bestFitScale = (notes: number[], modes = ['minor', 'major']): ParsedScale => {
+  const known = modes.map(m => m.toLowerCase()).filter(m => SCALE_INTERVALS[m]);
+  if (known.length === 0) known.push('minor');
+  let best: ParsedScale = { root: 0, mode: known[0], intervals: SCALE_INTERVALS[known[0]] };
+  let bestScore = -1;
+  for (const mode of known) {
+    const intervals = SCALE_INTERVALS[mode];
+    for (let root = 0; root < 12; root++) {
+      const candidate = { root, mode, intervals };
+      // A note on the root scores an extra half point so C major beats A minor for a C-centred riff.
+      const score = notes.reduce((sum, n) => sum + (isInScale(n, candidate) ? 1 : 0) + (((n - root) % 12 + 12) % 12 === 0 ? 0.5 : 0), 0);
+      if (score > bestScore) { best = candidate; bestScore = score; }
+    }
+  }
+  return best;
+};
+
+export const sectionNotes = (section: { bassLine: number[]; leadMelody: (number | null)[]; chordProgression: number[][] }) => [
+  ...section.bassLine.filter(n => n > 0),
+  ...section.leadMelody.filter((n): n is number => n !== null),
+  ...section.chordProgression.flat()
+];
+
+// Scientific pitch name, e.g. 60 → "C4".
+export const midiToName = (note: number) => `${NOTE_NAMES[((note % 12) + 12) % 12]}${Math.floor(note / 12) - 1}`;
+
+// Inverse of midiToName; accepts sharps and flats ("F#3", "Bb4", "c-1"). Null when unrecognized.
+export const nameToMidi = (name: string): number | null => {
+  const match = name.trim().match(/^([A-Ga-g])(#|♯|b|♭)?(-?\d)$/);
+  if (!match) return null;
+  let pc = NOTE_INDEX[match[1].toUpperCase()];
+  if (match[2] === '#' || match[2] === '♯') pc += 1;
+  if (match[2] === 'b' || match[2] === '♭') pc -= 1;
+  const note = (parseInt(match[3]) + 1) * 12 + pc;
+  return note >= 0 && note <= 127 ? note : null;
+};
+
+// Chord qualities by intervals above the root, richest first.
+const CHORD_QUALITIES: [number[], string][] = [
+  [[0, 4, 7, 11], 'maj7'], [[0, 3, 7, 10], 'm7'], [[0, 4, 7, 10], '7'], [[0, 3, 6, 10], 'm7b5'], [[0, 3, 6, 9], 'dim7'],
+  [[0, 3, 7, 11], 'mMaj7'], [[0, 4, 8], 'aug'], [[0, 4, 7], ''], [[0, 3, 7], 'm'], [[0, 3, 6], 'dim'],
+  [[0, 2, 7], 'sus2'], [[0, 5, 7], 'sus4'], [[0, 7], '5']
+];
+
+// Chord symbol for a voicing, e.g. [48, 51, 55, 58] → "Cm7". Inversions name their root and
+// the bass ("Eb/G"); anything unrecognized falls back to the note names.
+export const chordName = (notes: number[]): string => {
+  if (!notes.length) return '—';
+  const bass = Math.min(...notes);
+  const classes = [...new Set(notes.map(n => ((n % 12) + 12) % 12))];
+  for (const [intervals, quality] of CHORD_QUALITIES) {
+    for (const root of classes) {
+      const set = classes.map(pc => (pc - root + 12) % 12).sort((a, b) => a - b);
+      if (set.join() !== intervals.join()) continue;
+      const bassPc = ((bass % 12) + 12) % 12;
+      return `${NOTE_NAMES[root]}${quality}${bassPc === root ? '' : `/${NOTE_NAMES[bassPc]}`}`;
+    }
+  }
+  return [...notes].sort((a, b) => a - b).map(midiToName).join(' ');
+};
@@ -0,0 +1,175 @@
+
+import { MasterDNA, SectionDNA, SectionGrid, SectionKey } from '../types';
+import { SECTION_BARS } from '../constants';
+import { Transition, playableArrangement, transitionBetween } from './arrangement';
+
+// --- Timeline ---
+// Single source of truth for "which section, which pattern step, how long" so the realtime
+// engine, offline render and MIDI export walk the music identically. Durations are in
+// quarter-note beats; callers convert with their own tempo / PPQ.
+
+type Grid = Pick<SectionGrid, 'steps' | 'timeSignature' | 'subdivision'>;
+
+export const quartersPerBar = ([num, den]: [number, number]) => num * 4 / den;
+
+export const stepsPerBar = (grid: Grid) => Math.max(1, Math.round(quartersPerBar(grid.timeSignature) * grid.subdivision));
+
+export const sectionLength = (grid: Grid) => SECTION_BARS * stepsPerBar(grid);
+
+export const stepBeats = (grid: Grid) => 1 / grid.subdivision;
+
+// Swing delays the second step of each pair by up to a third of a step (full triplet shuffle).
+// Only meaningful when the beat divides into pairs.
+export const swingOffset = (section: SectionDNA, idx: number) =>
+  section.subdivision % 2 === 0 && idx % 2 === 1 ? section.swing * stepBeats(section) / 3 : 0;
+
+// Swing + per-step micro-timing, in beats, relative to the grid position.
+export const stepOffsetBeats = (section: SectionDNA, idx: number) =>
+  swingOffset(section, idx) + (section.microTiming?.[idx] ?? 0) * stepBeats(section);
+
+export interface TimelineStep {
+  section: SectionKey;
+  idx: number;           // index into the section's pattern arrays
+  sectionStep: number;   // steps since the current pass of the section started
+  beats: number;         // grid length of this step in quarter notes
+  barStart: boolean;
+  sectionStart: boolean;
+  slot: number;          // index into the playable arrangement
+  pass: number;          // which repeat of the slot, from 0
+  slotProgress: number;  // 0–1 through the whole slot, for playheads
+  barProgress: number;   // 0–1 through the current bar
+  energy: number;        // the slot's energy
+  // Last bar of the slot's last pass: where fills and energy transitions happen.
+  lastBar: boolean;
+  fill: boolean;
+  transition: Transition | null;
+}
+
+export interface WalkerPosition {
+  slot: number;
+  pass: number;
+  sectionStep: number;
+}
+
+const toIndex = (n: number) => (Number.isFinite(n) ? Math.max(0, Math.floor(n)) : 0);
+
+export class TimelineWalker {
+  private slot = 0;
+  private pass = 0;
+  private sectionStep = 0;
+
+  get position(): WalkerPosition {
+    return { slot: this.slot, pass: this.pass, sectionStep: this.sectionStep };
+  }
+
+  reset() {
+    this.slot = 0;
+    this.pass = 0;
+    this.sectionStep = 0;
+  }
+
+  // Continues from a position read off another walker (a jam guest lining up with its host, or a
+  // replay starting where its recording did). Negative or fractional counts would index before the
+  // arrangement, so they land on the nearest step.
+  seek({ slot, pass, sectionStep }: WalkerPosition) {
+    this.slot = toIndex(slot);
+    this.pass = toIndex(pass);
+    this.sectionStep = toIndex(sectionStep);
+  }
+
+  // Continues from the top of another arrangement slot.
+  jump(slot: number) {
+    this.slot = slot;
+    this.pass = 0;
+    this.sectionStep = 0;
+  }
+
+  // Returns the step about to play and advances. Reading the DNA per step keeps live edits audible.
+  next(dna: MasterDNA): TimelineStep {
+    const step = this.peek(dna);
+    this.slot = step.slot;
+    this.pass = step.pass;
+    this.sectionStep = step.sectionStep + 1;
+    return step;
+  }
+
+  // The step `next` would return for `dna`, without advancing (lets callers swap DNA on a boundary).
+  peek(dna: MasterDNA): TimelineStep {
+    const arrangement = playableArrangement(dna);
+    // The arrangement may shrink under a live DNA swap; restart the form rather than index past it.
+    const fits = this.slot < arrangement.length;
+    let slotIdx = fits ? this.slot : 0;
+    let pass = fits ? this.pass : 0;
+    let sectionStep = fits ? this.sectionStep : 0;
+    let slot = arrangement[slotIdx];
+    let data = dna.sections[slot.section];
+    if (sectionStep >= sectionLength(data)) {
+      sectionStep = 0;
+      if (++pass >= slot.repeats) {
+        pass = 0;
+        slotIdx = (slotIdx + 1) % arrangement.length;
+        slot = arrangement[slotIdx];
+        data = dna.sections[slot.section];
+      }
+    }
+    const length = sectionLength(data);
+    const barSteps = stepsPerBar(data);
+    const lastBar = pass === slot.repeats - 1 && sectionStep >= length - barSteps;
+    return {
+      section: slot.section,
+      idx: sectionStep % data.steps,
+      sectionStep,
+      beats: stepBeats(data),
+      barStart: sectionStep % barSteps === 0,
+      sectionStart: sectionStep === 0,
+      slot: slotIdx,
+      pass,
+      slotProgress: (pass * length + sectionStep) / (slot.repeats * length),
+      barProgress: (sectionStep % barSteps) / barSteps,
+      energy: slot.energy,
+      lastBar,
+      fill: lastBar && slot.fill,
+      transition: lastBar ? transitionBetween(slot, arrangement[(slotIdx + 1) % arrangement.length]) : null
+    };
+  }
+}
+
+type DrumLevels = Record<keyof SectionDNA['drums'], number>;
+
+/**
+ * Drum levels for a step after the arrangement has had its say (0 = silent, otherwise a gain
+ * factor): a drop-out mutes everything but glitch, a fill turns the second half of the bar
+ * into a rising snare roll (no hats or claps) that lands on a glitch hit.
+ */
+export const stepDrums = (section: SectionDNA, pos: TimelineStep): DrumLevels => {
+  const { drums } = section;
+  const { idx } = pos;
+  const levels: DrumLevels = {
+    kick: drums.kick[idx] ? 1 : 0,
+    snare: drums.snare[idx] ? 1 : 0,
+    hihat: drums.hihat[idx] ? 1 : 0,
+    glitch: drums.glitch?.[idx] ? 1 : 0,
+    clap: drums.clap?.[idx] ? 1 : 0,
+    openhat: drums.openhat?.[idx] ? 1 : 0
+  };
+  if (pos.transition === 'dropout') return { kick: 0, snare: 0, hihat: 0, glitch: levels.glitch, clap: 0, openhat: 0 };
+  if (pos.fill && pos.barProgress >= 0.5) {
+    const roll = (pos.barProgress - 0.5) * 2;
+    const barSteps = stepsPerBar(section);
+    const lastStep = Math.round(pos.barProgress * barSteps) === barSteps - 1;
+    return { kick: levels.kick, snare: 0.5 + roll * 0.5, hihat: 0, glitch: lastStep ? 1 : 0, clap: 0, openhat: 0 };
+  }
+  return levels;
+};
+
+// Length in beats of the first `bars` bars of the arrangement, from the top of the first slot.
+export const arrangementBeats = (dna: MasterDNA, bars: number) => {
+  const walker = new TimelineWalker();
+  let beats = 0;
+  let seenBars = 0;
+  for (;;) {
+    const step = walker.next(dna);
+    if (step.barStart && ++seenBars > bars) return beats;
+    beats += step.beats;
+  }
+};
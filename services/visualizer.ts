@@ -0,0 +1,272 @@
+import { NoteEvent, NoteLayer } from './audioEngine';
+import { GM_DRUMS } from './midiFile';
+import { NOTE_LAYERS } from './webMidi';
+
+// --- Visualizer ---
+// One requestAnimationFrame loop draws every attached canvas straight from the analyser and the
+// engine's note stream. Nothing here goes through React state, so 60 fps costs no re-renders;
+// components that want the overall level (orb pulse, level bar) get it per frame via onFrame.
+
+export type VisualKind = 'spectrum' | 'scope' | 'roll' | 'meters';
+
+export interface VisualFrame {
+  level: number;                          // 0–1, average of the analyser's frequency bins
+  activity: Record<NoteLayer, number>;    // 0–1 per layer, jumps on a note and decays
+  spectrum: Uint8Array;                   // the analyser's bytes this frame; reused, copy to keep
+  waveform: Uint8Array;
+}
+
+export interface AnalyserLike {
+  readonly frequencyBinCount: number;
+  readonly fftSize: number;
+  getByteFrequencyData(out: Uint8Array): void;
+  getByteTimeDomainData(out: Uint8Array): void;
+}
+
+// What gets drawn: the AudioEngine, or a mirror of another window's engine (windowSync.ts).
+export interface VisualSource {
+  readonly analyser: AnalyserLike | null;
+  readonly context: { readonly currentTime: number } | null;
+  onNote(listener: (event: NoteEvent) => void): () => void;
+}
+
+export type FrameListener = (frame: VisualFrame) => void;
+
+export const LAYER_COLORS: Record<NoteLayer, string> = {
+  drums: '#f43f5e', bass: '#f59e0b', lead: '#ffffff', pad: '#6366f1', arp: '#22c55e'
+};
+
+// Piano roll window around the playhead: played notes scroll left, scheduled ones wait on the right.
+const ROLL_PAST = 4;
+const ROLL_AHEAD = 0.5;
+const MIN_PITCH_SPAN = 24;
+const DRUM_ROWS: number[] = Object.values(GM_DRUMS).sort((a, b) => a - b);
+const DRUM_BAND = 0.2;   // share of the roll's height under the pitched notes
+// Activity meters fall to ~1/e in this many seconds.
+const METER_DECAY = 0.25;
+const MIN_BAR = 2;       // px; keeps a silent spectrum visible as a floor line
+
+const silentActivity = () => Object.fromEntries(NOTE_LAYERS.map(layer => [layer, 0])) as Record<NoteLayer, number>;
+
+// Canvases draw at device resolution; sizes follow the element's layout box.
+const fit = (canvas: HTMLCanvasElement) => {
+  const dpr = window.devicePixelRatio || 1;
+  const w = Math.max(1, Math.round(canvas.clientWidth * dpr));
+  const h = Math.max(1, Math.round(canvas.clientHeight * dpr));
+  if (canvas.width !== w || canvas.height !== h) {
+    canvas.width = w;
+    canvas.height = h;
+  }
+  return { w, h, dpr };
+};
+
+export class Visualizer {
+  private canvases = new Map<HTMLCanvasElement, VisualKind>();
+  private frameListeners = new Set<FrameListener>();
+  private notes: NoteEvent[] = [];
+  private activity = silentActivity();
+  private frequencies = new Uint8Array(0);
+  private waveform = new Uint8Array(0);
+  private color = '#ffffff';
+  private lastTime = 0;
+  private frame: number | null = null;
+  private unsubscribeNotes: () => void;
+
+  constructor(private source: VisualSource) {
+    this.unsubscribeNotes = source.onNote(this.addNote);
+  }
+
+  // Switches what is drawn (a window taking over or handing off the engine); the roll starts over.
+  setSource(source: VisualSource) {
+    if (source === this.source) return;
+    this.unsubscribeNotes();
+    this.source = source;
+    this.notes = [];
+    this.lastTime = 0;
+    this.unsubscribeNotes = source.onNote(this.addNote);
+  }
+
+  // Draws `kind` into `canvas` every frame until the returned function is called.
+  attach(kind: VisualKind, canvas: HTMLCanvasElement) {
+    this.canvases.set(canvas, kind);
+    this.run();
+    return () => {
+      this.canvases.delete(canvas);
+      this.idle();
+    };
+  }
+
+  onFrame(listener: FrameListener) {
+    this.frameListeners.add(listener);
+    this.run();
+    return () => {
+      this.frameListeners.delete(listener);
+      this.idle();
+    };
+  }
+
+  // Accent colour for the spectrum, scope and lead notes (the DNA's colour).
+  setColor(color: string) {
+    this.color = color;
+  }
+
+  private addNote = (event: NoteEvent) => {
+    this.notes.push(event);
+  };
+
+  // The loop only runs while something is watching.
+  private run() {
+    if (this.frame === null) this.frame = requestAnimationFrame(this.tick);
+  }
+
+  private idle() {
+    if (this.canvases.size || this.frameListeners.size || this.frame === null) return;
+    cancelAnimationFrame(this.frame);
+    this.frame = null;
+  }
+
+  private tick = () => {
+    this.frame = requestAnimationFrame(this.tick);
+    const analyser = this.source.analyser;
+    if (analyser && this.frequencies.length !== analyser.frequencyBinCount) {
+      this.frequencies = new Uint8Array(analyser.frequencyBinCount);
+      this.waveform = new Uint8Array(analyser.fftSize);
+    }
+    let level = 0;
+    if (analyser) {
+      analyser.getByteFrequencyData(this.frequencies);
+      analyser.getByteTimeDomainData(this.waveform);
+      level = this.frequencies.reduce((a, b) => a + b, 0) / this.frequencies.length / 100;
+    }
+    const now = this.source.context?.currentTime ?? 0;
+    this.updateActivity(now);
+    const frame: VisualFrame = { level, activity: this.activity, spectrum: this.frequencies, waveform: this.waveform };
+    this.frameListeners.forEach(l => l(frame));
+    this.canvases.forEach((kind, canvas) => {
+      const g = canvas.getContext('2d');
+      if (!g) return;
+      const { w, h, dpr } = fit(canvas);
+      g.clearRect(0, 0, w, h);
+      switch (kind) {
+        case 'spectrum': this.drawSpectrum(g, w, h); break;
+        case 'scope': this.drawScope(g, w, h, dpr); break;
+        case 'roll': this.drawRoll(g, w, h, dpr, now); break;
+        case 'meters': this.drawMeters(g, w, h, dpr); break;
+      }
+    });
+  };
+
+  // Notes that started since the last frame kick their layer's meter; old notes leave the buffer.
+  private updateActivity(now: number) {
+    const dt = Math.max(0, now - this.lastTime);
+    const decay = Math.exp(-dt / METER_DECAY);
+    NOTE_LAYERS.forEach(layer => { this.activity[layer] *= decay; });
+    this.notes.forEach(n => {
+      if (n.time > this.lastTime && n.time <= now) this.activity[n.layer] = Math.max(this.activity[n.layer], n.velocity);
+    });
+    // A context that restarted (clock went backwards) leaves nothing worth keeping.
+    if (now < this.lastTime) this.notes = [];
+    this.notes = this.notes.filter(n => n.time + n.duration > now - ROLL_PAST);
+    this.lastTime = now;
+  }
+
+  // Log-spaced bars: equal room per octave, so the bass isn't squeezed into a few pixels.
+  private drawSpectrum(g: CanvasRenderingContext2D, w: number, h: number) {
+    const bins = this.frequencies.length;
+    if (!bins) return;
+    const bars = Math.max(8, Math.floor(w / 6));
+    const barWidth = w / bars;
+    g.fillStyle = this.color;
+    for (let i = 0; i < bars; i++) {
+      const lo = Math.floor(Math.pow(bins, i / bars));
+      const hi = Math.max(lo + 1, Math.floor(Math.pow(bins, (i + 1) / bars)));
+      let peak = 0;
+      for (let b = lo; b < hi && b < bins; b++) peak = Math.max(peak, this.frequencies[b]);
+      const barHeight = Math.max(MIN_BAR, (peak / 255) * h);
+      g.globalAlpha = 0.35 + (peak / 255) * 0.65;
+      g.fillRect(i * barWidth + 1, h - barHeight, Math.max(1, barWidth - 2), barHeight);
+    }
+    g.globalAlpha = 1;
+  }
+
+  private drawScope(g: CanvasRenderingContext2D, w: number, h: number, dpr: number) {
+    const samples = this.waveform.length;
+    g.strokeStyle = 'rgba(255,255,255,0.08)';
+    g.lineWidth = dpr;
+    g.beginPath();
+    g.moveTo(0, h / 2);
+    g.lineTo(w, h / 2);
+    g.stroke();
+    if (!samples) return;
+    g.strokeStyle = this.color;
+    g.lineWidth = 1.5 * dpr;
+    g.beginPath();
+    for (let i = 0; i < samples; i++) {
+      const x = (i / (samples - 1)) * w;
+      const y = (this.waveform[i] / 255) * h;
+      if (i === 0) g.moveTo(x, y);
+      else g.lineTo(x, y);
+    }
+    g.stroke();
+  }
+
+  // Pitched layers share one pitch axis fitted to what's on screen; drums get their own rows below.
+  private drawRoll(g: CanvasRenderingContext2D, w: number, h: number, dpr: number, now: number) {
+    const start = now - ROLL_PAST;
+    const span = ROLL_PAST + ROLL_AHEAD;
+    const x = (t: number) => ((t - start) / span) * w;
+    const pitchedHeight = h * (1 - DRUM_BAND);
+    const pitched = this.notes.filter(n => n.layer !== 'drums');
+    let lo = Math.min(...pitched.map(n => n.note));
+    let hi = Math.max(...pitched.map(n => n.note));
+    if (!pitched.length) { lo = 48; hi = 72; }
+    if (hi - lo < MIN_PITCH_SPAN) {
+      const pad = (MIN_PITCH_SPAN - (hi - lo)) / 2;
+      lo = Math.floor(lo - pad);
+      hi = Math.ceil(hi + pad);
+    }
+    const rowHeight = pitchedHeight / (hi - lo + 1);
+    const drumRowHeight = (h - pitchedHeight) / DRUM_ROWS.length;
+
+    g.fillStyle = 'rgba(255,255,255,0.04)';
+    g.fillRect(0, pitchedHeight, w, h - pitchedHeight);
+    this.notes.forEach(n => {
+      const left = x(n.time);
+      const width = Math.max(2 * dpr, x(n.time + n.duration) - left);
+      const y = n.layer === 'drums'
+        ? pitchedHeight + Math.max(0, DRUM_ROWS.indexOf(n.note)) * drumRowHeight
+        : pitchedHeight - (n.note - lo + 1) * rowHeight;
+      const height = n.layer === 'drums' ? drumRowHeight : rowHeight;
+      g.globalAlpha = (n.time > now ? 0.3 : 0.5) + n.velocity * 0.5;
+      g.fillStyle = n.layer === 'lead' ? this.color : LAYER_COLORS[n.layer];
+      g.fillRect(left, y + 0.5, width, Math.max(1, height - 1));
+    });
+    g.globalAlpha = 1;
+
+    const playhead = x(now);
+    g.fillStyle = this.color;
+    g.fillRect(playhead - dpr / 2, 0, dpr, h);
+  }
+
+  private drawMeters(g: CanvasRenderingContext2D, w: number, h: number, dpr: number) {
+    const gap = 4 * dpr;
+    const labelHeight = 10 * dpr;
+    const width = (w - gap * (NOTE_LAYERS.length - 1)) / NOTE_LAYERS.length;
+    g.font = `900 ${7 * dpr}px monospace`;
+    g.textAlign = 'center';
+    NOTE_LAYERS.forEach((layer, i) => {
+      const left = i * (width + gap);
+      const barArea = h - labelHeight;
+      const level = Math.min(1, this.activity[layer]);
+      g.fillStyle = 'rgba(255,255,255,0.05)';
+      g.fillRect(left, 0, width, barArea);
+      g.fillStyle = layer === 'lead' ? this.color : LAYER_COLORS[layer];
+      g.globalAlpha = 0.4 + level * 0.6;
+      g.fillRect(left, barArea * (1 - level), width, barArea * level);
+      g.globalAlpha = 0.3;
+      g.fillStyle = '#ffffff';
+      g.fillText(layer.toUpperCase(), left + width / 2, h - 1);
+      g.globalAlpha = 1;
+    });
+  }
+}
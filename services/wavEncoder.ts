@@ -0,0 +1,102 @@
+
+// --- WAV Encoding ---
+// Interleaved PCM RIFF/WAVE writer for rendered AudioBuffers, and the matching reader for
+// places without decodeAudioData (Node, the analysis fixtures).
+
+export type WavBitDepth = 16 | 24;
+
+// Structural subset of AudioBuffer so the encoder runs without Web Audio (Node, tests).
+export interface PcmSource {
+  numberOfChannels: number;
+  sampleRate: number;
+  length: number;
+  getChannelData(channel: number): Float32Array;
+}
+
+const writeString = (view: DataView, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+export const encodeWav = (source: PcmSource, bitDepth: WavBitDepth = 16): ArrayBuffer => {
+  const channels = source.numberOfChannels;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = channels * bytesPerSample;
+  const dataSize = source.length * blockAlign;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, source.sampleRate, true);
+  view.setUint32(28, source.sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const data = Array.from({ length: channels }, (_, c) => source.getChannelData(c));
+  const max = bitDepth === 16 ? 0x7fff : 0x7fffff;
+  let offset = 44;
+  for (let i = 0; i < source.length; i++) {
+    for (let c = 0; c < channels; c++) {
+      const sample = Math.round(Math.max(-1, Math.min(1, data[c][i])) * max);
+      if (bitDepth === 16) {
+        view.setInt16(offset, sample, true);
+      } else {
+        view.setUint8(offset, sample & 0xff);
+        view.setUint8(offset + 1, (sample >> 8) & 0xff);
+        view.setUint8(offset + 2, (sample >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return buffer;
+};
+
+export class WavParseError extends Error {}
+
+const readString = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+// Reads 16/24-bit integer or 32-bit float PCM into one Float32Array per channel.
+export const decodeWav = (bytes: ArrayBuffer): PcmSource => {
+  const view = new DataView(bytes);
+  if (view.byteLength < 12 || readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE') throw new WavParseError('Not a WAV file');
+  let format: { tag: number; channels: number; sampleRate: number; bits: number } | null = null;
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = readString(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      format = { tag: view.getUint16(body, true), channels: view.getUint16(body + 2, true), sampleRate: view.getUint32(body + 4, true), bits: view.getUint16(body + 14, true) };
+    } else if (id === 'data') {
+      if (!format) throw new WavParseError('data chunk before fmt chunk');
+      const { tag, channels, sampleRate, bits } = format;
+      // A frame of zero bytes would make the sample count infinite.
+      if (channels === 0 || bits === 0) throw new WavParseError(`WAV header with ${channels} channels of ${bits}-bit samples`);
+      const float = tag === 3 && bits === 32;
+      if (!float && (tag !== 1 || (bits !== 16 && bits !== 24))) throw new WavParseError(`Unsupported WAV format ${tag}/${bits}-bit`);
+      const bytesPerSample = bits / 8;
+      const length = Math.floor(Math.min(size, view.byteLength - body) / (bytesPerSample * channels));
+      const data = Array.from({ length: channels }, () => new Float32Array(length));
+      let p = body;
+      for (let i = 0; i < length; i++) {
+        for (let c = 0; c < channels; c++) {
+          if (float) data[c][i] = view.getFloat32(p, true);
+          else if (bits === 16) data[c][i] = view.getInt16(p, true) / 0x8000;
+          else data[c][i] = ((view.getUint8(p + 2) << 24 | view.getUint8(p + 1) << 16 | view.getUint8(p) << 8) >> 8) / 0x800000;
+          p += bytesPerSample;
+        }
+      }
+      return { numberOfChannels: channels, sampleRate, length, getChannelData: c => data[c] };
+    }
+    offset = body + size + (size % 2);
+  }
+  throw new WavParseError('No data chunk');
+};
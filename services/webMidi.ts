@@ -0,0 +1,335 @@
+import { AudioEngine, NoteEvent, NoteLayer, StepEvent } from './audioEngine';
+import { DRUM_CHANNEL, MIDI_CHANNELS } from './midiFile';
+import { KeyValueStore } from './dnaLibrary';
+import { isObject } from './dnaValidator';
+
+// --- Web MIDI ---
+// Mirrors the engine's notes to hardware and keeps external gear in time. Nothing is sent "now":
+// notes and clock ticks are stamped with the same lookahead audio-clock times the scheduler plays
+// the internal voices at, converted to the performance clock Web MIDI timestamps use.
+
+export type RouteMode = 'internal' | 'midi' | 'both';
+
+export interface MidiRoute {
+  output: string | null;   // output port id
+  channel: number;         // 0–15
+  mode: RouteMode;
+}
+
+export interface MidiSettings {
+  routes: Record<NoteLayer, MidiRoute>;
+  clockOut: string | null;  // output port receiving clock and start/stop
+  clockIn: string | null;   // input port whose clock sets the tempo
+  controlIn: string | null; // input port for notes and controllers (performance input)
+}
+
+export interface MidiPortInfo {
+  id: string;
+  name: string;
+}
+
+export type MidiStatus = 'off' | 'pending' | 'ready' | 'unsupported' | 'denied';
+
+export const NOTE_LAYERS: NoteLayer[] = ['drums', 'bass', 'lead', 'pad', 'arp'];
+export const ROUTE_MODES: RouteMode[] = ['internal', 'midi', 'both'];
+export const CLOCK_PPQN = 24;
+
+const SETTINGS_KEY = 'neural-strudel.midi.v1';
+
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+const CONTROL_CHANGE = 0xb0;
+const ALL_NOTES_OFF = 123;
+const CLOCK = 0xf8;
+const START = 0xfa;
+const CONTINUE = 0xfb;
+const STOP = 0xfc;
+// Incoming tempo is averaged over a beat of ticks and republished when the whole BPM changes.
+const FOLLOW_TICKS = CLOCK_PPQN;
+const EPSILON = 1e-6;
+
+const route = (channel: number): MidiRoute => ({ output: null, channel, mode: 'internal' });
+
+// Defaults match the channels of exported .mid files.
+export const DEFAULT_MIDI_SETTINGS: MidiSettings = {
+  routes: {
+    drums: route(DRUM_CHANNEL),
+    bass: route(MIDI_CHANNELS.bass),
+    lead: route(MIDI_CHANNELS.lead),
+    pad: route(MIDI_CHANNELS.pad),
+    arp: route(MIDI_CHANNELS.arp)
+  },
+  clockOut: null,
+  clockIn: null,
+  controlIn: null
+};
+
+const portId = (value: unknown) => (typeof value === 'string' ? value : null);
+
+const isRouteMode = (value: unknown): value is RouteMode => ROUTE_MODES.includes(value as RouteMode);
+const isChannel = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) < 16;
+
+// Saved settings are untrusted: anything unreadable keeps the fallback.
+const readRoute = (raw: unknown, fallback: MidiRoute): MidiRoute => {
+  const src = isObject(raw) ? raw : {};
+  return {
+    output: portId(src.output),
+    channel: isChannel(src.channel) ? src.channel : fallback.channel,
+    mode: isRouteMode(src.mode) ? src.mode : fallback.mode
+  };
+};
+
+const portsOf = (ports: Iterable<MIDIPort>): MidiPortInfo[] =>
+  Array.from(ports, p => ({ id: p.id, name: p.name ?? p.id }));
+
+export class MidiBridge {
+  private access: MIDIAccess | null = null;
+  private status: MidiStatus = 'off';
+  private settings: MidiSettings;
+  private engine: AudioEngine | null = null;
+  private clockPort: MIDIInput | null = null;
+  private controlPort: MIDIInput | null = null;
+  // Start goes out with the first step scheduled after the transport starts, then ticks follow the beat clock.
+  private startPending = false;
+  private nextTick = 0;
+  private tickTimes: number[] = [];
+  private followedBpm: number | null = null;
+  private listeners = new Set<() => void>();
+  private tempoListeners = new Set<(bpm: number) => void>();
+  private transportListeners = new Set<(playing: boolean) => void>();
+  private messageListeners = new Set<(data: Uint8Array) => void>();
+
+  constructor(
+    private store: KeyValueStore = window.localStorage,
+    private requestAccess: (() => Promise<MIDIAccess>) | null = navigator.requestMIDIAccess ? () => navigator.requestMIDIAccess() : null
+  ) {
+    this.settings = this.loadSettings();
+  }
+
+  private loadSettings(): MidiSettings {
+    try {
+      const saved: unknown = JSON.parse(this.store.getItem(SETTINGS_KEY) ?? '{}');
+      const src = isObject(saved) ? saved : {};
+      const savedRoutes = isObject(src.routes) ? src.routes : {};
+      const routes = { ...DEFAULT_MIDI_SETTINGS.routes };
+      NOTE_LAYERS.forEach(layer => { routes[layer] = readRoute(savedRoutes[layer], routes[layer]); });
+      return { routes, clockOut: portId(src.clockOut), clockIn: portId(src.clockIn), controlIn: portId(src.controlIn) };
+    } catch {
+      return DEFAULT_MIDI_SETTINGS;
+    }
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l());
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Tempo of the followed clock, whenever it settles somewhere new.
+  onTempo(listener: (bpm: number) => void) {
+    this.tempoListeners.add(listener);
+    return () => { this.tempoListeners.delete(listener); };
+  }
+
+  // Start/continue and stop from the followed device.
+  onTransport(listener: (playing: boolean) => void) {
+    this.transportListeners.add(listener);
+    return () => { this.transportListeners.delete(listener); };
+  }
+
+  // Channel messages (notes, controllers) from the control input.
+  onMessage(listener: (data: Uint8Array) => void) {
+    this.messageListeners.add(listener);
+    return () => { this.messageListeners.delete(listener); };
+  }
+
+  // Asking for access shows a browser prompt, so it waits for the user.
+  async enable() {
+    if (this.access) return;
+    if (!this.requestAccess) {
+      this.status = 'unsupported';
+      this.emit();
+      return;
+    }
+    this.status = 'pending';
+    this.emit();
+    try {
+      this.access = await this.requestAccess();
+      this.access.onstatechange = () => this.refresh();
+      this.status = 'ready';
+    } catch (e) {
+      console.warn('MIDI access refused:', e);
+      this.status = 'denied';
+    }
+    this.refresh();
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  getSettings() {
+    return this.settings;
+  }
+
+  getFollowedTempo() {
+    return this.settings.clockIn ? this.followedBpm : null;
+  }
+
+  outputs(): MidiPortInfo[] {
+    return this.access ? portsOf(this.access.outputs.values()) : [];
+  }
+
+  inputs(): MidiPortInfo[] {
+    return this.access ? portsOf(this.access.inputs.values()) : [];
+  }
+
+  update(patch: Partial<MidiSettings>) {
+    this.settings = { ...this.settings, ...patch };
+    this.store.setItem(SETTINGS_KEY, JSON.stringify(this.settings));
+    this.refresh();
+  }
+
+  setRoute(layer: NoteLayer, patch: Partial<MidiRoute>) {
+    this.update({ routes: { ...this.settings.routes, [layer]: { ...this.settings.routes[layer], ...patch } } });
+  }
+
+  // Listens to the engine's scheduler; returns the unbind.
+  bind(engine: AudioEngine) {
+    this.engine = engine;
+    const offNote = engine.onNote(e => this.sendNote(e));
+    const offStep = engine.onSchedule(e => this.sendClock(e));
+    this.syncEngine();
+    return () => {
+      offNote();
+      offStep();
+      engine.setExternalOnly([]);
+      this.engine = null;
+    };
+  }
+
+  // Called just before the engine starts, so Start is stamped on the first scheduled step.
+  start() {
+    this.startPending = true;
+  }
+
+  stop() {
+    this.startPending = false;
+    this.output(this.settings.clockOut)?.send([STOP]);
+    NOTE_LAYERS.forEach(layer => {
+      const { output, channel, mode } = this.settings.routes[layer];
+      if (mode !== 'internal') this.output(output)?.send([CONTROL_CHANGE | channel, ALL_NOTES_OFF, 0]);
+    });
+  }
+
+  private refresh() {
+    this.listenInput();
+    this.syncEngine();
+    this.emit();
+  }
+
+  private output(id: string | null) {
+    return (id && this.access?.outputs.get(id)) || null;
+  }
+
+  // A layer only leaves the internal voices while its port is actually there: unplugging a synth
+  // falls back to the built-in sound instead of silence.
+  private syncEngine() {
+    this.engine?.setExternalOnly(NOTE_LAYERS.filter(layer => {
+      const { output, mode } = this.settings.routes[layer];
+      return mode === 'midi' && this.output(output) !== null;
+    }));
+  }
+
+  // Audio-clock seconds → performance-clock milliseconds. The output timestamp pairs the two clocks
+  // at the speaker, so output latency is accounted for where the browser reports it.
+  private timestamp(time: number) {
+    const ctx = this.engine?.context;
+    if (!ctx) return performance.now();
+    if ('getOutputTimestamp' in ctx) {
+      const { contextTime, performanceTime } = (ctx as AudioContext).getOutputTimestamp();
+      if (contextTime !== undefined && performanceTime !== undefined && performanceTime > 0) {
+        return performanceTime + (time - contextTime) * 1000;
+      }
+    }
+    return performance.now() + (time - ctx.currentTime) * 1000;
+  }
+
+  private sendNote(event: NoteEvent) {
+    const { output, channel, mode } = this.settings.routes[event.layer];
+    const port = mode === 'internal' ? null : this.output(output);
+    if (!port) return;
+    this.sendStart(event.time);
+    const at = this.timestamp(event.time);
+    const velocity = Math.min(127, Math.max(1, Math.round(event.velocity * 127)));
+    port.send([NOTE_ON | channel, event.note, velocity], at);
+    port.send([NOTE_OFF | channel, event.note, 0], at + event.duration * 1000);
+  }
+
+  // Ticks fall on the beat clock, so swing and odd meters don't bend the clock. While following an
+  // external clock the device is the master and nothing is sent.
+  private sendClock(step: StepEvent) {
+    const port = this.settings.clockIn ? null : this.output(this.settings.clockOut);
+    if (!port) return;
+    const first = Math.ceil(step.beat * CLOCK_PPQN - EPSILON);
+    const end = (step.beat + step.beats) * CLOCK_PPQN - EPSILON;
+    this.sendStart(step.time);
+    // Resync after a restart, or when the beat clock rewinds to the top of the arrangement.
+    if (this.nextTick < first || this.nextTick > end + 1) this.nextTick = first;
+    const secondsPerTick = step.duration / step.beats / CLOCK_PPQN;
+    for (; this.nextTick < end; this.nextTick++) {
+      port.send([CLOCK], this.timestamp(step.time + (this.nextTick - step.beat * CLOCK_PPQN) * secondsPerTick));
+    }
+  }
+
+  // Notes of the first step are reported before the step itself, so whichever comes first sends Start.
+  private sendStart(time: number) {
+    if (!this.startPending) return;
+    this.startPending = false;
+    if (!this.settings.clockIn) this.output(this.settings.clockOut)?.send([START], this.timestamp(time));
+  }
+
+  private input(id: string | null) {
+    return (id && this.access?.inputs.get(id)) || null;
+  }
+
+  // Clock and control may share one port, so a single handler serves both.
+  private listenInput() {
+    const clockPort = this.input(this.settings.clockIn);
+    if (clockPort !== this.clockPort) {
+      this.tickTimes = [];
+      this.followedBpm = null;
+    }
+    [this.clockPort, this.controlPort].forEach(port => { if (port) port.onmidimessage = null; });
+    this.clockPort = clockPort;
+    this.controlPort = this.input(this.settings.controlIn);
+    [clockPort, this.controlPort].forEach(port => { if (port) port.onmidimessage = e => this.receive(e, port); });
+  }
+
+  private receive(event: MIDIMessageEvent, port: MIDIInput) {
+    const data = event.data;
+    if (!data?.length) return;
+    if (port === this.controlPort && data[0] < 0xf0) this.messageListeners.forEach(l => l(data));
+    if (port === this.clockPort) this.receiveClock(data[0], event.timeStamp);
+  }
+
+  private receiveClock(status: number, timeStamp: number) {
+    if (status === CLOCK) {
+      this.tickTimes.push(timeStamp);
+      if (this.tickTimes.length > FOLLOW_TICKS + 1) this.tickTimes.shift();
+      if (this.tickTimes.length <= FOLLOW_TICKS) return;
+      const perTick = (this.tickTimes[FOLLOW_TICKS] - this.tickTimes[0]) / FOLLOW_TICKS;
+      const bpm = Math.round(60000 / (perTick * CLOCK_PPQN));
+      if (!isFinite(bpm) || bpm === this.followedBpm) return;
+      this.followedBpm = bpm;
+      this.tempoListeners.forEach(l => l(bpm));
+      this.emit();
+    } else if (status === START || status === CONTINUE || status === STOP) {
+      this.tickTimes = [];
+      this.transportListeners.forEach(l => l(status !== STOP));
+    }
+  }
+}
@@ -0,0 +1,302 @@
+import { MasterDNA, SectionKey } from '../types';
+import { NoteEvent } from './audioEngine';
+import { SteeringFeedback } from './steering';
+import { AnalyserLike, VisualSource } from './visualizer';
+
+// --- Window Sync ---
+// Several windows of the app (the dashboard, an orb popup, a visualizer on a second screen) share
+// one audio engine. Windows talk over a BroadcastChannel and elect a leader by heartbeat: the
+// leader owns the engine and publishes its state, the others mirror it and send commands back.
+// When the leader closes (or goes quiet) a follower takes over with the last state it mirrored.
+
+export interface SyncState {
+  dna: MasterDNA;
+  bpm: number;
+  currentStep: number;
+  currentSection: SectionKey;
+  status: string;
+  isActive: boolean;
+}
+
+export type SyncCommand =
+  | { type: 'transport'; playing: boolean }
+  | { type: 'regenerate'; feedback?: SteeringFeedback }
+  | { type: 'bpm'; bpm: number }
+  | { type: 'dna'; dna: MasterDNA };
+
+// Analyser bytes and notes from the leader's engine, note times on the shared wall clock (ms).
+export interface SyncVisuals {
+  spectrum?: Uint8Array;
+  waveform?: Uint8Array;
+  notes?: NoteEvent[];
+}
+
+export type SyncMessage =
+  | { type: 'hello'; from: string }
+  | { type: 'heartbeat'; from: string; leader: boolean; since: number }
+  | { type: 'bye'; from: string }
+  | { type: 'state'; from: string; state: SyncState }
+  | { type: 'command'; from: string; command: SyncCommand }
+  | { type: 'visuals'; from: string; visuals: SyncVisuals };
+
+// The part of BroadcastChannel the sync uses, so tests can link windows in memory.
+export interface SyncChannel {
+  postMessage(message: SyncMessage): void;
+  onmessage: ((event: { data: SyncMessage }) => void) | null;
+  close(): void;
+}
+
+const CHANNEL_NAME = 'neural-strudel.sync.v1';
+const HEARTBEAT_MS = 1000;
+// A window that hears no leader within DISCOVERY_MS of opening leads; a follower takes over
+// after LEADER_TIMEOUT_MS without a heartbeat (a crashed or frozen leader never says bye).
+const DISCOVERY_MS = 300;
+const LEADER_TIMEOUT_MS = 3000;
+const PEER_TIMEOUT_MS = 3000;
+// Analyser frames go out at most this often; notes go out as they are scheduled.
+const FRAME_RELAY_MS = 50;
+
+const wallClock = () => performance.timeOrigin + performance.now();
+
+const openChannel = (): SyncChannel | null =>
+  typeof BroadcastChannel === 'undefined' ? null : (new BroadcastChannel(CHANNEL_NAME) as unknown as SyncChannel);
+
+export class WindowSync {
+  readonly id: string;
+  private leader = false;
+  // When this window became leader; of two leaders the older one stays.
+  private since = 0;
+  private leaderId: string | null = null;
+  private lastLeaderSeen = 0;
+  private peers = new Map<string, number>();
+  private lastState: SyncState | null = null;
+  private lastFrame = 0;
+  private discovery: ReturnType<typeof setTimeout> | undefined;
+  private heartbeats: ReturnType<typeof setInterval> | undefined;
+  private listeners = new Set<() => void>();
+  private stateListeners = new Set<(state: SyncState) => void>();
+  private commandListeners = new Set<(command: SyncCommand) => void>();
+  private visualsListeners = new Set<(visuals: SyncVisuals) => void>();
+
+  constructor(
+    private channel: SyncChannel | null = openChannel(),
+    private now: () => number = Date.now
+  ) {
+    this.id = `${this.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    if (!this.channel) {
+      // Nothing to sync with: this window is the only one there is.
+      this.promote();
+      return;
+    }
+    this.channel.onmessage = event => this.receive(event.data);
+    this.post({ type: 'hello', from: this.id });
+    this.discovery = setTimeout(() => { if (!this.leaderId) this.promote(); }, DISCOVERY_MS);
+    this.heartbeats = setInterval(() => this.tick(), HEARTBEAT_MS);
+  }
+
+  // Whether sync is possible at all (BroadcastChannel support).
+  get linked() {
+    return this.channel !== null;
+  }
+
+  isLeader() {
+    return this.leader;
+  }
+
+  // Other windows heard from recently.
+  peerCount() {
+    return this.peers.size;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  // Followers: the leader's state, on every change and once on joining.
+  onState(listener: (state: SyncState) => void) {
+    this.stateListeners.add(listener);
+    return () => { this.stateListeners.delete(listener); };
+  }
+
+  // Leader: commands sent from other windows.
+  onCommand(listener: (command: SyncCommand) => void) {
+    this.commandListeners.add(listener);
+    return () => { this.commandListeners.delete(listener); };
+  }
+
+  onVisuals(listener: (visuals: SyncVisuals) => void) {
+    this.visualsListeners.add(listener);
+    return () => { this.visualsListeners.delete(listener); };
+  }
+
+  publishState(state: SyncState) {
+    this.lastState = state;
+    if (this.leader && this.peers.size) this.post({ type: 'state', from: this.id, state });
+  }
+
+  // Visuals are the bulk of the traffic, so they are skipped while no other window is listening.
+  publishFrame(spectrum: Uint8Array, waveform: Uint8Array) {
+    if (!this.relaying()) return;
+    const now = this.now();
+    if (now - this.lastFrame < FRAME_RELAY_MS) return;
+    this.lastFrame = now;
+    this.post({ type: 'visuals', from: this.id, visuals: { spectrum, waveform } });
+  }
+
+  publishNotes(notes: NoteEvent[]) {
+    if (this.relaying()) this.post({ type: 'visuals', from: this.id, visuals: { notes } });
+  }
+
+  send(command: SyncCommand) {
+    if (this.leader) this.commandListeners.forEach(l => l(command));
+    else this.post({ type: 'command', from: this.id, command });
+  }
+
+  // Leaves the group; a leader hands over at once instead of waiting for the timeout.
+  close() {
+    clearTimeout(this.discovery);
+    clearInterval(this.heartbeats);
+    if (!this.channel) return;
+    this.post({ type: 'bye', from: this.id });
+    this.channel.onmessage = null;
+    this.channel.close();
+    this.channel = null;
+  }
+
+  private relaying() {
+    return this.leader && this.peers.size > 0;
+  }
+
+  private post(message: SyncMessage) {
+    this.channel?.postMessage(message);
+  }
+
+  private emit() {
+    this.listeners.forEach(l => l());
+  }
+
+  private heartbeat() {
+    this.post({ type: 'heartbeat', from: this.id, leader: this.leader, since: this.since });
+  }
+
+  private promote() {
+    if (this.leader) return;
+    this.leader = true;
+    this.since = this.now();
+    this.leaderId = this.id;
+    this.heartbeat();
+    this.emit();
+  }
+
+  private demote(leaderId: string) {
+    this.leader = false;
+    this.leaderId = leaderId;
+    this.lastLeaderSeen = this.now();
+    this.emit();
+  }
+
+  private tick() {
+    const now = this.now();
+    let changed = false;
+    this.peers.forEach((seen, id) => {
+      if (now - seen > PEER_TIMEOUT_MS) { this.peers.delete(id); changed = true; }
+    });
+    if (!this.leader && this.leaderId && now - this.lastLeaderSeen > LEADER_TIMEOUT_MS) this.promote();
+    this.heartbeat();
+    if (changed) this.emit();
+  }
+
+  private receive(message: SyncMessage) {
+    if (message.from === this.id) return;
+    const known = this.peers.has(message.from);
+    if (message.type !== 'bye') this.peers.set(message.from, this.now());
+    // Anything from the leader shows it is alive, even when its heartbeat timer is throttled.
+    if (message.from === this.leaderId) this.lastLeaderSeen = this.now();
+    switch (message.type) {
+      case 'hello':
+        // Answer at once so the newcomer doesn't promote itself, and bring it up to date.
+        this.heartbeat();
+        if (this.leader && this.lastState) this.post({ type: 'state', from: this.id, state: this.lastState });
+        break;
+      case 'heartbeat':
+        if (!message.leader) break;
+        if (this.leader) {
+          // Two leaders (a race at startup, or a stalled leader waking up): the one that led first stays.
+          const older = message.since < this.since || (message.since === this.since && message.from < this.id);
+          if (older) this.demote(message.from);
+        } else {
+          this.leaderId = message.from;
+          this.lastLeaderSeen = this.now();
+        }
+        break;
+      case 'bye':
+        this.peers.delete(message.from);
+        if (message.from === this.leaderId) this.promote();
+        this.emit();
+        return;
+      case 'state':
+        if (!this.leader) this.stateListeners.forEach(l => l(message.state));
+        break;
+      case 'command':
+        if (this.leader) this.commandListeners.forEach(l => l(message.command));
+        break;
+      case 'visuals':
+        if (!this.leader) this.visualsListeners.forEach(l => l(message.visuals));
+        break;
+    }
+    if (!known) this.emit();
+  }
+}
+
+// Moves a note from the leader's audio clock onto the wall clock every window shares.
+export const toWallClock = (note: NoteEvent, context: BaseAudioContext): NoteEvent => ({
+  ...note,
+  time: wallClock() + (note.time - context.currentTime) * 1000
+});
+
+// Feeds the visualizer of a follower window from the leader's relayed analyser and notes. It stands
+// in for both the engine and its analyser; the clock is the wall clock the notes were moved onto.
+export class VisualMirror implements VisualSource, AnalyserLike {
+  private spectrum = new Uint8Array(0);
+  private waveform = new Uint8Array(0);
+  private noteListeners = new Set<(event: NoteEvent) => void>();
+
+  readonly context = {
+    get currentTime() { return wallClock() / 1000; }
+  };
+
+  get analyser() {
+    return this.spectrum.length ? this : null;
+  }
+
+  get frequencyBinCount() {
+    return this.spectrum.length;
+  }
+
+  get fftSize() {
+    return this.waveform.length;
+  }
+
+  getByteFrequencyData(out: Uint8Array) {
+    out.set(this.spectrum.subarray(0, out.length));
+  }
+
+  getByteTimeDomainData(out: Uint8Array) {
+    out.set(this.waveform.subarray(0, out.length));
+  }
+
+  onNote(listener: (event: NoteEvent) => void) {
+    this.noteListeners.add(listener);
+    return () => { this.noteListeners.delete(listener); };
+  }
+
+  push({ spectrum, waveform, notes }: SyncVisuals) {
+    if (spectrum) this.spectrum = spectrum;
+    if (waveform) this.waveform = waveform;
+    notes?.forEach(note => {
+      const event = { ...note, time: note.time / 1000 };
+      this.noteListeners.forEach(l => l(event));
+    });
+  }
+}
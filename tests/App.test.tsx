@@ -0,0 +1,219 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { App } from '../App';
+import { AudioEngine } from '../services/audioEngine';
+import { INITIAL_BPM, INITIAL_DNA, RECOMPOSE_INTERVAL } from '../constants';
+import { FakeAudioContext } from './fakeAudioContext';
+import { FakeComposer } from './fakeComposer';
+
+vi.mock('../services/localComposer', async importOriginal => ({
+  ...await importOriginal<typeof import('../services/localComposer')>(),
+  LocalComposer: (await import('./fakeComposer')).FakeComposer
+}));
+
+// Lets pending promises (engine init, compose replies) settle and React commit.
+const flush = () => act(async () => {});
+
+const advance = (ms: number) => act(() => vi.advanceTimersByTimeAsync(ms));
+
+const status = () => screen.getByText(/AI Orchestrator v5\.2/).textContent;
+
+const genre = () => screen.getByText('GENRE').nextElementSibling!.textContent;
+
+const composed = () => FakeComposer.last.requests;
+
+const play = async () => {
+  fireEvent.click(screen.getByText('INIT_AI'));
+  await flush();
+};
+
+describe('App', () => {
+  let setTempo: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    window.localStorage.clear();
+    window.history.replaceState(null, '', '/');
+    FakeComposer.instances = [];
+    // Without a key the app composes locally, i.e. with the fake.
+    vi.stubEnv('API_KEY', '');
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    // A single window: no sync peers, this one leads.
+    vi.stubGlobal('BroadcastChannel', undefined);
+    vi.stubGlobal('fetch', vi.fn(() => Promise.reject(new Error('offline'))));
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(null);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    setTempo = vi.spyOn(AudioEngine.prototype, 'setTempo');
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  describe('composition lifecycle', () => {
+    it('composes on start and again every recompose interval', async () => {
+      render(<App />);
+      await play();
+      expect(composed()).toHaveLength(1);
+      expect(composed()[0].bpm).toBe(INITIAL_BPM);
+      expect(status()).toContain('FAKE_1');
+
+      await advance(RECOMPOSE_INTERVAL);
+      expect(composed()).toHaveLength(2);
+      expect(status()).toContain('FAKE_2');
+    });
+
+    it('recycles the session once the recall pool is full', async () => {
+      render(<App />);
+      await play();
+      await advance(2 * RECOMPOSE_INTERVAL);
+      expect(composed()).toHaveLength(3);
+
+      // Pool of three at this BPM: later cycles replay it, oldest first, without composing.
+      await advance(RECOMPOSE_INTERVAL);
+      expect(composed()).toHaveLength(3);
+      expect(status()).toContain('FAKE_1 (CACHED)');
+      await advance(RECOMPOSE_INTERVAL);
+      expect(status()).toContain('FAKE_2 (CACHED)');
+    });
+
+    it('drops a reply composed for the old BPM when the tempo is nudged', async () => {
+      render(<App />);
+      FakeComposer.last.script({ delayMs: 5000 });
+      await play();
+      expect(composed()).toHaveLength(1);
+
+      fireEvent.keyDown(window, { key: '=' });
+      expect(composed()[0].signal?.aborted).toBe(true);
+      await advance(5000);
+      expect(genre()).toBe(INITIAL_DNA.genre);
+      expect(setTempo).toHaveBeenLastCalledWith(INITIAL_BPM + 1, expect.any(Number));
+    });
+
+    it('starts a new session when a new BPM is confirmed', async () => {
+      const { container } = render(<App />);
+      await play();
+      await advance(3 * RECOMPOSE_INTERVAL);
+      expect(status()).toContain('(CACHED)');
+
+      fireEvent.change(container.querySelector('input[type="range"][max="180"]')!, { target: { value: '140' } });
+      fireEvent.click(screen.getByText('Confirm_New_Speed'));
+      await flush();
+      expect(composed()).toHaveLength(4);
+      expect(composed()[3].bpm).toBe(140);
+      expect(status()).toContain('FAKE_4');
+    });
+  });
+
+  describe('undo', () => {
+    it('steps back through composed DNA', async () => {
+      render(<App />);
+      await play();
+      await advance(RECOMPOSE_INTERVAL);
+      expect(genre()).toBe('FAKE_2');
+
+      fireEvent.click(screen.getByText('Undo'));
+      expect(genre()).toBe('FAKE_1');
+      fireEvent.click(screen.getByText('Undo'));
+      expect(genre()).toBe(INITIAL_DNA.genre);
+      fireEvent.click(screen.getByText('Redo'));
+      expect(genre()).toBe('FAKE_1');
+    });
+
+    it('records a slider drag as one step', () => {
+      const { container } = render(<App />);
+      const slider = () => container.querySelector<HTMLInputElement>('input[type="range"][step="0.05"][title]')!;
+      const before = slider().value;
+      ['0.2', '0.4', '0.6'].forEach(value => fireEvent.change(slider(), { target: { value } }));
+      fireEvent.pointerUp(slider());
+      fireEvent.change(slider(), { target: { value: '0.8' } });
+      fireEvent.pointerUp(slider());
+      expect(slider().value).toBe('0.8');
+
+      fireEvent.click(screen.getByText('Undo'));
+      expect(slider().value).toBe('0.6');
+      fireEvent.click(screen.getByText('Undo'));
+      expect(slider().value).toBe(before);
+      expect((screen.getByText('Undo') as HTMLButtonElement).disabled).toBe(true);
+    });
+  });
+
+  describe('session recording', () => {
+    it('logs the transport, composed DNA and user actions of a take', async () => {
+      render(<App />);
+      fireEvent.click(screen.getByText('Session'));
+      fireEvent.click(screen.getByText('Record'));
+      await flush();
+      await play();
+      fireEvent.click(screen.getByText('Undo'));
+      fireEvent.click(screen.getByText('Stop_Recording'));
+
+      expect(status()).toContain('SESSION_RECORDED');
+      expect(screen.getByText('PLAY')).toBeTruthy();
+      expect(screen.getByText(/^NEXT_bar \/\/ FAKE_1/)).toBeTruthy();
+      expect(screen.getByText(/^compose \/\/ .*"FAKE_1"/)).toBeTruthy();
+      expect(screen.getByText('undo')).toBeTruthy();
+      expect((screen.getByText('Replay') as HTMLButtonElement).disabled).toBe(false);
+    });
+  });
+
+  describe('BPM controls', () => {
+    it('holds a slider move until it is confirmed', async () => {
+      const { container } = render(<App />);
+      const slider = container.querySelector('input[type="range"][max="180"]')!;
+      fireEvent.change(slider, { target: { value: '90' } });
+      expect(setTempo).not.toHaveBeenCalled();
+
+      fireEvent.click(screen.getByText('Confirm_New_Speed'));
+      expect(setTempo).toHaveBeenCalledWith(90, expect.any(Number));
+      expect(screen.queryByText('Confirm_New_Speed')).toBeNull();
+    });
+
+    it('steps the tempo while a mini-mode side is held', async () => {
+      window.history.replaceState(null, '', '/?view=orb');
+      render(<App />);
+      const plus = screen.getByText('+').parentElement!;
+
+      fireEvent.mouseDown(plus);
+      await advance(600);
+      fireEvent.mouseUp(plus);
+      expect(screen.getByText(String(INITIAL_BPM + 10))).toBeTruthy();
+      expect(setTempo).toHaveBeenLastCalledWith(INITIAL_BPM + 10, expect.any(Number));
+
+      await advance(600);
+      expect(screen.getByText(String(INITIAL_BPM + 10))).toBeTruthy();
+
+      const minus = screen.getByText('−').parentElement!;
+      fireEvent.mouseDown(minus);
+      await advance(300);
+      fireEvent.mouseLeave(minus);
+      await advance(300);
+      expect(screen.getByText(String(INITIAL_BPM + 5))).toBeTruthy();
+    });
+
+    it('applies a typed mini-mode BPM and ignores one that is not a number', async () => {
+      window.history.replaceState(null, '', '/?view=orb');
+      render(<App />);
+
+      fireEvent.doubleClick(screen.getByText(String(INITIAL_BPM)));
+      let field = screen.getByDisplayValue(String(INITIAL_BPM));
+      fireEvent.change(field, { target: { value: 'abc' } });
+      fireEvent.submit(field.closest('form')!);
+      expect(screen.queryByRole('textbox')).toBeNull();
+      expect(screen.getByText(String(INITIAL_BPM))).toBeTruthy();
+      expect(setTempo).not.toHaveBeenCalled();
+
+      fireEvent.doubleClick(screen.getByText(String(INITIAL_BPM)));
+      field = screen.getByDisplayValue(String(INITIAL_BPM));
+      fireEvent.change(field, { target: { value: '128' } });
+      fireEvent.submit(field.closest('form')!);
+      expect(screen.getByText('128')).toBeTruthy();
+      expect(setTempo).toHaveBeenCalledWith(128, expect.any(Number));
+    });
+  });
+});
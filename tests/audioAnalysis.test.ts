@@ -0,0 +1,29 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { analyzeSamples, mixDown } from '../services/audioAnalysis';
+import { decodeWav } from '../services/wavEncoder';
+import { parseScale } from '../services/theory';
+
+// The fixtures and their known tempo, key and loudness (see fixtures/audio/README.md).
+const FIXTURES: [file: string, bpm: number, scale: string, loudness: number][] = [
+  ['pulse-120bpm-a-minor.wav', 120, 'A Minor', 0.84],
+  ['pulse-96bpm-eb-major.wav', 96, 'Eb Major', 0.82],
+  ['quiet-140bpm-fsharp-minor.wav', 140, 'F# Minor', 0.29]
+];
+
+const analyze = (file: string) => {
+  const bytes = readFileSync(new URL(`../fixtures/audio/${file}`, import.meta.url));
+  const pcm = decodeWav(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+  const channels = Array.from({ length: pcm.numberOfChannels }, (_, c) => pcm.getChannelData(c));
+  return analyzeSamples(mixDown(channels), pcm.sampleRate);
+};
+
+describe('analyzeSamples', () => {
+  it.each(FIXTURES)('%s: %i BPM in %s', (file, bpm, scale, loudness) => {
+    const result = analyze(file);
+    expect(result.bpm).toBeCloseTo(bpm, 0);
+    // Compared as pitch classes: the analysis may spell a key with sharps.
+    expect(parseScale(result.scale ?? '')).toEqual(parseScale(scale));
+    expect(result.loudness).toBeCloseTo(loudness, 1);
+  });
+});
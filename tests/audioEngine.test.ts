@@ -0,0 +1,163 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AudioEngine, StepEvent } from '../services/audioEngine';
+import { midiToFreq } from '../services/theory';
+import { createRng } from '../services/random';
+import { FakeAudioContext } from './fakeAudioContext';
+import { bassOn, dna, section } from './dna';
+
+const BASS = 36;
+const OTHER_BASS = 43;
+
+const setup = async (music = dna(), bpm = 120) => {
+  const ctx = new FakeAudioContext();
+  const engine = new AudioEngine({ context: ctx as unknown as BaseAudioContext, bpm, dna: music, random: createRng(1) });
+  await engine.init();
+  return { ctx, engine };
+};
+
+// Offline-style scheduling: cue the top, schedule everything before `seconds`.
+const schedule = async (music: ReturnType<typeof dna>, bpm: number, seconds: number) => {
+  const { ctx, engine } = await setup(music, bpm);
+  const events: StepEvent[] = [];
+  engine.onSchedule(e => events.push(e));
+  engine.cue(0, 0);
+  engine.scheduleUntil(seconds);
+  return { ctx, engine, events };
+};
+
+const close = (times: number[], expected: number[]) => {
+  expect(times).toHaveLength(expected.length);
+  times.forEach((t, i) => expect(t).toBeCloseTo(expected[i], 9));
+};
+
+describe('AudioEngine scheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([120, 90, 174])('plays steps on the 16th-note grid at %i BPM', async bpm => {
+    const music = dna({ sections: { A: section({ bassLine: bassOn(16, [0, 8], BASS) }) } });
+    const step = 60 / bpm / 4;
+    // One section is SECTION_BARS (2) bars of 16 steps.
+    const { ctx } = await schedule(music, bpm, 32 * step - 1e-6);
+    close(ctx.startsAt(midiToFreq(BASS)), [0, 8, 16, 24].map(s => s * step));
+  });
+
+  it('walks the arrangement, each section in its own meter', async () => {
+    const music = dna({
+      sections: {
+        A: section({ bassLine: bassOn(16, [0], BASS) }),
+        B: section({ steps: 12, timeSignature: [3, 4], bassLine: bassOn(12, [0], OTHER_BASS) })
+      },
+      arrangement: [
+        { section: 'A', repeats: 1, energy: 0.5, fill: false },
+        { section: 'B', repeats: 1, energy: 0.5, fill: false }
+      ]
+    });
+    // 120 BPM: a 4/4 bar is 2 s, a 3/4 bar 1.5 s; A takes 4 s, B 3 s, then the form loops.
+    const { ctx, events } = await schedule(music, 120, 9);
+    close(ctx.startsAt(midiToFreq(BASS)), [0, 2, 7]);
+    close(ctx.startsAt(midiToFreq(OTHER_BASS)), [4, 5.5]);
+    expect(events.filter(e => e.section === 'B').map(e => e.time)[0]).toBe(4);
+    expect(events.filter(e => e.section === 'B')).toHaveLength(24);
+  });
+
+  it('repeats a slot before moving to the next', async () => {
+    const music = dna({
+      sections: { A: section(), B: section({ bassLine: bassOn(16, [0], OTHER_BASS) }) },
+      arrangement: [
+        { section: 'A', repeats: 2, energy: 0.5, fill: false },
+        { section: 'B', repeats: 1, energy: 0.5, fill: false }
+      ]
+    });
+    const { ctx } = await schedule(music, 120, 12 - 1e-6);
+    close(ctx.startsAt(midiToFreq(OTHER_BASS)), [8, 10]);
+  });
+
+  it('swing delays every second step by a third of a step at most', async () => {
+    const music = dna({ sections: { A: section({ swing: 1, bassLine: bassOn(16, [0, 1, 2, 3], BASS) }) } });
+    const { ctx } = await schedule(music, 120, 0.5 - 1e-6);
+    const step = 0.125;
+    close(ctx.startsAt(midiToFreq(BASS)), [0, step + step / 3, 2 * step, 3 * step + step / 3]);
+  });
+
+  it('swings each step by its own length during a tempo ramp', async () => {
+    const ctx = new FakeAudioContext();
+    const music = dna({ sections: { A: section({ swing: 1, bassLine: bassOn(16, [0, 1, 2, 3, 4, 5, 6, 7], BASS) }) } });
+    const engine = new AudioEngine({ context: ctx as unknown as BaseAudioContext, bpm: 120, dna: music, random: createRng(1), manual: true });
+    await engine.init();
+    const events: StepEvent[] = [];
+    engine.onSchedule(e => events.push(e));
+    engine.start(0);
+    // Halves the tempo over one bar: every step is longer than the one before it.
+    engine.setTempo(60, 1);
+    engine.scheduleUntil(1.5);
+    const steps = events.filter(e => e.stepIdx < 8);
+    expect(steps).toHaveLength(8);
+    close(ctx.startsAt(midiToFreq(BASS)).slice(0, 8), steps.map(e => e.time + (e.stepIdx % 2 ? e.duration / 3 : 0)));
+    engine.stop();
+  });
+
+  it('micro-timing pushes a step off the grid', async () => {
+    const microTiming = Array(16).fill(0);
+    microTiming[4] = -0.5;
+    const music = dna({ sections: { A: section({ microTiming, bassLine: bassOn(16, [4], BASS) }) } });
+    const { ctx } = await schedule(music, 120, 1);
+    close(ctx.startsAt(midiToFreq(BASS)), [4 * 0.125 - 0.0625]);
+  });
+
+  it('reports each scheduled step with its section, index and duration', async () => {
+    const { events } = await schedule(dna(), 100, 0.6);
+    const step = 60 / 100 / 4;
+    expect(events.map(e => e.stepIdx)).toEqual([0, 1, 2, 3]);
+    events.forEach((e, i) => {
+      expect(e.section).toBe('A');
+      expect(e.time).toBeCloseTo(i * step, 9);
+      expect(e.duration).toBeCloseTo(step, 9);
+    });
+  });
+
+  it('swaps a queued DNA on the next bar and an edit on the next step', async () => {
+    vi.useFakeTimers();
+    const { ctx, engine } = await setup(dna({ sections: { A: section({ bassLine: bassOn(16, [0, 4, 8, 12], BASS) }) } }));
+    // Realtime loop: the clock moves in scheduler ticks.
+    const play = (seconds: number) => {
+      for (let t = 0; t < seconds; t += 0.04) {
+        ctx.advance(0.04);
+        vi.advanceTimersByTime(40);
+      }
+    };
+    engine.start(0);
+    play(0.5);
+    engine.queueDNA(dna({ sections: { A: section({ bassLine: bassOn(16, [0, 4, 8, 12], OTHER_BASS) }) } }), { quantize: 'bar', morphBars: 0 });
+    play(2);
+    // The first bar plays out in the old DNA; the new one starts on bar 2 (2 s at 120 BPM).
+    close(ctx.startsAt(midiToFreq(BASS)), [0, 0.5, 1, 1.5]);
+    expect(ctx.startsAt(midiToFreq(OTHER_BASS))[0]).toBeCloseTo(2, 9);
+
+    engine.setDNA(dna({ sections: { A: section({ bassLine: Array(16).fill(BASS) }) } }));
+    const from = engine.position.time;
+    play(0.3);
+    expect(ctx.startsAt(midiToFreq(BASS)).filter(t => t >= from - 1e-9)[0]).toBeCloseTo(from, 9);
+    engine.stop();
+  });
+
+  it('lines up with another position on seek', async () => {
+    const { engine } = await setup(dna({ sections: { A: section(), B: section() }, arrangement: [
+      { section: 'A', repeats: 1, energy: 0.5, fill: false },
+      { section: 'B', repeats: 2, energy: 0.5, fill: false }
+    ] }));
+    const events: StepEvent[] = [];
+    engine.onSchedule(e => events.push(e));
+    engine.seek(10, { slot: 1, pass: 1, sectionStep: 20, beat: 17 });
+    engine.scheduleUntil(10.2);
+    expect(events[0]).toMatchObject({ section: 'B', stepIdx: 4, time: 10, beat: 17 });
+    expect(engine.position).toMatchObject({ slot: 1, pass: 1, sectionStep: 22, beat: 17.5 });
+  });
+
+  it('ignores a tempo the step clock cannot run on', async () => {
+    const { engine } = await setup();
+    [-120, 0, NaN, Infinity].forEach(bpm => engine.setTempo(bpm));
+    expect(engine.getTempo()).toBe(120);
+  });
+});
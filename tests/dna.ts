@@ -0,0 +1,41 @@
+import { MasterDNA, SectionDNA } from '../types';
+import { INITIAL_DNA } from '../constants';
+
+// --- Test DNA ---
+// Sparse, fully deterministic material: probMap 1 everywhere, no swing, free harmony (notes
+// play as written), and every part silent unless a test switches it on.
+
+const silent = (steps: number) => Array(steps).fill(0);
+
+export const section = (patch: Partial<SectionDNA> = {}): SectionDNA => {
+  const steps = patch.steps ?? 16;
+  return {
+    drums: { kick: silent(steps), snare: silent(steps), hihat: silent(steps), glitch: silent(steps), clap: silent(steps), openhat: silent(steps) },
+    bassLine: silent(steps),
+    leadMelody: Array(steps).fill(null),
+    chordProgression: [[72, 76, 79]],
+    arpPattern: silent(steps),
+    arpMode: 'up',
+    probMap: Array(steps).fill(1),
+    steps,
+    timeSignature: [4, 4],
+    subdivision: 4,
+    swing: 0,
+    velocity: Array(steps).fill(1),
+    microTiming: silent(steps),
+    ...patch
+  };
+};
+
+// A bass line with `note` on the given steps.
+export const bassOn = (steps: number, hits: number[], note: number) =>
+  Array.from({ length: steps }, (_, i) => (hits.includes(i) ? note : 0));
+
+export const dna = (patch: Partial<MasterDNA> = {}): MasterDNA => ({
+  ...INITIAL_DNA,
+  sections: { A: section() },
+  arrangement: [{ section: 'A', repeats: 1, energy: 0.5, fill: false }],
+  harmony: 'free',
+  aiThought: undefined,
+  ...patch
+});
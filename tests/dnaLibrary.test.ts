@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RECALL_POLICY, DnaLibrary, createMemoryStore, decodeShare, encodeShare, loadRecallPolicy } from '../services/dnaLibrary';
+import { dna } from './dna';
+
+describe('DnaLibrary', () => {
+  it('stores the same DNA at the same BPM once', () => {
+    const store = createMemoryStore();
+    const library = new DnaLibrary(store);
+    const first = library.add(dna({ genre: 'Shared' }), 120, 'share');
+    expect(library.add(dna({ genre: 'Shared' }), 120, 'share')).toBe(first);
+    // Survives a reload: the persisted copy still matches.
+    expect(new DnaLibrary(store).add(dna({ genre: 'Shared' }), 120, 'share').id).toBe(first.id);
+    expect(new DnaLibrary(store).list()).toHaveLength(1);
+  });
+
+  it('keeps different DNA, or the same DNA at another BPM, apart', () => {
+    const library = new DnaLibrary(createMemoryStore());
+    library.add(dna({ genre: 'One' }), 120, 'local');
+    library.add(dna({ genre: 'Two' }), 120, 'local');
+    library.add(dna({ genre: 'One' }), 90, 'local');
+    expect(library.list().map(e => e.name)).toEqual(['One @ 90', 'Two @ 120', 'One @ 120']);
+  });
+
+  it('narrows stored entries and drops those it cannot recall', () => {
+    const store = createMemoryStore();
+    store.setItem('neural-strudel.library.v1', JSON.stringify([
+      { id: 'a', dna: dna({ genre: 'Kept' }), bpm: 120, tags: ['ok', 7, null], createdAt: 'yesterday', favourite: 'yes', source: 'elsewhere' },
+      { id: 'b', dna: dna(), bpm: -120 },
+      { id: 'c', dna: dna(), bpm: '120' },
+      { dna: dna(), bpm: 120 },
+      'junk'
+    ]));
+    expect(new DnaLibrary(store).list()).toEqual([expect.objectContaining({
+      id: 'a', name: 'Kept @ 120', bpm: 120, genre: 'Kept', tags: ['ok'], createdAt: 0, favourite: false, source: 'local'
+    })]);
+  });
+});
+
+describe('recall policy', () => {
+  it('falls back to the default for each saved setting it cannot use', () => {
+    const store = createMemoryStore();
+    store.setItem('neural-strudel.recall-policy.v1', JSON.stringify({ mode: 'library', poolSize: 0, favouritesOnly: 'no' }));
+    expect(loadRecallPolicy(store)).toEqual({ ...DEFAULT_RECALL_POLICY, mode: 'library' });
+    store.setItem('neural-strudel.recall-policy.v1', JSON.stringify({ mode: 'always', poolSize: 5, favouritesOnly: true }));
+    expect(loadRecallPolicy(store)).toEqual({ mode: DEFAULT_RECALL_POLICY.mode, poolSize: 5, favouritesOnly: true });
+  });
+});
+
+describe('share links', () => {
+  it('round-trips a DNA and rejects a BPM outside the controls', async () => {
+    expect(await decodeShare(await encodeShare({ dna: dna({ genre: 'Shared' }), bpm: 96 }))).toMatchObject({ bpm: 96, dna: { genre: 'Shared' } });
+    await expect(decodeShare(await encodeShare({ dna: dna(), bpm: 9999 }))).rejects.toThrow('Share link has no BPM');
+    await expect(decodeShare(await encodeShare({ dna: dna(), bpm: -1 }))).rejects.toThrow('Share link has no BPM');
+  });
+});
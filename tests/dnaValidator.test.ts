@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { validateDNA } from '../services/dnaValidator';
+import { isInScale, parseScale } from '../services/theory';
+import { INITIAL_DNA } from '../constants';
+import { dna, section } from './dna';
+
+const notesOf = (result: ReturnType<typeof validateDNA>, key = 'A') => {
+  const s = result.dna.sections[key];
+  return [...s.bassLine, ...s.leadMelody, ...s.chordProgression.flat()].filter((n): n is number => typeof n === 'number' && n > 0);
+};
+
+describe('validateDNA', () => {
+  it('passes valid DNA through without fixes', () => {
+    const music = dna({ scale: 'C Major' });
+    const { dna: result, fixes } = validateDNA(music);
+    expect(fixes).toEqual([]);
+    expect(result.sections.A).toEqual(music.sections.A);
+  });
+
+  describe('notes', () => {
+    it('clamps notes past the MIDI range', () => {
+      const leadMelody = Array(16).fill(null);
+      leadMelody[0] = 200;
+      const { dna: result, fixes } = validateDNA(dna({ scale: 'C Major', sections: { A: section({ leadMelody, chordProgression: [[130, 60]] }) } }));
+      expect(result.sections.A.leadMelody[0]).toBe(127);
+      expect(result.sections.A.chordProgression).toEqual([[127, 60]]);
+      expect(fixes).toContain('A.leadMelody[0]: 200→127');
+    });
+
+    it('keeps notes snapped below the range inside it', () => {
+      // C (0) is off D major; its nearest lower neighbour would be B at -1.
+      const { dna: result, fixes } = validateDNA(dna({ scale: 'D Major', sections: { A: section({ chordProgression: [[0, 62]] }) } }));
+      expect(result.sections.A.chordProgression).toEqual([[11, 62]]);
+      expect(fixes).toContain('A.chordProgression[0][0]: 0→11');
+    });
+
+    it('turns non-positive and unreadable pitches into rests', () => {
+      const bassLine: unknown[] = Array(16).fill(0);
+      bassLine[0] = -5;
+      bassLine[1] = 'banana';
+      bassLine[2] = 'E2';
+      const { dna: result } = validateDNA(dna({ scale: 'C Major', sections: { A: section({ bassLine: bassLine as number[] }) } }));
+      expect(result.sections.A.bassLine.slice(0, 3)).toEqual([0, 0, 40]);
+    });
+
+    it('snaps off-scale notes to the nearest scale tone, the lower one on ties', () => {
+      const bassLine = Array(16).fill(0);
+      bassLine[0] = 61;   // C#: between C and D
+      bassLine[1] = 66;   // F#: between F and G
+      const leadMelody = Array(16).fill(null);
+      leadMelody[0] = 70; // Bb
+      const { dna: result, fixes } = validateDNA(dna({ scale: 'C Major', sections: { A: section({ bassLine, leadMelody }) } }));
+      expect(result.sections.A.bassLine.slice(0, 2)).toEqual([60, 65]);
+      expect(result.sections.A.leadMelody[0]).toBe(69);
+      expect(fixes).toEqual(expect.arrayContaining(['A.bassLine[0]: 61→60', 'A.leadMelody[0]: 70→69']));
+    });
+
+    it('leaves every note in a valid MIDI key for any scale', () => {
+      const chordProgression = [Array.from({ length: 12 }, (_, i) => i), Array.from({ length: 12 }, (_, i) => 116 + i)];
+      ['C Major', 'D Major', 'F# Minor', 'Bb Dorian', 'B Major'].forEach(scale => {
+        const result = validateDNA(dna({ scale, sections: { A: section({ chordProgression }) } }));
+        const parsed = parseScale(scale)!;
+        notesOf(result).forEach(n => {
+          expect(n).toBeGreaterThanOrEqual(0);
+          expect(n).toBeLessThanOrEqual(127);
+          expect(isInScale(n, parsed)).toBe(true);
+        });
+      });
+    });
+
+    it('keeps notes verbatim when snapping is off', () => {
+      const bassLine = Array(16).fill(0);
+      bassLine[0] = 61;
+      const { dna: result } = validateDNA(dna({ scale: 'C Major', sections: { A: section({ bassLine }) } }), INITIAL_DNA, { snapToScale: false });
+      expect(result.sections.A.bassLine[0]).toBe(61);
+    });
+  });
+
+  describe('pattern lengths', () => {
+    it('pads short and truncates long lanes to the section length', () => {
+      const raw = dna({ scale: 'C Major', sections: { A: section({
+        drums: { ...section().drums, kick: [1, 0, 1, 0, 1, 0], snare: Array(20).fill(1) },
+        probMap: [0.5, 0.5]
+      }) } });
+      const { dna: result, fixes } = validateDNA(raw);
+      const a = result.sections.A;
+      expect(a.drums.kick).toEqual([1, 0, 1, 0, 1, 0, ...Array(10).fill(0)]);
+      expect(a.drums.snare).toEqual(Array(16).fill(1));
+      expect(a.probMap).toHaveLength(16);
+      expect(fixes).toEqual(expect.arrayContaining(['A.drums.kick: length 6→16', 'A.drums.snare: length 20→16', 'A.probMap: length 2→16']));
+    });
+
+    it('infers the step count from the patterns when it is missing', () => {
+      const raw = dna({ sections: { A: { ...section({ steps: 12, timeSignature: [3, 4] }), steps: undefined } } });
+      const { dna: result } = validateDNA(raw);
+      expect(result.sections.A.steps).toBe(12);
+      expect(result.sections.A.bassLine).toHaveLength(12);
+    });
+
+    it('fits each section to its own length', () => {
+      const { dna: result } = validateDNA(dna({ sections: { A: section(), B: section({ steps: 12, bassLine: Array(16).fill(0) }) } }));
+      expect(result.sections.A.bassLine).toHaveLength(16);
+      expect(result.sections.B.bassLine).toHaveLength(12);
+    });
+  });
+
+  describe('sections', () => {
+    it('falls back to the fallback DNA when sections are missing', () => {
+      const { dna: result, fixes } = validateDNA({ genre: 'Empty', scale: 'C Minor' });
+      expect(Object.keys(result.sections)).toEqual(Object.keys(INITIAL_DNA.sections));
+      expect(result.genre).toBe('Empty');
+      expect(fixes).toContain('sections: missing');
+    });
+
+    it('clones a section the arrangement names but the reply left out', () => {
+      const raw = dna({
+        arrangement: [{ section: 'A', repeats: 1, energy: 0.5, fill: false }, { section: 'B', repeats: 2, energy: 0.8, fill: false }]
+      });
+      const { dna: result, fixes } = validateDNA(raw);
+      expect(result.sections.B).toEqual(result.sections.A);
+      expect(result.arrangement.map(s => s.section)).toEqual(['A', 'B']);
+      expect(fixes).toContain('B: missing, cloned from A');
+    });
+
+    it('drops arrangement slots and sections it cannot use', () => {
+      const raw = {
+        ...dna(),
+        sections: { A: section(), 'not a name!': section(), C: 'nope' },
+        arrangement: [{ section: 'A', repeats: 99 }, { section: 42 }]
+      };
+      const { dna: result, fixes } = validateDNA(raw);
+      expect(Object.keys(result.sections)).toEqual(['A']);
+      expect(result.arrangement).toHaveLength(1);
+      expect(result.arrangement[0].repeats).toBeLessThan(99);
+      expect(fixes).toContain('sections: dropped not a name!, C');
+    });
+
+    it('ignores section names that are object prototype keys', () => {
+      const named = validateDNA({
+        ...dna(),
+        sections: { A: section(), constructor: section() },
+        arrangement: [{ section: 'A' }, { section: 'constructor' }]
+      });
+      expect(Object.keys(named.dna.sections)).toEqual(['A']);
+      expect(named.dna.arrangement.map(s => s.section)).toEqual(['A']);
+      expect(named.fixes).toContain('sections: dropped constructor');
+
+      const slot = validateDNA({ ...dna(), arrangement: [{ section: 'A' }, { section: 'toString' }, { section: '__proto__' }] });
+      expect(Object.keys(slot.dna.sections)).toEqual(['A']);
+      expect(slot.dna.arrangement.map(s => s.section)).toEqual(['A']);
+    });
+
+    it('replaces a reply that is not an object', () => {
+      const { dna: result, fixes } = validateDNA('not json');
+      expect(Object.keys(result.sections)).toEqual(Object.keys(INITIAL_DNA.sections));
+      expect(result.genre).toBe(INITIAL_DNA.genre);
+      expect(fixes[0]).toBe('root: not an object, using fallback');
+    });
+  });
+});
@@ -0,0 +1,180 @@
+// --- Fake AudioContext ---
+// Just enough of the Web Audio API for AudioEngine to build its graph and schedule voices in
+// Node / jsdom. Nothing is rendered: every oscillator or buffer source that starts is recorded
+// with its start time and pitch, which is what the scheduler tests assert on.
+
+export interface StartedSource {
+  kind: 'oscillator' | 'buffer';
+  time: number;
+  stop: number | null;
+  // The oscillator's frequency as set for its start time; null for buffer sources.
+  frequency: number | null;
+  wave: string | null;
+}
+
+class FakeParam {
+  value: number;
+  readonly events: { type: string; value: number; time: number }[] = [];
+
+  constructor(value = 0) {
+    this.value = value;
+  }
+
+  private record(type: string, value: number, time: number) {
+    this.events.push({ type, value, time });
+    return this;
+  }
+
+  setValueAtTime(value: number, time: number) { return this.record('set', value, time); }
+  linearRampToValueAtTime(value: number, time: number) { return this.record('linear', value, time); }
+  exponentialRampToValueAtTime(value: number, time: number) { return this.record('exponential', value, time); }
+  setTargetAtTime(value: number, time: number) { return this.record('target', value, time); }
+  cancelScheduledValues(time: number) { return this.record('cancel', 0, time); }
+
+  // The last value set at or before `time`.
+  valueAt(time: number) {
+    const set = this.events.filter(e => e.type === 'set' && e.time <= time + 1e-9);
+    return set.length ? set[set.length - 1].value : this.value;
+  }
+}
+
+class FakeNode {
+  readonly outputs: FakeNode[] = [];
+
+  constructor(readonly context: FakeAudioContext) {}
+
+  connect<T extends FakeNode>(destination: T) {
+    this.outputs.push(destination);
+    return destination;
+  }
+
+  disconnect() {
+    this.outputs.length = 0;
+  }
+}
+
+class FakeBuffer {
+  private channels: Float32Array[];
+
+  constructor(readonly numberOfChannels: number, readonly length: number, readonly sampleRate: number) {
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+}
+
+class FakeSource extends FakeNode {
+  private started: StartedSource | null = null;
+
+  constructor(context: FakeAudioContext, private kind: StartedSource['kind']) {
+    super(context);
+  }
+
+  start(time = 0) {
+    const osc = this as unknown as Partial<FakeOscillator>;
+    this.started = {
+      kind: this.kind,
+      time,
+      stop: null,
+      frequency: osc.frequency ? osc.frequency.valueAt(time) : null,
+      wave: osc.type ?? null
+    };
+    this.context.started.push(this.started);
+  }
+
+  stop(time = 0) {
+    if (this.started) this.started.stop = time;
+  }
+}
+
+class FakeOscillator extends FakeSource {
+  type = 'sine';
+  frequency = new FakeParam(440);
+  detune = new FakeParam(0);
+
+  constructor(context: FakeAudioContext) {
+    super(context, 'oscillator');
+  }
+}
+
+class FakeBufferSource extends FakeSource {
+  buffer: FakeBuffer | null = null;
+  playbackRate = new FakeParam(1);
+  loop = false;
+
+  constructor(context: FakeAudioContext) {
+    super(context, 'buffer');
+  }
+}
+
+class FakeAnalyser extends FakeNode {
+  fftSize = 2048;
+  smoothingTimeConstant = 0.8;
+
+  get frequencyBinCount() {
+    return this.fftSize / 2;
+  }
+
+  getByteFrequencyData(out: Uint8Array) { out.fill(0); }
+  getByteTimeDomainData(out: Uint8Array) { out.fill(128); }
+  getFloatTimeDomainData(out: Float32Array) { out.fill(0); }
+  getFloatFrequencyData(out: Float32Array) { out.fill(-100); }
+}
+
+export class FakeAudioContext {
+  currentTime = 0;
+  readonly sampleRate: number;
+  state: 'suspended' | 'running' | 'closed' = 'running';
+  readonly started: StartedSource[] = [];
+  readonly destination = new FakeNode(this);
+
+  constructor(options: { sampleRate?: number } = {}) {
+    this.sampleRate = options.sampleRate ?? 44100;
+  }
+
+  async resume() { this.state = 'running'; }
+  async close() { this.state = 'closed'; }
+
+  // Moves the clock; nothing plays, so this only matters to code that reads currentTime.
+  advance(seconds: number) {
+    this.currentTime += seconds;
+  }
+
+  createGain() { return Object.assign(new FakeNode(this), { gain: new FakeParam(1) }); }
+  createDelay() { return Object.assign(new FakeNode(this), { delayTime: new FakeParam(0) }); }
+  createStereoPanner() { return Object.assign(new FakeNode(this), { pan: new FakeParam(0) }); }
+  createWaveShaper() { return Object.assign(new FakeNode(this), { curve: null as Float32Array | null, oversample: 'none' }); }
+  createConvolver() { return Object.assign(new FakeNode(this), { buffer: null as FakeBuffer | null, normalize: true }); }
+  createAnalyser() { return new FakeAnalyser(this); }
+  createOscillator() { return new FakeOscillator(this); }
+  createBufferSource() { return new FakeBufferSource(this); }
+  createBuffer(channels: number, length: number, sampleRate: number) { return new FakeBuffer(channels, length, sampleRate); }
+
+  createBiquadFilter() {
+    return Object.assign(new FakeNode(this), {
+      type: 'lowpass', frequency: new FakeParam(350), Q: new FakeParam(1), gain: new FakeParam(0), detune: new FakeParam(0)
+    });
+  }
+
+  createDynamicsCompressor() {
+    return Object.assign(new FakeNode(this), {
+      threshold: new FakeParam(-24), knee: new FakeParam(30), ratio: new FakeParam(12),
+      attack: new FakeParam(0.003), release: new FakeParam(0.25)
+    });
+  }
+
+  // Oscillator starts at `frequency` (within a cent), as sorted start times.
+  startsAt(frequency: number) {
+    const times = this.started
+      .filter(s => s.frequency !== null && Math.abs(1200 * Math.log2(s.frequency / frequency)) < 1)
+      .map(s => s.time);
+    // Unison voices start together; one time per note.
+    return [...new Set(times)].sort((a, b) => a - b);
+  }
+}
@@ -0,0 +1,67 @@
+import { Composer, ComposeRequest } from '../services/composer';
+import { dna } from './dna';
+
+// --- Fake Composer ---
+// Stands in for LocalComposer inside the app and for network composers in RequestManager tests:
+// replies with a numbered, valid DNA (genre FAKE_1, FAKE_2, …) and keeps every request, so tests
+// can count recompositions and check the BPM and abort signal each was given.
+
+// How one call behaves: a reply after `delayMs` (timer-driven, so fake timers control it), or
+// `error` thrown after the delay. Unscripted calls reply at once.
+export interface FakeReply {
+  delayMs?: number;
+  error?: Error;
+}
+
+export class FakeComposer implements Composer {
+  static instances: FakeComposer[] = [];
+
+  id = 'local' as const;
+  label = 'FAKE';
+  readonly requests: ComposeRequest[] = [];
+  private replies: FakeReply[] = [];
+
+  constructor(private seed = 1) {
+    FakeComposer.instances.push(this);
+  }
+
+  static get last() {
+    return FakeComposer.instances[FakeComposer.instances.length - 1];
+  }
+
+  getSeed() {
+    return this.seed;
+  }
+
+  setSeed(seed: number) {
+    this.seed = seed >>> 0;
+  }
+
+  // Scripts the next calls, in order.
+  script(...replies: FakeReply[]) {
+    this.replies.push(...replies);
+    return this;
+  }
+
+  async compose(request: ComposeRequest): Promise<unknown> {
+    const { delayMs = 0, error } = this.replies.shift() ?? {};
+    const result = this.generate(request);
+    if (delayMs > 0) await wait(delayMs, request.signal);
+    if (error) throw error;
+    return result;
+  }
+
+  generate(request: ComposeRequest) {
+    this.requests.push(request);
+    return dna({ genre: `FAKE_${this.requests.length}` });
+  }
+}
+
+// Like a well-behaved backend, stops waiting as soon as the request is aborted.
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { JamBroadcast, JamPeer, JamRequest, JamSession, JamSocket, RelayReply, loadJamSettings } from '../services/jamSession';
+import { createMemoryStore } from '../services/dnaLibrary';
+import { EMPTY_LAYER_LOCKS, lockPredicate } from '../services/locks';
+
+// A socket the test plays the relay through.
+const fakeSocket = () => {
+  const sent: unknown[] = [];
+  const socket: JamSocket & { receive(message: RelayReply): void } = {
+    onopen: null, onmessage: null, onclose: null, onerror: null,
+    send: data => { sent.push(JSON.parse(data)); },
+    close: () => {},
+    receive(message) { socket.onmessage?.({ data: JSON.stringify(message) }); }
+  };
+  return { socket, sent };
+};
+
+const PEERS: JamPeer[] = [
+  { id: 'host', name: 'HOST', role: 'host' },
+  { id: 'me', name: 'ME', role: 'guest' },
+  { id: 'other', name: 'OTHER', role: 'guest' }
+];
+
+const joinAsGuest = () => {
+  const { socket } = fakeSocket();
+  const jam = new JamSession(createMemoryStore(), () => socket, () => 0);
+  jam.connect({ url: 'ws://relay', room: 'room', name: 'ME' }, 'guest');
+  socket.onopen?.();
+  socket.receive({ type: 'welcome', id: 'me', peers: PEERS });
+  const received: JamBroadcast[] = [];
+  jam.onBroadcast(message => received.push(message));
+  return { jam, socket, received };
+};
+
+const joinAsHost = () => {
+  const { socket, sent } = fakeSocket();
+  const jam = new JamSession(createMemoryStore(), () => socket, () => 0);
+  jam.connect({ url: 'ws://relay', room: 'room', name: 'HOST' }, 'host');
+  socket.onopen?.();
+  socket.receive({ type: 'welcome', id: 'host', peers: PEERS });
+  const requests: JamRequest[] = [];
+  jam.onRequest(request => requests.push(request));
+  return { jam, socket, sent, requests };
+};
+
+describe('JamSession', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('follows broadcasts from the host only', () => {
+    vi.useFakeTimers();
+    const { jam, socket, received } = joinAsGuest();
+    const session = { type: 'session' as const, locks: { ...EMPTY_LAYER_LOCKS, layers: { drums: true } }, votes: {}, seed: 7 };
+
+    socket.receive({ ...session, seed: 666, from: 'other' });
+    socket.receive({ type: 'transport', playing: false, anchor: null, from: 'other' });
+    socket.receive({ type: 'transport', playing: true, anchor: null, from: 'stranger' });
+    expect(received).toEqual([]);
+    expect(jam.getSeed()).not.toBe(666);
+
+    socket.receive({ ...session, from: 'host' });
+    expect(received).toHaveLength(1);
+    expect(jam.getSeed()).toBe(7);
+    expect(jam.getLocks()).toEqual(session.locks);
+    jam.leave();
+  });
+
+  it('ignores relay replies forged by another peer', () => {
+    vi.useFakeTimers();
+    const { jam, socket, received } = joinAsGuest();
+    const forged = (message: object) => socket.receive({ ...message, from: 'other' } as unknown as RelayReply);
+
+    // A guest claiming to be the host must not get its broadcasts followed.
+    forged({ type: 'peers', peers: [{ id: 'other', name: 'OTHER', role: 'host' }, { id: 'me', name: 'ME', role: 'guest' }] });
+    expect(jam.getPeers()).toEqual(PEERS);
+    socket.receive({ type: 'session', locks: EMPTY_LAYER_LOCKS, votes: {}, seed: 666, from: 'other' });
+    expect(received).toEqual([]);
+    expect(jam.getSeed()).not.toBe(666);
+
+    forged({ type: 'error', reason: 'KICKED' });
+    expect(jam.getStatus()).toBe('connected');
+    jam.leave();
+  });
+
+  it('drops malformed requests before the host acts on them', () => {
+    vi.useFakeTimers();
+    const { jam, socket, requests } = joinAsHost();
+    const malformed = (message: object) => socket.receive({ ...message, from: 'me' } as unknown as RelayReply);
+
+    malformed({ type: 'lock', locks: {} });
+    malformed({ type: 'lock', locks: { layers: { drums: 'yes' }, sections: {} } });
+    malformed({ type: 'vote', choice: '__proto__' });
+    malformed({ type: 'propose', dna: 'not a dna' });
+    expect(requests).toEqual([]);
+    expect(jam.getLocks()).toEqual(EMPTY_LAYER_LOCKS);
+    expect(jam.getVoteCounts()).toEqual({ more: 0, less: 0, fresh: 0 });
+    expect(jam.getProposals()).toEqual([]);
+    expect(lockPredicate(jam.getLocks(), {})('A', 'kick')).toBe(false);
+
+    const locks = { layers: { drums: true }, sections: { B: true } };
+    socket.receive({ type: 'lock', locks, from: 'me' });
+    expect(requests).toEqual([{ type: 'lock', locks, from: 'me' }]);
+    jam.leave();
+  });
+
+  it('keeps only the saved settings that are text', () => {
+    const store = createMemoryStore();
+    store.setItem('neural-strudel.jam.v1', JSON.stringify({ url: 'ws://relay:9000', room: 42, name: null }));
+    expect(loadJamSettings(store)).toEqual({ url: 'ws://relay:9000', room: 'main', name: '' });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { LocalComposer } from '../services/localComposer';
+import { validateDNA } from '../services/dnaValidator';
+import { EMPTY_LOCKS } from '../services/dnaEdit';
+import { EMPTY_LAYER_LOCKS, buildLockedContext, lockPredicate } from '../services/locks';
+import { bassOn, dna, section } from './dna';
+
+const SEEDS = [1, 42, 1234567, 0xdeadbeef];
+
+describe('LocalComposer', () => {
+  it('composes the same DNA from the same seed', () => {
+    SEEDS.forEach(seed => {
+      expect(new LocalComposer(seed).generate({ bpm: 120 })).toEqual(new LocalComposer(seed).generate({ bpm: 120 }));
+      expect(new LocalComposer(1).generate({ bpm: 96, seed })).toEqual(new LocalComposer(2).generate({ bpm: 96, seed }));
+    });
+  });
+
+  it('replays the same series of compositions after setSeed', () => {
+    const composer = new LocalComposer(9);
+    const first = [0, 1, 2].map(() => composer.generate({ bpm: 128 }));
+    composer.setSeed(9);
+    expect([0, 1, 2].map(() => composer.generate({ bpm: 128 }))).toEqual(first);
+    expect(first[1]).not.toEqual(first[0]);
+  });
+
+  it('composes something else from another seed', () => {
+    expect(new LocalComposer(1).generate({ bpm: 120 })).not.toEqual(new LocalComposer(2).generate({ bpm: 120 }));
+  });
+
+  it.each([70, 120, 174])('composes DNA the validator has nothing to fix at %i BPM', bpm => {
+    SEEDS.forEach(seed => {
+      const composed = new LocalComposer(seed).generate({ bpm });
+      expect(validateDNA(composed).fixes).toEqual([]);
+    });
+  });
+
+  it('composes valid DNA around a riff, a previous DNA and locks', () => {
+    const previous = dna({ sections: { A: section({ bassLine: bassOn(16, [0, 8], 36) }), B: section() }, arrangement: [
+      { section: 'A', repeats: 2, energy: 0.4, fill: false },
+      { section: 'B', repeats: 1, energy: 0.7, fill: false }
+    ] });
+    const locked = buildLockedContext(previous, lockPredicate({ ...EMPTY_LAYER_LOCKS, layers: { bass: true } }, EMPTY_LOCKS));
+    // A riff's own chords are kept as played, so this one has none: only composed material is checked.
+    const requests = [
+      { bpm: 110, riff: section({ bassLine: bassOn(16, [0, 6, 10], 41), chordProgression: [] }) },
+      { bpm: 110, previous, feedback: 'more' as const },
+      { bpm: 110, previous, locked }
+    ];
+    requests.forEach(request => SEEDS.forEach(seed => {
+      expect(validateDNA(new LocalComposer(seed).generate(request)).fixes).toEqual([]);
+    }));
+  });
+});
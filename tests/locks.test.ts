@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_LOCKS, mergeLocked } from '../services/dnaEdit';
+import { EMPTY_LAYER_LOCKS, LayerLocks, lockPredicate } from '../services/locks';
+import { bassOn, dna, section } from './dna';
+
+const arrangement = [
+  { section: 'A', repeats: 2, energy: 0.4, fill: false },
+  { section: 'B', repeats: 1, energy: 0.8, fill: true }
+];
+
+// What the user has: two sections with their own bass, lead and kick.
+const current = dna({
+  genre: 'CURRENT',
+  sections: {
+    A: section({ bassLine: bassOn(16, [0, 8], 36), leadMelody: bassOn(16, [4], 72), drums: { ...section().drums, kick: bassOn(16, [0, 4, 8, 12], 1) } }),
+    B: section({ bassLine: bassOn(16, [2], 38), arpPattern: Array(16).fill(1), arpMode: 'down' })
+  },
+  arrangement
+});
+
+// What the composer sent back: different material, a different grid for A, and only one section.
+const next = dna({
+  genre: 'NEXT',
+  sections: {
+    A: section({ steps: 32, bassLine: bassOn(32, [1, 17], 41), leadMelody: bassOn(32, [3], 79), arpPattern: Array(32).fill(1), arpMode: 'up' })
+  },
+  arrangement: [{ section: 'A', repeats: 4, energy: 1, fill: false }]
+});
+
+const merge = (layerLocks: LayerLocks, laneLocks = EMPTY_LOCKS) => mergeLocked(next, current, lockPredicate(layerLocks, laneLocks));
+
+describe('mergeLocked', () => {
+  it('takes the new DNA as it is when nothing is locked', () => {
+    expect(merge(EMPTY_LAYER_LOCKS)).toBe(next);
+  });
+
+  it('keeps a locked lane and takes the unlocked ones from the new DNA', () => {
+    const merged = merge(EMPTY_LAYER_LOCKS, { A: { bass: true }, B: {} });
+
+    expect(merged.genre).toBe('NEXT');
+    expect(merged.sections.A.bassLine).toEqual(current.sections.A.bassLine);
+    expect(merged.sections.A.leadMelody).toEqual(next.sections.A.leadMelody.slice(0, 16));
+  });
+
+  it('keeps the grid of a section with locks, fitting the new lanes to it', () => {
+    const merged = merge(EMPTY_LAYER_LOCKS, { A: { kick: true }, B: {} });
+
+    expect(merged.sections.A.steps).toBe(16);
+    expect(merged.sections.A.drums.kick).toEqual(current.sections.A.drums.kick);
+    expect(merged.sections.A.arpPattern).toHaveLength(16);
+    expect(merged.sections.A.bassLine).toEqual(bassOn(16, [1], 41));
+  });
+
+  it('keeps a locked layer in every section, the arp with its mode', () => {
+    const merged = merge({ ...EMPTY_LAYER_LOCKS, layers: { bass: true, arp: true } });
+
+    expect(merged.sections.A.bassLine).toEqual(current.sections.A.bassLine);
+    expect(merged.sections.B.bassLine).toEqual(current.sections.B.bassLine);
+    expect(merged.sections.B.arpPattern).toEqual(current.sections.B.arpPattern);
+    expect(merged.sections.B.arpMode).toBe('down');
+    expect(merged.sections.A.arpMode).toBe(current.sections.A.arpMode);
+  });
+
+  it('keeps sections missing from the new DNA, and the arrangement, while anything is locked', () => {
+    const merged = merge({ ...EMPTY_LAYER_LOCKS, sections: { A: true } });
+
+    expect(Object.keys(merged.sections)).toEqual(['A', 'B']);
+    expect(merged.sections.A).toEqual(current.sections.A);
+    expect(merged.sections.B).toEqual(current.sections.B);
+    expect(merged.arrangement).toEqual(arrangement);
+  });
+
+  it('copies what it keeps instead of sharing it with the current DNA', () => {
+    const merged = merge({ ...EMPTY_LAYER_LOCKS, sections: { A: true } });
+
+    expect(merged.sections.B.bassLine).not.toBe(current.sections.B.bassLine);
+    expect(merged.sections.A.chordProgression[0]).not.toBe(current.sections.A.chordProgression[0]);
+    expect(merged.arrangement[0]).not.toBe(current.arrangement[0]);
+  });
+});
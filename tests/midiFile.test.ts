@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { MIDI_CHANNELS, MidiParseError, PPQ, dnaToMidi, midiToSection, notesToMidi, parseMidi } from '../services/midiFile';
+import { bassOn, dna, section } from './dna';
+
+const riff = dna({ genre: 'DUB', scale: 'C Minor', sections: { A: section({ bassLine: bassOn(16, [0, 6, 10], 36) }) } });
+
+// The name of the first track: the delta-time 0 name event that opens it, right after the header.
+const trackName = (bytes: Uint8Array) => {
+  const at = 14 + 8;
+  expect([...bytes.subarray(at, at + 3)]).toEqual([0, 0xff, 0x03]);
+  return String.fromCharCode(...bytes.subarray(at + 4, at + 4 + bytes[at + 3]));
+};
+
+const header = (division: number) =>
+  new Uint8Array([0x4d, 0x54, 0x68, 0x64, 0, 0, 0, 6, 0, 1, 0, 0, (division >> 8) & 0xff, division & 0xff]);
+
+describe('dnaToMidi', () => {
+  it('round trips tempo, name and notes', () => {
+    const bytes = dnaToMidi(riff, 96, { bars: 1 });
+    const parsed = parseMidi(bytes);
+
+    expect(trackName(bytes)).toBe('DUB // C Minor');
+    expect(parsed).toMatchObject({ division: PPQ, bpm: 96 });
+    const bass = parsed.notes.filter(n => n.channel === MIDI_CHANNELS.bass);
+    expect(bass.map(n => [n.tick, n.note])).toEqual([[0, 36], [6 * PPQ / 4, 36], [10 * PPQ / 4, 36]]);
+    expect(midiToSection(parsed).bassLine).toEqual(bassOn(16, [0, 6, 10], 36));
+  });
+});
+
+describe('notesToMidi', () => {
+  it('round trips tempo, name and notes', () => {
+    const bytes = notesToMidi('Take 1', [{ layer: 'lead', note: 72, velocity: 1, time: 0.5, duration: 0.25 }], 120);
+    const parsed = parseMidi(bytes);
+
+    expect(trackName(bytes)).toBe('Take 1');
+    expect(parsed.bpm).toBe(120);
+    expect(parsed.notes).toEqual([{ tick: PPQ, duration: PPQ / 2, note: 72, velocity: 127, channel: MIDI_CHANNELS.lead }]);
+  });
+
+  it('writes characters outside ASCII as one question mark each', () => {
+    const bytes = notesToMidi('Café 🎹', [{ layer: 'bass', note: 36, velocity: 1, time: 0, duration: 0.5 }], 120);
+
+    expect(trackName(bytes)).toBe('Caf? ?');
+    // A length that disagreed with the bytes written would shift every event after the name.
+    expect(parseMidi(bytes).notes).toEqual([{ tick: 0, duration: PPQ, note: 36, velocity: 127, channel: MIDI_CHANNELS.bass }]);
+  });
+});
+
+describe('parseMidi', () => {
+  it('rejects a time division of 0', () => {
+    expect(() => parseMidi(header(0))).toThrow(MidiParseError);
+  });
+
+  it('rejects SMPTE time divisions', () => {
+    // -25 frames per second, 40 ticks per frame.
+    expect(() => parseMidi(header(0xe728))).toThrow(MidiParseError);
+  });
+
+  it('rejects files that are not MIDI', () => {
+    expect(() => parseMidi(new TextEncoder().encode('RIFF....WAVEfmt '))).toThrow(MidiParseError);
+  });
+});
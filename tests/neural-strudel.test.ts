@@ -0,0 +1,71 @@
+import { mkdtemp, readFile, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { main } from '../cli/neural-strudel';
+import { BatchError } from '../cli/batch';
+import { validateDNA } from '../services/dnaValidator';
+import { parseMidi } from '../services/midiFile';
+
+describe('neural-strudel CLI', () => {
+  let out: string;
+
+  beforeEach(async () => {
+    out = await mkdtemp(join(tmpdir(), 'neural-strudel-'));
+    vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(out, { recursive: true, force: true });
+  });
+
+  const generate = (...args: string[]) => main(['generate', '--out', out, ...args]);
+
+  it('prints usage for --help and without a command', async () => {
+    await expect(main(['--help'])).resolves.toBe(0);
+    await expect(main([])).resolves.toBe(1);
+    expect(process.stdout.write).toHaveBeenCalledWith(expect.stringContaining('Usage: neural-strudel generate'));
+  });
+
+  it.each(['39', '241', '120.5', 'fast'])('rejects --bpm %s', async bpm => {
+    await expect(generate('--bpm', bpm)).rejects.toThrow(new BatchError(`--bpm must be an integer from 40 to 240, got "${bpm}"`));
+    expect(await readdir(out)).toEqual([]);
+  });
+
+  it('rejects unknown commands and composers, and out-of-range options', async () => {
+    await expect(main(['render'])).rejects.toThrow(BatchError);
+    await expect(generate('--composer', 'midjourney')).rejects.toThrow(BatchError);
+    await expect(generate('--bits', '8')).rejects.toThrow(BatchError);
+    await expect(generate('--count', '0')).rejects.toThrow(BatchError);
+  });
+
+  it('writes validated DNA, MIDI at the requested tempo and a manifest', async () => {
+    await expect(generate('--bpm', '40', '--count', '2', '--seed', '5')).resolves.toBe(0);
+
+    const files = (await readdir(out)).sort();
+    expect(files).toHaveLength(5);
+    expect(files).toContain('manifest.json');
+    const manifest = JSON.parse(await readFile(join(out, 'manifest.json'), 'utf8'));
+    expect(manifest).toMatchObject({ bpm: 40, composer: 'local', seed: 5 });
+    expect(manifest.results.map((r: { seed: number }) => r.seed)).toEqual([5, 6]);
+
+    for (const { name } of manifest.results) {
+      expect(files).toEqual(expect.arrayContaining([`${name}.json`, `${name}.mid`]));
+      const dna = JSON.parse(await readFile(join(out, `${name}.json`), 'utf8'));
+      expect(validateDNA(dna).fixes).toEqual([]);
+      expect(parseMidi(await readFile(join(out, `${name}.mid`))).bpm).toBe(40);
+    }
+  });
+
+  it('writes the same DNA for the same seed, and no MIDI with --no-midi', async () => {
+    await generate('--seed', '11', '--genre', 'lofi');
+    const [first] = (await readdir(out)).filter(f => f.endsWith('.json') && f !== 'manifest.json');
+    const dna = await readFile(join(out, first), 'utf8');
+    await rm(out, { recursive: true });
+
+    await generate('--seed', '11', '--genre', 'lofi', '--no-midi');
+    expect((await readdir(out)).sort()).toEqual([first, 'manifest.json'].sort());
+    expect(await readFile(join(out, first), 'utf8')).toBe(dna);
+  });
+});
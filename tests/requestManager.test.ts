@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_REQUEST_POLICY, RequestBudgetError, RequestCancelledError, RequestManager, RequestTimeoutError, loadRequestPolicy
+} from '../services/requestManager';
+import { ComposerError } from '../services/composer';
+import { createMemoryStore } from '../services/dnaLibrary';
+import { FakeComposer } from './fakeComposer';
+
+const setup = () => {
+  const manager = new RequestManager(createMemoryStore());
+  const composer = new FakeComposer();
+  const compose = () => manager.run(signal => composer.compose({ bpm: 120, signal }));
+  return { manager, composer, compose };
+};
+
+describe('RequestManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('cancels the call in flight when a new one starts', async () => {
+    const { manager, composer, compose } = setup();
+    composer.script({ delayMs: 1000 });
+    const first = compose();
+    const cancelled = expect(first).rejects.toBeInstanceOf(RequestCancelledError);
+    const second = compose();
+
+    await cancelled;
+    expect(composer.requests[0].signal?.aborted).toBe(true);
+    await expect(second).resolves.toMatchObject({ genre: 'FAKE_2' });
+    expect(manager.busy).toBe(false);
+  });
+
+  it('cancel() rejects the pending call and frees the manager', async () => {
+    const { manager, composer, compose } = setup();
+    composer.script({ delayMs: 1000 });
+    const call = compose();
+    expect(manager.busy).toBe(true);
+
+    manager.cancel('stopped');
+    await expect(call).rejects.toThrow('Request stopped');
+    expect(manager.busy).toBe(false);
+    expect(composer.requests[0].signal?.aborted).toBe(true);
+    expect(manager.getStatus().state).toBe('idle');
+  });
+
+  it('times out an attempt that takes too long', async () => {
+    const { manager, composer, compose } = setup();
+    manager.setPolicy({ timeoutMs: 5000, retries: 0 });
+    composer.script({ delayMs: 10000 });
+    const call = compose();
+    const timedOut = expect(call).rejects.toBeInstanceOf(RequestTimeoutError);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(manager.busy).toBe(true);
+    await vi.advanceTimersByTimeAsync(1);
+    await timedOut;
+    expect(composer.requests[0].signal?.aborted).toBe(true);
+    expect(manager.getStatus().error).toBe('TIMEOUT');
+  });
+
+  it('retries transient failures with a doubling backoff', async () => {
+    const { manager, composer, compose } = setup();
+    manager.setPolicy({ retries: 2, backoffMs: 1500 });
+    composer.script({ error: new ComposerError('busy', true) }, { error: new ComposerError('busy', true) });
+    const call = compose();
+
+    await vi.advanceTimersByTimeAsync(1499);
+    expect(composer.requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(composer.requests).toHaveLength(2);
+    expect(manager.getStatus()).toMatchObject({ state: 'retrying', attempt: 2 });
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(composer.requests).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(call).resolves.toMatchObject({ genre: 'FAKE_3' });
+    expect(manager.getStatus()).toMatchObject({ state: 'idle', attempt: 3, error: null });
+  });
+
+  it('gives up after the last retry', async () => {
+    const { manager, composer, compose } = setup();
+    manager.setPolicy({ retries: 1, backoffMs: 100 });
+    composer.script({ error: new ComposerError('busy', true) }, { error: new ComposerError('still busy', true) });
+    const call = compose();
+    const failed = expect(call).rejects.toThrow('still busy');
+
+    await vi.advanceTimersByTimeAsync(100);
+    await failed;
+    expect(composer.requests).toHaveLength(2);
+  });
+
+  it('does not retry a failure that would happen again', async () => {
+    const { composer, compose } = setup();
+    composer.script({ error: new ComposerError('unparseable reply') });
+
+    await expect(compose()).rejects.toThrow('unparseable reply');
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(composer.requests).toHaveLength(1);
+  });
+
+  it('refuses attempts past the per-minute budget until a slot frees up', async () => {
+    const { manager, composer, compose } = setup();
+    manager.setPolicy({ budgetPerMinute: 2 });
+    await compose();
+    await vi.advanceTimersByTimeAsync(10000);
+    await compose();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    const refused = await compose().catch(e => e);
+    expect(refused).toBeInstanceOf(RequestBudgetError);
+    expect((refused as RequestBudgetError).retryInMs).toBe(45000);
+    expect(composer.requests).toHaveLength(2);
+    expect(manager.getStatus()).toMatchObject({ state: 'throttled', error: 'BUDGET', used: 2 });
+
+    await vi.advanceTimersByTimeAsync(45000);
+    await expect(compose()).resolves.toMatchObject({ genre: 'FAKE_3' });
+  });
+
+  it('leaves free composers out of the budget', async () => {
+    const { manager, composer } = setup();
+    manager.setPolicy({ budgetPerMinute: 1 });
+    for (let i = 0; i < 3; i++) await manager.run(signal => composer.compose({ bpm: 120, signal }), { budgeted: false });
+    expect(composer.requests).toHaveLength(3);
+    expect(manager.getStatus().used).toBe(0);
+  });
+
+  it('falls back to the default for each saved setting it cannot use', () => {
+    const store = createMemoryStore();
+    store.setItem('neural-strudel.requests.v1', JSON.stringify({ budgetPerMinute: 10, timeoutMs: '5000', retries: -1, backoffMs: null }));
+    expect(loadRequestPolicy(store)).toEqual({ ...DEFAULT_REQUEST_POLICY, budgetPerMinute: 10 });
+    store.setItem('neural-strudel.requests.v1', '7');
+    expect(loadRequestPolicy(store)).toEqual(DEFAULT_REQUEST_POLICY);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { AudioEngine, NoteEvent } from '../services/audioEngine';
+import {
+  Session, SessionParseError, SessionRecorder, parseSession, serializeSession, sessionNotes, sessionToMidi
+} from '../services/sessionRecorder';
+import { parseMidi } from '../services/midiFile';
+import { DEFAULT_MIX } from '../services/mixer';
+import { FakeAudioContext } from './fakeAudioContext';
+import { bassOn, dna, section } from './dna';
+
+// Coin-flip hats and a random arp: what plays depends on the dice.
+const music = dna({
+  sections: {
+    A: section({
+      drums: { ...section().drums, kick: bassOn(16, [0, 4, 8, 12], 1), hihat: Array(16).fill(1) },
+      bassLine: bassOn(16, [0, 6, 10], 36),
+      arpPattern: Array(16).fill(1),
+      arpMode: 'random',
+      probMap: Array(16).fill(0.5)
+    })
+  }
+});
+
+const other = dna({ genre: 'OTHER', sections: { A: section({ bassLine: bassOn(16, [0, 3, 8, 11], 41), probMap: Array(16).fill(0.5) }) } });
+
+const replayContext = () => new FakeAudioContext() as unknown as OfflineAudioContext;
+
+// A live engine on a clock the test moves, scheduled the way the realtime loop does it.
+const live = async () => {
+  const ctx = new FakeAudioContext();
+  const engine = new AudioEngine({ context: ctx as unknown as BaseAudioContext, bpm: 120, dna: music, manual: true });
+  await engine.init();
+  const notes: NoteEvent[] = [];
+  engine.onNote(note => notes.push(note));
+  const run = (seconds: number) => {
+    for (let t = 0; t < seconds; t += 0.04) {
+      ctx.advance(0.04);
+      if (engine.isRunning) engine.scheduleUntil(ctx.currentTime + 0.2);
+    }
+  };
+  return { ctx, engine, notes, run, recorder: new SessionRecorder(engine) };
+};
+
+const perform = async (seed: number) => {
+  const { ctx, engine, notes, run, recorder } = await live();
+  run(0.5);
+  recorder.start(seed);
+  const origin = ctx.currentTime;
+  engine.start();
+  run(2.3);
+  engine.setTempo(140, 1);
+  engine.queueDNA(other, { quantize: 'bar', morphBars: 1 });
+  recorder.action('regenerate');
+  engine.playLive(72, 0.8);
+  run(1.7);
+  engine.setDNA({ ...other, mix: { ...DEFAULT_MIX, feedback: 0.1 } });
+  engine.setMutedLayers(['bass']);
+  engine.jumpToSection('A');
+  run(3.1);
+  engine.stop();
+  run(0.5);
+  engine.start();
+  run(1.2);
+  const session = recorder.stop()!;
+  const played = notes.filter(n => n.time >= origin).map(n => ({ ...n, time: n.time - origin }));
+  return { session, played };
+};
+
+const expectSameNotes = (actual: NoteEvent[], expected: NoteEvent[]) => {
+  expect(actual.map(n => [n.layer, n.note, n.velocity])).toEqual(expected.map(n => [n.layer, n.note, n.velocity]));
+  actual.forEach((n, i) => {
+    expect(n.time).toBeCloseTo(expected[i].time, 9);
+    expect(n.duration).toBeCloseTo(expected[i].duration, 9);
+  });
+};
+
+describe('SessionRecorder', () => {
+  it('logs transport, DNA, tempo and user actions against the audio clock', async () => {
+    const { session } = await perform(7);
+    expect(session.seed).toBe(7);
+    expect(session.start).toMatchObject({ playing: false, bpm: 120, muted: [] });
+    expect(session.events.map(e => e.type)).toEqual(['start', 'tempo', 'dna', 'action', 'live', 'mix', 'mute', 'jump', 'stop', 'start']);
+    expect(session.events[0]).toMatchObject({ step: 0, time: 0, at: expect.closeTo(0.1, 9) });
+    const [, tempo, swap] = session.events;
+    expect(tempo.step).toBeGreaterThan(0);
+    expect(tempo.time).toBeCloseTo(2.32, 9);
+    expect(swap).toMatchObject({ type: 'dna', dna: other, change: { quantize: 'bar', morphBars: 1 } });
+    expect(session.duration).toBeGreaterThan(8);
+  });
+
+  it('replays the performance note for note', async () => {
+    const { session, played } = await perform(7);
+    expect(played.length).toBeGreaterThan(50);
+    expectSameNotes(await sessionNotes(session, replayContext), played);
+  });
+
+  it('replays the same from a saved file', async () => {
+    const { session, played } = await perform(7);
+    const loaded = parseSession(JSON.parse(serializeSession(session)));
+    expect(loaded.events.map(({ type, step, time }) => [type, step, time])).toEqual(session.events.map(({ type, step, time }) => [type, step, time]));
+    expectSameNotes(await sessionNotes(loaded, replayContext), played);
+  });
+
+  it('rolls other hits with another seed', async () => {
+    const { session } = await perform(7);
+    const notes = await sessionNotes({ ...session, seed: 8 }, replayContext);
+    const { played } = await perform(8);
+    expectSameNotes(notes, played);
+    expect(notes.map(n => n.note)).not.toEqual((await perform(7)).played.map(n => n.note));
+  });
+
+  it('exports the replay as MIDI', async () => {
+    const { session, played } = await perform(7);
+    const midi = parseMidi(await sessionToMidi(session, replayContext));
+    expect(midi.bpm).toBe(120);
+    // Seconds at 120 BPM: two beats each. The reader drops a note restruck while it still sounds,
+    // so the file is checked to hold nothing that was not played.
+    const starts = new Set(played.map(n => `${Math.round(n.time * 2 * 480)}:${n.note}`));
+    expect(midi.notes.length).toBeGreaterThan(played.length * 0.8);
+    midi.notes.forEach(n => expect(starts.has(`${n.tick}:${n.note}`)).toBe(true));
+    const live = session.events.find(e => e.type === 'live')!;
+    expect(midi.notes).toContainEqual(expect.objectContaining({ note: 72, channel: 1, tick: Math.round((live as { at: number }).at * 2 * 480) }));
+  });
+
+  it('rejects a file with a malformed event', async () => {
+    const { session } = await perform(7);
+    const raw: Session = JSON.parse(serializeSession(session));
+    (raw.events[1] as { bpm: unknown }).bpm = 'fast';
+    expect(() => parseSession(raw)).toThrow(SessionParseError);
+    expect(() => parseSession({ ...raw, version: 2 })).toThrow('unsupported version 2');
+  });
+
+  it('rejects tempos and times the replay clock cannot run on', async () => {
+    const { session } = await perform(7);
+    const raw: Session = JSON.parse(serializeSession(session));
+    expect(() => parseSession({ ...raw, start: { ...raw.start, bpm: -120 } })).toThrow('start.bpm');
+    const tempo = (change: object) => ({ ...raw, events: raw.events.map((e, i) => (i === 1 ? { ...e, ...change } : e)) });
+    expect(() => parseSession(tempo({ bpm: 300 }))).toThrow('events[1].bpm');
+    expect(() => parseSession(tempo({ rampBars: -1 }))).toThrow('events[1].rampBars');
+    expect(() => parseSession(tempo({ time: -1e12 }))).toThrow('events[1].time');
+    expect(() => parseSession({ ...raw, duration: 1e12 })).toThrow('session.duration');
+  });
+
+  it('rejects playhead positions outside the arrangement', async () => {
+    const { session } = await perform(7);
+    const raw: Session = JSON.parse(serializeSession(session));
+    const position = (change: object) => ({ ...raw, start: { ...raw.start, position: { ...raw.start.position, ...change } } });
+    expect(() => parseSession(position({ slot: -1 }))).toThrow('start.position.slot');
+    expect(() => parseSession(position({ pass: 0.5 }))).toThrow('start.position.pass');
+    expect(() => parseSession(position({ sectionStep: -3 }))).toThrow('start.position.sectionStep');
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { bestFitScale } from '../services/theory';
+
+describe('bestFitScale', () => {
+  it('prefers the scale whose root the notes centre on', () => {
+    // C major and A minor share every pitch; the C-heavy riff is major.
+    expect(bestFitScale([60, 64, 67, 60, 62, 65])).toMatchObject({ root: 0, mode: 'major' });
+    expect(bestFitScale([57, 60, 64, 57, 59, 62])).toMatchObject({ root: 9, mode: 'minor' });
+  });
+
+  it('accepts modes in any case', () => {
+    expect(bestFitScale([], ['Minor'])).toEqual({ root: 0, mode: 'minor', intervals: [0, 2, 3, 5, 7, 8, 10] });
+    expect(bestFitScale([62, 66, 69, 73, 62], ['DORIAN', 'Major'])).toMatchObject({ root: 2, mode: 'major' });
+  });
+
+  it('falls back to minor when no mode is known', () => {
+    expect(bestFitScale([60], ['nonsense']).intervals).toEqual([0, 2, 3, 5, 7, 8, 10]);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { PcmSource, WavParseError, decodeWav, encodeWav } from '../services/wavEncoder';
+
+const pcm = (channels: number[][], sampleRate = 44100): PcmSource => ({
+  numberOfChannels: channels.length,
+  sampleRate,
+  length: channels[0].length,
+  getChannelData: c => Float32Array.from(channels[c])
+});
+
+const stereo = pcm([[0, 0.5, -0.5, 1], [0.25, -1, 0.125, 0]], 48000);
+
+// An encoded file with its fmt chunk fields overwritten.
+const withFormat = (patch: { channels?: number; bits?: number; tag?: number }) => {
+  const bytes = encodeWav(stereo);
+  const view = new DataView(bytes);
+  if (patch.tag !== undefined) view.setUint16(20, patch.tag, true);
+  if (patch.channels !== undefined) view.setUint16(22, patch.channels, true);
+  if (patch.bits !== undefined) view.setUint16(34, patch.bits, true);
+  return bytes;
+};
+
+const samples = (source: PcmSource) =>
+  Array.from({ length: source.numberOfChannels }, (_, c) => Array.from(source.getChannelData(c)));
+
+describe('encodeWav / decodeWav', () => {
+  it.each([16, 24] as const)('round trips %i-bit stereo', bitDepth => {
+    const decoded = decodeWav(encodeWav(stereo, bitDepth));
+    const step = bitDepth === 16 ? 1 / 0x7fff : 1 / 0x7fffff;
+
+    expect(decoded).toMatchObject({ numberOfChannels: 2, sampleRate: 48000, length: 4 });
+    samples(decoded).flat().forEach((s, i) => expect(Math.abs(s - samples(stereo).flat()[i])).toBeLessThanOrEqual(step));
+  });
+
+  it('clips samples outside -1..1', () => {
+    expect(samples(decodeWav(encodeWav(pcm([[2, -2]])))).flat().map(s => Math.round(s))).toEqual([1, -1]);
+  });
+
+  it('reads 32-bit float data', () => {
+    // A mono 16-bit header for two samples, retagged as IEEE float with 4-byte samples.
+    const bytes = new Uint8Array(44 + 8);
+    bytes.set(new Uint8Array(encodeWav(pcm([[0, 0]]))).subarray(0, 44));
+    const view = new DataView(bytes.buffer);
+    view.setUint16(20, 3, true);
+    view.setUint16(34, 32, true);
+    view.setUint32(40, 8, true);
+    view.setFloat32(44, 0.75, true);
+    view.setFloat32(48, -0.25, true);
+
+    expect(samples(decodeWav(bytes.buffer))).toEqual([[0.75, -0.25]]);
+  });
+});
+
+describe('decodeWav', () => {
+  it('rejects files that are not WAV', () => {
+    expect(() => decodeWav(new TextEncoder().encode('MThd, not a WAV').buffer)).toThrow(WavParseError);
+  });
+
+  it('rejects a header with no channels', () => {
+    expect(() => decodeWav(withFormat({ channels: 0 }))).toThrow(WavParseError);
+  });
+
+  it('rejects a header with 0-bit samples', () => {
+    expect(() => decodeWav(withFormat({ bits: 0 }))).toThrow(WavParseError);
+  });
+
+  it('rejects formats other than 16/24-bit PCM and 32-bit float', () => {
+    expect(() => decodeWav(withFormat({ bits: 8 }))).toThrow(WavParseError);
+    expect(() => decodeWav(withFormat({ tag: 2 }))).toThrow(WavParseError);
+  });
+
+  it('rejects a data chunk with no fmt chunk before it', () => {
+    const bytes = encodeWav(stereo);
+    new Uint8Array(bytes).set(new TextEncoder().encode('junk'), 12);
+    expect(() => decodeWav(bytes)).toThrow(WavParseError);
+  });
+
+  it('rejects a file without a data chunk', () => {
+    expect(() => decodeWav(encodeWav(stereo).slice(0, 36))).toThrow(WavParseError);
+  });
+});
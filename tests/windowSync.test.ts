@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SyncChannel, SyncCommand, SyncMessage, SyncState, WindowSync } from '../services/windowSync';
+import { dna } from './dna';
+
+// BroadcastChannel in memory: a message reaches every other open channel, never the sender.
+// `sent` logs every message posted, in order.
+const createBus = () => {
+  const open = new Set<SyncChannel>();
+  const sent: SyncMessage[] = [];
+  const bus = (): SyncChannel => {
+    const channel: SyncChannel = {
+      onmessage: null,
+      postMessage: message => {
+        sent.push(message);
+        open.forEach(other => { if (other !== channel) other.onmessage?.({ data: message }); });
+      },
+      close: () => { open.delete(channel); }
+    };
+    open.add(channel);
+    return channel;
+  };
+  return Object.assign(bus, { sent });
+};
+
+const state = (bpm: number): SyncState => ({ dna: dna(), bpm, currentStep: 0, currentSection: 'A', status: 'PLAYING', isActive: true });
+
+describe('WindowSync', () => {
+  let windows: WindowSync[] = [];
+  const open = (channel: SyncChannel | null) => {
+    const sync = new WindowSync(channel);
+    windows.push(sync);
+    return sync;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    windows.forEach(w => w.close());
+    windows = [];
+    vi.useRealTimers();
+  });
+
+  it('leads alone and follows a window that already leads', () => {
+    const bus = createBus();
+    const first = open(bus());
+    vi.advanceTimersByTime(300);
+    expect(first.isLeader()).toBe(true);
+
+    const second = open(bus());
+    vi.advanceTimersByTime(10000);
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+    expect(first.peerCount()).toBe(1);
+    expect(second.peerCount()).toBe(1);
+  });
+
+  it('leads at once without BroadcastChannel', () => {
+    expect(open(null).isLeader()).toBe(true);
+  });
+
+  it('hands over when the leader closes', () => {
+    const bus = createBus();
+    const leader = open(bus());
+    vi.advanceTimersByTime(300);
+    const follower = open(bus());
+    const changed = vi.fn();
+    follower.subscribe(changed);
+
+    leader.close();
+    expect(follower.isLeader()).toBe(true);
+    expect(follower.peerCount()).toBe(0);
+    expect(changed).toHaveBeenCalled();
+  });
+
+  it('takes over from a leader that goes quiet without saying bye', () => {
+    const bus = createBus();
+    const channel = bus();
+    open(channel);
+    vi.advanceTimersByTime(300);
+    const follower = open(bus());
+    vi.advanceTimersByTime(2000);
+    channel.postMessage = () => {};
+
+    vi.advanceTimersByTime(2000);
+    expect(follower.isLeader()).toBe(false);
+    vi.advanceTimersByTime(2000);
+    expect(follower.isLeader()).toBe(true);
+  });
+
+  it('broadcasts state to followers and catches up a window that joins later', () => {
+    const bus = createBus();
+    const leader = open(bus());
+    vi.advanceTimersByTime(300);
+    const follower = open(bus());
+    const seen: number[] = [];
+    follower.onState(s => seen.push(s.bpm));
+
+    leader.publishState(state(120));
+    leader.publishState(state(128));
+    expect(seen).toEqual([120, 128]);
+
+    const late = open(bus());
+    // The leader answers the newcomer's hello with the state it last published.
+    const hello = bus.sent.findIndex(m => m.type === 'hello' && m.from === late.id);
+    expect(bus.sent.slice(hello).find(m => m.type === 'state')).toMatchObject({ state: { bpm: 128 } });
+    expect(late.isLeader()).toBe(false);
+  });
+
+  it('keeps the older of two leaders', () => {
+    const bus = createBus();
+    const channel = bus();
+    const post = channel.postMessage;
+    // The first window's messages are lost until both have promoted themselves.
+    channel.postMessage = () => {};
+    const first = open(channel);
+    vi.advanceTimersByTime(100);
+    const second = open(bus());
+    vi.advanceTimersByTime(300);
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(true);
+
+    channel.postMessage = post;
+    vi.advanceTimersByTime(1000);
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+  });
+
+  it('delivers commands from any window to the leader', () => {
+    const bus = createBus();
+    const leader = open(bus());
+    vi.advanceTimersByTime(300);
+    const follower = open(bus());
+    const commands: SyncCommand[] = [];
+    leader.onCommand(c => commands.push(c));
+    const followerCommands = vi.fn();
+    follower.onCommand(followerCommands);
+
+    follower.send({ type: 'bpm', bpm: 100 });
+    leader.send({ type: 'transport', playing: false });
+    expect(commands).toEqual([{ type: 'bpm', bpm: 100 }, { type: 'transport', playing: false }]);
+    expect(followerCommands).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+
+// How the arp walks the active chord; 'follow' shadows the lead with the nearest chord tone.
+export type ArpMode = 'up' | 'down' | 'updown' | 'random' | 'follow';
+
+// How strictly bass and lead are held to the harmony at playback.
+export type HarmonyMode = 'free' | 'scale' | 'chord';
+
+export interface SectionDNA {
+  drums: { kick: number[], snare: number[], hihat: number[], glitch: number[], clap: number[], openhat: number[] };
+  bassLine: number[];
+  leadMelody: (number | null)[];
+  chordProgression: number[][];      // one chord per bar, cycling
+  arpPattern: number[];
+  arpMode: ArpMode;
+  probMap: number[];
+  // --- Grid ---
+  steps: number;                      // pattern length; every per-step array has this many entries
+  timeSignature: [number, number];    // e.g. [4, 4], [6, 8], [12, 8]
+  subdivision: number;                // steps per quarter note: 4 = 16ths, 3 = 8th triplets, 6 = 16th triplets
+  swing: number;                      // 0 straight … 1 full triplet shuffle on off-beat steps
+  velocity: number[];                 // 0–1 per step, scales every voice on that step
+  microTiming: number[];              // -0.5–0.5 of a step, pushes/pulls the step off the grid
+}
+
+// Free-form section names ("intro", "verse", "chorus", …); 'A' / 'B' remain the classic pair.
+export type SectionKey = string;
+
+export interface ArrangementSlot {
+  section: SectionKey;
+  repeats: number;                    // passes of the section, SECTION_BARS bars each
+  energy: number;                     // 0–1; a jump to the next slot triggers a transition
+  fill: boolean;                      // drum fill on the last bar of the last pass
+}
+
+// --- Mix ---
+
+export type Channel = 'kick' | 'snare' | 'hat' | 'openhat' | 'clap' | 'glitch' | 'bass' | 'lead' | 'pad' | 'arp';
+
+export interface ChannelStrip {
+  volume: number;                     // 0–1.5 linear gain
+  pan: number;                        // -1 left … 1 right
+  mute: boolean;
+  solo: boolean;
+  delay: number;                      // 0–1 send to the delay
+  reverb: number;                     // 0–1 send to the reverb
+}
+
+export interface MixSettings {
+  channels: Record<Channel, ChannelStrip>;
+  delayBeats: number;                 // delay time in quarter notes, follows the tempo
+  feedback: number;                   // 0–0.9
+  reverbSize: number;                 // impulse length in seconds
+}
+
+export type SectionGrid = Pick<SectionDNA, 'steps' | 'timeSignature' | 'subdivision' | 'swing'>;
+
+// Per-section settings edited alongside the grid.
+export type SectionSettings = SectionGrid & Pick<SectionDNA, 'arpMode'>;
+
+export interface MasterDNA {
+  sections: Record<SectionKey, SectionDNA>;
+  // Song form; loops back to the first slot after the last.
+  arrangement: ArrangementSlot[];
+  genre: string;
+  palette: string;
+  energy: number;
+  color: string;
+  mood: string;
+  scale: string;
+  harmony: HarmonyMode;
+  aiThought?: string;
+  // Saved with the DNA but owned by the user: composer replies never carry one.
+  mix?: MixSettings;
+}